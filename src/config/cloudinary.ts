@@ -1,10 +0,0 @@
-/**
- * Cloudinary configuration removed
- * All images are now stored as Base64 strings in MongoDB
- * 
- * This file is kept for reference but exports nothing useful
- */
-
-export const cloudinary = null;
-export const storage = null;
-export const cloudinaryDisabled = true;
@@ -2,6 +2,8 @@ import dotenv from "dotenv";
 
 dotenv.config();
 
+type LlmProviderName = "gemini" | "openai" | "stub";
+
 interface Config {
   port: number;
   mongodbUri: string;
@@ -25,8 +27,80 @@ interface Config {
   };
   groqApiKey: string; // Deprecated: Use Gemini instead
   geminiApiKey: string;
+  adminEmails: string[];
+  vectorStore: "supabase" | "mongo";
+  llm: {
+    provider: LlmProviderName;
+    generationModel: string;
+    embeddingModel: string;
+    embeddingDimensions: number;
+    openaiBaseUrl: string;
+    openaiApiKey: string;
+  };
+  assistant: {
+    intentClassifier: "hybrid" | "rules" | "llm";
+  };
+  rag: {
+    chunkSize: number;
+    chunkOverlap: number;
+  };
+  checkIn: {
+    tokenSecret: string;
+    maxClockSkewMs: number;
+  };
+  series: {
+    horizonDays: number;
+    maxOccurrences: number;
+  };
+  geo: {
+    gazetteerPath: string;
+    defaultRadiusKm: number;
+    maxRadiusKm: number;
+    distanceWeight: number;
+  };
+  media: {
+    jsonBodyLimit: string;
+    maxInlineBytes: number;
+  };
+  storage: {
+    provider: "s3" | "cloudinary" | "local";
+    signedUrlTtlSeconds: number;
+    s3: {
+      region: string;
+      bucket: string;
+      accessKeyId: string;
+      secretAccessKey: string;
+    };
+    cloudinary: {
+      cloudName: string;
+      apiKey: string;
+      apiSecret: string;
+    };
+    local: {
+      dir: string;
+      signingSecret: string;
+      requireSignedUrls: boolean;
+    };
+  };
+  jobs: {
+    runWorkerInProcess: boolean;
+    pollIntervalMs: number;
+    maxAttempts: number;
+    backoffBaseMs: number;
+    lockTimeoutMs: number;
+  };
 }
 
+const llmProvider = (process.env.LLM_PROVIDER as LlmProviderName) || "gemini";
+
+// Model defaults per provider; LLM_* env vars override them
+const llmDefaults: Record<LlmProviderName, { generationModel: string; embeddingModel: string; embeddingDimensions: number }> = {
+  gemini: { generationModel: "gemini-2.0-flash", embeddingModel: "text-embedding-004", embeddingDimensions: 768 },
+  openai: { generationModel: "gpt-4o-mini", embeddingModel: "text-embedding-3-small", embeddingDimensions: 1536 },
+  stub: { generationModel: "stub", embeddingModel: "stub", embeddingDimensions: 768 },
+};
+const llmModelDefaults = llmDefaults[llmProvider] || llmDefaults.gemini; // Unknown providers fall back to gemini
+
 const config: Config = {
   port: parseInt(process.env.PORT || "3000", 10),
   mongodbUri: process.env.MONGODB_URI || "",
@@ -60,6 +134,104 @@ const config: Config = {
   },
   groqApiKey: process.env.GROQ_API_KEY || "",
   geminiApiKey: process.env.GEMINI_API_KEY || "",
+
+  // Users promoted to platform admin at startup (comma-separated in .env)
+  adminEmails: process.env.ADMIN_EMAILS
+    ? process.env.ADMIN_EMAILS.split(",").map(email => email.trim()).filter(Boolean)
+    : [],
+
+  // Vector store backend for event_embeddings (supabase | mongo)
+  vectorStore: (process.env.VECTOR_STORE as "supabase" | "mongo") || "supabase",
+
+  // LLM / Embedding provider (gemini | openai | stub)
+  // "openai" targets any OpenAI-compatible HTTP endpoint; "stub" is deterministic and offline
+  llm: {
+    provider: llmProvider,
+    generationModel: process.env.LLM_GENERATION_MODEL || llmModelDefaults.generationModel,
+    embeddingModel: process.env.LLM_EMBEDDING_MODEL || llmModelDefaults.embeddingModel,
+    embeddingDimensions: process.env.LLM_EMBEDDING_DIMENSIONS
+      ? parseInt(process.env.LLM_EMBEDDING_DIMENSIONS, 10)
+      : llmModelDefaults.embeddingDimensions,
+    openaiBaseUrl: process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+    openaiApiKey: process.env.OPENAI_API_KEY || "",
+  },
+
+  // Event assistant intent routing (hybrid = rules -> example-phrase similarity -> LLM)
+  assistant: {
+    intentClassifier: (process.env.ASSISTANT_INTENT_CLASSIFIER as "hybrid" | "rules" | "llm") || "hybrid",
+  },
+
+  // PDF chunking for the event assistant (sizes in characters, ~4 chars per token)
+  rag: {
+    chunkSize: parseInt(process.env.RAG_CHUNK_SIZE || "2000", 10),
+    chunkOverlap: parseInt(process.env.RAG_CHUNK_OVERLAP || "200", 10),
+  },
+
+  // Attendee check-in passes (signed QR tokens)
+  // maxClockSkewMs: how far in the future an offline scanner's timestamp may be before it is ignored
+  checkIn: {
+    tokenSecret: process.env.CHECKIN_TOKEN_SECRET || process.env.JWT_SECRET || "your-secret-key-change-in-production",
+    maxClockSkewMs: parseInt(process.env.CHECKIN_MAX_CLOCK_SKEW_MS || "300000", 10),
+  },
+
+  // Recurring events: how far ahead occurrences are materialized (rolled forward daily)
+  series: {
+    horizonDays: parseInt(process.env.SERIES_HORIZON_DAYS || "90", 10),
+    maxOccurrences: parseInt(process.env.SERIES_MAX_OCCURRENCES || "52", 10),
+  },
+
+  // "Events near me": locations are geocoded with an offline gazetteer (src/data/gazetteer.json
+  // unless GEO_GAZETTEER_PATH points to a larger file in the same format)
+  // distanceWeight: share of proximity (vs. embedding relevance) in ranked results
+  geo: {
+    gazetteerPath: process.env.GEO_GAZETTEER_PATH || "",
+    defaultRadiusKm: parseFloat(process.env.GEO_DEFAULT_RADIUS_KM || "25"),
+    maxRadiusKm: parseFloat(process.env.GEO_MAX_RADIUS_KM || "500"),
+    distanceWeight: parseFloat(process.env.GEO_DISTANCE_WEIGHT || "0.3"),
+  },
+
+  // Media always goes to object storage; documents keep references only.
+  // Inline Base64 (legacy clients) is still accepted up to maxInlineBytes per file,
+  // new clients upload with POST /api/upload (multipart)
+  media: {
+    jsonBodyLimit: process.env.JSON_BODY_LIMIT || "15mb",
+    maxInlineBytes: parseInt(process.env.MEDIA_MAX_INLINE_BYTES || String(10 * 1024 * 1024), 10),
+  },
+
+  // Object storage for media and QR codes (s3 | cloudinary | local)
+  // Local files are served by the API under /files; requireSignedUrls makes those readable through
+  // signed URLs only. Outside production a cloud provider without credentials falls back to
+  // the local disk; in production the server refuses to start instead.
+  storage: {
+    provider: (process.env.STORAGE_PROVIDER as "s3" | "cloudinary" | "local") || "s3",
+    signedUrlTtlSeconds: parseInt(process.env.STORAGE_SIGNED_URL_TTL_SECONDS || "900", 10),
+    s3: {
+      region: process.env.AWS_REGION || "us-east-1",
+      bucket: process.env.AWS_S3_BUCKET_NAME || "",
+      accessKeyId: process.env.AWS_ACCESS_KEY_ID || "",
+      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || "",
+    },
+    cloudinary: {
+      cloudName: process.env.CLOUDINARY_CLOUD_NAME || "",
+      apiKey: process.env.CLOUDINARY_API_KEY || "",
+      apiSecret: process.env.CLOUDINARY_API_SECRET || "",
+    },
+    local: {
+      dir: process.env.STORAGE_LOCAL_DIR || "storage",
+      signingSecret: process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET || "your-secret-key-change-in-production",
+      requireSignedUrls: process.env.STORAGE_LOCAL_REQUIRE_SIGNED_URLS === "true",
+    },
+  },
+
+  // Background job queue (MongoDB `jobs` collection)
+  // Set JOB_WORKER_IN_PROCESS=false when running the standalone worker (npm run worker)
+  jobs: {
+    runWorkerInProcess: process.env.JOB_WORKER_IN_PROCESS !== "false",
+    pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || "2000", 10),
+    maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || "5", 10),
+    backoffBaseMs: parseInt(process.env.JOB_BACKOFF_BASE_MS || "30000", 10),
+    lockTimeoutMs: parseInt(process.env.JOB_LOCK_TIMEOUT_MS || "900000", 10),
+  },
 };
 
 // Validate critical config
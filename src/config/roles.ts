@@ -0,0 +1,97 @@
+/**
+ * Role-based access control definitions
+ *
+ * Platform roles live on the user (`User.accessRoles`) and apply everywhere.
+ * Event roles are scoped to a single event/community (`User.eventRoles`).
+ * Event team members other than the creator join through invitations (see TeamService).
+ * Permissions are never stored directly; they are derived from roles here.
+ */
+
+export type PlatformRole = "admin" | "moderator" | "member";
+export type EventRole =
+    | "organizer"
+    | "co_organizer"
+    | "content_editor"   // Event content and agenda
+    | "member_manager"   // Attendees, waitlist and check-in
+    | "checkin_staff";   // Check-in only
+export type Role = PlatformRole | EventRole;
+
+export type Permission =
+    | "events:moderate"       // Review, verify and reject submitted events
+    | "events:view_all"       // List every event regardless of verification
+    | "events:update"         // Edit an event's settings (capacity, schedule, visibility...)
+    | "events:edit_content"   // Edit an event's description, media and agenda
+    | "events:delete"         // Delete an event
+    | "events:manage_members" // Add, update and remove event members
+    | "events:check_in"       // Scan attendee passes and view check-in counts
+    | "events:manage_team"    // Invite and remove event staff
+    | "events:view_analytics" // Views, joins, assistant and search activity, retention
+    | "roles:manage"          // Grant and revoke roles
+    | "jobs:manage";          // Inspect and retry any background job
+
+export const PLATFORM_ROLES: PlatformRole[] = ["admin", "moderator", "member"];
+export const EVENT_ROLES: EventRole[] = ["organizer", "co_organizer", "content_editor", "member_manager", "checkin_staff"];
+
+/**
+ * Event roles that can be offered through a team invitation
+ * (organizer is the event creator; co-organizers can only be invited by an organizer)
+ */
+export const INVITABLE_EVENT_ROLES: EventRole[] = ["co_organizer", "content_editor", "member_manager", "checkin_staff"];
+
+/**
+ * Permissions that are checked against a specific event.
+ * Platform roles that hold them apply to every event.
+ */
+export const EVENT_SCOPED_PERMISSIONS: Permission[] = [
+    "events:update",
+    "events:edit_content",
+    "events:delete",
+    "events:manage_members",
+    "events:check_in",
+    "events:manage_team",
+    "events:view_analytics",
+];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+    admin: [
+        "events:moderate",
+        "events:view_all",
+        "events:update",
+        "events:edit_content",
+        "events:delete",
+        "events:manage_members",
+        "events:check_in",
+        "events:manage_team",
+        "events:view_analytics",
+        "roles:manage",
+        "jobs:manage",
+    ],
+    moderator: ["events:moderate", "events:view_all"],
+    member: [],
+    organizer: [
+        "events:update",
+        "events:edit_content",
+        "events:delete",
+        "events:manage_members",
+        "events:check_in",
+        "events:manage_team",
+        "events:view_analytics",
+    ],
+    co_organizer: [
+        "events:update",
+        "events:edit_content",
+        "events:manage_members",
+        "events:check_in",
+        "events:manage_team",
+        "events:view_analytics",
+    ],
+    content_editor: ["events:edit_content"],
+    member_manager: ["events:manage_members", "events:check_in"],
+    checkin_staff: ["events:check_in"],
+};
+
+export const isPlatformRole = (role: string): role is PlatformRole =>
+    (PLATFORM_ROLES as string[]).includes(role);
+
+export const isEventRole = (role: string): role is EventRole =>
+    (EVENT_ROLES as string[]).includes(role);
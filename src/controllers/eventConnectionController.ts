@@ -1,30 +1,36 @@
 
-import { Request, Response } from 'express';
+import { Response } from 'express';
 import mongoose from 'mongoose';
+import { AuthRequest } from '../types';
 
 import CommunityConnection from '../models/CommunityConnection';
 import EventMember from '../models/EventMember';
 import EventConnection from '../models/EventConnection';
 import { Event } from '../models/Event';
-import { User } from '../models/User';
-import { Notification } from '../models/Notification';
+import { TeamService } from '../services/teamService';
 import * as XLSX from 'xlsx';
 import { AssistantPipeline } from '../pipelines/assistant_pipeline';
+import { ConversationService } from '../services/conversationService';
+import { RsvpService } from '../services/rsvpService';
+import { PaginationService } from '../services/paginationService';
+import { AnalyticsService } from '../services/analyticsService';
 
 /**
  * Toggle event participation - join or leave an event
  * POST /event-connections/toggle-participation
- * Now uses unified MemberManagementService pipeline with embeddings
+ * Always acts on the authenticated user; a client-supplied participantId is ignored
+ * Goes through RSVPs: joining a full event puts the user on the waitlist
  */
-export const toggleEventParticipation = async (req: Request, res: Response) => {
+export const toggleEventParticipation = async (req: AuthRequest, res: Response) => {
     try {
-        const { eventId, participantId } = req.body;
+        const { eventId } = req.body;
+        const participantId = req.user!.userId;
         console.log(`\n🔘 [TOGGLE PARTICIPATION] Event: ${eventId}, User: ${participantId}`);
 
-        if (!eventId || !participantId) {
+        if (!eventId) {
             return res.status(400).json({
                 success: false,
-                message: 'Event ID and Participant ID are required'
+                message: 'Event ID is required'
             });
         }
 
@@ -34,88 +40,56 @@ export const toggleEventParticipation = async (req: Request, res: Response) => {
             return res.status(404).json({ success: false, message: 'Event not found' });
         }
 
-        const user = await User.findById(participantId);
-        if (!user) {
-            console.log('❌ User not found');
-            return res.status(404).json({ success: false, message: 'User not found' });
-        }
-
-        // Check if already joined (only check EventMember now - single source of truth)
-        const existingMember = await EventMember.findOne({ eventId, userId: participantId });
+        // Joined = holds a seat (going) or waits for one (waitlisted)
+        const rsvp = await RsvpService.getRsvp(eventId, participantId);
+        const isParticipating = rsvp
+            ? rsvp.status === 'going' || rsvp.status === 'waitlisted'
+            : !!(await EventMember.exists({ eventId, userId: participantId }));
 
-        if (existingMember) {
+        if (isParticipating) {
             console.log('🚪 User is leaving event...');
 
-            // Use MemberManagementService to remove (handles embedding deletion)
-            const { MemberManagementService } = require('../services/memberManagementService');
-            const result = await MemberManagementService.removeMemberFromEvent(eventId, participantId);
-
-            if (result.success) {
-                console.log('✅ User left event and embedding deleted');
-                return res.status(200).json({
-                    success: true,
-                    message: 'Successfully left',
-                    isJoined: false
-                });
-            } else {
+            // Frees the seat (embedding deleted) and promotes the next person on the waitlist
+            const result = await RsvpService.cancel(event, participantId);
+            if (!result.success) {
                 throw new Error(result.message);
             }
-        } else {
-            console.log('➕ User is joining event...');
-
-            // Use MemberManagementService pipeline (handles user creation, embedding generation)
-            const { MemberManagementService } = require('../services/memberManagementService');
-
-            // Prepare member data from existing user
-            const memberData = {
-                name: user.name,
-                founderName: user.name,
-                company: user.company || '',
-                organisation: user.company || '',
-                bio: user.oneLiner || '',
-                about: user.oneLiner || '',
-                website: user.website || '',
-                phoneNumber: user.phoneNumber,
-                email: user.email,
-            };
-
-            // Add member using unified pipeline (creates embedding automatically)
-            const result = await MemberManagementService.addMemberToEvent(
-                eventId,
-                event.createdBy.toString(),
-                memberData,
-                'join' // source
-            );
-
-            if (result.success) {
-                console.log(`✅ User joined event. Embedding created: ${result.embeddingCreated}`);
-
-                // Create Notification
-                try {
-                    if (event.createdBy.toString() !== participantId) {
-                        await Notification.create({
-                            recipientId: event.createdBy,
-                            actorId: participantId,
-                            eventId: event._id,
-                            type: 'EVENT_JOIN'
-                        });
-                    }
-                } catch (notifyErr) {
-                    console.error('Failed to create notification:', notifyErr);
-                }
 
-                return res.status(200).json({
-                    success: true,
-                    message: event.isCommunity ? 'Successfully joined community' : 'Successfully joined event',
-                    isJoined: true,
-                    embeddingCreated: result.embeddingCreated,
-                    isNewUser: result.isNewUser
-                });
-            } else {
-                throw new Error(result.message);
-            }
+            console.log('✅ User left event');
+            return res.status(200).json({
+                success: true,
+                message: result.message,
+                isJoined: false
+            });
+        }
+
+        console.log('➕ User is joining event...');
+
+        // Takes a seat (member pipeline with embeddings) or joins the waitlist when full
+        const result = await RsvpService.respond(event, participantId, 'going');
+        if (!result.success) {
+            return res.status(400).json({ success: false, message: result.message });
+        }
+
+        if (result.status === 'waitlisted') {
+            return res.status(200).json({
+                success: true,
+                message: result.message,
+                isJoined: false,
+                isWaitlisted: true,
+                waitlistPosition: result.waitlistPosition
+            });
         }
 
+        // Notify the event team
+        await TeamService.notifyTeam(event, 'EVENT_JOIN', participantId);
+
+        return res.status(200).json({
+            success: true,
+            message: event.isCommunity ? 'Successfully joined community' : 'Successfully joined event',
+            isJoined: true
+        });
+
     } catch (error) {
         console.error('❌ Error toggling participation:', error);
         return res.status(500).json({
@@ -130,15 +104,16 @@ export const toggleEventParticipation = async (req: Request, res: Response) => {
  * Check if user has joined an event
  * GET /event-connections/check/:eventId/:participantId
  */
-export const checkEventParticipation = async (req: Request, res: Response) => {
+export const checkEventParticipation = async (req: AuthRequest, res: Response) => {
     try {
         const { eventId, participantId } = req.params;
 
-        const [existingMember, existingConn, existingComm, event] = await Promise.all([
+        const [existingMember, existingConn, existingComm, event, rsvp] = await Promise.all([
             EventMember.findOne({ eventId, userId: participantId }),
             EventConnection.findOne({ eventId, participantId }),
             CommunityConnection.findOne({ eventId, participantId }),
-            Event.findById(eventId)
+            Event.findById(eventId),
+            RsvpService.getRsvp(eventId, participantId)
         ]);
 
         const isAtendeeInArray = event?.attendees?.some(id => id.toString() === participantId) || false;
@@ -147,6 +122,7 @@ export const checkEventParticipation = async (req: Request, res: Response) => {
         return res.status(200).json({
             success: true,
             isJoined,
+            rsvpStatus: rsvp?.status || (isJoined ? 'going' : null),
             connection: existingMember || existingConn || existingComm
         });
     } catch (error) {
@@ -160,10 +136,11 @@ export const checkEventParticipation = async (req: Request, res: Response) => {
 };
 
 /**
- * Get all participants for an event
- * GET /event-connections/participants/:eventId
+ * Get all participants for an event, ordered by name
+ * GET /event-connections/participants/:eventId?limit=&cursor=
+ * Sources are merged and deduplicated in memory, then paged; `count` is the size of this page
  */
-export const getEventParticipants = async (req: Request, res: Response) => {
+export const getEventParticipants = async (req: AuthRequest, res: Response) => {
     try {
         const { eventId } = req.params;
         console.log(`\n🔍 [FETCH PARTICIPANTS] Event ID: ${eventId}`);
@@ -173,6 +150,11 @@ export const getEventParticipants = async (req: Request, res: Response) => {
             return res.status(400).json({ success: false, message: 'Invalid event ID' });
         }
 
+        const { page, error: pageError } = PaginationService.parse(req.query, ['participants']);
+        if (!page) {
+            return res.status(400).json({ success: false, message: pageError });
+        }
+
         const objEventId = new mongoose.Types.ObjectId(eventId);
 
         // Fetch from all possible sources with logs
@@ -210,8 +192,10 @@ export const getEventParticipants = async (req: Request, res: Response) => {
             // Handle both flat (EventMember) and nested (EventConnection/attendees) structures
             const userData = m.participantId || m.userId || (m.email || m.phoneNumber || m.name ? m : null);
             const userId = userData?._id?.toString() || m.userId?.toString() || m.participantId?.toString() || (typeof m === 'string' ? m : m._id?.toString());
-            const name = userData?.name || m.name || 'Unknown';
-            const phone = userData?.phoneNumber || m.phoneNumber || '';
+            // Organizer edits for this event (EventMember.profile) win over the account
+            const profile = m.profile || {};
+            const name = profile.name || userData?.name || m.name || 'Unknown';
+            const phone = profile.phoneNumber || userData?.phoneNumber || m.phoneNumber || '';
             const email = userData?.email || m.email || '';
 
             const key = phone ? `phone:${phone}` : (email ? `email:${email}` : `id:${userId}`);
@@ -224,8 +208,8 @@ export const getEventParticipants = async (req: Request, res: Response) => {
                     email: email,
                     photoUrl: userData?.photoUrl || m.photoUrl || '',
                     role: userData?.role || m.role || '',
-                    company: userData?.company || m.company || '',
-                    oneLiner: userData?.oneLiner || m.oneLiner || '',
+                    company: profile.company || userData?.company || m.company || '',
+                    oneLiner: profile.oneLiner || userData?.oneLiner || m.oneLiner || '',
                     source: m.source || source,
                     joinedAt: m.joinedAt || m.createdAt || eventDoc?.createdAt,
                     userId: userId
@@ -248,11 +232,15 @@ export const getEventParticipants = async (req: Request, res: Response) => {
             eventDoc.attendees.forEach((u: any) => addMember(u, 'join'));
         }
 
-        const participants = Array.from(combinedMembers.values()).sort((a, b) =>
-            (a.name || '').localeCompare(b.name || '')
+        const { items: participants, nextCursor } = PaginationService.pageInMemory(
+            Array.from(combinedMembers.values()),
+            page,
+            'participants',
+            1,
+            p => ({ value: p.name || '', id: p._id })
         );
 
-        console.log(`✅ FINAL TOTAL participants for event ${eventId}: ${participants.length}`);
+        console.log(`✅ FINAL TOTAL participants for event ${eventId}: ${combinedMembers.size}`);
 
         // DEBUG: Show first participant's full data
         if (participants.length > 0) {
@@ -265,7 +253,9 @@ export const getEventParticipants = async (req: Request, res: Response) => {
         return res.status(200).json({
             success: true,
             count: participants.length,
-            participants: participants
+            total: combinedMembers.size,
+            participants: participants,
+            nextCursor
         });
 
     } catch (error) {
@@ -284,10 +274,9 @@ export const getEventParticipants = async (req: Request, res: Response) => {
  * POST /event-connections/add-member
  * Now uses MemberPipeline for consistency
  */
-export const addManualMember = async (req: Request, res: Response) => {
+export const addManualMember = async (req: AuthRequest, res: Response) => {
     try {
         const { eventId, name, phoneNumber, email, company, bio, description } = req.body;
-        let { organizerId } = req.body;
 
         console.log(`\n➕ [ADD MANUAL MEMBER] Event: ${eventId}, Name: ${name}`);
 
@@ -304,10 +293,8 @@ export const addManualMember = async (req: Request, res: Response) => {
             return res.status(404).json({ success: false, message: 'Event not found' });
         }
 
-        // Auto-fill organizer if not provided
-        if (!organizerId) {
-            organizerId = event.createdBy;
-        }
+        // Members are always recorded against the event's owner, never a client-supplied id
+        const organizerId = event.createdBy.toString();
 
         // Use MemberPipeline for consistent handling
         const { MemberPipeline } = require('../pipelines/member_pipeline');
@@ -362,31 +349,23 @@ export const addManualMember = async (req: Request, res: Response) => {
  * Upload members from Excel
  * POST /event-connections/upload-members
  */
-export const uploadMembersExcel = async (req: Request, res: Response) => {
+export const uploadMembersExcel = async (req: AuthRequest, res: Response) => {
     try {
         if (!req.file) {
             return res.status(400).json({ success: false, message: 'No file uploaded' });
         }
 
-        let { eventId, organizerId } = req.body;
-
-        // Fallback to query params if not in body
-        if (!eventId) eventId = req.query.eventId;
-        if (!organizerId) organizerId = req.query.organizerId;
+        const eventId = req.body.eventId || req.query.eventId;
 
         if (!eventId) {
             return res.status(400).json({ success: false, message: 'EventId is required' });
         }
 
-        // Auto-fetch organizerId if missing
-        if (!organizerId) {
-            const event = await Event.findById(eventId);
-            if (event) {
-                organizerId = event.createdBy;
-            } else {
-                return res.status(404).json({ success: false, message: 'Event not found' });
-            }
+        const event = await Event.findById(eventId);
+        if (!event) {
+            return res.status(404).json({ success: false, message: 'Event not found' });
         }
+        const organizerId = event.createdBy;
 
         const workbook = XLSX.read(req.file.buffer, { type: 'buffer' });
         const sheetName = workbook.SheetNames[0];
@@ -420,6 +399,7 @@ export const uploadMembersExcel = async (req: Request, res: Response) => {
                         phoneNumber: phone,
                         source: 'excel'
                     });
+                    await Event.updateOne({ _id: eventId }, { $inc: { goingCount: 1 } });
                     added.push(newMember);
                 } catch (err) {
                     console.warn('Error adding member from excel:', name, err);
@@ -449,10 +429,12 @@ export const uploadMembersExcel = async (req: Request, res: Response) => {
 /**
  * Ask the Event Assistant
  * POST /event-connections/ask
+ * Body: { eventId, question, conversationId? }
  */
-export const askAssistant = async (req: Request, res: Response) => {
+export const askAssistant = async (req: AuthRequest, res: Response) => {
     try {
-        const { eventId, question, userId } = req.body;
+        const { eventId, question, conversationId } = req.body;
+        const userId = req.user!.userId;
 
         if (!eventId || !question) {
             return res.status(400).json({
@@ -461,12 +443,41 @@ export const askAssistant = async (req: Request, res: Response) => {
             });
         }
 
-        const result = await AssistantPipeline.askQuestion(eventId, question, userId);
+        if (!mongoose.Types.ObjectId.isValid(eventId)) {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid eventId'
+            });
+        }
+
+        const conversation = await ConversationService.getOrCreate(userId, eventId, conversationId);
+        if (!conversation) {
+            return res.status(404).json({
+                success: false,
+                message: 'Conversation not found'
+            });
+        }
+
+        const result = await AssistantPipeline.askQuestion(
+            eventId,
+            question,
+            userId,
+            ConversationService.getHistory(conversation)
+        );
+
+        await ConversationService.appendTurn(conversation, question, result.answer, result.rewrittenQuestion);
+        AnalyticsService.track('assistant_question', eventId, userId, { intent: result.intent });
 
         return res.status(200).json({
             success: true,
             answer: result.answer,
-            sources: result.sources
+            intent: result.intent,
+            sources: result.sources,
+            confidence: result.confidence,
+            citations: result.citations,
+            grounded: result.grounded,
+            unsupportedClaims: result.unsupportedClaims,
+            conversationId: conversation._id
         });
 
     } catch (error) {
@@ -1,37 +1,33 @@
-import { Request, Response } from 'express';
+import { Response } from 'express';
 import XLSX from 'xlsx';
 import { Event } from '../models/Event';
-import { MemberManagementService } from '../services/memberManagementService';
+import { JobQueueService } from '../services/jobQueue';
+import { AuthRequest } from '../types';
 
 /**
- * Enhanced Excel upload with automatic user creation and embedding generation
+ * Enhanced Excel upload: parses rows and queues a members.import job
+ * (user creation + embeddings happen in the background worker)
  * POST /event-connections/upload-members-enhanced
  */
-export const uploadMembersExcelEnhanced = async (req: Request, res: Response) => {
+export const uploadMembersExcelEnhanced = async (req: AuthRequest, res: Response) => {
     try {
         if (!req.file) {
             return res.status(400).json({ success: false, message: 'No file uploaded' });
         }
 
-        let { eventId, organizerId } = req.body;
-
         // Fallback to query params if not in body
-        if (!eventId) eventId = req.query.eventId;
-        if (!organizerId) organizerId = req.query.organizerId;
+        const eventId = (req.body.eventId || req.query.eventId) as string;
 
         if (!eventId) {
             return res.status(400).json({ success: false, message: 'EventId is required' });
         }
 
-        // Auto-fetch organizerId if missing
-        if (!organizerId) {
-            const event = await Event.findById(eventId);
-            if (event) {
-                organizerId = event.createdBy;
-            } else {
-                return res.status(404).json({ success: false, message: 'Event not found' });
-            }
+        // Members are always recorded against the event's owner, never a client-supplied id
+        const event = await Event.findById(eventId).select('createdBy');
+        if (!event) {
+            return res.status(404).json({ success: false, message: 'Event not found' });
         }
+        const organizerId = event.createdBy.toString();
 
         // Parse Excel file
         const workbook = XLSX.read(req.file.buffer, { type: 'buffer' });
@@ -160,33 +156,18 @@ export const uploadMembersExcelEnhanced = async (req: Request, res: Response) =>
             });
         }
 
-        // Process all members using the service
-        const result = await MemberManagementService.addMembersFromJSON(
-            eventId,
-            organizerId,
-            members,
-            'excel'
+        // Import (user creation + embeddings) runs in the background job worker
+        const job = await JobQueueService.enqueue(
+            'members.import',
+            { eventId, organizerId, members, source: 'excel' },
+            { createdBy: req.user!.userId, eventId }
         );
 
-        return res.status(200).json({
+        return res.status(202).json({
             success: true,
-            message: `Processed ${result.totalProcessed} members from Excel`,
-            totalProcessed: result.totalProcessed,
-            added: result.added,
-            skipped: result.skipped,
-            failed: result.failed,
-            // Frontend compatibility fields
-            addedCount: result.added,
-            duplicateCount: result.skipped,
-            duplicates: [],  // Can add details if needed
-            newUsersCreated: result.results.filter(r => r.isNewUser).length,
-            embeddingsCreated: result.results.filter(r => r.embeddingCreated).length,
-            details: result.results.map((r) => ({
-                userId: r.userId,
-                isNewUser: r.isNewUser,
-                embeddingCreated: r.embeddingCreated,
-                message: r.message,
-            })),
+            message: `Queued ${members.length} members from Excel for import`,
+            jobId: job._id,
+            totalQueued: members.length,
         });
 
     } catch (error) {
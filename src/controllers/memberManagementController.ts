@@ -1,15 +1,22 @@
-import { Request, Response } from 'express';
+import { Response } from 'express';
 import { MemberManagementService } from '../services/memberManagementService';
 import { Event } from '../models/Event';
+import EventMember from '../models/EventMember';
+import { AuthRequest } from '../types';
+import { JobQueueService } from '../services/jobQueue';
+import { RsvpService } from '../services/rsvpService';
+
+// Profile fields an organizer may change on a member; anything else in `updates` is ignored
+const MEMBER_UPDATABLE_FIELDS = ['name', 'company', 'website', 'phoneNumber', 'oneLiner'];
 
 /**
- * Add members from JSON array
+ * Add members from JSON array (queued as a members.import job)
  * POST /event-connections/add-members-json
- * Body: { eventId, organizerId?, members: [...] }
+ * Body: { eventId, members: [...] }
  */
-export const addMembersFromJSON = async (req: Request, res: Response) => {
+export const addMembersFromJSON = async (req: AuthRequest, res: Response) => {
     try {
-        let { eventId, organizerId, members } = req.body;
+        const { eventId, members } = req.body;
 
         // Validate inputs
         if (!eventId) {
@@ -26,42 +33,30 @@ export const addMembersFromJSON = async (req: Request, res: Response) => {
             });
         }
 
-        // Auto-fetch organizerId if missing
-        if (!organizerId) {
-            const event = await Event.findById(eventId);
-            if (event) {
-                organizerId = event.createdBy;
-            } else {
-                return res.status(404).json({
-                    success: false,
-                    message: 'Event not found',
-                });
-            }
+        // Members are always recorded against the event's owner, never a client-supplied id
+        const event = await Event.findById(eventId).select('createdBy');
+        if (!event) {
+            return res.status(404).json({
+                success: false,
+                message: 'Event not found',
+            });
         }
+        const organizerId = event.createdBy.toString();
 
-        console.log(`📋 Processing ${members.length} members for event ${eventId}`);
+        console.log(`📋 Queueing ${members.length} members for event ${eventId}`);
 
-        // Process all members
-        const result = await MemberManagementService.addMembersFromJSON(
-            eventId,
-            organizerId,
-            members,
-            'manual'
+        // Import (user creation + embeddings) runs in the background job worker
+        const job = await JobQueueService.enqueue(
+            'members.import',
+            { eventId, organizerId, members, source: 'manual' },
+            { createdBy: req.user!.userId, eventId }
         );
 
-        return res.status(200).json({
+        return res.status(202).json({
             success: true,
-            message: `Processed ${result.totalProcessed} members`,
-            totalProcessed: result.totalProcessed,
-            added: result.added,
-            skipped: result.skipped,
-            failed: result.failed,
-            details: result.results.map((r) => ({
-                userId: r.userId,
-                isNewUser: r.isNewUser,
-                embeddingCreated: r.embeddingCreated,
-                message: r.message,
-            })),
+            message: `Queued ${members.length} members for import`,
+            jobId: job._id,
+            totalQueued: members.length,
         });
     } catch (error) {
         console.error('❌ Error adding members from JSON:', error);
@@ -76,11 +71,11 @@ export const addMembersFromJSON = async (req: Request, res: Response) => {
 /**
  * Add a single member manually
  * POST /event-connections/add-member
- * Body: { eventId, organizerId?, memberData: {...} }
+ * Body: { eventId, memberData: {...} }
  */
-export const addSingleMember = async (req: Request, res: Response) => {
+export const addSingleMember = async (req: AuthRequest, res: Response) => {
     try {
-        let { eventId, organizerId, memberData } = req.body;
+        const { eventId, memberData } = req.body;
 
         if (!eventId || !memberData) {
             return res.status(400).json({
@@ -89,18 +84,15 @@ export const addSingleMember = async (req: Request, res: Response) => {
             });
         }
 
-        // Auto-fetch organizerId if missing
-        if (!organizerId) {
-            const event = await Event.findById(eventId);
-            if (event) {
-                organizerId = event.createdBy;
-            } else {
-                return res.status(404).json({
-                    success: false,
-                    message: 'Event not found',
-                });
-            }
+        // Members are always recorded against the event's owner, never a client-supplied id
+        const event = await Event.findById(eventId).select('createdBy');
+        if (!event) {
+            return res.status(404).json({
+                success: false,
+                message: 'Event not found',
+            });
         }
+        const organizerId = event.createdBy.toString();
 
         const result = await MemberManagementService.addMemberToEvent(
             eventId,
@@ -134,11 +126,11 @@ export const addSingleMember = async (req: Request, res: Response) => {
 };
 
 /**
- * Update member profile
+ * Update a member's profile for this event (stored on the membership, not the user's account)
  * PUT /event-connections/update-member
  * Body: { eventId, userId, updates: {...} }
  */
-export const updateMemberProfile = async (req: Request, res: Response) => {
+export const updateMemberProfile = async (req: AuthRequest, res: Response) => {
     try {
         const { eventId, userId, updates } = req.body;
 
@@ -149,10 +141,29 @@ export const updateMemberProfile = async (req: Request, res: Response) => {
             });
         }
 
+        // Organizers may only edit people who are members of their own event
+        const membership = await EventMember.findOne({ eventId, userId });
+        if (!membership) {
+            return res.status(404).json({
+                success: false,
+                message: 'User is not a member of this event',
+            });
+        }
+
+        const allowedUpdates: Record<string, any> = {};
+        for (const field of MEMBER_UPDATABLE_FIELDS) {
+            if (updates[field] !== undefined) {
+                allowedUpdates[field] = updates[field];
+            }
+        }
+        if (updates.bio !== undefined && allowedUpdates.oneLiner === undefined) {
+            allowedUpdates.oneLiner = updates.bio;
+        }
+
         const result = await MemberManagementService.updateMemberProfile(
             eventId,
             userId,
-            updates
+            allowedUpdates
         );
 
         if (result.success) {
@@ -175,7 +186,7 @@ export const updateMemberProfile = async (req: Request, res: Response) => {
  * DELETE /event-connections/remove-member
  * Body: { eventId, userId }
  */
-export const removeMemberFromEvent = async (req: Request, res: Response) => {
+export const removeMemberFromEvent = async (req: AuthRequest, res: Response) => {
     try {
         const { eventId, userId } = req.body;
 
@@ -186,7 +197,16 @@ export const removeMemberFromEvent = async (req: Request, res: Response) => {
             });
         }
 
-        const result = await MemberManagementService.removeMemberFromEvent(eventId, userId);
+        const membership = await EventMember.findOne({ eventId, userId });
+        if (!membership) {
+            return res.status(404).json({
+                success: false,
+                message: 'User is not a member of this event',
+            });
+        }
+
+        // Frees the seat for the waitlist as well
+        const result = await RsvpService.removeAttendee(eventId, userId);
 
         if (result.success) {
             return res.status(200).json(result);
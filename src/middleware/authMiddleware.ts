@@ -57,7 +57,7 @@ export const authMiddleware = async (
     }
 
     // Get user from database
-    const user = await User.findById(decoded.userId).select("email isBlocked");
+    const user = await User.findById(decoded.userId).select("email isBlocked accessRoles");
 
     if (!user) {
       res.status(401).json({
@@ -82,6 +82,7 @@ export const authMiddleware = async (
     req.user = {
       userId: decoded.userId,
       email: decoded.email,
+      roles: user.accessRoles?.length ? user.accessRoles : ["member"],
     };
 
     next();
@@ -6,6 +6,19 @@
 import { Request, Response, NextFunction } from 'express';
 import cacheService, { CacheTTL } from '../services/cacheService';
 
+/**
+ * Path plus query parameters in a fixed order, without `nocache`, so that
+ * `?cursor=a&limit=20` and `?limit=20&cursor=a` share an entry and every cursor gets its own
+ */
+const buildUrlKey = (originalUrl: string): string => {
+    const [path, queryString = ''] = originalUrl.split('?');
+    const params = new URLSearchParams(queryString);
+    params.delete('nocache');
+    params.sort();
+    const query = params.toString();
+    return query ? `${path}?${query}` : path;
+};
+
 /**
  * Cache middleware factory
  * @param {number} ttl - Time to live in milliseconds
@@ -24,10 +37,7 @@ export const cacheMiddleware = (ttl: number = CacheTTL.MEDIUM, keyGenerator: ((r
             const bypassCache = req.query.nocache === 'true' || req.headers['x-force-refresh'] === 'true';
 
             // Generate cache key (remove nocache param to share key with normal requests)
-            let urlForKey = req.originalUrl.replace(/[?&]nocache=true/, '');
-            if (urlForKey.endsWith('?') || urlForKey.endsWith('&')) {
-                urlForKey = urlForKey.slice(0, -1);
-            }
+            const urlForKey = buildUrlKey(req.originalUrl);
 
             const cacheKey = keyGenerator
                 ? keyGenerator(req)
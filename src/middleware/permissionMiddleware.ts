@@ -0,0 +1,70 @@
+import { Response, NextFunction } from "express";
+import { AuthRequest } from "../types";
+import { Permission, EVENT_SCOPED_PERMISSIONS } from "../config/roles";
+import { RbacService } from "../services/rbacService";
+
+type EventIdResolver = (req: AuthRequest) => string | undefined;
+
+/**
+ * Default lookup for the event a request targets: route params first, then body, then query
+ */
+const defaultEventIdResolver: EventIdResolver = (req) =>
+  req.params.eventId ||
+  req.params.id ||
+  req.body?.eventId ||
+  (req.query.eventId as string | undefined);
+
+/**
+ * Middleware factory to require a permission
+ * Must run after authMiddleware.
+ * Event-scoped permissions are checked against the event resolved from the request.
+ */
+export const requirePermission = (
+  permission: Permission,
+  resolveEventId: EventIdResolver = defaultEventIdResolver
+) => {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    (async () => {
+      if (!req.user) {
+        res.status(401).json({
+          error: "Unauthorized",
+          message: "User not authenticated",
+        });
+        return;
+      }
+
+      const isEventScoped = EVENT_SCOPED_PERMISSIONS.includes(permission);
+      const eventId = isEventScoped ? resolveEventId(req) : undefined;
+
+      if (isEventScoped) {
+        if (!eventId) {
+          res.status(400).json({
+            error: "Bad Request",
+            message: "eventId is required",
+          });
+          return;
+        }
+
+        const eventRoles = await RbacService.getEventRoles(req.user.userId, eventId);
+        if (eventRoles === null) {
+          res.status(404).json({
+            error: "Not Found",
+            message: "Event not found",
+          });
+          return;
+        }
+      }
+
+      const allowed = await RbacService.hasPermission(req.user.userId, permission, eventId);
+      if (!allowed) {
+        res.status(403).json({
+          error: "Forbidden",
+          message: `Missing permission: ${permission}`,
+        });
+        return;
+      }
+
+      next();
+    })().catch(next);
+  };
+};
@@ -0,0 +1,52 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type AnalyticsEventType =
+    | 'view'                // Event page opened
+    | 'join'                // Took a seat (RSVP going, promotion from the waitlist)
+    | 'leave'               // Gave up a seat or was removed
+    | 'not_interested'      // Hidden from the user's discovery list
+    | 'assistant_question'  // Question to the event assistant (intent only, not the text)
+    | 'member_search'       // Member search query
+    | 'connection_request'; // Connection request between two attendees of the event
+
+export const ANALYTICS_EVENT_TYPES: AnalyticsEventType[] = [
+    'view',
+    'join',
+    'leave',
+    'not_interested',
+    'assistant_question',
+    'member_search',
+    'connection_request',
+];
+
+/**
+ * One interaction with an event or community, aggregated by AnalyticsService
+ */
+export interface IAnalyticsEvent extends Document {
+    eventId: mongoose.Types.ObjectId;
+    type: AnalyticsEventType;
+    userId?: mongoose.Types.ObjectId;
+    targetUserId?: mongoose.Types.ObjectId; // connection_request: the other attendee
+    intent?: string;                         // assistant_question
+    query?: string;                          // member_search (normalized)
+    createdAt: Date;
+}
+
+const AnalyticsEventSchema = new Schema<IAnalyticsEvent>(
+    {
+        eventId: { type: Schema.Types.ObjectId, ref: 'Event', required: true },
+        type: { type: String, enum: ANALYTICS_EVENT_TYPES, required: true },
+        userId: { type: Schema.Types.ObjectId, ref: 'User' },
+        targetUserId: { type: Schema.Types.ObjectId, ref: 'User' },
+        intent: { type: String },
+        query: { type: String, maxlength: 200 },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    }
+);
+
+AnalyticsEventSchema.index({ eventId: 1, type: 1, createdAt: 1 });
+AnalyticsEventSchema.index({ eventId: 1, userId: 1, type: 1, createdAt: -1 });
+
+export const AnalyticsEvent = mongoose.model<IAnalyticsEvent>('AnalyticsEvent', AnalyticsEventSchema);
@@ -0,0 +1,52 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IAssistantMessage {
+    role: 'user' | 'assistant';
+    content: string;
+    rewrittenQuery?: string;   // Standalone version of a follow-up question (user turns only)
+    createdAt: Date;
+}
+
+/**
+ * Event assistant conversation, owned by one user and scoped to one event
+ */
+export interface IAssistantConversation extends Document {
+    userId: mongoose.Types.ObjectId;
+    eventId: mongoose.Types.ObjectId;
+    title: string;             // First question, truncated
+    messages: IAssistantMessage[];
+    lastMessageAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const AssistantMessageSchema = new Schema<IAssistantMessage>(
+    {
+        role: { type: String, enum: ['user', 'assistant'], required: true },
+        content: { type: String, required: true },
+        rewrittenQuery: { type: String },
+        createdAt: { type: Date, default: Date.now },
+    },
+    { _id: false }
+);
+
+const AssistantConversationSchema = new Schema<IAssistantConversation>(
+    {
+        userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        eventId: { type: Schema.Types.ObjectId, ref: 'Event', required: true },
+        title: { type: String, default: '' },
+        messages: [AssistantMessageSchema],
+        lastMessageAt: { type: Date, default: Date.now },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+AssistantConversationSchema.index({ userId: 1, eventId: 1, lastMessageAt: -1 });
+AssistantConversationSchema.index({ userId: 1, lastMessageAt: -1 });
+
+export const AssistantConversation = mongoose.model<IAssistantConversation>(
+    'AssistantConversation',
+    AssistantConversationSchema
+);
@@ -1,23 +1,102 @@
 import mongoose, { Document, Schema } from "mongoose";
+import { IMediaRef, MediaRefSchema } from "./Media";
 
 console.log("LOADING EVENT SCHEMA DEFINITION v3 - " + new Date().toISOString());
 
+export type RecurrenceFrequency = "WEEKLY" | "MONTHLY";
+
+/**
+ * RRULE-style recurrence for an event series, expanded in the `tzid` time zone (UTC when unset)
+ * - WEEKLY: every `interval` weeks on `byWeekday` (0 = Sunday; defaults to the start's weekday)
+ * - MONTHLY: every `interval` months on `byMonthDay`, or on the `bySetPos`-th `byWeekday[0]` (-1 = last)
+ */
+export interface IRecurrenceRule {
+    freq: RecurrenceFrequency;
+    interval: number;
+    byWeekday?: number[];
+    byMonthDay?: number;
+    bySetPos?: number;
+    until?: Date;
+    count?: number;
+    tzid?: string;      // IANA time zone of the series, e.g. "Europe/Berlin"
+    exceptions: Date[]; // Skipped occurrence dates
+    overrides: {
+        date: Date;       // Occurrence date being changed
+        dateTime?: Date;  // Moved start
+        location?: string;
+        headline?: string;
+    }[];
+}
+
+/**
+ * Review lifecycle (see ModerationService for the allowed transitions).
+ * `isVerified` mirrors `moderationStatus === "approved"`; events created before the
+ * lifecycle existed have no status and are read from `isVerified`.
+ */
+export type ModerationStatus =
+    | "draft"
+    | "pending_review"
+    | "approved"
+    | "changes_requested"
+    | "rejected"
+    | "archived";
+
+export const MODERATION_STATUSES: ModerationStatus[] = [
+    "draft",
+    "pending_review",
+    "approved",
+    "changes_requested",
+    "rejected",
+    "archived",
+];
+
+export interface IModerationEntry {
+    from: ModerationStatus | null;   // null when the event was created
+    to: ModerationStatus;
+    action: string;
+    by: mongoose.Types.ObjectId;
+    reason?: string;                 // Shown to the organizer
+    note?: string;                   // Extra moderator / organizer notes
+    at: Date;
+}
+
+/**
+ * GeoJSON point ([lng, lat]) used for distance queries
+ */
+export interface IGeoPoint {
+    type: "Point";
+    coordinates: [number, number];
+}
+
 export interface IEvent extends Document {
     name: string;
     headline?: string;
     description: string;
     dateTime?: Date; // Optional for communities
     location: string;
-    photos: string[]; // Base64 strings
-    videos: string[]; // URLs or Base64 (limited support)
+    geo?: IGeoPoint | null;                        // Coordinates of `location` (unset when unknown)
+    geoSource?: "explicit" | "gazetteer" | null;   // Set by the organizer or geocoded offline
+    photos: string[]; // Media URLs (object storage or external links)
+    videos: string[]; // Media URLs
+    media?: IMediaRef[]; // Stored files among photos/videos/pdfFiles (mime, size, dimensions)
     tags: string[];
-    pdfFiles?: string[]; // Array of Base64 encoded PDFs
+    pdfFiles?: string[]; // PDF URLs
     pdfExtractedTexts?: string[]; // Array of extracted texts from PDFs
     isEvent: boolean;
     isCommunity: boolean;
     isVerified: boolean;
+    moderationStatus?: ModerationStatus;
+    moderationHistory: IModerationEntry[];
     isAdmin: boolean;
     isMembersPublic?: boolean;
+    capacity?: number | null;            // Max confirmed attendees (unset = unlimited)
+    goingCount: number;                  // Confirmed attendees (EventMember records)
+    isSeries?: boolean;                  // Series parent: holds the recurrence and shared content
+    recurrence?: IRecurrenceRule;
+    seriesId?: mongoose.Types.ObjectId;  // Set on occurrences: the parent series
+    occurrenceDate?: Date;               // Slot generated by the rule (before overrides)
+    isCancelled?: boolean;               // Occurrence removed from the rule after people joined
+    calendarSequence: number;            // iCalendar SEQUENCE, bumped when date/place/details change
     createdBy: mongoose.Types.ObjectId;
     attendees: mongoose.Types.ObjectId[];
     metadataEmbedding?: number[]; // NEW: Embeddings for just basic info
@@ -26,6 +105,11 @@ export interface IEvent extends Document {
         chunkId: string;
         text: string;
         embedding: number[];
+        pdfIndex?: number;    // Index into pdfFiles
+        sourceUrl?: string;
+        pageStart?: number;
+        pageEnd?: number;
+        section?: string;     // Nearest heading in the source PDF
     }[];
     attachments?: {
         url: string;
@@ -60,9 +144,23 @@ const eventSchema = new Schema<IEvent>(
             type: String,
             required: true,
         },
+        geo: {
+            type: new Schema(
+                {
+                    type: { type: String, enum: ["Point"], required: true },
+                    coordinates: { type: [Number], required: true }, // [lng, lat]
+                },
+                { _id: false }
+            ),
+            default: undefined,
+        },
+        geoSource: {
+            type: String,
+            enum: ["explicit", "gazetteer"],
+        },
         photos: [
             {
-                type: String, // Base64 strings
+                type: String, // URLs; binaries live in object storage (see MediaService)
             },
         ],
         videos: [
@@ -85,9 +183,13 @@ const eventSchema = new Schema<IEvent>(
         ],
         pdfFiles: [
             {
-                type: String, // Base64 encoded PDFs
+                type: String, // PDF URLs
             },
         ],
+        media: {
+            type: [MediaRefSchema],
+            default: undefined,
+        },
         pdfExtractedTexts: [
             {
                 type: String, // Extracted texts from PDFs
@@ -105,6 +207,22 @@ const eventSchema = new Schema<IEvent>(
             type: Boolean,
             default: false,
         },
+        moderationStatus: {
+            type: String,
+            enum: MODERATION_STATUSES,
+        },
+        moderationHistory: [
+            {
+                _id: false,
+                from: { type: String, enum: MODERATION_STATUSES, default: null },
+                to: { type: String, enum: MODERATION_STATUSES, required: true },
+                action: { type: String, required: true },
+                by: { type: Schema.Types.ObjectId, ref: "User", required: true },
+                reason: { type: String },
+                note: { type: String },
+                at: { type: Date, default: Date.now },
+            },
+        ],
         isAdmin: {
             type: Boolean,
             default: false,
@@ -113,6 +231,60 @@ const eventSchema = new Schema<IEvent>(
             type: Boolean,
             default: false,
         },
+        capacity: {
+            type: Number,
+            min: 0,
+            default: null,
+        },
+        goingCount: {
+            type: Number,
+            default: 0,
+            min: 0,
+        },
+        isSeries: {
+            type: Boolean,
+            default: false,
+        },
+        recurrence: {
+            type: new Schema(
+                {
+                    freq: { type: String, enum: ["WEEKLY", "MONTHLY"], required: true },
+                    interval: { type: Number, default: 1, min: 1 },
+                    byWeekday: [{ type: Number, min: 0, max: 6 }],
+                    byMonthDay: { type: Number, min: 1, max: 31 },
+                    bySetPos: { type: Number, min: -1, max: 5 },
+                    until: Date,
+                    count: { type: Number, min: 1 },
+                    tzid: String,
+                    exceptions: [Date],
+                    overrides: [
+                        {
+                            date: { type: Date, required: true },
+                            dateTime: Date,
+                            location: String,
+                            headline: String,
+                        },
+                    ],
+                },
+                { _id: false }
+            ),
+            required: false,
+        },
+        seriesId: {
+            type: Schema.Types.ObjectId,
+            ref: "Event",
+        },
+        occurrenceDate: {
+            type: Date,
+        },
+        isCancelled: {
+            type: Boolean,
+            default: false,
+        },
+        calendarSequence: {
+            type: Number,
+            default: 0,
+        },
         createdBy: {
             type: Schema.Types.ObjectId,
             ref: "User",
@@ -138,7 +310,12 @@ const eventSchema = new Schema<IEvent>(
             {
                 chunkId: String,
                 text: String,
-                embedding: [Number]
+                embedding: [Number],
+                pdfIndex: Number,
+                sourceUrl: String,
+                pageStart: Number,
+                pageEnd: Number,
+                section: String
             }
         ],
     },
@@ -153,6 +330,15 @@ eventSchema.index({ dateTime: 1 });
 eventSchema.index({ isEvent: 1 });
 eventSchema.index({ isCommunity: 1 });
 eventSchema.index({ isVerified: 1 });
+eventSchema.index({ moderationStatus: 1, createdAt: -1 });
+eventSchema.index({ geo: "2dsphere" });
+// Free-text search (GET /events/search)
+eventSchema.index(
+    { name: "text", tags: "text", headline: "text", location: "text", description: "text" },
+    { name: "event_text_search", weights: { name: 10, tags: 5, headline: 3, location: 2, description: 1 } }
+);
+eventSchema.index({ goingCount: -1 });
+eventSchema.index({ seriesId: 1, occurrenceDate: 1 }, { unique: true, partialFilterExpression: { seriesId: { $exists: true } } });
 
 // Post-save hook to verify data persistence
 eventSchema.post('save', function (doc) {
@@ -0,0 +1,39 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Local mirror of the Supabase `event_embeddings` table
+ * Used by the MongoDB vector store backend (similarity is computed in-process).
+ */
+export interface IEventEmbedding extends Document {
+    eventId: mongoose.Types.ObjectId;
+    category: 'meta' | 'doc' | 'member' | 'session';
+    content: string;           // Raw text or JSON-encoded structured data
+    chunks: string;            // Text that was embedded
+    embedding: number[];
+    chunkIndex?: number;
+    userId?: mongoose.Types.ObjectId; // Set for 'member' rows
+    extraMetadata: Record<string, any>;
+    createdAt: Date;
+}
+
+const EventEmbeddingSchema = new Schema<IEventEmbedding>(
+    {
+        eventId: { type: Schema.Types.ObjectId, ref: 'Event', required: true },
+        category: { type: String, enum: ['meta', 'doc', 'member', 'session'], required: true },
+        content: { type: String, default: '' },
+        chunks: { type: String, default: '' },
+        embedding: [{ type: Number }],
+        chunkIndex: { type: Number },
+        userId: { type: Schema.Types.ObjectId, ref: 'User' },
+        extraMetadata: { type: Schema.Types.Mixed, default: {} },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    }
+);
+
+// Searches are always scoped to one event + category
+EventEmbeddingSchema.index({ eventId: 1, category: 1 });
+EventEmbeddingSchema.index({ eventId: 1, userId: 1 });
+
+export const EventEmbedding = mongoose.model<IEventEmbedding>('EventEmbedding', EventEmbeddingSchema, 'event_embeddings');
@@ -0,0 +1,49 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { EventRole, INVITABLE_EVENT_ROLES } from '../config/roles';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'declined' | 'revoked';
+
+/**
+ * Invitation to join an event's team with an event role
+ * Invitees are matched by user id, or by email for people who sign up later.
+ * Accepting grants the role (User.eventRoles).
+ */
+export interface IEventInvitation extends Document {
+    eventId: mongoose.Types.ObjectId;
+    role: EventRole;
+    email?: string;
+    userId?: mongoose.Types.ObjectId;
+    invitedBy: mongoose.Types.ObjectId;
+    status: InvitationStatus;
+    respondedAt?: Date;
+    expiresAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const EventInvitationSchema = new Schema<IEventInvitation>(
+    {
+        eventId: { type: Schema.Types.ObjectId, ref: 'Event', required: true },
+        role: { type: String, enum: INVITABLE_EVENT_ROLES, required: true },
+        email: { type: String, lowercase: true, trim: true },
+        userId: { type: Schema.Types.ObjectId, ref: 'User' },
+        invitedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        status: {
+            type: String,
+            enum: ['pending', 'accepted', 'declined', 'revoked'],
+            default: 'pending',
+        },
+        respondedAt: { type: Date },
+        expiresAt: { type: Date, required: true },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+EventInvitationSchema.index({ eventId: 1, status: 1 });
+// Pending invitations of the signed-in user
+EventInvitationSchema.index({ userId: 1, status: 1 });
+EventInvitationSchema.index({ email: 1, status: 1 });
+
+export const EventInvitation = mongoose.model<IEventInvitation>('EventInvitation', EventInvitationSchema);
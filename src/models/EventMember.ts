@@ -1,6 +1,17 @@
 
 import mongoose, { Schema, Document } from 'mongoose';
 
+/**
+ * Profile edits an organizer made for this event only; the user's own account is never changed
+ */
+export interface IEventMemberProfile {
+    name?: string;
+    phoneNumber?: string;
+    company?: string;
+    website?: string;
+    oneLiner?: string;
+}
+
 export interface IEventMember extends Document {
     eventId: mongoose.Types.ObjectId;
     organizerId: mongoose.Types.ObjectId;
@@ -8,9 +19,18 @@ export interface IEventMember extends Document {
     name: string;
     phoneNumber?: string;
     source: 'join' | 'manual' | 'excel';
+    profile?: IEventMemberProfile;
     joinedAt: Date;
-    isJoined?: boolean;
+    isJoined?: boolean;   // Registered (see checkedInAt for on-site attendance)
     isEvent?: boolean;
+    // Check-in pass (see CheckInService)
+    passNonce?: string;   // Embedded in the signed token; rotating it revokes the pass
+    passCode?: string;    // Short one-time code for manual entry
+    checkedInAt?: Date;   // Time of the scan (device time for offline scans)
+    checkInGate?: string;
+    checkedInBy?: mongoose.Types.ObjectId;
+    checkInScanId?: string; // Client scan id, makes re-sent scans idempotent
+    checkInSyncedAt?: Date; // When the server received the scan
 }
 
 const EventMemberSchema: Schema = new Schema({
@@ -24,13 +44,29 @@ const EventMemberSchema: Schema = new Schema({
         enum: ['join', 'manual', 'excel'],
         default: 'join'
     },
+    profile: {
+        name: { type: String, trim: true },
+        phoneNumber: { type: String, trim: true },
+        company: { type: String, trim: true },
+        website: { type: String, trim: true },
+        oneLiner: { type: String, trim: true },
+    },
     joinedAt: { type: Date, default: Date.now },
     isJoined: { type: Boolean, default: true },
     isEvent: { type: Boolean, default: true },
+    passNonce: { type: String },
+    passCode: { type: String },
+    checkedInAt: { type: Date, default: null },
+    checkInGate: { type: String, trim: true },
+    checkedInBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    checkInScanId: { type: String },
+    checkInSyncedAt: { type: Date },
 });
 
 // Indexes for faster lookups
 EventMemberSchema.index({ eventId: 1, phoneNumber: 1 }); // To prevent duplicates based on phone
 EventMemberSchema.index({ eventId: 1, userId: 1 }); // To prevent duplicates based on userId
+EventMemberSchema.index({ eventId: 1, passCode: 1 }, { unique: true, partialFilterExpression: { passCode: { $type: 'string' } } });
+EventMemberSchema.index({ eventId: 1, checkedInAt: 1 }); // Check-in counts / no-shows
 
 export default mongoose.model<IEventMember>('EventMember', EventMemberSchema);
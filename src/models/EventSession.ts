@@ -0,0 +1,41 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * One agenda slot of an event (talk, workshop, break...)
+ */
+export interface IEventSession extends Document {
+    eventId: mongoose.Types.ObjectId;
+    title: string;
+    description?: string;
+    startTime: Date;
+    endTime: Date;
+    room?: string;
+    track?: string;
+    speakerIds: mongoose.Types.ObjectId[];
+    createdBy: mongoose.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const EventSessionSchema = new Schema<IEventSession>(
+    {
+        eventId: { type: Schema.Types.ObjectId, ref: 'Event', required: true },
+        title: { type: String, required: true, trim: true },
+        description: { type: String, trim: true },
+        startTime: { type: Date, required: true },
+        endTime: { type: Date, required: true },
+        room: { type: String, trim: true },
+        track: { type: String, trim: true },
+        speakerIds: [{ type: Schema.Types.ObjectId, ref: 'EventSpeaker' }],
+        createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+// Agenda is always read per event in time order
+EventSessionSchema.index({ eventId: 1, startTime: 1 });
+EventSessionSchema.index({ speakerIds: 1 });
+
+export const EventSession = mongoose.model<IEventSession>('EventSession', EventSessionSchema);
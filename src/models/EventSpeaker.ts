@@ -0,0 +1,42 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Speaker profile for an event agenda
+ * Linked to a User when the speaker has an account (profile fields are copied at creation).
+ */
+export interface IEventSpeaker extends Document {
+    eventId: mongoose.Types.ObjectId;
+    userId?: mongoose.Types.ObjectId;
+    name: string;
+    title?: string;     // Job title / role
+    company?: string;
+    bio?: string;
+    photoUrl?: string;
+    links: string[];
+    createdBy: mongoose.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const EventSpeakerSchema = new Schema<IEventSpeaker>(
+    {
+        eventId: { type: Schema.Types.ObjectId, ref: 'Event', required: true },
+        userId: { type: Schema.Types.ObjectId, ref: 'User' },
+        name: { type: String, required: true, trim: true },
+        title: { type: String, trim: true },
+        company: { type: String, trim: true },
+        bio: { type: String, trim: true },
+        photoUrl: { type: String, trim: true },
+        links: [{ type: String, trim: true }],
+        createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+EventSpeakerSchema.index({ eventId: 1, name: 1 });
+// A user is listed at most once per event
+EventSpeakerSchema.index({ eventId: 1, userId: 1 }, { unique: true, partialFilterExpression: { userId: { $exists: true } } });
+
+export const EventSpeaker = mongoose.model<IEventSpeaker>('EventSpeaker', EventSpeakerSchema);
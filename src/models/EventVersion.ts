@@ -0,0 +1,50 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type EventVersionAction = 'create' | 'update' | 'restore';
+
+export interface IEventFieldChange {
+    field: string;
+    from: unknown;   // null when the field was unset
+    to: unknown;
+}
+
+/**
+ * One recorded change to an event: the fields that changed, by whom and when.
+ * Versions are numbered per event; earlier states are rebuilt by reverting later diffs
+ * from the current event (see EventVersionService).
+ */
+export interface IEventVersion extends Document {
+    eventId: mongoose.Types.ObjectId;
+    version: number;
+    action: EventVersionAction;
+    changes: IEventFieldChange[];
+    restoredFrom?: number;
+    createdBy: mongoose.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const EventVersionSchema = new Schema<IEventVersion>(
+    {
+        eventId: { type: Schema.Types.ObjectId, ref: 'Event', required: true },
+        version: { type: Number, required: true, min: 1 },
+        action: { type: String, enum: ['create', 'update', 'restore'], required: true },
+        changes: [
+            {
+                _id: false,
+                field: { type: String, required: true },
+                from: { type: Schema.Types.Mixed, default: null },
+                to: { type: Schema.Types.Mixed, default: null },
+            },
+        ],
+        restoredFrom: { type: Number },
+        createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+EventVersionSchema.index({ eventId: 1, version: -1 }, { unique: true });
+
+export const EventVersion = mongoose.model<IEventVersion>('EventVersion', EventVersionSchema);
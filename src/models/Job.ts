@@ -0,0 +1,59 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+/**
+ * Background job persisted in MongoDB
+ * Claimed atomically by a worker (`status: pending -> running`), retried with
+ * exponential backoff until `maxAttempts`, then left as `failed` for inspection.
+ */
+export interface IJob extends Document {
+    type: string;
+    payload: Record<string, any>;
+    status: JobStatus;
+    attempts: number;
+    maxAttempts: number;
+    runAt: Date;               // Not picked up before this time (used for backoff)
+    lockedAt?: Date;
+    lockedBy?: string;         // Worker id holding the job
+    lastError?: string;
+    result?: Record<string, any>;
+    createdBy?: mongoose.Types.ObjectId;
+    eventId?: mongoose.Types.ObjectId; // Related event, when there is one
+    completedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const JobSchema = new Schema<IJob>(
+    {
+        type: { type: String, required: true },
+        payload: { type: Schema.Types.Mixed, default: {} },
+        status: {
+            type: String,
+            enum: ['pending', 'running', 'completed', 'failed'],
+            default: 'pending',
+        },
+        attempts: { type: Number, default: 0 },
+        maxAttempts: { type: Number, default: 5 },
+        runAt: { type: Date, default: Date.now },
+        lockedAt: { type: Date },
+        lockedBy: { type: String },
+        lastError: { type: String },
+        result: { type: Schema.Types.Mixed },
+        createdBy: { type: Schema.Types.ObjectId, ref: 'User' },
+        eventId: { type: Schema.Types.ObjectId, ref: 'Event' },
+        completedAt: { type: Date },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+// Worker polling: next due pending job
+JobSchema.index({ status: 1, runAt: 1 });
+// Status endpoints
+JobSchema.index({ createdBy: 1, createdAt: -1 });
+JobSchema.index({ eventId: 1, createdAt: -1 });
+
+export const Job = mongoose.model<IJob>('Job', JobSchema);
@@ -0,0 +1,115 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import type { StorageProviderName } from '../services/storage/types';
+
+export type MediaKind = 'image' | 'video' | 'pdf' | 'file';
+export type MediaOwnerType = 'event' | 'user' | 'upload';
+export type MediaRenditionName = 'thumb' | 'medium' | 'full';
+
+/**
+ * A resized copy of an image (see ImageProcessingService)
+ */
+export interface IMediaRendition {
+    name: MediaRenditionName;
+    format: 'webp' | 'jpeg';
+    url: string;
+    key?: string;           // Object key (not copied into references)
+    width: number;
+    height: number;
+    size: number;           // Bytes
+}
+
+const MediaRenditionSchema = new Schema<IMediaRendition>(
+    {
+        name: { type: String, enum: ['thumb', 'medium', 'full'], required: true },
+        format: { type: String, enum: ['webp', 'jpeg'], required: true },
+        url: { type: String, required: true },
+        key: { type: String },
+        width: { type: Number, required: true },
+        height: { type: Number, required: true },
+        size: { type: Number, required: true },
+    },
+    { _id: false }
+);
+
+/**
+ * A binary stored in object storage. Documents never hold the bytes, only references
+ * (see IMediaRef); the content hash makes re-uploads (and re-runs of the migration) reuse
+ * the same object.
+ */
+export interface IMedia extends Document {
+    kind: MediaKind;
+    url: string;
+    provider: StorageProviderName; // Storage backend holding the object
+    key: string;            // Object key within the provider
+    mime: string;
+    size: number;           // Bytes
+    width?: number;         // Images only
+    height?: number;
+    renditions?: IMediaRendition[];
+    blurhash?: string;      // Placeholder shown while an image loads
+    sha256: string;
+    ownerType: MediaOwnerType;
+    ownerId?: mongoose.Types.ObjectId;
+    createdBy?: mongoose.Types.ObjectId;
+    source: 'upload' | 'migration';
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * What a document keeps about a media file
+ */
+export interface IMediaRef {
+    mediaId: mongoose.Types.ObjectId;
+    url: string;
+    mime: string;
+    size: number;
+    width?: number;
+    height?: number;
+    renditions?: IMediaRendition[];
+    blurhash?: string;
+    field?: string;         // Event field the URL is listed in (photos, videos, pdfFiles)
+}
+
+export const MediaRefSchema = new Schema<IMediaRef>(
+    {
+        mediaId: { type: Schema.Types.ObjectId, ref: 'Media', required: true },
+        url: { type: String, required: true },
+        mime: { type: String, required: true },
+        size: { type: Number, required: true },
+        width: { type: Number },
+        height: { type: Number },
+        renditions: { type: [MediaRenditionSchema], default: undefined },
+        blurhash: { type: String },
+        field: { type: String },
+    },
+    { _id: false }
+);
+
+const MediaSchema = new Schema<IMedia>(
+    {
+        kind: { type: String, enum: ['image', 'video', 'pdf', 'file'], required: true },
+        url: { type: String, required: true },
+        provider: { type: String, enum: ['s3', 'cloudinary', 'local'], default: 's3' },
+        key: { type: String, required: true },
+        mime: { type: String, required: true },
+        size: { type: Number, required: true },
+        width: { type: Number },
+        height: { type: Number },
+        renditions: { type: [MediaRenditionSchema], default: undefined },
+        blurhash: { type: String },
+        sha256: { type: String, required: true },
+        ownerType: { type: String, enum: ['event', 'user', 'upload'], required: true },
+        ownerId: { type: Schema.Types.ObjectId },
+        createdBy: { type: Schema.Types.ObjectId, ref: 'User' },
+        source: { type: String, enum: ['upload', 'migration'], default: 'upload' },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+MediaSchema.index({ url: 1 }, { unique: true });
+MediaSchema.index({ sha256: 1, ownerType: 1, ownerId: 1 });
+
+export const Media = mongoose.model<IMedia>('Media', MediaSchema);
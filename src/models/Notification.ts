@@ -5,7 +5,11 @@ export interface INotification extends Document {
     actorId?: mongoose.Types.ObjectId;    // User who triggered the notification (optional for manual adds)
     externalActorName?: string;           // Name of actor if not a registered user
     eventId: mongoose.Types.ObjectId;     // Related event
-    type: string;                         // 'EVENT_JOIN'
+    type: string;                         // 'EVENT_JOIN' | 'WAITLIST_PROMOTED' | 'TEAM_INVITE' | 'TEAM_INVITE_ACCEPTED' | 'EVENT_STATUS_CHANGED'
+    details?: {                           // EVENT_STATUS_CHANGED: new review status and the reason given
+        status?: string;
+        reason?: string;
+    };
     isRead: boolean;
     isDismissed: boolean;
     createdAt: Date;
@@ -16,7 +20,11 @@ const notificationSchema = new Schema<INotification>({
     actorId: { type: Schema.Types.ObjectId, ref: 'User', required: false },
     externalActorName: { type: String, required: false },
     eventId: { type: Schema.Types.ObjectId, ref: 'Event', required: true },
-    type: { type: String, enum: ['EVENT_JOIN'], required: true },
+    type: { type: String, enum: ['EVENT_JOIN', 'WAITLIST_PROMOTED', 'TEAM_INVITE', 'TEAM_INVITE_ACCEPTED', 'EVENT_STATUS_CHANGED'], required: true },
+    details: {
+        status: { type: String },
+        reason: { type: String },
+    },
     isRead: { type: Boolean, default: false },
     isDismissed: { type: Boolean, default: false },
     createdAt: { type: Date, default: Date.now },
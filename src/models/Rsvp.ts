@@ -0,0 +1,46 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type RsvpStatus = 'going' | 'maybe' | 'declined' | 'waitlisted';
+
+export const RSVP_STATUSES: RsvpStatus[] = ['going', 'maybe', 'declined', 'waitlisted'];
+
+/**
+ * A user's response to an event
+ * `going` RSVPs are confirmed attendees (mirrored in Event.attendees and EventMember);
+ * `waitlisted` RSVPs are promoted in `waitlistedAt` order when a seat frees up.
+ */
+export interface IRsvp extends Document {
+    eventId: mongoose.Types.ObjectId;
+    userId: mongoose.Types.ObjectId;
+    status: RsvpStatus;
+    waitlistedAt?: Date;
+    promotedAt?: Date;         // Set when moved from the waitlist to going
+    respondedAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const RsvpSchema = new Schema<IRsvp>(
+    {
+        eventId: { type: Schema.Types.ObjectId, ref: 'Event', required: true },
+        userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        status: {
+            type: String,
+            enum: RSVP_STATUSES,
+            required: true,
+        },
+        waitlistedAt: { type: Date },
+        promotedAt: { type: Date },
+        respondedAt: { type: Date, default: Date.now },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+// One RSVP per user per event
+RsvpSchema.index({ eventId: 1, userId: 1 }, { unique: true });
+// Waitlist order and status counts
+RsvpSchema.index({ eventId: 1, status: 1, waitlistedAt: 1 });
+
+export const Rsvp = mongoose.model<IRsvp>('Rsvp', RsvpSchema);
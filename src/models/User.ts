@@ -1,4 +1,13 @@
 import mongoose, { Document, Schema } from "mongoose";
+import { EVENT_ROLES, EventRole, PLATFORM_ROLES, PlatformRole } from "../config/roles";
+import { IMediaRef, MediaRefSchema } from "./Media";
+
+export interface IEventRoleGrant {
+  eventId: mongoose.Types.ObjectId;
+  role: EventRole;
+  grantedBy?: mongoose.Types.ObjectId;
+  grantedAt: Date;
+}
 
 export interface IUser extends Document {
   email: string;
@@ -10,11 +19,15 @@ export interface IUser extends Document {
   location?: string;
   oneLiner?: string;
   photoUrl?: string;
+  photo?: IMediaRef; // Stored profile photo behind photoUrl (unset for external links)
   phoneNumber?: string;
   interests?: string[];
   skills?: string[];
   profileEmbedding?: number[];
   isBlocked?: boolean;
+  accessRoles: PlatformRole[]; // Platform-wide RBAC roles (not the professional `role`)
+  eventRoles: IEventRoleGrant[]; // Event-scoped RBAC roles
+  calendarFeedToken?: string; // Secret for the subscribable calendar feed URL
   connectionCount: number;
   createdAt: Date;
   updatedAt: Date;
@@ -63,6 +76,10 @@ const UserSchema = new Schema<IUser>(
       type: String,
       trim: true,
     },
+    photo: {
+      type: MediaRefSchema,
+      default: undefined,
+    },
     phoneNumber: {
       type: String,
       trim: true,
@@ -92,6 +109,26 @@ const UserSchema = new Schema<IUser>(
       type: Boolean,
       default: false,
     },
+    accessRoles: {
+      type: [{ type: String, enum: PLATFORM_ROLES }],
+      default: ["member"],
+    },
+    eventRoles: [
+      {
+        _id: false,
+        eventId: { type: Schema.Types.ObjectId, ref: "Event", required: true },
+        role: { type: String, enum: EVENT_ROLES, required: true },
+        grantedBy: { type: Schema.Types.ObjectId, ref: "User" },
+        grantedAt: { type: Date, default: Date.now },
+      },
+    ],
+    calendarFeedToken: {
+      type: String,
+      select: false,
+      index: true,
+      unique: true,
+      sparse: true,
+    },
   },
   {
     timestamps: true,
@@ -100,6 +137,8 @@ const UserSchema = new Schema<IUser>(
 
 // Indexes
 UserSchema.index({ name: 1 });
+UserSchema.index({ accessRoles: 1 });
+UserSchema.index({ "eventRoles.eventId": 1 });
 UserSchema.index({ name: "text", email: "text", company: "text" });
 
 export const User = mongoose.model<IUser>("User", UserSchema, "users");
@@ -0,0 +1,131 @@
+import { VectorMatch } from "../../services/vectorStore";
+import { AssistantCitation } from "./types";
+
+/**
+ * Citation helpers for the assistant
+ *
+ * Retrieved spans are numbered [1], [2]... in the prompt and the model is asked to
+ * cite them inline. After generation, every sentence is checked for a valid marker
+ * (or, failing that, strong word overlap with a span); sentences backed by neither
+ * are reported as unsupported claims.
+ */
+
+export const CITATION_INSTRUCTIONS = `CITATIONS:
+- Each context entry starts with a number like [1].
+- After every sentence that uses the context, add the number(s) you used, e.g. "The keynote starts at 10am [2]."
+- Never cite a number that is not in the context.`;
+
+// Sentences that admit missing information are not claims
+const NON_CLAIM = /\b(i don'?t know|not available|couldn'?t find|could not find|no information|not (mentioned|covered|specified))\b/i;
+
+const STOP_WORDS = new Set([
+    'the', 'and', 'for', 'are', 'was', 'with', 'that', 'this', 'from', 'will', 'have', 'has',
+    'you', 'your', 'they', 'their', 'there', 'which', 'about', 'into', 'also', 'event', 'can',
+]);
+
+// Share of a sentence's content words that must appear in one span to count as backed without a marker
+const OVERLAP_THRESHOLD = 0.6;
+
+const contentWords = (text: string): string[] =>
+    (text.toLowerCase().match(/[a-z0-9]+/g) || []).filter(w => w.length > 2 && !STOP_WORDS.has(w));
+
+/**
+ * Build a citation from a vector store hit. Doc chunks carry their PDF position,
+ * member hits their user id and session hits their session id
+ * (see EventProcessingService / storeMemberProfile / AgendaService).
+ */
+export const citationFromMatch = (match: VectorMatch, ref: number): AssistantCitation => {
+    const meta = match.extra_metadata || {};
+    const citation: AssistantCitation = {
+        ref,
+        category: match.category,
+        text: match.chunks,
+        similarity: Math.round(match.similarity * 1000) / 1000,
+    };
+
+    if (match.category === 'doc') {
+        citation.chunkId = meta.chunk_id;
+        // Older chunks were stored without pdf_index; it is encoded in the chunk id (pdf{i}_chunk{n})
+        const pdfIndex = meta.pdf_index ?? (/^pdf(\d+)_/.exec(meta.chunk_id || '')?.[1]);
+        citation.pdfIndex = pdfIndex !== undefined ? Number(pdfIndex) : undefined;
+        citation.sourceUrl = meta.source_url;
+        citation.pageStart = meta.page_start;
+        citation.pageEnd = meta.page_end;
+        citation.section = meta.section || undefined;
+    } else if (match.category === 'member') {
+        citation.memberId = meta.user_id;
+    } else if (match.category === 'session') {
+        citation.sessionId = meta.session_id;
+    }
+
+    return citation;
+};
+
+/**
+ * Render numbered context for the prompt
+ */
+export const formatCitationContext = (citations: AssistantCitation[]): string =>
+    citations.map(c => {
+        const label = c.category === 'doc' && c.pageStart
+            ? `DOC, page ${c.pageStart}${c.pageEnd && c.pageEnd !== c.pageStart ? `-${c.pageEnd}` : ''}`
+            : c.category.toUpperCase();
+        return `[${c.ref}] (${label}) ${c.text}`;
+    }).join("\n\n");
+
+const splitSentences = (answer: string): string[] =>
+    answer
+        .split(/(?<=[.!?])\s+|\n+/)
+        .map(s => s.trim())
+        .filter(Boolean);
+
+/**
+ * Match the generated answer against the spans it was given.
+ * Returns the spans actually used (keeping their numbers, so [n] markers in the
+ * answer still line up) and the sentences no span backs.
+ */
+export const groundAnswer = (
+    answer: string,
+    candidates: AssistantCitation[]
+): { citations: AssistantCitation[]; grounded: boolean; unsupportedClaims: string[] } => {
+    const byRef = new Map(candidates.map(c => [c.ref, c]));
+    const used = new Set<number>();
+    const unsupportedClaims: string[] = [];
+
+    for (const sentence of splitSentences(answer)) {
+        const refs = Array.from(sentence.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g))
+            .flatMap(m => m[1].split(',').map(n => parseInt(n, 10)))
+            .filter(ref => byRef.has(ref));
+
+        if (refs.length > 0) {
+            refs.forEach(ref => used.add(ref));
+            continue;
+        }
+
+        const words = contentWords(sentence);
+        if (words.length < 3 || NON_CLAIM.test(sentence)) continue;
+
+        // No (valid) marker: accept the sentence if one span contains most of its words
+        let best: AssistantCitation | undefined;
+        let bestOverlap = 0;
+        for (const candidate of candidates) {
+            const spanWords = new Set(contentWords(candidate.text));
+            const overlap = words.filter(w => spanWords.has(w)).length / words.length;
+            if (overlap > bestOverlap) {
+                best = candidate;
+                bestOverlap = overlap;
+            }
+        }
+
+        if (best && bestOverlap >= OVERLAP_THRESHOLD) {
+            used.add(best.ref);
+        } else {
+            unsupportedClaims.push(sentence);
+        }
+    }
+
+    return {
+        citations: candidates.filter(c => used.has(c.ref)),
+        grounded: unsupportedClaims.length === 0,
+        unsupportedClaims,
+    };
+};
@@ -1,200 +1,474 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { EmbeddingService } from "../../services/embeddingService";
-import { SupabaseService } from "../../services/supabaseService";
+import { getVectorStore, VectorCategory, VectorMatch } from "../../services/vectorStore";
+import { getLlmProvider } from "../../services/llm";
+import { ConversationService, ConversationTurn } from "../../services/conversationService";
+import { RsvpService } from "../../services/rsvpService";
 import { Event } from "../../models/Event";
-import EventMember from "../../models/EventMember";
-import dotenv from "dotenv";
-
-dotenv.config();
+import { User } from "../../models/User";
+import { getIntentClassifier } from "./intentClassifier";
+import { CITATION_INSTRUCTIONS, citationFromMatch, formatCitationContext, groundAnswer } from "./citations";
+import { AssistantCitation, AssistantIntent, AssistantResponse, AssistantSource, AssistantStreamEvent } from "./types";
+
+export * from "./types";
+export {
+    IntentClassifier,
+    RuleIntentClassifier,
+    LlmIntentClassifier,
+    HybridIntentClassifier,
+    createIntentClassifier,
+    getIntentClassifier,
+    setIntentClassifier,
+} from "./intentClassifier";
+
+/**
+ * Outcome of classification + retrieval: either a direct answer (no LLM needed)
+ * or the prompt to generate from.
+ */
+interface AssistantRetrieval {
+    intent: AssistantIntent;
+    sources: AssistantSource[];
+    confidence: number;
+    candidates: AssistantCitation[]; // Numbered spans given to the model, or backing a direct answer
+    directAnswer?: string;
+    prompt?: string;
+    systemInstruction?: string;
+}
 
-const apiKey = process.env.GEMINI_API_KEY;
-const genAI = apiKey ? new GoogleGenerativeAI(apiKey) : null;
+const GREETING = /^(hi|hello|hey|greetings|thanks|thank\s+you|good\s+(morning|afternoon|evening))\b/i;
 
+const STRICT_GUIDELINES = `GUIDELINES:
+1. Answer using ONLY the provided Context.
+2. Do NOT hallucinate. If info is missing, say "I don't know".
+3. Do not infer external knowledge.
+4. Keep answers concise.
+5. Do not reveal IDs.`;
+
+const toSource = (match: VectorMatch): AssistantSource => ({
+    category: match.category,
+    snippet: match.chunks.length > 120 ? `${match.chunks.substring(0, 120)}...` : match.chunks,
+});
+
+/**
+ * Event assistant engine behind both POST /events/:id/assistant and POST /event-connections/ask
+ *
+ * 1. Rewrite follow-ups into standalone questions (conversation memory)
+ * 2. Classify intent (pluggable, see intentClassifier.ts)
+ * 3. Retrieve: event record, member / session / doc / meta embeddings, the asker's profile
+ * 4. Answer directly from the database when possible, otherwise generate (blocking or streamed)
+ */
 export class AssistantPipeline {
+    /**
+     * Warm up the configured intent classifier (call once at startup)
+     */
+    static async initialize(): Promise<void> {
+        const classifier = getIntentClassifier();
+        console.log(`🧭 Assistant intent classifier: ${classifier.name}`);
+        if (classifier.initialize) {
+            await classifier.initialize();
+        }
+    }
 
     /**
-     * Step 1: Hybrid Intent Classification
-     * Uses strict keyword rules first (Cost Optimized), falls back to Gemini 2.0.
+     * Retrieval with DB Optimization, shared by askQuestion and streamQuestion
      */
-    private static async classifyIntent(question: string): Promise<'MEMBER_SEARCH' | 'EVENT_INFO' | 'GENERAL'> {
-        const q = question.toLowerCase().trim();
+    private static async retrieve(
+        eventId: string,
+        question: string,
+        userId: string | undefined,
+        history: ConversationTurn[]
+    ): Promise<AssistantRetrieval> {
+        // 1. CLASSIFY INTENT
+        const intent = await getIntentClassifier().classify(question);
+        console.log(`   🧠 Intent: ${intent}`);
+
+        const event = await Event.findById(eventId).select('name headline description dateTime location seriesId capacity');
+        if (!event) {
+            return { intent, sources: [], confidence: 0, candidates: [], directAnswer: "I couldn't find this event." };
+        }
 
-        // --- RULE BASED (Priority 1) ---
+        // Occurrences of a series share its documents (indexed under the series id); members and agenda stay per occurrence
+        const contentEventId = event.seriesId ? event.seriesId.toString() : eventId;
+
+        const historyText = history.length > 0
+            ? `\nCONVERSATION SO FAR:\n${ConversationService.formatHistory(history)}\n`
+            : "";
+
+        // CASE A: METADATA - Direct DB lookup, unless the question is about a specific session
+        if (intent === 'METADATA') {
+            const dateStr = event.dateTime ? new Date(event.dateTime).toLocaleString() : 'TBD';
+            const locStr = event.location || 'TBD';
+            const snippet = `Location: ${locStr}, Date: ${dateStr}`;
+
+            const sessionMatches = await this.search(question, [[eventId, 'session']], 3, 0.5);
+            if (sessionMatches.length > 0) {
+                const candidates: AssistantCitation[] = [
+                    { ref: 1, category: 'event', text: snippet },
+                    ...sessionMatches.map((m, i) => citationFromMatch(m, i + 2)),
+                ];
+                return {
+                    intent,
+                    sources: [{ category: 'db_meta', snippet }, ...sessionMatches.map(toSource)],
+                    confidence: 90,
+                    candidates,
+                    prompt: `QUESTION: ${question}`,
+                    systemInstruction: `
+You are a strict Event Assistant answering questions about the times and places of "${event.name}" and its sessions.
 
-        // MEMBER_SEARCH Rules
-        // Covers: "Who is...", "Are there...", "Find me...", "List of...", "How many..."
-        if (/\b(who|investors?|founders?|ceo|cto|cmo|manufacturers?|companies|startup|business|role|job|hiring|people|person|attend(ing|ees)?|participants?|members?|connect|meet|network|list)\b/i.test(q)) {
-            return 'MEMBER_SEARCH';
+${STRICT_GUIDELINES}
+
+${CITATION_INSTRUCTIONS}
+
+CONTEXT:
+${formatCitationContext(candidates)}
+${historyText}`,
+                };
+            }
+
+            return {
+                intent,
+                sources: [{ category: 'db_meta', snippet }],
+                confidence: 100,
+                candidates: [{ ref: 1, category: 'event', text: snippet }],
+                directAnswer: `The event is located at ${locStr}. It is scheduled for ${dateStr}.`,
+            };
         }
 
-        // EVENT_INFO Rules
-        // Covers: "When...", "Where...", "Agenda...", "Topics...", "About..."
-        if (/\b(when|where|time|date|venue|location|place|address|agenda|schedule|topic|subject|learn|session|speaker|talk|start|end|duration|program|about this event|what is)\b/i.test(q)) {
-            return 'EVENT_INFO';
+        // CASE B: MEMBER DISCOVERY
+        if (intent === 'MEMBER_DISCOVERY') {
+            // Optimization: Direct DB Count
+            if (/\b(how\s+many|count|total|number\s+of)\b/i.test(question)) {
+                // Confirmed RSVPs only; maybes and the waitlist are reported separately
+                const counts = await RsvpService.getCounts(eventId);
+                const capacity = event.capacity ?? null;
+                const facts = [
+                    `Confirmed attendees: ${counts.going}`,
+                    capacity !== null && `Capacity: ${capacity}`,
+                    counts.waitlisted > 0 && `Waitlisted: ${counts.waitlisted}`,
+                ].filter(Boolean).join(', ');
+
+                let answer = `There are currently ${counts.going} confirmed attendees`;
+                if (capacity !== null) answer += ` (capacity ${capacity})`;
+                answer += '.';
+                if (counts.waitlisted > 0) answer += ` ${counts.waitlisted} more ${counts.waitlisted === 1 ? 'is' : 'are'} on the waitlist.`;
+
+                return {
+                    intent,
+                    sources: [{ category: 'db_count', snippet: facts }],
+                    confidence: 100,
+                    candidates: [{ ref: 1, category: 'event', text: facts }],
+                    directAnswer: answer,
+                };
+            }
+
+            console.log("   🔍 Searching Member Embeddings...");
+            const results = await this.search(question, [[eventId, 'member']], 10, 0.25);
+
+            // Prefer strong matches; otherwise offer at most two weaker ones
+            const strong = results.filter(m => m.similarity >= 0.45);
+            const matches = strong.length > 0 ? strong.slice(0, 5) : results.slice(0, 2);
+
+            if (matches.length === 0) {
+                return {
+                    intent,
+                    sources: [],
+                    confidence: 85,
+                    candidates: [],
+                    directAnswer: "I checked the attendee list, but I couldn't find anyone specifically matching that criteria.",
+                };
+            }
+
+            const candidates = matches.map((m, i) => citationFromMatch(m, i + 1));
+            return {
+                intent,
+                sources: matches.map(toSource),
+                confidence: strong.length > 0 ? 90 : 60,
+                candidates,
+                prompt: `QUESTION: ${question}`,
+                systemInstruction: `
+You are a strict Event Assistant helping the user find people attending "${event.name}".
+
+${STRICT_GUIDELINES}
+
+${CITATION_INSTRUCTIONS}
+
+CONTEXT:
+${formatCitationContext(candidates)}
+${historyText}`,
+            };
         }
 
-        // GENERAL Rules (Simple greetings)
-        if (/^(hi|hello|hey|greetings|thanks|thank you|good (morning|afternoon|evening))\b/i.test(q)) {
-            return 'GENERAL';
+        // CASE C: GENERAL greetings need no retrieval
+        if (intent === 'GENERAL' && GREETING.test(question.trim())) {
+            return {
+                intent,
+                sources: [],
+                confidence: 100,
+                candidates: [],
+                directAnswer: "Hello! I am your Event Assistant. Ask me about the event details, agenda, or attendees.",
+            };
         }
 
-        // --- GEMINI FALLBACK (Priority 2) ---
-        if (!genAI) return 'GENERAL';
+        // CASE D: CONTENT / PERSONAL / GENERAL - Agenda + Docs + Meta embeddings
+        console.log("   🔍 Searching Event Info Embeddings...");
+        const matches = await this.search(
+            question,
+            [[eventId, 'session'], [contentEventId, 'doc'], [contentEventId, 'meta']],
+            5,
+            0.4
+        );
+        const sources = matches.map(toSource);
+        const candidates = matches.map((m, i) => citationFromMatch(m, i + 1));
+
+        if (intent === 'CONTENT') {
+            if (matches.length === 0) {
+                return { intent, sources: [], confidence: 50, candidates: [], directAnswer: "This information is not available." };
+            }
+            return {
+                intent,
+                sources,
+                confidence: 85,
+                candidates,
+                prompt: `QUESTION: ${question}`,
+                systemInstruction: `
+You are a strict Event Assistant answering questions about the agenda, topics and speakers of "${event.name}".
 
-        console.log("   ⚠️ Rule-based classification uncertain, using Gemini 2.0...");
-        const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash-exp" });
-        const prompt = `
-        Classify query into strictly ONE category:
-        1. MEMBER_SEARCH: people, companies, roles, counts (e.g., "Any oil manufacturers?", "Who is CEO?", "How many people?")
-        2. EVENT_INFO: agenda, logistics, topics (e.g., "When does it start?", "Venue?", "What is this?")
-        3. GENERAL: greetings, unrelated
+${STRICT_GUIDELINES}
 
-        Return ONLY the category name.
-        Query: "${question}"
-        Category:`;
+${CITATION_INSTRUCTIONS}
 
-        try {
-            const result = await model.generateContent(prompt);
-            const text = result.response.text().trim().toUpperCase();
-            if (text.includes('MEMBER')) return 'MEMBER_SEARCH';
-            if (text.includes('EVENT')) return 'EVENT_INFO';
-            return 'GENERAL';
-        } catch (e) {
-            console.warn("⚠️ Intent fallback failed, defaulting to GENERAL");
-            return 'GENERAL';
+CONTEXT:
+${formatCitationContext(candidates)}
+${historyText}`,
+            };
         }
+
+        // Without indexed context, fall back to the event's own summary
+        if (candidates.length === 0) {
+            candidates.push({
+                ref: 1,
+                category: 'event',
+                text: `${event.name}. ${event.headline || ''} ${event.description || ''}`.trim(),
+            });
+        }
+
+        if (intent === 'PERSONAL') {
+            const profileText = await this.getProfileText(userId);
+            if (profileText) {
+                candidates.push({ ref: candidates.length + 1, category: 'profile', text: profileText });
+            }
+            return {
+                intent,
+                sources: profileText ? [...sources, { category: 'profile', snippet: 'Your profile' }] : sources,
+                confidence: profileText ? 80 : 60,
+                candidates,
+                prompt: `QUESTION: ${question}`,
+                systemInstruction: `
+You are an advisor for the event "${event.name}".
+Give a clear recommendation on whether the event suits the user, based on the user's PROFILE entry and the event CONTEXT.
+Only use facts from the CONTEXT about the event. Keep it short.
+
+${CITATION_INSTRUCTIONS}
+
+CONTEXT:
+${formatCitationContext(candidates)}
+${profileText ? '' : '\nUSER PROFILE: Not available'}
+${historyText}`,
+            };
+        }
+
+        // GENERAL: overview / anything else
+        return {
+            intent,
+            sources,
+            confidence: matches.length > 0 ? 75 : 50,
+            candidates,
+            prompt: `QUESTION: ${question}`,
+            systemInstruction: `
+You are a helpful assistant for the event "${event.name}". Answer politely and briefly using the CONTEXT.
+If the CONTEXT does not cover the question, say so.
+
+${CITATION_INSTRUCTIONS}
+
+CONTEXT:
+${formatCitationContext(candidates)}
+${historyText}`,
+        };
     }
 
     /**
-     * Step 2: Ask Question with Strict Retrieval & DB Optimization
+     * Embed the question once and search the given (eventId, category) scopes, best matches first
      */
-    static async askQuestion(eventId: string, question: string, userId?: string): Promise<{ answer: string; sources: any[] }> {
-        console.log(`\n🤖 [ASSISTANT] Processing: "${question}"`);
-        console.log(`   🔒 Access Scope: EventId=${eventId}, UserId=${userId || 'Guest'}`);
+    private static async search(
+        question: string,
+        scopes: [string, VectorCategory][],
+        matchCount: number,
+        threshold: number
+    ): Promise<VectorMatch[]> {
+        const embedding = await EmbeddingService.generateEmbedding(question);
+        if (embedding.length === 0) return [];
+
+        const vectorStore = getVectorStore();
+        const results = await Promise.all(
+            scopes.map(([eventId, category]) => vectorStore.searchEventEmbeddings(embedding, eventId, category, matchCount, threshold))
+        );
+        return results.flat().sort((a, b) => b.similarity - a.similarity).slice(0, matchCount);
+    }
 
-        if (!eventId) {
-            return { answer: "Error: No Event Context provided.", sources: [] };
-        }
+    /**
+     * Profile summary used by the PERSONAL flow
+     */
+    private static async getProfileText(userId?: string): Promise<string> {
+        if (!userId) return "";
+        const user = await User.findById(userId).select('name role primaryGoal company oneLiner interests skills').lean();
+        if (!user) return "";
+
+        return [
+            `Name: ${user.name}`,
+            user.role && `Role: ${user.role}`,
+            user.primaryGoal && `Goal: ${user.primaryGoal}`,
+            user.company && `Company: ${user.company}`,
+            user.oneLiner && `About: ${user.oneLiner}`,
+            user.interests?.length && `Interests: ${user.interests.join(", ")}`,
+            user.skills?.length && `Skills: ${user.skills.join(", ")}`,
+        ].filter(Boolean).join("\n");
+    }
 
-        if (!genAI) {
-            return { answer: "I'm sorry, I'm currently offline (API Key missing).", sources: [] };
+    /**
+     * Resolve follow-ups ("what about their CTO?") into a standalone question
+     */
+    private static async resolveQuestion(question: string, history: ConversationTurn[]) {
+        const standaloneQuestion = await ConversationService.rewriteQuery(question, history);
+        const rewrittenQuestion = standaloneQuestion !== question ? standaloneQuestion : undefined;
+        if (rewrittenQuestion) {
+            console.log(`   🔁 Rewritten: "${rewrittenQuestion}"`);
         }
+        return { standaloneQuestion, rewrittenQuestion };
+    }
 
-        try {
-            // 1. CLASSIFY INTENT
-            const intent = await this.classifyIntent(question);
-            console.log(`   🧠 Intent: ${intent}`);
-
-            const q = question.toLowerCase();
-            let contextText = "";
-            let sources: any[] = [];
-
-            // 2. RETRIEVAL & DIRECT ANSWERS
+    /**
+     * Attach citations to a finished answer. Direct answers are backed by their
+     * database facts; generated answers are checked sentence by sentence.
+     */
+    private static buildResponse(
+        retrieval: AssistantRetrieval,
+        answer: string,
+        rewrittenQuestion?: string
+    ): AssistantResponse {
+        const { intent, sources, confidence, candidates } = retrieval;
+
+        if (retrieval.directAnswer !== undefined) {
+            return { answer, intent, sources, confidence, citations: candidates, grounded: true, unsupportedClaims: [], rewrittenQuestion };
+        }
 
-            // CASE A: GENERAL (No Search)
-            if (intent === 'GENERAL') {
-                return {
-                    answer: "Hello! I am your Event Assistant. Ask me about the event details, agenda, or attendees.",
-                    sources: []
-                };
-            }
+        const { citations, grounded, unsupportedClaims } = groundAnswer(answer, candidates);
+        if (!grounded) {
+            console.warn(`   ⚠️ ${unsupportedClaims.length} unsupported claim(s) in answer`);
+        }
 
-            // CASE B: MEMBER SEARCH
-            if (intent === 'MEMBER_SEARCH') {
-                // Optimization: Direct DB Count
-                if (/\b(how many|count|total|number of)\b/i.test(q)) {
-                    const count = await EventMember.countDocuments({ eventId });
-                    return {
-                        answer: `There are currently ${count} members attending this event.`,
-                        sources: [{ category: 'db_count', snippet: `Total: ${count}` }]
-                    };
-                }
+        return {
+            answer,
+            intent,
+            sources,
+            // Unbacked claims halve the confidence
+            confidence: grounded ? confidence : Math.round(confidence / 2),
+            citations,
+            grounded,
+            unsupportedClaims,
+            rewrittenQuestion,
+        };
+    }
 
-                // Strict Embedding Search (Only Members)
-                console.log("   🔍 Searching Member Embeddings...");
-                const embedding = await EmbeddingService.generateEmbedding(question);
-                const matches = await SupabaseService.searchEventEmbeddings(embedding, eventId, 'member', 10, 0.45);
+    private static failure(answer: string): AssistantResponse {
+        return { answer, intent: 'GENERAL', sources: [], confidence: 0, citations: [], grounded: true, unsupportedClaims: [] };
+    }
 
-                if (matches.length === 0) {
-                    return { answer: "No matching members found.", sources: [] };
-                }
+    /**
+     * Ask a question and wait for the full answer
+     * `history` (oldest first) is used to rewrite follow-ups into standalone questions.
+     */
+    static async askQuestion(
+        eventId: string,
+        question: string,
+        userId?: string,
+        history: ConversationTurn[] = []
+    ): Promise<AssistantResponse> {
+        console.log(`\n🤖 [ASSISTANT] Processing: "${question}"`);
+        console.log(`   🔒 Access Scope: EventId=${eventId}, UserId=${userId || 'Guest'}`);
 
-                sources = matches;
-                contextText = matches.map((m: any) => `[MEMBER] ${m.chunks}`).join("\n\n");
-            }
+        if (!eventId) {
+            return this.failure("Error: No Event Context provided.");
+        }
 
-            // CASE C: EVENT INFO
-            if (intent === 'EVENT_INFO') {
-                // Optimization: Direct DB Metadata lookup
-                // If asking strictly about time/location (and not "agenda"), try DB first
-                if (/\b(when|time|date|start|end|venue|location|where|address)\b/i.test(q) && !/\b(agenda|topic)\b/i.test(q)) {
-                    const event = await Event.findById(eventId).select('name dateTime location');
-                    if (event) {
-                        const dateStr = event.dateTime ? new Date(event.dateTime).toLocaleString() : 'TBD';
-                        const locStr = event.location || 'TBD';
-                        // We still pass this to LLM to phrase it nicely, or return directly?
-                        // User asked "Answer directly from database fields... for date, time, venue".
-                        // Direct answer is safest and fastest.
-                        return {
-                            answer: `The event is located at ${locStr}. It is scheduled for ${dateStr}.`,
-                            sources: [{ category: 'db_meta', snippet: `Location: ${locStr}, Date: ${dateStr}` }]
-                        };
-                    }
-                }
+        const llm = getLlmProvider();
+        if (!llm.isAvailable()) {
+            return this.failure("I'm sorry, I'm currently offline (API Key missing).");
+        }
 
-                // Otherwise, search Docs/Meta Embeddings
-                console.log("   🔍 Searching Event Info Embeddings...");
-                const embedding = await EmbeddingService.generateEmbedding(question);
-                const [meta, doc] = await Promise.all([
-                    SupabaseService.searchEventEmbeddings(embedding, eventId, 'meta', 3, 0.45),
-                    SupabaseService.searchEventEmbeddings(embedding, eventId, 'doc', 5, 0.45)
-                ]);
-
-                const matches = [...meta, ...doc];
-                if (matches.length === 0) {
-                    return { answer: "This information is not available.", sources: [] };
-                }
+        try {
+            const { standaloneQuestion, rewrittenQuestion } = await this.resolveQuestion(question, history);
+            const retrieval = await this.retrieve(eventId, standaloneQuestion, userId, history);
 
-                sources = matches;
-                contextText = matches.map(m => `[${m.category.toUpperCase()}] ${m.chunks}`).join("\n\n");
+            if (retrieval.directAnswer !== undefined) {
+                return this.buildResponse(retrieval, retrieval.directAnswer, rewrittenQuestion);
             }
 
-            // 3. GENERATE ANSWER (If not returned early)
-            const systemInstruction = `
-You are a strict Event Assistant.
-Context is retrieved based on intent: ${intent}.
+            console.log(`   Brain: Thinking (${llm.name})...`);
+            const answer = (await llm.generate(retrieval.prompt!, { systemInstruction: retrieval.systemInstruction })).trim();
 
-GUIDELINES:
-1. Answer using ONLY the provided Context.
-2. Do NOT hallucinate. If info is missing, say "I don't know".
-3. Do not infer external knowledge.
-4. Keep answers concise.
-5. Do not reveal IDs.
-
-CONTEXT:
-${contextText}
-`;
+            return this.buildResponse(retrieval, answer, rewrittenQuestion);
+        } catch (error) {
+            console.error("❌ [ASSISTANT] Error:", error);
+            return this.failure("I encountered an error.");
+        }
+    }
 
-            console.log("   Brain: Thinking (Gemini)...");
-            const model = genAI.getGenerativeModel({
-                model: "gemini-2.0-flash-exp",
-                systemInstruction: systemInstruction
-            });
+    /**
+     * Streaming variant of askQuestion. Yields events as they happen:
+     * `sources` once retrieval is done, `token` for each generated text delta,
+     * then `done` with the full response (including citations). Failures are reported as `error`.
+     */
+    static async *streamQuestion(
+        eventId: string,
+        question: string,
+        userId?: string,
+        history: ConversationTurn[] = []
+    ): AsyncGenerator<AssistantStreamEvent> {
+        console.log(`\n🤖 [ASSISTANT] Streaming: "${question}"`);
+        console.log(`   🔒 Access Scope: EventId=${eventId}, UserId=${userId || 'Guest'}`);
 
-            const result = await model.generateContent(`QUESTION: ${question}`);
-            const answer = result.response.text().trim();
+        const llm = getLlmProvider();
+        if (!eventId || !llm.isAvailable()) {
+            const answer = !eventId
+                ? "Error: No Event Context provided."
+                : "I'm sorry, I'm currently offline (API Key missing).";
+            yield { type: 'sources', intent: 'GENERAL', sources: [] };
+            yield { type: 'token', text: answer };
+            yield { type: 'done', ...this.failure(answer) };
+            return;
+        }
 
-            return {
-                answer: answer,
-                sources: sources.slice(0, 3).map(m => ({
-                    category: m.category,
-                    snippet: m.chunks.substring(0, 50) + "..."
-                }))
-            };
+        try {
+            const { standaloneQuestion, rewrittenQuestion } = await this.resolveQuestion(question, history);
+            const retrieval = await this.retrieve(eventId, standaloneQuestion, userId, history);
+            const { intent, sources } = retrieval;
+            yield { type: 'sources', intent, sources };
+
+            let answer = "";
+            if (retrieval.directAnswer !== undefined) {
+                answer = retrieval.directAnswer;
+                yield { type: 'token', text: answer };
+            } else {
+                console.log(`   Brain: Streaming (${llm.name})...`);
+                for await (const text of llm.generateStream(retrieval.prompt!, { systemInstruction: retrieval.systemInstruction })) {
+                    answer += text;
+                    yield { type: 'token', text };
+                }
+            }
 
+            yield { type: 'done', ...this.buildResponse(retrieval, answer.trim(), rewrittenQuestion) };
         } catch (error) {
-            console.error("❌ [ASSISTANT] Error:", error);
-            return { answer: "I encountered an error.", sources: [] };
+            console.error("❌ [ASSISTANT] Stream error:", error);
+            yield { type: 'error', message: "I encountered an error." };
         }
     }
 }
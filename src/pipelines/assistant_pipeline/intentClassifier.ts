@@ -0,0 +1,212 @@
+import config from "../../config";
+import { EmbeddingService } from "../../services/embeddingService";
+import { getLlmProvider } from "../../services/llm";
+import { cosineSimilarity } from "../../services/vectorStore";
+import { ASSISTANT_INTENTS, AssistantIntent } from "./types";
+
+/**
+ * Decides which flow answers a question. Selected with ASSISTANT_INTENT_CLASSIFIER.
+ */
+export interface IntentClassifier {
+    readonly name: string;
+
+    /** Optional warm-up, called once at server startup */
+    initialize?(): Promise<void>;
+
+    classify(question: string): Promise<AssistantIntent>;
+}
+
+/**
+ * Keyword rules: fast, free and high precision. Order matters.
+ */
+export class RuleIntentClassifier implements IntentClassifier {
+    readonly name = "rules";
+
+    /** The matching intent, or null when no rule applies */
+    match(question: string): AssistantIntent | null {
+        const q = question.toLowerCase().trim();
+
+        // 1. PERSONAL (first-person phrasing wins over the topic it mentions)
+        if (/\b(for\s+me|should\s+i|useful|relevant|worth|benefit|my\s+(role|career|profile|goals?|background))\b/.test(q)) {
+            return "PERSONAL";
+        }
+
+        // 2. CONTENT (Speakers, Agenda)
+        if (/\b(learn|agenda|topics?|speakers?|workshops?|schedule|track|sessions?|curriculum|takeaways?|program|talks?|what\s+will\s+i)\b/.test(q)) {
+            return "CONTENT";
+        }
+
+        // 3. MEMBER_DISCOVERY (Priority > Metadata)
+        // Explicitly matches 'how many', 'who is attending', roles and companies
+        if (/\b(who|investors?|founders?|fund(ing|ers)|mentors?|ceo|cto|cmo|cfo|companies|startups?|manufacturers?|hiring|attends?|attending|attendees?|participants?|members?|people|person|connect|meet|network|coming|else|list|how\s+many)\b/.test(q)) {
+            return "MEMBER_DISCOVERY";
+        }
+
+        // 4. METADATA (Location, Time)
+        // Uses \b to prevent partial matches (e.g. 'end' matching inside 'attending')
+        if (/\b(where|when|date|time|venue|location|address|starts?|ends?|map|place|duration|deadline)\b/.test(q)) {
+            return "METADATA";
+        }
+
+        // 5. GENERAL (Simple greetings)
+        if (/^(hi|hello|hey|greetings|thanks|thank\s+you|good\s+(morning|afternoon|evening))\b/.test(q)) {
+            return "GENERAL";
+        }
+
+        return null;
+    }
+
+    async classify(question: string): Promise<AssistantIntent> {
+        return this.match(question) || "GENERAL";
+    }
+}
+
+/**
+ * Asks the configured LLM provider to pick an intent
+ */
+export class LlmIntentClassifier implements IntentClassifier {
+    readonly name = "llm";
+
+    async classify(question: string): Promise<AssistantIntent> {
+        const llm = getLlmProvider();
+        if (!llm.isAvailable()) return "GENERAL";
+
+        try {
+            const intent = await llm.classify<AssistantIntent>(
+                question,
+                ASSISTANT_INTENTS,
+                `Classify the user's question about an event.
+    METADATA: date, time, venue, location
+    CONTENT: agenda, topics, speakers, sessions
+    PERSONAL: whether the event suits the asker ("Is this useful for me?")
+    MEMBER_DISCOVERY: people, companies, roles, counts ("Any investors?", "Who is the CTO?")
+    GENERAL: greetings, overviews, anything else`
+            );
+            if (intent) return intent;
+        } catch (e) {
+            console.error("LLM intent classification failed:", e);
+        }
+        return "GENERAL";
+    }
+}
+
+const INTENT_CORPUS: Record<AssistantIntent, string[]> = {
+    METADATA: [
+        "Where is the event", "What is the venue", "When does the event start",
+        "Date of the event", "Duration", "Is this online", "start time", "end time",
+        "location", "address", "map", "meeting link"
+    ],
+    CONTENT: [
+        "What will I learn", "Topics covered", "Event agenda", "Speakers list",
+        "Workshops", "Key takeaways", "schedule", "sessions", "curriculum"
+    ],
+    PERSONAL: [
+        "Is this event useful for me", "Should I attend", "Relevant to my profile",
+        "Good for my role", "Help my career", "suitable for beginners", "worth my time"
+    ],
+    MEMBER_DISCOVERY: [
+        "Any investors attending", "Who is attending", "List of participants",
+        "Meet founders", "Looking for collaborators", "any students", "who else is coming",
+        "network with people", "find someone", "connect with"
+    ],
+    GENERAL: [
+        "Tell me about this event", "Give me an overview", "Explain the event", "Hi", "Hello"
+    ]
+};
+
+// Minimum similarity to an example phrase before the semantic step is trusted
+const SEMANTIC_THRESHOLD = 0.55;
+
+/**
+ * Rules first, then similarity to example phrases, then the LLM as a last resort
+ */
+export class HybridIntentClassifier implements IntentClassifier {
+    readonly name = "hybrid";
+    private rules = new RuleIntentClassifier();
+    private llm = new LlmIntentClassifier();
+    private intentVectors: { intent: AssistantIntent; vector: number[] }[] = [];
+
+    /**
+     * Pre-compute embeddings for the example phrases
+     */
+    async initialize(): Promise<void> {
+        this.intentVectors = [];
+        console.log("🔄 Initializing Intent Classifier (Pre-computing embeddings)...");
+
+        const llm = getLlmProvider();
+        if (!llm.isAvailable()) {
+            console.warn(`⚠️ LLM provider '${llm.name}' not configured. Intent classifier will rely on rule-based logic only.`);
+            return;
+        }
+
+        try {
+            for (const intent of ASSISTANT_INTENTS) {
+                const results = await Promise.all(
+                    INTENT_CORPUS[intent].map(async (example) => ({
+                        intent,
+                        vector: await EmbeddingService.generateEmbedding(example),
+                    }))
+                );
+                this.intentVectors.push(...results.filter(r => r.vector.length > 0));
+            }
+            console.log(`✅ Intent classifier initialized with ${this.intentVectors.length} semantic samples.`);
+        } catch (err) {
+            console.error("❌ Failed to initialize intent classifier:", err);
+        }
+    }
+
+    async classify(question: string): Promise<AssistantIntent> {
+        // 1️⃣ Rule-based (Fastest, High Precision for keywords)
+        const ruleIntent = this.rules.match(question);
+        if (ruleIntent) return ruleIntent;
+
+        // 2️⃣ Semantic (Fallback for nuance)
+        if (this.intentVectors.length > 0) {
+            try {
+                const queryVec = await EmbeddingService.generateEmbedding(question);
+                let best: { intent: AssistantIntent; score: number } = { intent: "GENERAL", score: 0 };
+                for (const item of this.intentVectors) {
+                    const score = cosineSimilarity(queryVec, item.vector);
+                    if (score > best.score) best = { intent: item.intent, score };
+                }
+                if (best.score >= SEMANTIC_THRESHOLD) return best.intent;
+            } catch (e) {
+                console.error("Semantic intent determination failed:", e);
+            }
+        }
+
+        // 3️⃣ LLM Fallback (Slow but Smarter - Last Resort)
+        console.log("⚠️ Low semantic confidence. Falling back to LLM for intent...");
+        return this.llm.classify(question);
+    }
+}
+
+let classifier: IntentClassifier | null = null;
+
+export const createIntentClassifier = (name: string = config.assistant.intentClassifier): IntentClassifier => {
+    switch (name) {
+        case "rules":
+            return new RuleIntentClassifier();
+        case "llm":
+            return new LlmIntentClassifier();
+        case "hybrid":
+            return new HybridIntentClassifier();
+        default:
+            console.warn(`⚠️ Unknown ASSISTANT_INTENT_CLASSIFIER '${name}', falling back to hybrid`);
+            return new HybridIntentClassifier();
+    }
+};
+
+export const getIntentClassifier = (): IntentClassifier => {
+    if (!classifier) {
+        classifier = createIntentClassifier();
+    }
+    return classifier;
+};
+
+/**
+ * Override the shared classifier (e.g. a custom or deterministic one in scripts)
+ */
+export const setIntentClassifier = (next: IntentClassifier): void => {
+    classifier = next;
+};
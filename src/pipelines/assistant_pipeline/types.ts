@@ -0,0 +1,58 @@
+/**
+ * Intents the assistant routes on
+ * - METADATA: date, time, venue (answered straight from the event record)
+ * - CONTENT: agenda, topics, speakers (event documents)
+ * - PERSONAL: "is this useful for me?" (documents + the asker's profile)
+ * - MEMBER_DISCOVERY: who is attending, finding people (member embeddings)
+ * - GENERAL: greetings and overviews
+ */
+export type AssistantIntent = 'METADATA' | 'CONTENT' | 'PERSONAL' | 'MEMBER_DISCOVERY' | 'GENERAL';
+
+export const ASSISTANT_INTENTS: AssistantIntent[] = ['METADATA', 'CONTENT', 'PERSONAL', 'MEMBER_DISCOVERY', 'GENERAL'];
+
+export interface AssistantSource {
+    category: string;       // 'meta' | 'doc' | 'member' | 'session' | 'db_meta' | 'db_count' | 'profile'
+    snippet: string;
+}
+
+/**
+ * A retrieved span backing part of an answer. `ref` is the number used in the
+ * answer's inline markers ("... starts at 10am [2]").
+ */
+export interface AssistantCitation {
+    ref: number;
+    category: 'doc' | 'meta' | 'member' | 'session' | 'event' | 'profile';
+    text: string;           // Full retrieved span
+    similarity?: number;
+    // Document chunks
+    chunkId?: string;
+    pdfIndex?: number;      // Index into the event's attachments
+    sourceUrl?: string;
+    pageStart?: number;
+    pageEnd?: number;
+    section?: string;
+    // Member matches
+    memberId?: string;
+    // Agenda sessions
+    sessionId?: string;
+}
+
+/**
+ * Response contract shared by every assistant endpoint
+ */
+export interface AssistantResponse {
+    answer: string;
+    intent: AssistantIntent;
+    sources: AssistantSource[];
+    confidence: number;         // 0-100
+    citations: AssistantCitation[];
+    grounded: boolean;          // false when some sentences are not backed by any citation
+    unsupportedClaims: string[];
+    rewrittenQuestion?: string; // Set when a follow-up was rewritten using the conversation
+}
+
+export type AssistantStreamEvent =
+    | { type: 'sources'; intent: AssistantIntent; sources: AssistantSource[] }
+    | { type: 'token'; text: string }
+    | ({ type: 'done' } & AssistantResponse)
+    | { type: 'error'; message: string };
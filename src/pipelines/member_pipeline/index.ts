@@ -3,7 +3,7 @@ import { User } from '../../models/User';
 import EventMember from '../../models/EventMember';
 import { Event } from '../../models/Event';
 import { EmbeddingService } from '../../services/embeddingService';
-import { SupabaseService } from '../../services/supabaseService';
+import { getVectorStore } from '../../services/vectorStore';
 
 /**
  * UNIFIED MEMBER PIPELINE
@@ -18,7 +18,7 @@ import { SupabaseService } from '../../services/supabaseService';
  * - User existence checking
  * - Automatic user creation
  * - Embedding generation
- * - Supabase storage
+ * - Vector store storage
  * - Duplicate prevention
  */
 
@@ -183,12 +183,13 @@ export class MemberPipeline {
                 return this.errorResponse('Member not found in event');
             }
 
+            await Event.updateOne({ _id: eventId }, { $inc: { goingCount: -1 } });
             console.log(`✅ Removed from EventMembers collection`);
 
-            // STEP 2: Delete Embedding from Supabase
+            // STEP 2: Delete Embedding from vector store
             try {
-                await SupabaseService.deleteMemberEmbedding(eventId, userId);
-                console.log(`✅ Embedding deleted from Supabase`);
+                await getVectorStore().deleteMemberEmbedding(eventId, userId);
+                console.log(`✅ Embedding deleted from vector store`);
             } catch (embErr) {
                 console.warn('⚠️ Failed to delete embedding:', embErr);
                 // Don't fail the entire operation
@@ -241,7 +242,7 @@ export class MemberPipeline {
 
             // STEP 2: Delete Old Embedding
             try {
-                await SupabaseService.deleteMemberEmbedding(eventId, userId);
+                await getVectorStore().deleteMemberEmbedding(eventId, userId);
                 console.log(`✅ Old embedding deleted`);
             } catch (err) {
                 console.warn('⚠️ Failed to delete old embedding:', err);
@@ -429,10 +430,11 @@ export class MemberPipeline {
             source,
             joinedAt: new Date(),
         });
+        await Event.updateOne({ _id: eventId }, { $inc: { goingCount: 1 } });
     }
 
     /**
-     * Create profile embedding and store in Supabase
+     * Create profile embedding and store in the vector store
      */
     private static async createAndStoreEmbedding(
         eventId: string,
@@ -456,8 +458,8 @@ export class MemberPipeline {
                 return false;
             }
 
-            // Store in Supabase
-            await SupabaseService.storeMemberProfile(
+            // Store in vector store
+            await getVectorStore().storeMemberProfile(
                 eventId,
                 userId,
                 profileText,
@@ -0,0 +1,136 @@
+import { Router, Response } from "express";
+import mongoose from "mongoose";
+import { authMiddleware } from "../middleware/authMiddleware";
+import { requirePermission } from "../middleware/permissionMiddleware";
+import { AuthRequest } from "../types";
+import { User } from "../models/User";
+import { RbacService } from "../services/rbacService";
+import { isEventRole, isPlatformRole, Role } from "../config/roles";
+
+const router = Router();
+
+// Every admin route requires an authenticated user allowed to manage roles
+router.use(authMiddleware, requirePermission("roles:manage"));
+
+/**
+ * GET /users/:userId/roles
+ * Get a user's platform and event roles with the permissions they grant
+ */
+router.get(
+    "/users/:userId/roles",
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const { userId } = req.params;
+            if (!mongoose.Types.ObjectId.isValid(userId)) {
+                res.status(400).json({ error: "Bad Request", message: "Invalid user ID" });
+                return;
+            }
+
+            const user = await User.findById(userId).select("name email accessRoles eventRoles");
+            if (!user) {
+                res.status(404).json({ error: "Not Found", message: "User not found" });
+                return;
+            }
+
+            res.status(200).json({
+                message: "Roles retrieved successfully",
+                data: {
+                    userId: user._id,
+                    name: user.name,
+                    email: user.email,
+                    accessRoles: user.accessRoles,
+                    eventRoles: user.eventRoles,
+                    permissions: RbacService.getPermissionsForRoles(user.accessRoles),
+                },
+            });
+        } catch (error) {
+            console.error("Error fetching roles:", error);
+            res.status(500).json({ error: "Internal Server Error", message: "Failed to fetch roles" });
+        }
+    }
+);
+
+/**
+ * POST /users/:userId/roles
+ * Grant a role. Body: { role, eventId? } (eventId required for event roles)
+ */
+router.post(
+    "/users/:userId/roles",
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const { userId } = req.params;
+            const { role, eventId } = req.body;
+
+            if (!role || (!isPlatformRole(role) && !isEventRole(role))) {
+                res.status(400).json({ error: "Bad Request", message: "A valid role is required" });
+                return;
+            }
+
+            if (!mongoose.Types.ObjectId.isValid(userId)) {
+                res.status(400).json({ error: "Bad Request", message: "Invalid user ID" });
+                return;
+            }
+
+            if (isEventRole(role)) {
+                const eventRoles = eventId ? await RbacService.getEventRoles(userId, eventId) : null;
+                if (eventRoles === null) {
+                    res.status(404).json({ error: "Not Found", message: "Event not found" });
+                    return;
+                }
+            }
+
+            const result = await RbacService.grantRole(userId, role as Role, req.user!.userId, eventId);
+            if (!result.success) {
+                res.status(400).json({ error: "Bad Request", message: result.message });
+                return;
+            }
+
+            res.status(200).json({ message: result.message });
+        } catch (error) {
+            console.error("Error granting role:", error);
+            res.status(500).json({ error: "Internal Server Error", message: "Failed to grant role" });
+        }
+    }
+);
+
+/**
+ * DELETE /users/:userId/roles/:role
+ * Revoke a role. Query: ?eventId= (required for event roles)
+ */
+router.delete(
+    "/users/:userId/roles/:role",
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const { userId, role } = req.params;
+            const eventId = req.query.eventId as string | undefined;
+
+            if (!isPlatformRole(role) && !isEventRole(role)) {
+                res.status(400).json({ error: "Bad Request", message: "A valid role is required" });
+                return;
+            }
+
+            if (!mongoose.Types.ObjectId.isValid(userId)) {
+                res.status(400).json({ error: "Bad Request", message: "Invalid user ID" });
+                return;
+            }
+
+            if (role === "admin" && userId === req.user!.userId) {
+                res.status(400).json({ error: "Bad Request", message: "You cannot revoke your own admin role" });
+                return;
+            }
+
+            const result = await RbacService.revokeRole(userId, role, eventId);
+            if (!result.success) {
+                res.status(400).json({ error: "Bad Request", message: result.message });
+                return;
+            }
+
+            res.status(200).json({ message: result.message });
+        } catch (error) {
+            console.error("Error revoking role:", error);
+            res.status(500).json({ error: "Internal Server Error", message: "Failed to revoke role" });
+        }
+    }
+);
+
+export default router;
@@ -0,0 +1,326 @@
+import { Router, Response } from "express";
+import mongoose from "mongoose";
+import { authMiddleware } from "../middleware/authMiddleware";
+import { requirePermission } from "../middleware/permissionMiddleware";
+import { AuthRequest } from "../types";
+import { Event } from "../models/Event";
+import { AgendaService } from "../services/agendaService";
+
+// Mounted at /events/:id - the event id comes from the parent path
+const router = Router({ mergeParams: true });
+
+/**
+ * Load the event an agenda request targets (404 when missing)
+ */
+const findEvent = async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const event = mongoose.Types.ObjectId.isValid(id) ? await Event.findById(id).select("isSeries") : null;
+    if (!event) {
+        res.status(404).json({ error: "Not Found", message: "Event not found" });
+        return null;
+    }
+    return event;
+};
+
+/**
+ * GET /sessions
+ * Event agenda in time order, with speakers
+ * Query: track, room
+ */
+router.get(
+    "/sessions",
+    authMiddleware,
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            if (!(await findEvent(req, res))) return;
+
+            const { track, room } = req.query as Record<string, string | undefined>;
+            const sessions = await AgendaService.listSessions(req.params.id, { track, room });
+
+            res.status(200).json({
+                message: "Sessions retrieved successfully",
+                data: sessions,
+                count: sessions.length,
+            });
+        } catch (error: any) {
+            console.error("Error fetching sessions:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to fetch sessions",
+            });
+        }
+    }
+);
+
+/**
+ * GET /sessions/:sessionId
+ * One session with full speaker profiles
+ */
+router.get(
+    "/sessions/:sessionId",
+    authMiddleware,
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const session = await AgendaService.getSession(req.params.id, req.params.sessionId);
+            if (!session) {
+                res.status(404).json({ error: "Not Found", message: "Session not found" });
+                return;
+            }
+
+            res.status(200).json({ message: "Session retrieved successfully", data: session });
+        } catch (error: any) {
+            console.error("Error fetching session:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to fetch session",
+            });
+        }
+    }
+);
+
+/**
+ * POST /sessions
+ * Add a session
+ * Body: { title, startTime, endTime, description?, room?, track?, speakerIds? }
+ */
+router.post(
+    "/sessions",
+    authMiddleware,
+    requirePermission('events:edit_content'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const event = await findEvent(req, res);
+            if (!event) return;
+
+            const invalid = AgendaService.checkAgendaEvent(event);
+            if (invalid) {
+                res.status(400).json({ error: "Bad Request", message: invalid });
+                return;
+            }
+
+            const result = await AgendaService.createSession(req.params.id, req.body, req.user!.userId);
+            if (!result.success) {
+                res.status(400).json({ error: "Bad Request", message: result.message });
+                return;
+            }
+
+            res.status(201).json({ message: result.message, data: result.data });
+        } catch (error: any) {
+            console.error("Error creating session:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to create session",
+            });
+        }
+    }
+);
+
+/**
+ * PUT /sessions/:sessionId
+ * Update a session (only the fields sent are changed)
+ */
+router.put(
+    "/sessions/:sessionId",
+    authMiddleware,
+    requirePermission('events:edit_content'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const result = await AgendaService.updateSession(
+                req.params.id,
+                req.params.sessionId,
+                req.body,
+                req.user!.userId
+            );
+            if (!result.success) {
+                const status = result.message === "Session not found" ? 404 : 400;
+                res.status(status).json({ error: status === 404 ? "Not Found" : "Bad Request", message: result.message });
+                return;
+            }
+
+            res.status(200).json({ message: result.message, data: result.data });
+        } catch (error: any) {
+            console.error("Error updating session:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to update session",
+            });
+        }
+    }
+);
+
+/**
+ * DELETE /sessions/:sessionId
+ * Remove a session
+ */
+router.delete(
+    "/sessions/:sessionId",
+    authMiddleware,
+    requirePermission('events:edit_content'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const deleted = await AgendaService.deleteSession(req.params.id, req.params.sessionId, req.user!.userId);
+            if (!deleted) {
+                res.status(404).json({ error: "Not Found", message: "Session not found" });
+                return;
+            }
+
+            res.status(200).json({ message: "Session deleted" });
+        } catch (error: any) {
+            console.error("Error deleting session:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to delete session",
+            });
+        }
+    }
+);
+
+/**
+ * GET /speakers
+ * Speakers of the event
+ */
+router.get(
+    "/speakers",
+    authMiddleware,
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            if (!(await findEvent(req, res))) return;
+
+            const speakers = await AgendaService.listSpeakers(req.params.id);
+            res.status(200).json({
+                message: "Speakers retrieved successfully",
+                data: speakers,
+                count: speakers.length,
+            });
+        } catch (error: any) {
+            console.error("Error fetching speakers:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to fetch speakers",
+            });
+        }
+    }
+);
+
+/**
+ * POST /speakers
+ * Add a speaker
+ * Body: { userId } or { email } to link an existing account, and/or
+ *       { name, title?, company?, bio?, photoUrl?, links? }
+ */
+router.post(
+    "/speakers",
+    authMiddleware,
+    requirePermission('events:edit_content'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            if (!(await findEvent(req, res))) return;
+
+            const result = await AgendaService.createSpeaker(req.params.id, req.body, req.user!.userId);
+            if (!result.success) {
+                res.status(400).json({ error: "Bad Request", message: result.message });
+                return;
+            }
+
+            res.status(201).json({ message: result.message, data: result.data });
+        } catch (error: any) {
+            console.error("Error creating speaker:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to create speaker",
+            });
+        }
+    }
+);
+
+/**
+ * PUT /speakers/:speakerId
+ * Update a speaker profile
+ */
+router.put(
+    "/speakers/:speakerId",
+    authMiddleware,
+    requirePermission('events:edit_content'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const result = await AgendaService.updateSpeaker(
+                req.params.id,
+                req.params.speakerId,
+                req.body,
+                req.user!.userId
+            );
+            if (!result.success) {
+                const status = result.message === "Speaker not found" ? 404 : 400;
+                res.status(status).json({ error: status === 404 ? "Not Found" : "Bad Request", message: result.message });
+                return;
+            }
+
+            res.status(200).json({ message: result.message, data: result.data });
+        } catch (error: any) {
+            console.error("Error updating speaker:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to update speaker",
+            });
+        }
+    }
+);
+
+/**
+ * GET /speakers/:speakerId
+ * Speaker profile with their sessions
+ */
+router.get(
+    "/speakers/:speakerId",
+    authMiddleware,
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const { id, speakerId } = req.params;
+            const speaker = await AgendaService.getSpeaker(id, speakerId);
+            if (!speaker) {
+                res.status(404).json({ error: "Not Found", message: "Speaker not found" });
+                return;
+            }
+
+            res.status(200).json({
+                message: "Speaker retrieved successfully",
+                data: { ...speaker.toObject(), sessions: await AgendaService.getSpeakerSessions(id, speakerId) },
+            });
+        } catch (error: any) {
+            console.error("Error fetching speaker:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to fetch speaker",
+            });
+        }
+    }
+);
+
+/**
+ * DELETE /speakers/:speakerId
+ * Remove a speaker (and from every session they were on)
+ */
+router.delete(
+    "/speakers/:speakerId",
+    authMiddleware,
+    requirePermission('events:edit_content'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const deleted = await AgendaService.deleteSpeaker(req.params.id, req.params.speakerId, req.user!.userId);
+            if (!deleted) {
+                res.status(404).json({ error: "Not Found", message: "Speaker not found" });
+                return;
+            }
+
+            res.status(200).json({ message: "Speaker deleted" });
+        } catch (error: any) {
+            console.error("Error deleting speaker:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to delete speaker",
+            });
+        }
+    }
+);
+
+export default router;
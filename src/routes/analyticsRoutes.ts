@@ -0,0 +1,89 @@
+import { Router, Response } from "express";
+import { authMiddleware } from "../middleware/authMiddleware";
+import { requirePermission } from "../middleware/permissionMiddleware";
+import { AuthRequest } from "../types";
+import { AnalyticsService } from "../services/analyticsService";
+
+// Mounted at /events/:id - the event id comes from the parent path
+const router = Router({ mergeParams: true });
+
+/**
+ * GET /analytics
+ * Views, joins/leaves, not-interested marks, assistant questions by intent, member searches
+ * and connection requests between attendees, per time bucket
+ * Query: from, to (ISO, default: last 30 days), bucket: day | week | month, format=csv for a download
+ */
+router.get(
+    "/analytics",
+    authMiddleware,
+    requirePermission('events:view_analytics'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const { id } = req.params;
+            const { params, error } = AnalyticsService.parseParams(req.query);
+            if (!params) {
+                res.status(400).json({ error: "Bad Request", message: error });
+                return;
+            }
+
+            const analytics = await AnalyticsService.getEventAnalytics(id, params);
+            if (!analytics) {
+                res.status(404).json({ error: "Not Found", message: "Event not found" });
+                return;
+            }
+
+            if (req.query.format === "csv") {
+                res.setHeader("Content-Type", "text/csv; charset=utf-8");
+                res.setHeader("Content-Disposition", `attachment; filename="analytics-${id}-${params.bucket}.csv"`);
+                res.status(200).send(AnalyticsService.toCsv(analytics));
+                return;
+            }
+
+            res.status(200).json({
+                message: "Analytics retrieved successfully",
+                data: analytics,
+            });
+        } catch (error: any) {
+            console.error("Error fetching event analytics:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to fetch analytics",
+            });
+        }
+    }
+);
+
+/**
+ * GET /analytics/retention
+ * Weekly retention cohorts of a community's members
+ * Query: weeks (number of cohorts, default 12, max 52)
+ */
+router.get(
+    "/analytics/retention",
+    authMiddleware,
+    requirePermission('events:view_analytics'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const weeks = req.query.weeks !== undefined ? Number(req.query.weeks) : undefined;
+            const result = await AnalyticsService.getRetentionCohorts(req.params.id, weeks);
+            if (!result.success) {
+                const status = result.message === "Event not found" ? 404 : 400;
+                res.status(status).json({ error: status === 404 ? "Not Found" : "Bad Request", message: result.message });
+                return;
+            }
+
+            res.status(200).json({
+                message: result.message,
+                data: result.data,
+            });
+        } catch (error: any) {
+            console.error("Error computing retention cohorts:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to compute retention cohorts",
+            });
+        }
+    }
+);
+
+export default router;
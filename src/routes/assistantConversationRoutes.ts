@@ -0,0 +1,100 @@
+import { Router, Response } from "express";
+import mongoose from "mongoose";
+import { authMiddleware } from "../middleware/authMiddleware";
+import { AuthRequest } from "../types";
+import { ConversationService } from "../services/conversationService";
+
+const router = Router();
+
+// Conversations are private: every route only sees the caller's own conversations
+router.use(authMiddleware);
+
+/**
+ * GET /
+ * List the user's assistant conversations (newest first, without messages)
+ * Query: eventId (optional)
+ */
+router.get(
+    "/",
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const eventId = req.query.eventId as string | undefined;
+            if (eventId && !mongoose.Types.ObjectId.isValid(eventId)) {
+                res.status(400).json({ error: "Bad Request", message: "Invalid event ID" });
+                return;
+            }
+
+            const conversations = await ConversationService.listConversations(req.user!.userId, eventId);
+
+            res.status(200).json({
+                message: "Conversations retrieved successfully",
+                data: conversations.map((conversation) => ({
+                    id: conversation._id,
+                    eventId: conversation.eventId,
+                    title: conversation.title,
+                    lastMessageAt: conversation.lastMessageAt,
+                    createdAt: conversation.createdAt,
+                })),
+            });
+        } catch (error) {
+            console.error("Error listing conversations:", error);
+            res.status(500).json({ error: "Internal Server Error", message: "Failed to list conversations" });
+        }
+    }
+);
+
+/**
+ * GET /:conversationId
+ * Get a conversation with its messages (to resume it, pass its id as conversationId)
+ */
+router.get(
+    "/:conversationId",
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const conversation = await ConversationService.getConversation(req.user!.userId, req.params.conversationId);
+            if (!conversation) {
+                res.status(404).json({ error: "Not Found", message: "Conversation not found" });
+                return;
+            }
+
+            res.status(200).json({
+                message: "Conversation retrieved successfully",
+                data: {
+                    id: conversation._id,
+                    eventId: conversation.eventId,
+                    title: conversation.title,
+                    messages: conversation.messages,
+                    lastMessageAt: conversation.lastMessageAt,
+                    createdAt: conversation.createdAt,
+                },
+            });
+        } catch (error) {
+            console.error("Error fetching conversation:", error);
+            res.status(500).json({ error: "Internal Server Error", message: "Failed to fetch conversation" });
+        }
+    }
+);
+
+/**
+ * DELETE /:conversationId
+ * Delete a conversation and its messages
+ */
+router.delete(
+    "/:conversationId",
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const deleted = await ConversationService.deleteConversation(req.user!.userId, req.params.conversationId);
+            if (!deleted) {
+                res.status(404).json({ error: "Not Found", message: "Conversation not found" });
+                return;
+            }
+
+            res.status(200).json({ message: "Conversation deleted successfully" });
+        } catch (error) {
+            console.error("Error deleting conversation:", error);
+            res.status(500).json({ error: "Internal Server Error", message: "Failed to delete conversation" });
+        }
+    }
+);
+
+export default router;
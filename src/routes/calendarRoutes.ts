@@ -0,0 +1,34 @@
+import { Router, Request, Response } from "express";
+import { CalendarService } from "../services/calendarService";
+
+const router = Router();
+
+/**
+ * GET /:token.ics
+ * Personal calendar feed for calendar apps (no auth header: the token is the credential)
+ * Get the URL from GET /api/users/me/calendar-feed.
+ */
+router.get(
+    "/:token.ics",
+    async (req: Request, res: Response): Promise<void> => {
+        try {
+            const calendar = await CalendarService.getFeed(req.params.token);
+            if (!calendar) {
+                res.status(404).json({ error: "Not Found", message: "Calendar feed not found" });
+                return;
+            }
+
+            res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+            res.setHeader("Cache-Control", "private, max-age=900");
+            res.status(200).send(calendar);
+        } catch (error: any) {
+            console.error("Error rendering calendar feed:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to render calendar feed",
+            });
+        }
+    }
+);
+
+export default router;
@@ -5,6 +5,8 @@ import { NetworkCode } from "../models/NetworkCode";
 import { User } from "../models/User";
 import { authMiddleware } from "../middleware/authMiddleware";
 import mongoose from "mongoose";
+import { PaginationService } from "../services/paginationService";
+import { AnalyticsService } from "../services/analyticsService";
 
 const router = Router();
 
@@ -162,6 +164,9 @@ router.post(
       console.log('✅ BACKEND: Connection created successfully!');
       console.log('📋 BACKEND: Connection ID:', connection._id);
 
+      // Counted in the analytics of events both users attend
+      AnalyticsService.trackConnectionRequest(requestorId, networkCode.userId.toString());
+
       // If autoConnected, increment connection count for both users
       if (autoConnected) {
         console.log('📈 BACKEND: Incrementing connection counts...');
@@ -247,7 +252,8 @@ router.post(
 
 /**
  * GET /connections/my-connections
- * Get all connections for the authenticated user (both sent and received)
+ * Get all connections for the authenticated user (both sent and received), newest first
+ * Query: type, status, limit (max 100), cursor; `count` is the size of this page
  */
 router.get(
   "/my-connections",
@@ -285,17 +291,30 @@ router.get(
         query.status = status;
       }
 
-      const connections = await Connection.find(query)
+      const { page, error } = PaginationService.parse(req.query, ["connections"]);
+      if (!page) {
+        res.status(400).json({ error: "Bad Request", message: error });
+        return;
+      }
+
+      const found = await Connection.find(PaginationService.withCursor(query, "createdAt", -1, page.cursor))
         .populate("userId", "name email")
         .populate("requestorId", "name email")
         .populate("networkCodeId", "name description keywords codeId")
-        .sort({ createdAt: -1 })
+        .sort(PaginationService.sort("createdAt", -1))
+        .limit(page.limit + 1)
         .lean();
 
+      const { items: connections, nextCursor } = PaginationService.toPage(found, page.limit, "connections", (c) => ({
+        value: c.createdAt,
+        id: c._id,
+      }));
+
       res.json({
         message: "Connections retrieved successfully",
         count: connections.length,
         data: connections,
+        nextCursor,
       });
     } catch (error) {
       console.error("Error fetching connections:", error);
@@ -1,6 +1,7 @@
-
 import express from 'express';
 import multer from 'multer';
+import { authMiddleware } from "../middleware/authMiddleware";
+import { requirePermission } from "../middleware/permissionMiddleware";
 import { invalidateCache } from "../middleware/cacheMiddleware";
 import {
   toggleEventParticipation,
@@ -20,12 +21,16 @@ import { uploadMembersExcelEnhanced } from '../controllers/excelUploadController
 const router = express.Router();
 const upload = multer({ storage: multer.memoryStorage() });
 
-
+// Every event-connection route requires an authenticated user
+router.use(authMiddleware);
 
 // Invalidate event cache on connection changes
 router.use(invalidateCache('route:/api/events'));
 
-// Toggle event participation (join/leave)
+// Only organizers (creator, organizer/co-organizer role or admin) may manage members
+const requireMemberManagement = requirePermission('events:manage_members');
+
+// Toggle event participation (join/leave) for the authenticated user
 router.post('/toggle-participation', toggleEventParticipation);
 
 // Check if user has joined an event
@@ -35,24 +40,25 @@ router.get('/check/:eventId/:participantId', checkEventParticipation);
 router.get('/participants/:eventId', getEventParticipants);
 
 // Manual add member
-router.post('/add-member', addManualMember);
+router.post('/add-member', requireMemberManagement, addManualMember);
 
 // Upload members from Excel (uses MemberManagementService with embeddings)
-router.post('/upload-members', upload.single('file'), uploadMembersExcelEnhanced);
+// multer runs first so the eventId in the multipart body is available to the permission check
+router.post('/upload-members', upload.single('file'), requireMemberManagement, uploadMembersExcelEnhanced);
 
 // ========== NEW MEMBER MANAGEMENT ROUTES ==========
 
 // Add members from JSON array (bulk upload)
-router.post('/add-members-json', addMembersFromJSON);
+router.post('/add-members-json', requireMemberManagement, addMembersFromJSON);
 
 // Add a single member manually (enhanced version)
-router.post('/add-member-enhanced', addSingleMember);
+router.post('/add-member-enhanced', requireMemberManagement, addSingleMember);
 
 // Update member profile and regenerate embedding
-router.put('/update-member', updateMemberProfile);
+router.put('/update-member', requireMemberManagement, updateMemberProfile);
 
 // Remove member from event and delete embedding
-router.delete('/remove-member', removeMemberFromEvent);
+router.delete('/remove-member', requireMemberManagement, removeMemberFromEvent);
 
 // Ask Event Assistant
 router.post('/ask', askAssistant);
@@ -2,14 +2,43 @@ import { Router, Response } from "express";
 import cacheService from "../services/cacheService"; // Import CacheService
 import mongoose from "mongoose";
 import { authMiddleware } from "../middleware/authMiddleware";
+import { requirePermission } from "../middleware/permissionMiddleware";
 import { cacheMiddleware, invalidateCache } from "../middleware/cacheMiddleware";
 const { CacheTTL } = require("../services/cacheService");
 import { AuthRequest } from "../types";
-import { Event } from "../models/Event";
-import { uploadToS3, deleteMultipleFromS3 } from "../services/s3Service";
+import { Event, IEvent } from "../models/Event";
+import { RbacService } from "../services/rbacService";
+import { RecurrenceService } from "../services/recurrenceService";
+import { RsvpService } from "../services/rsvpService";
+import { CheckInService } from "../services/checkInService";
+import { CalendarService } from "../services/calendarService";
+import { TeamService } from "../services/teamService";
+import { ModerationService } from "../services/moderationService";
+import { EventVersionService } from "../services/eventVersionService";
+import { GeoService } from "../services/geoService";
+import { EventSearchService } from "../services/eventSearchService";
+import { AnalyticsService } from "../services/analyticsService";
+import { PageParams, PaginationService } from "../services/paginationService";
+import { EVENT_MEDIA_FIELDS, EventMediaField, MediaService } from "../services/mediaService";
+import type { AssistantResponse } from "../pipelines/assistant_pipeline";
 
 const router = Router();
 
+// Fields a content editor (events:edit_content) may change through PUT /:id
+const EVENT_CONTENT_FIELDS = [
+    "name",
+    "headline",
+    "description",
+    "photos",
+    "videos",
+    "tags",
+    "pdfFiles",
+    "attachments",
+    "deletedPhotos",
+    "deletedPdfs",
+    "deletedVideos",
+];
+
 // Invalidate cache on all mutations (POST, PUT, DELETE)
 router.use(invalidateCache('route:/api/events'));
 
@@ -52,12 +81,14 @@ router.post(
                 description,
                 dateTime,
                 location,
-                photos,
-                videos,
                 tags,
                 isEvent,
                 isCommunity,
-                pdfFiles, // Array of Base64 encoded PDFs
+                recurrence, // Optional: makes this a series (object or RRULE string)
+                capacity, // Optional: max confirmed attendees
+                draft, // Optional: save without submitting for review
+                latitude, // Optional: exact coordinates (otherwise geocoded from location)
+                longitude,
             } = req.body;
 
             // Basic validation
@@ -78,91 +109,63 @@ router.post(
                 return;
             }
 
-            // 0. HANDLE IMAGE UPLOADS TO S3
-            const s3PhotoUrls: string[] = [];
-            if (photos && Array.isArray(photos)) {
-                for (let i = 0; i < photos.length; i++) {
-                    const img = photos[i];
-                    if (img.startsWith('data:image')) {
-                        try {
-                            const matches = img.match(/^data:([A-Za-z-+\/]+);base64,(.+)$/);
-                            if (matches && matches.length === 3) {
-                                const contentType = matches[1];
-                                const buffer = Buffer.from(matches[2], 'base64');
-                                const extension = contentType.split('/')[1] || 'png';
-                                const fileName = `event_${req.user?.userId}_${Date.now()}_${i}.${extension} `;
-
-                                console.log(`📡[EVENT] Uploading photo ${i + 1}/${photos.length} to S3...`);
-                                const url = await uploadToS3(buffer, fileName, contentType, 'events');
-                                s3PhotoUrls.push(url);
-                            }
-                        } catch (err) {
-                            console.error(`❌ [EVENT] Photo upload ${i} failed:`, err);
-                            s3PhotoUrls.push(img); // Fallback to Base64
-                        }
-                    } else {
-                        s3PhotoUrls.push(img); // Already a URL or other format
-                    }
-                }
+            if (capacity !== undefined && capacity !== null && (!Number.isInteger(capacity) || capacity < 0)) {
+                res.status(400).json({
+                    error: "Bad Request",
+                    message: "capacity must be a non-negative integer",
+                });
+                return;
             }
 
-            // 1. HANDLE PDF UPLOADS TO S3 (OR URL PASSTHROUGH)
-            const s3PdfUrls: string[] = [];
-            if (pdfFiles && Array.isArray(pdfFiles) && pdfFiles.length > 0) {
-                console.log(`Processing ${pdfFiles.length} PDF items...`);
-                for (let i = 0; i < pdfFiles.length; i++) {
-                    const pdfData = pdfFiles[i];
-                    console.log(`   - [PDF #${i}] Raw length: ${pdfData.length}`);
-
-                    // Case A: Already a URL
-                    if (pdfData.startsWith('http://') || pdfData.startsWith('https://')) {
-                        console.log(`   - [PDF #${i}] Detected as URL: ${pdfData}`);
-                        s3PdfUrls.push(pdfData);
-                        continue;
-                    }
-
-                    // Case B: Base64 (Legacy)
-                    try {
-                        let base64Content = pdfData;
-                        const matches = pdfData.match(/^data:application\/pdf;base64,(.+)$/);
-                        if (matches) {
-                            console.log(`   - [PDF #${i}] Detected data URI scheme. Extracting content.`);
-                            base64Content = matches[1];
-                        } else {
-                            console.log(`   - [PDF #${i}] No data URI scheme found. Assuming raw Base64.`);
-                        }
+            if ((latitude !== undefined || longitude !== undefined) && !GeoService.isValidCoordinate(latitude, longitude)) {
+                res.status(400).json({
+                    error: "Bad Request",
+                    message: "latitude and longitude must be valid coordinates",
+                });
+                return;
+            }
 
-                        const buffer = Buffer.from(base64Content, 'base64');
-                        console.log(`   - [PDF #${i}] Buffer created. Size: ${buffer.length} bytes`);
-
-                        const fileName = `event_doc_${req.user?.userId}_${Date.now()}_${i}.pdf`;
-
-                        console.log(`📡 [EVENT] Uploading PDF ${i + 1}/${pdfFiles.length} to S3... Filename: ${fileName}`);
-                        const url = await uploadToS3(buffer, fileName, 'application/pdf', 'documents');
-                        console.log(`✅ [EVENT] PDF Uploaded: ${url}`);
-                        s3PdfUrls.push(url);
-                    } catch (uploadErr) {
-                        console.error(`❌ [EVENT] PDF upload ${i} failed:`, uploadErr);
-                        // Do not push fallback garbage if it fails, just skip or maybe push original if short
-                        if (pdfData.length < 500) {
-                            console.warn(`   - Keeping original short data as fallback.`);
-                            s3PdfUrls.push(pdfData);
-                        } else {
-                            console.warn(`   - Data too large to keep as fallback. Skipping.`);
-                        }
-                    }
+            // Recurring series need a first occurrence to anchor the rule
+            let recurrenceRule;
+            if (recurrence) {
+                const parsed = RecurrenceService.parseRule(recurrence);
+                if (!parsed.rule) {
+                    res.status(400).json({ error: "Bad Request", message: parsed.error });
+                    return;
                 }
-            } else {
-                console.log('No PDF files found in request.');
+                if (!dateTime) {
+                    res.status(400).json({
+                        error: "Bad Request",
+                        message: "dateTime (first occurrence) is required for recurring events",
+                    });
+                    return;
+                }
+                recurrenceRule = parsed.rule;
             }
 
             // Create event object without embeddings/chunks
             const eventDoc = new Event();
+
+            // Media goes to object storage; inline Base64 from older clients is uploaded here
+            const mediaUrls: Partial<Record<EventMediaField, string[]>> = {};
+            for (const field of Object.keys(EVENT_MEDIA_FIELDS) as EventMediaField[]) {
+                const { urls, error } = await MediaService.resolveEventField(
+                    field, req.body[field], eventDoc._id.toString(), req.user.userId
+                );
+                if (!urls) {
+                    res.status(400).json({ error: "Bad Request", message: error });
+                    return;
+                }
+                mediaUrls[field] = urls;
+            }
+
             eventDoc.attendees = [];
-            eventDoc.pdfFiles = s3PdfUrls;
+            eventDoc.pdfFiles = mediaUrls.pdfFiles || [];
             eventDoc.isVerified = false; // Always starts unverified for cost saving
-            eventDoc.photos = s3PhotoUrls;
-            eventDoc.videos = videos || [];
+            eventDoc.set(ModerationService.initialState(req.user.userId, draft === true));
+            eventDoc.photos = mediaUrls.photos || [];
+            eventDoc.videos = mediaUrls.videos || [];
+            eventDoc.media = await MediaService.eventRefs(mediaUrls);
             eventDoc.tags = tags || [];
             eventDoc.createdBy = new mongoose.Types.ObjectId(req.user.userId);
             eventDoc.name = name;
@@ -170,13 +173,28 @@ router.post(
             eventDoc.description = description;
             if (dateTime) eventDoc.dateTime = new Date(dateTime);
             eventDoc.location = location;
+            eventDoc.set(GeoService.resolve(location, latitude, longitude));
             eventDoc.isEvent = isEvent !== undefined ? Boolean(isEvent) : true;
             eventDoc.isCommunity = isCommunity !== undefined ? Boolean(isCommunity) : false;
             eventDoc.isAdmin = false; // Explicitly mark as NOT admin created
+            eventDoc.capacity = capacity ?? null;
+            if (recurrenceRule) {
+                eventDoc.isSeries = true;
+                eventDoc.recurrence = recurrenceRule;
+            }
 
-            console.log(`💾 [EVENT] Saving unverified event: ${name}. Pipeline will trigger on admin approval.`);
+            console.log(`💾 [EVENT] Saving unverified event (${eventDoc.moderationStatus}): ${name}. Pipeline will trigger on admin approval.`);
             const event = await eventDoc.save();
 
+            // Persist the creator as the event's organizer
+            await RbacService.grantRole(req.user.userId, 'organizer', req.user.userId, event._id.toString());
+            await EventVersionService.recordCreate(event, req.user.userId);
+
+            // Occurrences are generated in the background (and kept rolling forward)
+            if (event.isSeries) {
+                await RecurrenceService.scheduleGeneration(event._id.toString(), 0, req.user.userId);
+            }
+
             // Invalidate Cache (New event affects lists)
             await cacheService.invalidateEventLists(); // Invalidate lists
 
@@ -184,7 +202,9 @@ router.post(
             delete eventResponse.pdfFiles; // Privacy/Size
 
             res.status(201).json({
-                message: "Event created successfully (Pending Admin Approval)",
+                message: eventDoc.moderationStatus === "draft"
+                    ? "Event saved as draft"
+                    : "Event created successfully (Pending Admin Approval)",
                 data: eventResponse,
             });
         } catch (error: any) {
@@ -252,6 +272,7 @@ router.post(
                 });
                 distinctRecord = await newRecord.save();
                 console.log('   ✅ SAVED to Database Result:', distinctRecord);
+                AnalyticsService.track('not_interested', eventObjectId, userObjectId);
             }
 
             // Invalidate Cache so listing updates
@@ -268,6 +289,15 @@ router.post(
 /**
  * GET /
  * Get all events
+ * Query: my, all, near=lat,lng, radiusKm, bbox=minLng,minLat,maxLng,maxLat, limit (max 100), cursor
+ * With `near`, smart results are ranked by relevance blended with distance and
+ * the plain list is sorted by distance; events without coordinates are left out.
+ *
+ * Paginated with `cursor` = the previous page's `nextCursor`. The cursor remembers which
+ * listing produced it: smart (vector) results page through the top candidates of each
+ * embedding (up to 100 per search, re-ranked on every request), so `nextCursor` is null once
+ * those run out; it does not continue into the plain list. The plain list falls back in
+ * only when the first smart page is empty.
  */
 router.get(
     "/",
@@ -282,7 +312,19 @@ router.get(
 
             const { my, all } = req.query;
             const userId = req.user.userId;
-            const userRole = req.user.role;
+
+            const { geo, error: geoError } = GeoService.parseQuery(req.query);
+            if (geoError) {
+                res.status(400).json({ error: "Bad Request", message: geoError });
+                return;
+            }
+
+            const listMode = geo?.center ? 'near' : 'list';
+            const { page, error: pageError } = PaginationService.parse(req.query, ['vector', listMode], { defaultLimit: 20 });
+            if (!page) {
+                res.status(400).json({ error: "Bad Request", message: pageError });
+                return;
+            }
 
             // 1. Fetch Not Interested list
             const { NotInterested } = await import("../models/NotInterested");
@@ -296,37 +338,57 @@ router.get(
                 filter._id = { $nin: excludedIds };
             }
 
-            if (all === 'true' && userRole === 'admin') {
-                // Admin sees everything
+            const canViewAll = all === 'true' && await RbacService.hasPermission(userId, 'events:view_all');
+
+            if (canViewAll) {
+                // Admin sees everything (series as one entry)
+                filter.seriesId = { $exists: false };
             } else if (my === 'true') {
-                // User sees their own events (verified or not)
-                filter.createdBy = new mongoose.Types.ObjectId(userId);
+                // User sees events they created or help run (verified or not), series as one entry
+                const teamEventIds = await TeamService.getTeamEventIds(userId);
+                filter.$or = [
+                    { createdBy: new mongoose.Types.ObjectId(userId) },
+                    { _id: { $in: teamEventIds } },
+                ];
+                filter.seriesId = { $exists: false };
             } else {
-                // Default: only verified events
+                // Default: only verified events; series appear as their upcoming occurrences
                 filter.isVerified = true;
+                filter.isSeries = { $ne: true };
+                filter.isCancelled = { $ne: true };
+                filter.$or = [{ seriesId: { $exists: false } }, { dateTime: { $gte: new Date() } }];
+            }
+
+            // Around a point the distance filter is applied by $geoNear (see below)
+            if (geo && !geo.center) {
+                Object.assign(filter, GeoService.buildFilter(geo));
             }
 
             const User = (await import("../models/User")).User;
             const user = await User.findById(userId);
 
             // If it's a standard request (not 'my' or 'all'), try dual vector search
-            if (!my && !all && user && user.profileEmbedding && user.profileEmbedding.length > 0) {
+            const smartListing = !page.cursor || page.cursor.mode === 'vector';
+            if (smartListing && !my && !all && user && user.profileEmbedding && user.profileEmbedding.length > 0) {
                 console.log(`🔍 semantic dual-search for user: ${user.name}`);
                 try {
-                    // Search stage template
+                    // Search stage template (wider when the distance filter drops candidates afterwards).
+                    // `limit` bounds how far smart results can be paged.
                     const getSearchStage = (path: string) => ({
                         $vectorSearch: {
                             index: "vector_index",
                             path,
                             queryVector: user.profileEmbedding as number[],
-                            numCandidates: 100,
-                            limit: 20
+                            numCandidates: geo ? 500 : 200,
+                            limit: 100
                         }
                     });
 
                     // Match stage template: Global/Discovery should EXCLUDE my own events AND Not Interested events
                     const matchQuery: any = {
                         isVerified: true,
+                        isSeries: { $ne: true }, // Series are matched through their occurrences
+                        isCancelled: { $ne: true },
                         dateTime: { $gte: new Date() },
                         createdBy: { $ne: new mongoose.Types.ObjectId(userId) } // Exclude self
                     };
@@ -337,6 +399,10 @@ router.get(
                         };
                     }
 
+                    if (geo) {
+                        Object.assign(matchQuery, GeoService.buildFilter(geo));
+                    }
+
                     const matchStage = {
                         $match: matchQuery
                     };
@@ -371,29 +437,39 @@ router.get(
                         }
                     });
 
-                    const mergedEvents = Array.from(mergedMap.values())
-                        .sort((a, b) => b.score - a.score)
-                        .slice(0, 20);
-                    await Event.populate(mergedEvents, { path: "createdBy", select: "name photoUrl role company" });
+                    // One entry per series: its next occurrence; nearby events rank higher
+                    const rankedEvents = GeoService.rank(
+                        RecurrenceService.collapseSeries(Array.from(mergedMap.values())),
+                        geo
+                    );
 
                     const minScore = 0.10; // LOWERED THRESHOLD AS REQUESTED
 
+                    const { items: mergedEvents, nextCursor } = PaginationService.pageInMemory(
+                        rankedEvents.filter((event: any) => (event.score || 0) >= minScore),
+                        page,
+                        'vector',
+                        -1,
+                        (event: any) => ({ value: event.rankScore ?? event.score ?? 0, id: event._id })
+                    );
+                    await Event.populate(mergedEvents, { path: "createdBy", select: "name photoUrl role company" });
+
                     console.log(`🔍 Search Scores:`, mergedEvents.map((ev: any) => `${ev.name}: ${(ev.score || 0).toFixed(4)}`).join(" | "));
 
-                    const processedEvents = mergedEvents
-                        .filter((event: any) => (event.score || 0) >= minScore)
-                        .map((event: any) => ({
-                            ...event,
-                            matchScore: Math.round((event.score || 0) * 100),
-                            isJoined: event.attendees
-                                ? event.attendees.some((a: any) => a.toString() === userId)
-                                : false
-                        }));
-
-                    if (processedEvents.length > 0) {
+                    const processedEvents = mergedEvents.map((event: any) => ({
+                        ...event,
+                        matchScore: Math.round((event.score || 0) * 100),
+                        isJoined: event.attendees
+                            ? event.attendees.some((a: any) => a.toString() === userId)
+                            : false
+                    }));
+
+                    // Later pages stay on the smart listing even when they come back empty
+                    if (processedEvents.length > 0 || page.cursor) {
                         res.status(200).json({
                             message: "Events retrieved successfully (Smart Recommendations)",
                             data: processedEvents,
+                            nextCursor,
                         });
                         return; // ONLY return if we actually have results
                     }
@@ -406,19 +482,33 @@ router.get(
                 }
             }
 
-            // Standard find for 'my', 'all', or fallback
-            const events = await Event.find(filter)
-                .populate("createdBy", "name photoUrl role company")
-                .sort({ dateTime: 1 });
+            // Standard find for 'my', 'all', or fallback (a smart cursor here starts from the top)
+            const listPage: PageParams = { ...page, cursor: page.cursor?.mode === listMode ? page.cursor : null };
+            const events: any[] = geo?.center
+                // Nearest events first, one page at a time
+                ? await Event.aggregate(GeoService.nearPipeline(geo, filter, listPage.limit + 1, listPage.cursor))
+                    .then(nearest => Event.populate(nearest, { path: "createdBy", select: "name photoUrl role company" }))
+                : (await Event.find(PaginationService.withCursor(filter, "dateTime", 1, listPage.cursor))
+                    .populate("createdBy", "name photoUrl role company")
+                    .sort(PaginationService.sort("dateTime", 1))
+                    .limit(listPage.limit + 1))
+                    .map(event => event.toObject());
+
+            const eventsWithData = GeoService.withDistance(events.map(event => ({
+                ...event,
+                isJoined: (event.attendees || []).some((a: any) => a.toString() === userId)
+            })), geo);
 
-            const eventsWithData = events.map(event => ({
-                ...event.toObject(),
-                isJoined: event.attendees.some(a => a.toString() === userId)
-            }));
+            const key = (event: typeof eventsWithData[number]) => ({
+                value: geo?.center ? event.distanceMeters ?? null : event.dateTime ?? null,
+                id: event._id,
+            });
+            const { items, nextCursor } = PaginationService.toPage(eventsWithData, listPage.limit, listMode, key);
 
             res.status(200).json({
                 message: "Events retrieved successfully",
-                data: eventsWithData,
+                data: items.map(({ distanceMeters, ...event }) => event),
+                nextCursor,
             });
 
         } catch (error: any) {
@@ -432,20 +522,65 @@ router.get(
 );
 
 /**
- * GET /admin/pending
- * Get pending events for admin approval
+ * GET /search
+ * Faceted search. Query:
+ * - q: free text (name, tags, headline, location, description)
+ * - tags: comma-separated (any of them)
+ * - when: upcoming | this_week (next 7 days) | past; from / to: ISO dates
+ * - type: event | community
+ * - organizer: user id; verified: true | false (moderators only)
+ * - near, radiusKm, bbox: see GET /
+ * - sort: relevance (default with q) | date (default) | popularity; limit (max 100)
+ * Response includes facet counts (tags, when, type, organizer, verified) for filter chips.
  */
 router.get(
-    "/admin/pending",
+    "/search",
     authMiddleware,
+    cacheMiddleware(CacheTTL.SHORT),
     async (req: AuthRequest, res: Response): Promise<void> => {
         try {
-            if (!req.user || req.user.role !== 'admin') {
-                res.status(403).json({ error: "Forbidden", message: "Admin access required" });
+            const userId = req.user!.userId;
+            const canViewAll = await RbacService.hasPermission(userId, 'events:view_all');
+
+            const { params, error } = EventSearchService.parseParams(req.query, canViewAll);
+            if (!params) {
+                res.status(400).json({ error: "Bad Request", message: error });
                 return;
             }
 
-            const events = await Event.find({ isVerified: false })
+            const { results, total, facets } = await EventSearchService.search(params, userId, canViewAll);
+
+            res.status(200).json({
+                message: "Events retrieved successfully",
+                data: results,
+                total,
+                facets,
+            });
+        } catch (error: any) {
+            console.error("Error searching events:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to search events",
+            });
+        }
+    }
+);
+
+/**
+ * GET /admin/pending
+ * Get events waiting for review (series only; occurrences follow their series)
+ */
+router.get(
+    "/admin/pending",
+    authMiddleware,
+    requirePermission('events:moderate'),
+    async (_req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const events = await Event.find({
+                ...ModerationService.statusFilter(['pending_review']),
+                seriesId: { $exists: false },
+            })
+                .select("-moderationHistory")
                 .populate("createdBy", "name photoUrl role company")
                 .sort({ createdAt: -1 });
 
@@ -465,91 +600,32 @@ router.get(
 
 /**
  * PUT /admin/:id/verify
- * Approve an event & Trigger RAG Pipeline (App Backend Port)
+ * Approve an event and queue its semantic pipeline (PDF chunks, embeddings, vector index)
+ * Responds immediately; track progress with GET /jobs/:jobId
+ * Body: { note? }
  */
 router.put(
     "/admin/:id/verify",
     authMiddleware,
+    requirePermission('events:moderate'),
     async (req: AuthRequest, res: Response): Promise<void> => {
         try {
-            if (!req.user || req.user.role !== 'admin') {
-                res.status(403).json({ error: "Forbidden", message: "Admin access required" });
-                return;
-            }
-
             const { id } = req.params;
             console.log(`🎯 [APP-ADMIN] Approving event: ${id}`);
 
-            const baseEvent = await Event.findById(id);
-            if (!baseEvent) {
-                res.status(404).json({ error: "Not Found", message: "Event not found" });
+            const result = await ModerationService.transition(id, 'approve', req.user!.userId, {
+                note: req.body?.note,
+            });
+            if (!result.success) {
+                const status = result.message === "Event not found" ? 404 : 400;
+                res.status(status).json({ error: status === 404 ? "Not Found" : "Bad Request", message: result.message });
                 return;
             }
 
-            // 1. PDF & RAG PIPELINE
-            let pdfChunks = baseEvent.pdfChunks || [];
-            let pdfExtractedTexts = baseEvent.pdfExtractedTexts || [];
-
-            if (baseEvent.pdfFiles && baseEvent.pdfFiles.length > 0) {
-                try {
-                    const { PdfService } = await import("../services/pdfService");
-                    const { RagPipelineService } = await import("../services/ragPipelineService");
-
-                    console.log('📄 [APP-ADMIN] Processing PDFs for chunks/text...');
-                    const extracted: string[] = [];
-                    for (const pdf of baseEvent.pdfFiles) {
-                        if (PdfService.isValidPdf(pdf)) {
-                            extracted.push(await PdfService.extractTextFromPdf(pdf));
-                        }
-                    }
-                    pdfExtractedTexts = extracted;
-                    pdfChunks = await RagPipelineService.processMultiplePdfs(baseEvent.pdfFiles);
-                } catch (ragErr) {
-                    console.error("❌ [APP-ADMIN] RAG Processing failed:", ragErr);
-                }
-            }
-
-            // 2. REFRESH EMBEDDINGS (Gemini)
-            let eventEmbedding = baseEvent.eventEmbedding;
-            let metadataEmbedding = baseEvent.metadataEmbedding;
-
-            try {
-                const { EmbeddingService } = await import("../services/embeddingService");
-                const tempObj = { ...baseEvent.toObject(), pdfExtractedTexts };
-                const metadataText = EmbeddingService.createEventMetadataText(tempObj);
-                const eventText = EmbeddingService.createEventText(tempObj);
-
-                if (metadataText === eventText) {
-                    const shared = await EmbeddingService.generateEmbedding(metadataText);
-                    eventEmbedding = shared;
-                    metadataEmbedding = shared;
-                } else {
-                    eventEmbedding = await EmbeddingService.generateEmbedding(eventText);
-                    metadataEmbedding = await EmbeddingService.generateEmbedding(metadataText);
-                }
-            } catch (embErr) {
-                console.error("❌ [APP-ADMIN] Embedding failed:", embErr);
-            }
-
-            const event = await Event.findByIdAndUpdate(
-                id,
-                {
-                    isVerified: true,
-                    eventEmbedding,
-                    metadataEmbedding,
-                    pdfChunks,
-                    pdfExtractedTexts,
-                    isActive: true
-                },
-                { new: true }
-            );
-
-            // Invalidate Cache
-            await cacheService.invalidateEventLists();
-
-            res.status(200).json({
-                message: "Event verified and semantic pipeline processed",
-                data: event,
+            res.status(202).json({
+                message: "Event verified; semantic pipeline queued",
+                data: result.data,
+                jobId: result.job?._id,
             });
         } catch (error: any) {
             console.error("Error verifying event:", error);
@@ -562,41 +638,49 @@ router.put(
 );
 
 /**
- * DELETE /admin/:id/reject
- * Reject an event (delete it)
+ * PUT /admin/:id/reject
+ * Reject an event. It is kept (with the reason) so the organizer can fix it and resubmit.
+ * Body: { reason, note? }
  */
-router.delete(
-    "/admin/:id/reject",
-    authMiddleware,
-    async (req: AuthRequest, res: Response): Promise<void> => {
-        try {
-            if (!req.user || req.user.role !== 'admin') {
-                res.status(403).json({ error: "Forbidden", message: "Admin access required" });
-                return;
-            }
+const rejectEvent = async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+        const { id } = req.params;
+        const { note } = req.body || {};
+        // Older admin clients call DELETE without a body
+        const reason = req.body?.reason ?? (req.method === "DELETE" ? "Rejected by an administrator" : undefined);
+
+        const result = await ModerationService.transition(id, 'reject', req.user!.userId, { reason, note });
+        if (!result.success) {
+            const status = result.message === "Event not found" ? 404 : 400;
+            res.status(status).json({ error: status === 404 ? "Not Found" : "Bad Request", message: result.message });
+            return;
+        }
 
-            const { id } = req.params;
-            await Event.findByIdAndDelete(id);
+        res.status(200).json({
+            message: "Event rejected",
+            data: result.data,
+        });
+    } catch (error: any) {
+        console.error("Error rejecting event:", error);
+        res.status(500).json({
+            error: "Internal Server Error",
+            message: "Failed to reject event",
+        });
+    }
+};
 
-            // Invalidate Cache
-            await cacheService.invalidateEventLists();
+router.put("/admin/:id/reject", authMiddleware, requirePermission('events:moderate'), rejectEvent);
 
-            res.status(200).json({
-                message: "Event rejected and deleted successfully",
-            });
-        } catch (error: any) {
-            console.error("Error rejecting event:", error);
-            res.status(500).json({
-                error: "Internal Server Error",
-                message: "Failed to reject event",
-            });
-        }
-    }
-);
+/**
+ * DELETE /admin/:id/reject
+ * Alias of PUT /admin/:id/reject for existing admin clients. The event is no longer deleted.
+ */
+router.delete("/admin/:id/reject", authMiddleware, requirePermission('events:moderate'), rejectEvent);
 
 /**
  * GET /recommendations
  * Get recommended events based on user profile
+ * Query: near=lat,lng, radiusKm, bbox=minLng,minLat,maxLng,maxLat (see GET /)
  */
 router.get(
     "/recommendations",
@@ -608,6 +692,13 @@ router.get(
                 return;
             }
 
+            const { geo, error: geoError } = GeoService.parseQuery(req.query);
+            if (geoError) {
+                res.status(400).json({ error: "Bad Request", message: geoError });
+                return;
+            }
+            const geoFilter = geo ? GeoService.buildFilter(geo) : {};
+
             const User = (await import("../models/User")).User;
             const user = await User.findById(req.user.userId);
 
@@ -615,12 +706,18 @@ router.get(
                 // Fallback to latest events if no embedding
                 const events = await Event.find({
                     isVerified: true,
-                    dateTime: { $gte: new Date() }
+                    isSeries: { $ne: true },
+                    isCancelled: { $ne: true },
+                    dateTime: { $gte: new Date() },
+                    ...geoFilter,
                 })
                     .sort({ dateTime: 1 })
                     .limit(10);
 
-                res.status(200).json({ message: "Fallback to latest events", data: events });
+                res.status(200).json({
+                    message: "Fallback to latest events",
+                    data: GeoService.withDistance(events.map(event => event.toObject()), geo),
+                });
                 return;
             }
 
@@ -630,16 +727,19 @@ router.get(
                     index: "vector_index",
                     path,
                     queryVector: user.profileEmbedding as number[],
-                    numCandidates: 100,
-                    limit: 10
+                    numCandidates: geo ? 500 : 100,
+                    limit: geo ? 100 : 10
                 }
             });
 
             const matchStage = {
                 $match: {
                     isVerified: true,
+                    isSeries: { $ne: true }, // Series are matched through their occurrences
+                    isCancelled: { $ne: true },
                     dateTime: { $gte: new Date() },
-                    createdBy: { $ne: new mongoose.Types.ObjectId(req.user.userId) } // Exclude self
+                    createdBy: { $ne: new mongoose.Types.ObjectId(req.user.userId) }, // Exclude self
+                    ...geoFilter,
                 }
             };
 
@@ -666,9 +766,12 @@ router.get(
                 }
             });
 
-            const mergedEvents = Array.from(mergedMap.values())
-                .sort((a, b) => b.score - a.score)
-                .slice(0, 10);
+            // One entry per series: its next occurrence; nearby events rank higher
+            const mergedEvents = GeoService.rank(
+                RecurrenceService.collapseSeries(Array.from(mergedMap.values()))
+                    .sort((a, b) => b.score - a.score),
+                geo
+            ).slice(0, 10);
 
             const processedEvents = mergedEvents.map((event: any) => ({
                 ...event,
@@ -717,6 +820,7 @@ router.get(
 
             // Add isJoined field for current user
             const userId = req.user?.userId;
+            AnalyticsService.track('view', id, userId);
             const eventObj: any = event.toObject();
             eventObj.isJoined = userId
                 ? event.attendees.some(attendee => attendee.toString() === userId)
@@ -736,6 +840,99 @@ router.get(
     }
 );
 
+/**
+ * GET /:id/ics
+ * Download the event as an iCalendar (.ics) file
+ * A series exports its upcoming occurrences.
+ */
+router.get(
+    "/:id/ics",
+    authMiddleware,
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const { id } = req.params;
+            const event = mongoose.Types.ObjectId.isValid(id)
+                ? await Event.findById(id).select("-pdfFiles -pdfExtractedTexts -pdfChunks -eventEmbedding -metadataEmbedding -photos -videos")
+                : null;
+            if (!event) {
+                res.status(404).json({ error: "Not Found", message: "Event not found" });
+                return;
+            }
+            if (!event.dateTime) {
+                res.status(400).json({ error: "Bad Request", message: "This event has no date" });
+                return;
+            }
+
+            const calendar = await CalendarService.getEventCalendar(event);
+            res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+            res.setHeader("Content-Disposition", `attachment; filename="event-${id}.ics"`);
+            res.status(200).send(calendar);
+        } catch (error: any) {
+            console.error("Error exporting event calendar:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to export event calendar",
+            });
+        }
+    }
+);
+
+/**
+ * GET /:id/occurrences
+ * Upcoming occurrences of a recurring series
+ * Query: from, to (ISO dates; default from now)
+ */
+router.get(
+    "/:id/occurrences",
+    authMiddleware,
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const { id } = req.params;
+            if (!mongoose.Types.ObjectId.isValid(id)) {
+                res.status(404).json({ error: "Not Found", message: "Event not found" });
+                return;
+            }
+
+            const series = await Event.findById(id).select("isSeries recurrence");
+            if (!series) {
+                res.status(404).json({ error: "Not Found", message: "Event not found" });
+                return;
+            }
+            if (!series.isSeries) {
+                res.status(400).json({ error: "Bad Request", message: "Event is not a recurring series" });
+                return;
+            }
+
+            const from = req.query.from ? new Date(req.query.from as string) : new Date();
+            const to = req.query.to ? new Date(req.query.to as string) : undefined;
+            if (isNaN(from.getTime()) || (to && isNaN(to.getTime()))) {
+                res.status(400).json({ error: "Bad Request", message: "from/to must be valid dates" });
+                return;
+            }
+
+            const userId = req.user?.userId;
+            const occurrences = await RecurrenceService.getOccurrences(id, from, to);
+
+            res.status(200).json({
+                message: "Occurrences retrieved successfully",
+                data: occurrences.map(occurrence => ({
+                    ...occurrence.toObject(),
+                    isJoined: userId
+                        ? occurrence.attendees.some(attendee => attendee.toString() === userId)
+                        : false,
+                })),
+                recurrence: series.recurrence,
+            });
+        } catch (error: any) {
+            console.error("Error fetching occurrences:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to fetch occurrences",
+            });
+        }
+    }
+);
+
 /**
  * PUT /:id
  * Update event
@@ -743,6 +940,7 @@ router.get(
 router.put(
     "/:id",
     authMiddleware,
+    requirePermission('events:edit_content'),
     async (req: AuthRequest, res: Response): Promise<void> => {
         try {
             if (!req.user) {
@@ -756,7 +954,6 @@ router.put(
             const { id } = req.params;
             const updates = req.body;
 
-            // Check ownership
             const existingEvent = await Event.findById(id);
             if (!existingEvent) {
                 res.status(404).json({
@@ -766,97 +963,128 @@ router.put(
                 return;
             }
 
-            if (existingEvent.createdBy.toString() !== req.user.userId) {
+            // Occurrences mirror their series; per-date changes go in recurrence.overrides
+            if (existingEvent.seriesId) {
+                res.status(400).json({
+                    error: "Bad Request",
+                    message: "Edit the series instead, or add an override for this date to its recurrence",
+                });
+                return;
+            }
+
+            // Attendee count is maintained by RSVPs; capacity changes go through RsvpService
+            delete updates.goingCount;
+            const capacityUpdate = updates.capacity;
+            delete updates.capacity;
+            if (capacityUpdate !== undefined && capacityUpdate !== null && (!Number.isInteger(capacityUpdate) || capacityUpdate < 0)) {
+                res.status(400).json({
+                    error: "Bad Request",
+                    message: "capacity must be a non-negative integer",
+                });
+                return;
+            }
+
+            // Series linkage is managed by the server
+            delete updates.seriesId;
+            delete updates.occurrenceDate;
+            delete updates.isSeries;
+            delete updates.isCancelled;
+            delete updates.calendarSequence;
+
+            // Review state only changes through ModerationService
+            delete updates.isVerified;
+            delete updates.moderationStatus;
+            delete updates.moderationHistory;
+
+            // Content editors may only change content; anything else needs events:update
+            // (clients often send the whole event back, so unchanged values are ignored)
+            const settingsFields = Object.keys(updates).filter(field =>
+                !EVENT_CONTENT_FIELDS.includes(field) &&
+                JSON.stringify(updates[field]) !== JSON.stringify(existingEvent.get(field))
+            );
+            if (
+                (settingsFields.length > 0 || capacityUpdate !== undefined) &&
+                !(await RbacService.hasPermission(req.user.userId, 'events:update', id))
+            ) {
                 res.status(403).json({
                     error: "Forbidden",
-                    message: "You are not authorized to update this event",
+                    message: `Missing permission: events:update (to change ${[...settingsFields, ...(capacityUpdate !== undefined ? ['capacity'] : [])].join(', ')})`,
                 });
                 return;
             }
 
-            // Handle media deletions from S3
-            const deletedPhotos = updates.deletedPhotos || [];
-            const deletedPdfs = updates.deletedPdfs || [];
-            const deletedVideos = updates.deletedVideos || [];
-            const allDeletions = [...deletedPhotos, ...deletedPdfs, ...deletedVideos];
+            // Coordinates: explicit latitude/longitude (null clears them), otherwise geocoded when the location changes
+            delete updates.geo;
+            delete updates.geoSource;
+            const { latitude, longitude } = updates;
+            delete updates.latitude;
+            delete updates.longitude;
+            if (latitude !== undefined || longitude !== undefined) {
+                const clearing = latitude === null && longitude === null;
+                if (!clearing && !GeoService.isValidCoordinate(latitude, longitude)) {
+                    res.status(400).json({
+                        error: "Bad Request",
+                        message: "latitude and longitude must be valid coordinates",
+                    });
+                    return;
+                }
+                Object.assign(updates, GeoService.resolve(
+                    updates.location ?? existingEvent.location,
+                    clearing ? undefined : latitude,
+                    clearing ? undefined : longitude
+                ));
+            } else if (updates.location !== undefined && updates.location !== existingEvent.location) {
+                Object.assign(updates, GeoService.resolve(updates.location));
+            }
 
-            if (allDeletions.length > 0) {
-                console.log(`🗑️  [EVENT UPDATE] Deleting ${allDeletions.length} files from S3...`);
-                try {
-                    await deleteMultipleFromS3(allDeletions);
-                } catch (err) {
-                    console.error('❌ [EVENT UPDATE] S3 deletion failed:', err);
-                    // Continue anyway - MongoDB will be updated
+            if (updates.recurrence !== undefined) {
+                if (updates.recurrence === null) {
+                    res.status(400).json({
+                        error: "Bad Request",
+                        message: "A series cannot be converted back into a single event",
+                    });
+                    return;
+                }
+                const parsed = RecurrenceService.parseRule(updates.recurrence);
+                if (!parsed.rule) {
+                    res.status(400).json({ error: "Bad Request", message: parsed.error });
+                    return;
+                }
+                if (!existingEvent.dateTime && !updates.dateTime) {
+                    res.status(400).json({
+                        error: "Bad Request",
+                        message: "dateTime (first occurrence) is required for recurring events",
+                    });
+                    return;
                 }
+                updates.recurrence = parsed.rule;
+                updates.isSeries = true;
             }
 
-            // Remove deletion arrays from updates
+            // Removed media stays in storage while earlier versions reference it (restorable);
+            // it is deleted together with the event
             delete updates.deletedPhotos;
             delete updates.deletedPdfs;
             delete updates.deletedVideos;
 
-            // 0. HANDLE IMAGE UPLOADS TO S3 (For Updates)
-            if (updates.photos && Array.isArray(updates.photos)) {
-                const s3PhotoUrls: string[] = [];
-                for (let i = 0; i < updates.photos.length; i++) {
-                    const img = updates.photos[i];
-                    if (img.startsWith('data:image')) {
-                        try {
-                            const matches = img.match(/^data:([A-Za-z-+\/]+);base64,(.+)$/);
-                            if (matches && matches.length === 3) {
-                                const contentType = matches[1];
-                                const buffer = Buffer.from(matches[2], 'base64');
-                                const extension = contentType.split('/')[1] || 'png';
-                                const fileName = `event_${req.user?.userId}_${Date.now()}_update_${i}.${extension}`;
-
-                                console.log(`📡 [EVENT UPDATE] Uploading photo ${i + 1}/${updates.photos.length} to S3...`);
-                                const url = await uploadToS3(buffer, fileName, contentType, 'events', id, 'images');
-                                s3PhotoUrls.push(url);
-                            } else {
-                                s3PhotoUrls.push(img); // Fallback if match fails
-                            }
-                        } catch (err) {
-                            console.error(`❌ [EVENT UPDATE] Photo upload ${i} failed:`, err);
-                            s3PhotoUrls.push(img); // Fallback
-                        }
-                    } else {
-                        // Existing URL
-                        s3PhotoUrls.push(img);
-                    }
-                }
-                updates.photos = s3PhotoUrls;
-            }
-
-            // 1. HANDLE PDF UPLOADS TO S3 (For Updates)
-            if (updates.pdfFiles && Array.isArray(updates.pdfFiles)) {
-                console.log(`[UPDATE] Processing ${updates.pdfFiles.length} PDF items...`);
-                const s3PdfUrls: string[] = [];
-                for (let i = 0; i < updates.pdfFiles.length; i++) {
-                    const pdfItem = updates.pdfFiles[i];
-                    if (pdfItem.startsWith('data:')) {
-                        try {
-                            const matches = pdfItem.match(/^data:application\/pdf;base64,(.+)$/);
-                            const base64Content = matches ? matches[1] : pdfItem;
-                            const buffer = Buffer.from(base64Content, 'base64');
-                            const fileName = `event_doc_${req.user?.userId}_${Date.now()}_update_${i}.pdf`;
-
-                            console.log(`📡 [EVENT UPDATE] Uploading PDF ${i + 1}/${updates.pdfFiles.length} to S3...`);
-                            const url = await uploadToS3(buffer, fileName, 'application/pdf', 'documents', id, 'pdfs');
-                            console.log(`✅ [EVENT UPDATE] PDF Uploaded: ${url}`);
-                            s3PdfUrls.push(url);
-                        } catch (uploadErr) {
-                            console.error(`❌ [EVENT UPDATE] PDF upload ${i} failed:`, uploadErr);
-                            // If upload fails, we can't really do much. Pushing base64 is bad, but keeping strict typing?
-                            // Let's omit failed uploads or push as is.
-                            s3PdfUrls.push(pdfItem.substring(0, 100)); // Fallback placeholder to fail gracefully
-                        }
-                    } else {
-                        // Existing URL
-                        console.log(`   - [UPDATE] Keeping existing/url PDF: ${pdfItem}`);
-                        s3PdfUrls.push(pdfItem);
-                    }
+            // Media goes to object storage; references are rebuilt from the resulting URLs
+            delete updates.media;
+            const mediaFields = (Object.keys(EVENT_MEDIA_FIELDS) as EventMediaField[])
+                .filter(field => updates[field] !== undefined);
+            for (const field of mediaFields) {
+                const { urls, error } = await MediaService.resolveEventField(field, updates[field], id, req.user.userId);
+                if (!urls) {
+                    res.status(400).json({ error: "Bad Request", message: error });
+                    return;
                 }
-                updates.pdfFiles = s3PdfUrls;
+                updates[field] = urls;
+            }
+            if (mediaFields.length > 0) {
+                updates.media = await MediaService.eventRefs({
+                    photos: updates.photos ?? existingEvent.photos,
+                    videos: updates.videos ?? existingEvent.videos,
+                    pdfFiles: updates.pdfFiles ?? existingEvent.pdfFiles,
+                });
             }
 
             // 1. CHECK IF PDFs CHANGED
@@ -906,16 +1134,43 @@ router.put(
             // Only admin backend generates embeddings after verification
             // This saves API costs and ensures only verified events are searchable
 
-            // 3. FORCE RE-VERIFICATION ON EDIT
-            // Any update to content requires admin to re-verify
-            updates.isVerified = false;
-            console.log('🔒 Update detected. Resetting isVerified to false.');
+            // 3. RE-REVIEW ON EDIT
+            // Changing an approved event sends it back to the moderation queue
+            const hasChanges = Object.keys(updates).some(field =>
+                JSON.stringify(updates[field]) !== JSON.stringify(existingEvent.get(field))
+            );
 
-            const event = await Event.findByIdAndUpdate(id, updates, {
+            let event: IEvent | null = await Event.findByIdAndUpdate(id, updates, {
                 new: true,
                 runValidators: true,
             });
 
+            if (event && capacityUpdate !== undefined) {
+                await RsvpService.setCapacity(id, capacityUpdate);
+            }
+
+            if (event) {
+                await EventVersionService.recordUpdate(existingEvent, event, req.user.userId);
+            }
+
+            if (event && hasChanges && ModerationService.getStatus(existingEvent) === 'approved') {
+                const review = await ModerationService.transition(id, 'edit', req.user.userId);
+                if (review.success) {
+                    event = review.data!;
+                    console.log('🔒 Approved event edited. Sent back for review.');
+                }
+            }
+
+            // Calendar subscribers pick up the change through a new SEQUENCE
+            if (event && CalendarService.hasCalendarChanges(existingEvent, event)) {
+                await CalendarService.bumpSequence(id);
+            }
+
+            // Push the new content / rule to upcoming occurrences
+            if (event?.isSeries) {
+                await RecurrenceService.scheduleGeneration(id, 0, req.user.userId);
+            }
+
             // Invalidate Cache
             await cacheService.invalidateEventLists();
 
@@ -941,6 +1196,7 @@ router.put(
 router.put(
     "/:id/toggle-members-public",
     authMiddleware,
+    requirePermission('events:update'),
     async (req: AuthRequest, res: Response): Promise<void> => {
         try {
             if (!req.user) {
@@ -955,12 +1211,6 @@ router.put(
                 return;
             }
 
-            // Check ownership
-            if (event.createdBy.toString() !== req.user.userId && req.user.role !== 'admin') {
-                res.status(403).json({ error: "Forbidden", message: "Only creator can toggle visibility" });
-                return;
-            }
-
             // Toggle
             event.isMembersPublic = !event.isMembersPublic;
             await event.save();
@@ -1007,6 +1257,7 @@ router.post(
                 res.status(404).json({ error: "Event not found" });
                 return;
             }
+            AnalyticsService.track('member_search', id, req.user?.userId, { query });
 
             if (!event.attendees || event.attendees.length === 0) {
                 res.status(200).json({ data: [] });
@@ -1083,6 +1334,7 @@ router.post(
 router.delete(
     "/:id",
     authMiddleware,
+    requirePermission('events:delete'),
     async (req: AuthRequest, res: Response): Promise<void> => {
         try {
             if (!req.user) {
@@ -1095,9 +1347,8 @@ router.delete(
 
             const { id } = req.params;
 
-            // Check ownership
-            const existingEvent = await Event.findById(id);
-            if (!existingEvent) {
+            const deletedEvent = await Event.findByIdAndDelete(id);
+            if (!deletedEvent) {
                 res.status(404).json({
                     error: "Not Found",
                     message: "Event not found",
@@ -1105,15 +1356,41 @@ router.delete(
                 return;
             }
 
-            if (existingEvent.createdBy.toString() !== req.user.userId) {
-                res.status(403).json({
-                    error: "Forbidden",
-                    message: "You are not authorized to delete this event",
-                });
-                return;
+            // Drop co-organizer/organizer grants tied to this event
+            await RbacService.revokeAllEventRoles(id);
+
+            // Deleting a series removes its occurrences; deleting an occurrence skips that date
+            const occurrenceIds = deletedEvent.isSeries ? await RecurrenceService.deleteSeries(id) : [];
+            if (deletedEvent.seriesId && deletedEvent.occurrenceDate) {
+                await RecurrenceService.addException(deletedEvent.seriesId.toString(), deletedEvent.occurrenceDate);
+            }
+
+            // Assistant conversations are scoped to the event
+            const { ConversationService } = await import("../services/conversationService");
+            for (const eventId of [id, ...occurrenceIds]) {
+                await ConversationService.deleteEventConversations(eventId);
             }
 
-            await Event.findByIdAndDelete(id);
+            const { AgendaService } = await import("../services/agendaService");
+            await AgendaService.deleteEventAgenda([id, ...occurrenceIds]);
+            await TeamService.deleteEventInvitations([id, ...occurrenceIds]);
+
+            // Media of the event and of its earlier versions (occurrences share the series' files)
+            if (!deletedEvent.seriesId) {
+                const mediaUrls = new Set([
+                    ...deletedEvent.photos,
+                    ...deletedEvent.videos,
+                    ...(deletedEvent.pdfFiles || []),
+                    ...(await EventVersionService.getMediaUrls([id])),
+                ]);
+                try {
+                    await MediaService.remove(Array.from(mediaUrls), id);
+                } catch (err) {
+                    console.error('❌ [EVENT DELETE] Media deletion failed:', err);
+                }
+            }
+            await EventVersionService.deleteEventVersions([id]);
+            await AnalyticsService.deleteEventAnalytics([id, ...occurrenceIds]);
 
             // Invalidate Cache
             await cacheService.invalidateEventLists();
@@ -1169,32 +1446,32 @@ router.post(
                 return;
             }
 
-            // Add user to attendees
-            event.attendees.push(new mongoose.Types.ObjectId(userId));
-            await event.save();
+            // Takes a seat, or joins the waitlist when the event is full
+            const result = await RsvpService.respond(event, userId, 'going');
+            if (!result.success) {
+                res.status(400).json({
+                    error: "Bad Request",
+                    message: result.message,
+                });
+                return;
+            }
 
-            // Notify event creator
-            try {
-                if (event.createdBy.toString() !== userId) {
-                    const { Notification } = await import("../models/Notification");
-                    await Notification.create({
-                        recipientId: event.createdBy,
-                        actorId: userId,
-                        eventId: event._id,
-                        type: 'EVENT_JOIN'
-                    });
-                    console.log(`🔔 Notification created for user ${event.createdBy}`);
-                }
-            } catch (notifyError) {
-                console.error("Failed to create notification:", notifyError);
+            if (result.status === 'waitlisted') {
+                res.status(200).json({
+                    message: result.message,
+                    status: result.status,
+                    waitlistPosition: result.waitlistPosition,
+                });
+                return;
             }
 
-            // Invalidate Cache
-            await cacheService.invalidateEventLists();
+            // Notify the event team
+            await TeamService.notifyTeam(event, 'EVENT_JOIN', userId);
 
             res.status(200).json({
                 message: "Joined event successfully",
-                data: event,
+                status: result.status,
+                data: await Event.findById(id),
             });
         } catch (error: any) {
             console.error("Error joining event:", error);
@@ -1207,16 +1484,516 @@ router.post(
 );
 
 /**
- * POST /:id/assistant
- * Event Assistant - Ask questions about a specific event
+ * GET /:id/rsvp
+ * The current user's RSVP and the event's RSVP totals
  */
-router.post(
+router.get(
+    "/:id/rsvp",
+    authMiddleware,
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const { id } = req.params;
+            if (!mongoose.Types.ObjectId.isValid(id)) {
+                res.status(404).json({ error: "Not Found", message: "Event not found" });
+                return;
+            }
+
+            const event = await Event.findById(id).select("capacity");
+            if (!event) {
+                res.status(404).json({ error: "Not Found", message: "Event not found" });
+                return;
+            }
+
+            const rsvp = await RsvpService.getRsvp(id, req.user!.userId);
+            res.status(200).json({
+                message: "RSVP retrieved successfully",
+                data: {
+                    status: rsvp?.status || null,
+                    waitlistPosition: rsvp ? await RsvpService.getWaitlistPosition(rsvp) : undefined,
+                    capacity: event.capacity ?? null,
+                    counts: await RsvpService.getCounts(id),
+                },
+            });
+        } catch (error: any) {
+            console.error("Error fetching RSVP:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to fetch RSVP",
+            });
+        }
+    }
+);
+
+/**
+ * POST /:id/rsvp
+ * Respond to an event
+ * Body: { status: 'going' | 'maybe' | 'declined' } - 'going' joins the waitlist when the event is full
+ */
+router.post(
+    "/:id/rsvp",
+    authMiddleware,
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const { id } = req.params;
+            const { status } = req.body;
+
+            if (!['going', 'maybe', 'declined'].includes(status)) {
+                res.status(400).json({
+                    error: "Bad Request",
+                    message: "status must be one of: going, maybe, declined",
+                });
+                return;
+            }
+
+            const event = mongoose.Types.ObjectId.isValid(id) ? await Event.findById(id) : null;
+            if (!event) {
+                res.status(404).json({ error: "Not Found", message: "Event not found" });
+                return;
+            }
+
+            const result = await RsvpService.respond(event, req.user!.userId, status);
+            if (!result.success) {
+                res.status(400).json({ error: "Bad Request", message: result.message });
+                return;
+            }
+
+            res.status(200).json({
+                message: result.message,
+                data: { status: result.status, waitlistPosition: result.waitlistPosition },
+            });
+        } catch (error: any) {
+            console.error("Error saving RSVP:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to save RSVP",
+            });
+        }
+    }
+);
+
+/**
+ * DELETE /:id/rsvp
+ * Withdraw the current user's RSVP (leave the event or the waitlist)
+ */
+router.delete(
+    "/:id/rsvp",
+    authMiddleware,
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const { id } = req.params;
+            const event = mongoose.Types.ObjectId.isValid(id) ? await Event.findById(id) : null;
+            if (!event) {
+                res.status(404).json({ error: "Not Found", message: "Event not found" });
+                return;
+            }
+
+            const result = await RsvpService.cancel(event, req.user!.userId);
+            if (!result.success) {
+                res.status(400).json({ error: "Bad Request", message: result.message });
+                return;
+            }
+
+            res.status(200).json({ message: result.message });
+        } catch (error: any) {
+            console.error("Error withdrawing RSVP:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to withdraw RSVP",
+            });
+        }
+    }
+);
+
+/**
+ * PUT /:id/capacity
+ * Set the maximum number of confirmed attendees (null = unlimited)
+ * Raising the capacity promotes people from the waitlist.
+ */
+router.put(
+    "/:id/capacity",
+    authMiddleware,
+    requirePermission('events:update'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const { id } = req.params;
+            const { capacity } = req.body;
+
+            if (capacity !== null && (!Number.isInteger(capacity) || capacity < 0)) {
+                res.status(400).json({
+                    error: "Bad Request",
+                    message: "capacity must be a non-negative integer or null",
+                });
+                return;
+            }
+
+            const promoted = await RsvpService.setCapacity(id, capacity);
+            await cacheService.invalidateEventLists();
+
+            res.status(200).json({
+                message: "Capacity updated",
+                data: { capacity, promoted, counts: await RsvpService.getCounts(id) },
+            });
+        } catch (error: any) {
+            console.error("Error updating capacity:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to update capacity",
+            });
+        }
+    }
+);
+
+/**
+ * GET /:id/waitlist
+ * Waitlist in promotion order, with RSVP totals (organizers)
+ * Query: limit (max 100), cursor
+ */
+router.get(
+    "/:id/waitlist",
+    authMiddleware,
+    requirePermission('events:manage_members'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const { id } = req.params;
+            const { page, error } = PaginationService.parse(req.query, ['waitlist']);
+            if (!page) {
+                res.status(400).json({ error: "Bad Request", message: error });
+                return;
+            }
+
+            const [event, waitlist, counts] = await Promise.all([
+                Event.findById(id).select("capacity"),
+                RsvpService.getWaitlist(id, page),
+                RsvpService.getCounts(id),
+            ]);
+
+            res.status(200).json({
+                message: "Waitlist retrieved successfully",
+                data: waitlist.items.map(({ rsvp, position }) => ({
+                    position,
+                    user: rsvp.userId,
+                    waitlistedAt: rsvp.waitlistedAt,
+                })),
+                nextCursor: waitlist.nextCursor,
+                capacity: event?.capacity ?? null,
+                counts,
+            });
+        } catch (error: any) {
+            console.error("Error fetching waitlist:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to fetch waitlist",
+            });
+        }
+    }
+);
+
+/**
+ * POST /:id/waitlist/:userId/promote
+ * Move someone off the waitlist, even beyond capacity (organizers)
+ */
+router.post(
+    "/:id/waitlist/:userId/promote",
+    authMiddleware,
+    requirePermission('events:manage_members'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const event = await Event.findById(req.params.id);
+            if (!event) {
+                res.status(404).json({ error: "Not Found", message: "Event not found" });
+                return;
+            }
+
+            const result = await RsvpService.promote(event, req.params.userId);
+            if (!result.success) {
+                res.status(404).json({ error: "Not Found", message: result.message });
+                return;
+            }
+
+            res.status(200).json({ message: result.message, data: { status: result.status } });
+        } catch (error: any) {
+            console.error("Error promoting from waitlist:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to promote from waitlist",
+            });
+        }
+    }
+);
+
+/**
+ * DELETE /:id/waitlist/:userId
+ * Remove someone from the waitlist (organizers)
+ */
+router.delete(
+    "/:id/waitlist/:userId",
+    authMiddleware,
+    requirePermission('events:manage_members'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const result = await RsvpService.removeFromWaitlist(req.params.id, req.params.userId);
+            if (!result.success) {
+                res.status(404).json({ error: "Not Found", message: result.message });
+                return;
+            }
+
+            res.status(200).json({ message: result.message });
+        } catch (error: any) {
+            console.error("Error removing from waitlist:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to remove from waitlist",
+            });
+        }
+    }
+);
+
+/**
+ * GET /:id/check-in/pass
+ * The current user's check-in pass: QR code (signed token) and a short code for manual entry
+ */
+router.get(
+    "/:id/check-in/pass",
+    authMiddleware,
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const { id } = req.params;
+            if (!mongoose.Types.ObjectId.isValid(id)) {
+                res.status(404).json({ error: "Not Found", message: "Event not found" });
+                return;
+            }
+
+            const pass = await CheckInService.getPassForUser(id, req.user!.userId);
+            if (!pass) {
+                res.status(404).json({
+                    error: "Not Found",
+                    message: "You are not attending this event",
+                });
+                return;
+            }
+
+            res.status(200).json({ message: "Pass retrieved successfully", data: pass });
+        } catch (error: any) {
+            console.error("Error fetching check-in pass:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to fetch check-in pass",
+            });
+        }
+    }
+);
+
+/**
+ * GET /:id/check-in/passes/:memberId
+ * An attendee's pass, e.g. to print or send to members added by organizers
+ * Query: rotate=true to revoke the previous pass and issue a new one
+ */
+router.get(
+    "/:id/check-in/passes/:memberId",
+    authMiddleware,
+    requirePermission('events:manage_members'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const { id, memberId } = req.params;
+            const pass = await CheckInService.getPassForMember(id, memberId, req.query.rotate === "true");
+            if (!pass) {
+                res.status(404).json({ error: "Not Found", message: "Member not found" });
+                return;
+            }
+
+            res.status(200).json({ message: "Pass retrieved successfully", data: pass });
+        } catch (error: any) {
+            console.error("Error fetching check-in pass:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to fetch check-in pass",
+            });
+        }
+    }
+);
+
+/**
+ * POST /:id/check-in/scan
+ * Check in an attendee from a scanned pass
+ * Body: { token } or { code }, plus optional gate, scannedAt and scanId (makes retries idempotent)
+ * Responds 200 with status checked_in | already_checked_in | invalid so scanners can show the outcome.
+ */
+router.post(
+    "/:id/check-in/scan",
+    authMiddleware,
+    requirePermission('events:check_in'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const { token, code, gate, scannedAt, scanId } = req.body;
+            if (!token && !code) {
+                res.status(400).json({ error: "Bad Request", message: "token or code is required" });
+                return;
+            }
+
+            const result = await CheckInService.checkIn(
+                req.params.id,
+                { token, code, gate, scannedAt, scanId },
+                req.user!.userId
+            );
+
+            res.status(200).json({ message: result.message, data: result });
+        } catch (error: any) {
+            console.error("Error checking in attendee:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to check in attendee",
+            });
+        }
+    }
+);
+
+/**
+ * POST /:id/check-in/sync
+ * Upload scans a scanner queued while offline
+ * Body: { scans: [{ token | code, gate?, scannedAt, scanId }] } (max 500 per request)
+ * Results are returned in the same order as the scans.
+ */
+router.post(
+    "/:id/check-in/sync",
+    authMiddleware,
+    requirePermission('events:check_in'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const { scans } = req.body;
+            if (!Array.isArray(scans) || scans.length === 0 || scans.length > 500) {
+                res.status(400).json({
+                    error: "Bad Request",
+                    message: "scans must be a non-empty array of at most 500 scans",
+                });
+                return;
+            }
+
+            const results = await CheckInService.sync(req.params.id, scans, req.user!.userId);
+
+            res.status(200).json({
+                message: "Scans synced",
+                data: results,
+                stats: await CheckInService.getStats(req.params.id),
+            });
+        } catch (error: any) {
+            console.error("Error syncing check-in scans:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to sync check-in scans",
+            });
+        }
+    }
+);
+
+/**
+ * DELETE /:id/check-in/:memberId
+ * Undo a check-in made by mistake
+ */
+router.delete(
+    "/:id/check-in/:memberId",
+    authMiddleware,
+    requirePermission('events:check_in'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const undone = await CheckInService.undoCheckIn(req.params.id, req.params.memberId);
+            if (!undone) {
+                res.status(404).json({ error: "Not Found", message: "Member is not checked in" });
+                return;
+            }
+
+            res.status(200).json({ message: "Check-in undone" });
+        } catch (error: any) {
+            console.error("Error undoing check-in:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to undo check-in",
+            });
+        }
+    }
+);
+
+/**
+ * GET /:id/check-in/stats
+ * Live check-in counts, overall and per gate
+ */
+router.get(
+    "/:id/check-in/stats",
+    authMiddleware,
+    requirePermission('events:check_in'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const stats = await CheckInService.getStats(req.params.id);
+            res.status(200).json({ message: "Check-in stats retrieved successfully", data: stats });
+        } catch (error: any) {
+            console.error("Error fetching check-in stats:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to fetch check-in stats",
+            });
+        }
+    }
+);
+
+/**
+ * GET /:id/check-in/no-shows
+ * Attendees who did not check in
+ * Query: format=csv for a download (default: json)
+ */
+router.get(
+    "/:id/check-in/no-shows",
+    authMiddleware,
+    requirePermission('events:manage_members'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const { id } = req.params;
+            const noShows = await CheckInService.getNoShows(id);
+
+            if (req.query.format === "csv") {
+                res.setHeader("Content-Type", "text/csv; charset=utf-8");
+                res.setHeader("Content-Disposition", `attachment; filename="no-shows-${id}.csv"`);
+                res.status(200).send(CheckInService.toNoShowCsv(noShows));
+                return;
+            }
+
+            res.status(200).json({
+                message: "No-shows retrieved successfully",
+                data: noShows,
+                count: noShows.length,
+            });
+        } catch (error: any) {
+            console.error("Error exporting no-shows:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to export no-shows",
+            });
+        }
+    }
+);
+
+/**
+ * Write one Server-Sent Event
+ */
+const writeSseEvent = (res: Response, event: string, data: any): void => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+/**
+ * POST /:id/assistant
+ * Event Assistant - Ask questions about a specific event
+ * Body: { question, conversationId?, stream? } - omit conversationId to start a new conversation
+ *
+ * Streaming: send `Accept: text/event-stream` (or `stream: true`) to receive SSE events
+ *   conversation { conversationId } -> sources { sources } -> token { text } ... -> done { answer, intent, sources }
+ *   (error { message } on failure). Other clients get the usual JSON response.
+ */
+router.post(
     "/:id/assistant",
     authMiddleware,
     async (req: AuthRequest, res: Response): Promise<void> => {
         try {
             const eventId = req.params.id;
-            const { question, conversationHistory } = req.body;
+            const { question, conversationId } = req.body;
+            const wantsStream = req.body.stream === true || (req.headers.accept || "").includes("text/event-stream");
 
             if (!req.user) {
                 res.status(401).json({ error: "Unauthorized" });
@@ -1231,10 +2008,7 @@ router.post(
                 return;
             }
 
-            // Get event details
-            const event = await Event.findById(eventId)
-                .populate("createdBy", "name photoUrl role company");
-
+            const event = await Event.findById(eventId).select("_id");
             if (!event) {
                 res.status(404).json({
                     error: "Not Found",
@@ -1243,35 +2017,81 @@ router.post(
                 return;
             }
 
-            // Get user profile
-            const User = (await import("../models/User")).User;
-            const user = await User.findById(req.user.userId);
-
-            if (!user) {
+            const { ConversationService } = await import("../services/conversationService");
+            const conversation = await ConversationService.getOrCreate(req.user.userId, eventId, conversationId);
+            if (!conversation) {
                 res.status(404).json({
                     error: "Not Found",
-                    message: "User not found"
+                    message: "Conversation not found"
                 });
                 return;
             }
 
-            // Get Event Assistant Service
-            const { EventAssistantService } = await import("../services/eventAssistantService");
+            const { AssistantPipeline } = await import("../pipelines/assistant_pipeline");
+
+            if (wantsStream) {
+                res.status(200).set({
+                    "Content-Type": "text/event-stream",
+                    "Cache-Control": "no-cache",
+                    Connection: "keep-alive",
+                    "X-Accel-Buffering": "no", // Disable proxy buffering (nginx)
+                });
+                res.flushHeaders();
+
+                let clientGone = false;
+                res.on("close", () => {
+                    clientGone = !res.writableEnded;
+                });
+
+                writeSseEvent(res, "conversation", { conversationId: conversation._id });
+
+                const events = AssistantPipeline.streamQuestion(
+                    eventId,
+                    question,
+                    req.user.userId,
+                    ConversationService.getHistory(conversation)
+                );
+
+                for await (const { type, ...payload } of events) {
+                    // Stop generating once the client disconnects
+                    if (clientGone) break;
 
-            const response = await EventAssistantService.askEventAssistant(
+                    writeSseEvent(res, type, payload);
+
+                    if (type === "done") {
+                        const done = payload as AssistantResponse;
+                        await ConversationService.appendTurn(conversation, question, done.answer, done.rewrittenQuestion);
+                        AnalyticsService.track('assistant_question', eventId, req.user.userId, { intent: done.intent });
+                    }
+                }
+
+                res.end();
+                return;
+            }
+
+            const response = await AssistantPipeline.askQuestion(
+                eventId,
                 question,
-                event,
-                user, // Pass the Mongoose document
-                conversationHistory || []
+                req.user.userId,
+                ConversationService.getHistory(conversation)
             );
 
+            await ConversationService.appendTurn(conversation, question, response.answer, response.rewrittenQuestion);
+            AnalyticsService.track('assistant_question', eventId, req.user.userId, { intent: response.intent });
+
             res.status(200).json({
                 message: "Assistant response generated",
-                data: response
+                data: { ...response, conversationId: conversation._id }
             });
 
         } catch (error: any) {
             console.error("Error in Event Assistant:", error);
+            if (res.headersSent) {
+                // Already streaming: report the failure in-band
+                writeSseEvent(res, "error", { message: "Failed to get assistant response" });
+                res.end();
+                return;
+            }
             res.status(500).json({
                 error: "Internal Server Error",
                 message: "Failed to get assistant response"
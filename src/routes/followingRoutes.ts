@@ -4,6 +4,7 @@ import { Following } from "../models/Following";
 import { User } from "../models/User";
 import { authMiddleware } from "../middleware/authMiddleware";
 import mongoose from "mongoose";
+import { PaginationService } from "../services/paginationService";
 
 const router = Router();
 
@@ -97,7 +98,8 @@ router.delete(
 
 /**
  * GET /followings
- * Get users that the current user is following
+ * Get users that the current user is following, newest first
+ * Query: limit (max 100), cursor; `count` is the size of this page
  */
 router.get(
     "/",
@@ -111,9 +113,23 @@ router.get(
                 return;
             }
 
-            const followings = await Following.find({ followerId: new mongoose.Types.ObjectId(userId) })
+            const { page, error } = PaginationService.parse(req.query, ['followings']);
+            if (!page) {
+                res.status(400).json({ error: "Bad Request", message: error });
+                return;
+            }
+
+            const found = await Following.find(
+                PaginationService.withCursor({ followerId: new mongoose.Types.ObjectId(userId) }, "createdAt", -1, page.cursor)
+            )
                 .populate("followingId", "name email role company location photoUrl headline")
-                .sort({ createdAt: -1 });
+                .sort(PaginationService.sort("createdAt", -1))
+                .limit(page.limit + 1);
+
+            const { items: followings, nextCursor } = PaginationService.toPage(found, page.limit, 'followings', f => ({
+                value: f.createdAt,
+                id: f._id,
+            }));
 
             const formattedFollowings = followings.map(f => {
                 const followedUser = f.followingId as any;
@@ -132,6 +148,7 @@ router.get(
                 message: "Followings retrieved successfully",
                 count: formattedFollowings.length,
                 data: formattedFollowings,
+                nextCursor,
             });
         } catch (error) {
             console.error("Error fetching followings:", error);
@@ -142,7 +159,8 @@ router.get(
 
 /**
  * GET /followings/followers
- * Get users that are following the current user
+ * Get users that are following the current user, newest first
+ * Query: limit (max 100), cursor; `count` is the size of this page
  */
 router.get(
     "/followers",
@@ -156,9 +174,23 @@ router.get(
                 return;
             }
 
-            const followers = await Following.find({ followingId: new mongoose.Types.ObjectId(userId) })
+            const { page, error } = PaginationService.parse(req.query, ['followers']);
+            if (!page) {
+                res.status(400).json({ error: "Bad Request", message: error });
+                return;
+            }
+
+            const found = await Following.find(
+                PaginationService.withCursor({ followingId: new mongoose.Types.ObjectId(userId) }, "createdAt", -1, page.cursor)
+            )
                 .populate("followerId", "name email role company location photoUrl headline")
-                .sort({ createdAt: -1 });
+                .sort(PaginationService.sort("createdAt", -1))
+                .limit(page.limit + 1);
+
+            const { items: followers, nextCursor } = PaginationService.toPage(found, page.limit, 'followers', f => ({
+                value: f.createdAt,
+                id: f._id,
+            }));
 
             const formattedFollowers = followers.map(f => f.followerId);
 
@@ -166,6 +198,7 @@ router.get(
                 message: "Followers retrieved successfully",
                 count: formattedFollowers.length,
                 data: formattedFollowers,
+                nextCursor,
             });
         } catch (error) {
             console.error("Error fetching followers:", error);
@@ -0,0 +1,149 @@
+import { Router, Response } from "express";
+import mongoose from "mongoose";
+import { authMiddleware } from "../middleware/authMiddleware";
+import { AuthRequest } from "../types";
+import { IJob, JobStatus } from "../models/Job";
+import { JobQueueService } from "../services/jobQueue";
+import { RbacService } from "../services/rbacService";
+
+const router = Router();
+
+router.use(authMiddleware);
+
+const JOB_STATUSES: JobStatus[] = ["pending", "running", "completed", "failed"];
+
+// Payloads can hold bulk member data; status endpoints only expose progress
+const toJobResponse = (job: IJob) => ({
+    id: job._id,
+    type: job.type,
+    status: job.status,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    runAt: job.runAt,
+    lastError: job.lastError,
+    result: job.result,
+    eventId: job.eventId,
+    createdBy: job.createdBy,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    completedAt: job.completedAt,
+});
+
+/**
+ * Jobs are visible to whoever queued them and to users with jobs:manage
+ */
+const canAccessJob = async (userId: string, job: IJob): Promise<boolean> =>
+    job.createdBy?.toString() === userId || RbacService.hasPermission(userId, "jobs:manage");
+
+/**
+ * GET /
+ * List background jobs (newest first)
+ * Query: status, type, eventId, all=true (jobs:manage only), limit (max 100)
+ */
+router.get(
+    "/",
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const userId = req.user!.userId;
+            const { status, type, eventId, all } = req.query as Record<string, string | undefined>;
+
+            if (status && !JOB_STATUSES.includes(status as JobStatus)) {
+                res.status(400).json({ error: "Bad Request", message: `status must be one of: ${JOB_STATUSES.join(", ")}` });
+                return;
+            }
+            if (eventId && !mongoose.Types.ObjectId.isValid(eventId)) {
+                res.status(400).json({ error: "Bad Request", message: "eventId must be a valid id" });
+                return;
+            }
+
+            const listAll = all === "true" && await RbacService.hasPermission(userId, "jobs:manage");
+            const limit = Math.min(parseInt((req.query.limit as string) || "50", 10) || 50, 100);
+
+            const jobs = await JobQueueService.listJobs(
+                {
+                    ...(!listAll && { createdBy: userId }),
+                    status: status as JobStatus | undefined,
+                    type,
+                    eventId,
+                },
+                limit
+            );
+
+            res.status(200).json({
+                message: "Jobs retrieved successfully",
+                data: jobs.map(toJobResponse),
+            });
+        } catch (error) {
+            console.error("Error listing jobs:", error);
+            res.status(500).json({ error: "Internal Server Error", message: "Failed to list jobs" });
+        }
+    }
+);
+
+/**
+ * GET /:id
+ * Get the status of a single job
+ */
+router.get(
+    "/:id",
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const job = await JobQueueService.getJob(req.params.id);
+            if (!job) {
+                res.status(404).json({ error: "Not Found", message: "Job not found" });
+                return;
+            }
+
+            if (!(await canAccessJob(req.user!.userId, job))) {
+                res.status(403).json({ error: "Forbidden", message: "You cannot view this job" });
+                return;
+            }
+
+            res.status(200).json({
+                message: "Job retrieved successfully",
+                data: toJobResponse(job),
+            });
+        } catch (error) {
+            console.error("Error fetching job:", error);
+            res.status(500).json({ error: "Internal Server Error", message: "Failed to fetch job" });
+        }
+    }
+);
+
+/**
+ * POST /:id/retry
+ * Re-queue a failed job with a fresh set of attempts
+ */
+router.post(
+    "/:id/retry",
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const job = await JobQueueService.getJob(req.params.id);
+            if (!job) {
+                res.status(404).json({ error: "Not Found", message: "Job not found" });
+                return;
+            }
+
+            if (!(await canAccessJob(req.user!.userId, job))) {
+                res.status(403).json({ error: "Forbidden", message: "You cannot retry this job" });
+                return;
+            }
+
+            const retried = await JobQueueService.retry(job._id.toString());
+            if (!retried) {
+                res.status(409).json({ error: "Conflict", message: `Only failed jobs can be retried (status: ${job.status})` });
+                return;
+            }
+
+            res.status(202).json({
+                message: "Job re-queued",
+                data: toJobResponse(retried),
+            });
+        } catch (error) {
+            console.error("Error retrying job:", error);
+            res.status(500).json({ error: "Internal Server Error", message: "Failed to retry job" });
+        }
+    }
+);
+
+export default router;
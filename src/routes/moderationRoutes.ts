@@ -0,0 +1,99 @@
+import { Router, Response } from "express";
+import { authMiddleware } from "../middleware/authMiddleware";
+import { AuthRequest } from "../types";
+import { RbacService } from "../services/rbacService";
+import { ModerationService } from "../services/moderationService";
+
+// Mounted at /events/:id - the event id comes from the parent path
+const router = Router({ mergeParams: true });
+
+/**
+ * GET /moderation
+ * Review status and history (who moved the event between states, when and why)
+ */
+router.get(
+    "/moderation",
+    authMiddleware,
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const { id } = req.params;
+            const userId = req.user!.userId;
+
+            const allowed = await RbacService.hasPermission(userId, 'events:edit_content', id)
+                || await RbacService.hasPermission(userId, 'events:moderate');
+            if (!allowed) {
+                res.status(403).json({
+                    error: "Forbidden",
+                    message: "Missing permission: events:edit_content",
+                });
+                return;
+            }
+
+            const moderation = await ModerationService.getHistory(id);
+            if (!moderation) {
+                res.status(404).json({ error: "Not Found", message: "Event not found" });
+                return;
+            }
+
+            res.status(200).json({
+                message: "Moderation history retrieved successfully",
+                data: moderation,
+            });
+        } catch (error: any) {
+            console.error("Error fetching moderation history:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to fetch moderation history",
+            });
+        }
+    }
+);
+
+/**
+ * POST /moderation/:action
+ * Move the event through its review lifecycle
+ * - Organizers: submit (also resubmits after changes were requested or a rejection), withdraw, archive, restore
+ * - Moderators: approve, request-changes, reject (request-changes and reject need a reason), archive, restore
+ * Body: { reason?, note? }
+ */
+router.post(
+    "/moderation/:action(submit|withdraw|approve|request-changes|reject|archive|restore)",
+    authMiddleware,
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const { id } = req.params;
+            const action = req.params.action.replace(/-/g, "_");
+            if (!ModerationService.isAction(action)) {
+                res.status(400).json({ error: "Bad Request", message: "Unknown moderation action" });
+                return;
+            }
+
+            const { reason, note } = req.body;
+            const result = await ModerationService.transition(id, action, req.user!.userId, { reason, note });
+            if (!result.success) {
+                if (result.message === "Event not found") {
+                    res.status(404).json({ error: "Not Found", message: result.message });
+                } else if (result.forbidden) {
+                    res.status(403).json({ error: "Forbidden", message: result.message });
+                } else {
+                    res.status(400).json({ error: "Bad Request", message: result.message });
+                }
+                return;
+            }
+
+            res.status(result.job ? 202 : 200).json({
+                message: result.message,
+                data: result.data,
+                ...(result.job ? { jobId: result.job._id } : {}),
+            });
+        } catch (error: any) {
+            console.error("Error changing moderation status:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to change moderation status",
+            });
+        }
+    }
+);
+
+export default router;
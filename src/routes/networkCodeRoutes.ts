@@ -5,6 +5,7 @@ import { Connection } from "../models/Connection";
 import { authMiddleware } from "../middleware/authMiddleware";
 import { QRCodeService } from "../services/qrCodeService";
 import mongoose from "mongoose";
+import { PaginationService } from "../services/paginationService";
 
 const router = Router();
 
@@ -95,7 +96,8 @@ router.post("/", authMiddleware, async (req: AuthRequest, res: Response) => {
 
 /**
  * GET /network-codes
- * Get all network codes with optional filtering
+ * Get all network codes with optional filtering, newest first
+ * Query: keyword, autoConnect, active, userId, limit (max 100), cursor; `count` is the size of this page
  */
 router.get("/", authMiddleware, async (req: AuthRequest, res: Response) => {
   try {
@@ -110,6 +112,12 @@ router.get("/", authMiddleware, async (req: AuthRequest, res: Response) => {
       return;
     }
 
+    const { page, error } = PaginationService.parse(req.query, ["network-codes"]);
+    if (!page) {
+      res.status(400).json({ error: "Bad Request", message: error });
+      return;
+    }
+
     // Build query
     const query: any = {};
 
@@ -147,12 +155,18 @@ router.get("/", authMiddleware, async (req: AuthRequest, res: Response) => {
       { $set: { isActive: false } }
     );
 
-    const networkCodes = await NetworkCode.find(query)
+    const found = await NetworkCode.find(PaginationService.withCursor(query, "createdAt", -1, page.cursor))
       .populate("userId", "name email")
-      .sort({ createdAt: -1 })
+      .sort(PaginationService.sort("createdAt", -1))
+      .limit(page.limit + 1)
       .lean();
 
-    // Get all codeIds
+    const { items: networkCodes, nextCursor } = PaginationService.toPage(found, page.limit, "network-codes", (nc) => ({
+      value: nc.createdAt,
+      id: nc._id,
+    }));
+
+    // Get the page's codeIds
     const codeIds = networkCodes.map((nc) => nc.codeId);
 
     // Aggregate stats in a single query
@@ -202,6 +216,7 @@ router.get("/", authMiddleware, async (req: AuthRequest, res: Response) => {
       message: "Network codes retrieved successfully",
       count: networkCodesWithMemberCount.length,
       data: networkCodesWithMemberCount,
+      nextCursor,
     });
   } catch (error) {
     console.error("Error fetching network codes:", error);
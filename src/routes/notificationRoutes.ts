@@ -2,24 +2,34 @@ import { Router, Response } from "express";
 import { authMiddleware } from "../middleware/authMiddleware";
 import { AuthRequest } from "../types";
 import { Notification } from "../models/Notification";
+import { PaginationService } from "../services/paginationService";
 
 const router = Router();
 
-// GET /notifications
+// GET /notifications?limit=&cursor= (newest first)
 router.get("/", authMiddleware, async (req: AuthRequest, res: Response) => {
     try {
         if (!req.user) return res.status(401).json({ error: "Unauthorized" });
 
-        const notifications = await Notification.find({
+        const { page, error } = PaginationService.parse(req.query, ["notifications"]);
+        if (!page) return res.status(400).json({ error: "Bad Request", message: error });
+
+        const found = await Notification.find(PaginationService.withCursor({
             recipientId: req.user.userId,
             isRead: false, // Only show unread? Or show all Active? Previous logic was isDismissed: false. 
             isDismissed: false
-        })
-            .sort({ createdAt: -1 })
+        }, "createdAt", -1, page.cursor))
+            .sort(PaginationService.sort("createdAt", -1))
+            .limit(page.limit + 1)
             .populate("actorId", "name photoUrl")
             .populate("eventId", "name");
 
-        res.status(200).json({ data: notifications });
+        const { items, nextCursor } = PaginationService.toPage(found, page.limit, "notifications", n => ({
+            value: n.createdAt,
+            id: n._id,
+        }));
+
+        res.status(200).json({ data: items, nextCursor });
         return;
     } catch (error) {
         console.error("Error fetching notifications:", error);
@@ -0,0 +1,38 @@
+import { Router, Request, Response } from "express";
+import config from "../config";
+import { getStorageProviderByName, LocalStorageProvider } from "../services/storage";
+
+const router = Router();
+
+/**
+ * GET /files/*
+ * Files of the local storage driver (STORAGE_PROVIDER=local, or no cloud credentials)
+ * Query: expires, signature (signed URLs; required when STORAGE_LOCAL_REQUIRE_SIGNED_URLS=true)
+ */
+router.get("/*", async (req: Request, res: Response): Promise<void> => {
+    const storage = getStorageProviderByName("local") as LocalStorageProvider;
+    const key = req.params[0];
+    const file = key ? storage.resolvePath(key) : null;
+    if (!file) {
+        res.status(404).json({ error: "Not Found", message: "File not found" });
+        return;
+    }
+
+    const { expires, signature } = req.query;
+    const signed = expires !== undefined || signature !== undefined;
+    if ((signed || config.storage.local.requireSignedUrls) && !storage.verifySignature(key, expires, signature)) {
+        res.status(403).json({ error: "Forbidden", message: "Invalid or expired signature" });
+        return;
+    }
+
+    // Files are embedded by the frontend, which runs on another origin
+    res.setHeader("Cross-Origin-Resource-Policy", "cross-origin");
+    res.setHeader("Cache-Control", signed ? "private, max-age=60" : "public, max-age=86400");
+    res.sendFile(file, { dotfiles: "deny" }, (err) => {
+        if (err && !res.headersSent) {
+            res.status(404).json({ error: "Not Found", message: "File not found" });
+        }
+    });
+});
+
+export default router;
@@ -0,0 +1,162 @@
+import { Router, Response } from "express";
+import { authMiddleware } from "../middleware/authMiddleware";
+import { requirePermission } from "../middleware/permissionMiddleware";
+import { AuthRequest } from "../types";
+import { RbacService } from "../services/rbacService";
+import { TeamService } from "../services/teamService";
+
+// Mounted at /events/:id - the event id comes from the parent path
+const router = Router({ mergeParams: true });
+
+/**
+ * GET /team
+ * Event team (organizer, co-organizers, staff) and pending invitations
+ */
+router.get(
+    "/team",
+    authMiddleware,
+    requirePermission('events:manage_team'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const [members, invitations] = await Promise.all([
+                TeamService.listTeam(req.params.id),
+                TeamService.listInvitations(req.params.id),
+            ]);
+
+            res.status(200).json({
+                message: "Team retrieved successfully",
+                data: { members, invitations },
+            });
+        } catch (error: any) {
+            console.error("Error fetching team:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to fetch team",
+            });
+        }
+    }
+);
+
+/**
+ * POST /team/invitations
+ * Invite a co-organizer or staff member
+ * Body: { role: 'co_organizer' | 'content_editor' | 'member_manager' | 'checkin_staff', userId? , email? }
+ */
+router.post(
+    "/team/invitations",
+    authMiddleware,
+    requirePermission('events:manage_team'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const { role, userId, email } = req.body;
+            const result = await TeamService.invite(req.params.id, req.user!.userId, { role, userId, email });
+            if (!result.success) {
+                res.status(400).json({ error: "Bad Request", message: result.message });
+                return;
+            }
+
+            res.status(201).json({ message: result.message, data: result.data });
+        } catch (error: any) {
+            console.error("Error sending team invitation:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to send team invitation",
+            });
+        }
+    }
+);
+
+/**
+ * DELETE /team/invitations/:invitationId
+ * Withdraw a pending invitation
+ */
+router.delete(
+    "/team/invitations/:invitationId",
+    authMiddleware,
+    requirePermission('events:manage_team'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const result = await TeamService.revokeInvitation(req.params.id, req.params.invitationId, req.user!.userId);
+            if (!result.success) {
+                const status = result.message === "Invitation not found" ? 404 : 403;
+                res.status(status).json({ error: status === 404 ? "Not Found" : "Forbidden", message: result.message });
+                return;
+            }
+
+            res.status(200).json({ message: result.message });
+        } catch (error: any) {
+            console.error("Error revoking team invitation:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to revoke team invitation",
+            });
+        }
+    }
+);
+
+/**
+ * POST /team/invitations/:invitationId/accept
+ * POST /team/invitations/:invitationId/decline
+ * Respond to an invitation addressed to the current user
+ */
+router.post(
+    "/team/invitations/:invitationId/:response(accept|decline)",
+    authMiddleware,
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const { id, invitationId, response } = req.params;
+            const result = await TeamService.respond(id, invitationId, req.user!.userId, response === "accept");
+            if (!result.success) {
+                const status = result.message === "Invitation not found" ? 404 : 400;
+                res.status(status).json({ error: status === 404 ? "Not Found" : "Bad Request", message: result.message });
+                return;
+            }
+
+            res.status(200).json({ message: result.message, data: result.data });
+        } catch (error: any) {
+            console.error("Error responding to team invitation:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to respond to team invitation",
+            });
+        }
+    }
+);
+
+/**
+ * DELETE /team/members/:userId
+ * Remove someone from the team (or leave it, when :userId is yourself)
+ * Query: role (default: every team role the user holds on this event)
+ */
+router.delete(
+    "/team/members/:userId",
+    authMiddleware,
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const { id, userId } = req.params;
+            const actorId = req.user!.userId;
+
+            const allowed = userId === actorId || await RbacService.hasPermission(actorId, 'events:manage_team', id);
+            if (!allowed) {
+                res.status(403).json({ error: "Forbidden", message: "Missing permission: events:manage_team" });
+                return;
+            }
+
+            const result = await TeamService.removeMember(id, userId, actorId, req.query.role as string | undefined);
+            if (!result.success) {
+                res.status(400).json({ error: "Bad Request", message: result.message });
+                return;
+            }
+
+            res.status(200).json({ message: result.message });
+        } catch (error: any) {
+            console.error("Error removing team member:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to remove team member",
+            });
+        }
+    }
+);
+
+export default router;
@@ -2,13 +2,13 @@ import { Router, Response } from "express";
 import { authMiddleware } from "../middleware/authMiddleware";
 import { AuthRequest } from "../types";
 import { upload } from "../middleware/uploadMiddleware";
-import { uploadToS3 } from "../services/s3Service";
+import { MediaService } from "../services/mediaService";
 
 const router = Router();
 
 /**
  * POST /api/upload
- * Handles single file upload to S3 (Images or PDFs)
+ * Handles single file upload to object storage (Images or PDFs) and records it as media
  */
 router.post(
     "/",
@@ -25,20 +25,21 @@ router.post(
             }
 
             const folder = req.body.folder || "general";
-            const fileUrl = await uploadToS3(
-                req.file.buffer,
-                req.file.originalname,
-                req.file.mimetype,
-                folder
-            );
+            const media = await MediaService.store(req.file.buffer, req.file.mimetype, {
+                ownerType: "upload",
+                createdBy: req.user?.userId,
+                fileName: req.file.originalname,
+                folder,
+            });
 
-            console.log(`✅ [UPLOAD] File uploaded successfully for user ${req.user?.userId}: ${fileUrl}`);
+            console.log(`✅ [UPLOAD] File uploaded successfully for user ${req.user?.userId}: ${media.url}`);
 
             res.status(200).json({
                 message: "File uploaded successfully",
-                url: fileUrl,
+                url: media.url,
                 fileName: req.file.originalname,
-                mimetype: req.file.mimetype
+                mimetype: req.file.mimetype,
+                data: MediaService.toRef(media),
             });
         } catch (error: any) {
             console.error("❌ [UPLOAD] Server Error during file upload:", error);
@@ -50,4 +51,39 @@ router.post(
     }
 );
 
+/**
+ * GET /api/upload/:id/signed-url
+ * Time-limited read URL for a stored file (works for private buckets)
+ */
+router.get(
+    "/:id/signed-url",
+    authMiddleware,
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: "Unauthorized", message: "User not authenticated" });
+                return;
+            }
+
+            const result = await MediaService.getSignedUrl(req.params.id, req.user.userId);
+            if (!result.success) {
+                const status = result.message === "Media not found" ? 404 : 403;
+                res.status(status).json({ error: status === 404 ? "Not Found" : "Forbidden", message: result.message });
+                return;
+            }
+
+            res.status(200).json({
+                message: result.message,
+                data: result.data,
+            });
+        } catch (error: any) {
+            console.error("❌ [UPLOAD] Error creating signed URL:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to create signed URL",
+            });
+        }
+    }
+);
+
 export default router;
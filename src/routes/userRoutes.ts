@@ -4,7 +4,10 @@ import { cacheMiddleware, invalidateCache } from "../middleware/cacheMiddleware"
 const { CacheTTL } = require("../services/cacheService");
 import { AuthRequest } from "../types";
 import { User } from "../models/User";
-import { uploadToS3 } from "../services/s3Service";
+import { MediaService } from "../services/mediaService";
+import config from "../config";
+import { CalendarService } from "../services/calendarService";
+import { TeamService } from "../services/teamService";
 
 const router = Router();
 
@@ -50,6 +53,7 @@ router.get(
         location: user.location,
         oneLiner: user.oneLiner,
         photoUrl: user.photoUrl,
+        photo: user.photo,
         phoneNumber: user.phoneNumber,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
@@ -105,22 +109,27 @@ router.put(
         }
       }
 
-      // 0. HANDLE PROFILE IMAGE UPLOAD TO S3
-      if (updates.photoUrl && updates.photoUrl.startsWith('data:image')) {
-        try {
-          console.log(`📡 [PROFILE] Uploading new Base64 profile image to S3 for user: ${req.user.userId}`);
-          const matches = updates.photoUrl.match(/^data:([A-Za-z-+\/]+);base64,(.+)$/);
-          if (matches && matches.length === 3) {
-            const contentType = matches[1];
-            const buffer = Buffer.from(matches[2], 'base64');
-            const extension = contentType.split('/')[1] || 'png';
-            const fileName = `profile_${req.user.userId}_${Date.now()}.${extension}`;
-
-            updates.photoUrl = await uploadToS3(buffer, fileName, contentType, 'profiles');
-            console.log(`✅ [PROFILE] S3 URL stored: ${updates.photoUrl}`);
+      // 0. PROFILE IMAGE: inline Base64 goes to object storage, the profile keeps the URL and a media reference
+      if (updates.photoUrl !== undefined) {
+        if (typeof updates.photoUrl === 'string' && updates.photoUrl.startsWith('data:')) {
+          const { media, error } = await MediaService.storeInline(updates.photoUrl, 'image/png', {
+            ownerType: 'user',
+            ownerId: req.user.userId,
+            createdBy: req.user.userId,
+            folder: 'profiles',
+          }, config.media.maxInlineBytes);
+          if (!media || media.kind !== 'image') {
+            res.status(400).json({
+              error: "Bad Request",
+              message: error || "photoUrl must be an image",
+            });
+            return;
           }
-        } catch (err) {
-          console.error("❌ [PROFILE] S3 upload failed, keeping Base64 as fallback", err);
+          updates.photoUrl = media.url;
+          updates.photo = MediaService.toRef(media);
+          console.log(`✅ [PROFILE] Profile image stored: ${media.url}`);
+        } else {
+          updates.photo = (await MediaService.refFor(updates.photoUrl)) ?? null;
         }
       }
 
@@ -165,33 +174,6 @@ router.put(
         // No, we generate it locally.
       }
 
-      // Generate embedding SYNCHRONOUSLY if needed
-      if (needsEmbeddingUpdate) {
-        try {
-          const { EmbeddingService } = await import("../services/embeddingService");
-          // We need to merge existing user data with updates to generate a complete profile text
-          // Fetch current user first to get fields that aren't being updated
-          const currentUser = await User.findById(req.user.userId).lean();
-
-          if (currentUser) {
-            const mergedUser = { ...currentUser, ...updates };
-            const profileText = EmbeddingService.createUserProfileText(mergedUser);
-
-            console.log("📝 Generating LOCAL embedding for profile text:", profileText);
-            if (profileText) {
-              const embedding = await EmbeddingService.generateEmbedding(profileText);
-              if (embedding && embedding.length > 0) {
-                updates.profileEmbedding = embedding; // Add to updates
-                console.log("✅ Local profile embedding generated (Dimensions: " + embedding.length + ")");
-              }
-            }
-          }
-        } catch (err) {
-          console.error("❌ Failed to generate profile embedding:", err);
-          // Proceed without embedding if it fails
-        }
-      }
-
       console.log('💾 Saving updates to MongoDB:', updates);
       console.log('👤 User ID:', req.user.userId);
 
@@ -211,6 +193,17 @@ router.put(
       }
 
       console.log('✅ User updated successfully in MongoDB');
+
+      // Profile embedding is regenerated in the background job worker
+      if (needsEmbeddingUpdate) {
+        try {
+          const { JobQueueService } = await import("../services/jobQueue");
+          await JobQueueService.enqueue('user.reembed', { userId: req.user.userId }, { createdBy: req.user.userId });
+        } catch (err) {
+          console.error("❌ Failed to queue profile re-embedding:", err);
+        }
+      }
+
       console.log('📝 Updated user data:', {
         id: updatedUser._id.toString(),
         name: updatedUser.name,
@@ -231,6 +224,7 @@ router.put(
         location: updatedUser.location,
         oneLiner: updatedUser.oneLiner,
         photoUrl: updatedUser.photoUrl,
+        photo: updatedUser.photo,
         phoneNumber: updatedUser.phoneNumber,
         createdAt: updatedUser.createdAt,
         updatedAt: updatedUser.updatedAt,
@@ -250,6 +244,92 @@ router.put(
 
 );
 
+/**
+ * GET /me/invitations
+ * Pending event team invitations for the current user (protected)
+ * Respond with POST /events/:eventId/team/invitations/:invitationId/accept|decline
+ */
+router.get(
+  "/me/invitations",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const invitations = await TeamService.getInvitationsForUser(req.user!.userId);
+      res.status(200).json({
+        message: "Invitations retrieved successfully",
+        data: invitations,
+        count: invitations.length,
+      });
+    } catch (error: any) {
+      console.error("Error fetching invitations:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to fetch invitations",
+      });
+    }
+  }
+);
+
+/**
+ * GET /me/calendar-feed
+ * Subscribable calendar URL listing every event the current user joined (protected)
+ */
+router.get(
+  "/me/calendar-feed",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const token = await CalendarService.getFeedToken(req.user!.userId);
+      if (!token) {
+        res.status(404).json({ error: "Not Found", message: "User not found" });
+        return;
+      }
+
+      const url = CalendarService.getFeedUrl(token);
+      res.status(200).json({
+        message: "Calendar feed retrieved successfully",
+        data: { url, webcalUrl: url.replace(/^https?:/, "webcal:") },
+      });
+    } catch (error: any) {
+      console.error("Error fetching calendar feed:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to fetch calendar feed",
+      });
+    }
+  }
+);
+
+/**
+ * POST /me/calendar-feed/rotate
+ * Replace the calendar feed URL (the previous one stops working) (protected)
+ */
+router.post(
+  "/me/calendar-feed/rotate",
+  authMiddleware,
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const token = await CalendarService.getFeedToken(req.user!.userId, true);
+      if (!token) {
+        res.status(404).json({ error: "Not Found", message: "User not found" });
+        return;
+      }
+
+      const url = CalendarService.getFeedUrl(token);
+      res.status(200).json({
+        message: "Calendar feed URL replaced",
+        data: { url, webcalUrl: url.replace(/^https?:/, "webcal:") },
+      });
+    } catch (error: any) {
+      console.error("Error rotating calendar feed:", error);
+      res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to rotate calendar feed",
+      });
+    }
+  }
+);
+
 /**
  * GET /:id
  * Get user profile by ID (protected)
@@ -282,6 +362,7 @@ router.get(
         location: user.location,
         oneLiner: user.oneLiner,
         photoUrl: user.photoUrl,
+        photo: user.photo,
         phoneNumber: user.phoneNumber,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
@@ -334,29 +415,27 @@ router.post(
         return;
       }
 
-      // 1. Upload Base64 to S3
-      let imageUrl = image;
-      try {
-        console.log(`📡 [PROFILE] Uploading Base64 image to S3 for user: ${userId}`);
-        const matches = image.match(/^data:([A-Za-z-+\/]+);base64,(.+)$/);
-        if (matches && matches.length === 3) {
-          const contentType = matches[1];
-          const buffer = Buffer.from(matches[2], 'base64');
-          const extension = contentType.split('/')[1] || 'png';
-          const fileName = `avatar_${userId}_${Date.now()}.${extension}`;
-
-          imageUrl = await uploadToS3(buffer, fileName, contentType, 'profiles');
-          console.log(`✅ [PROFILE] S3 URL stored: ${imageUrl}`);
-        }
-      } catch (err) {
-        console.error("❌ [PROFILE] S3 upload failed, returning Base64", err);
-        // Fallback to Base64 if S3 fails
+      // 1. Store the image in object storage
+      console.log(`📡 [PROFILE] Storing profile image for user: ${userId}`);
+      const { media, error } = await MediaService.storeInline(image, 'image/png', {
+        ownerType: 'user',
+        ownerId: userId,
+        createdBy: userId,
+        folder: 'profiles',
+      }, config.media.maxInlineBytes);
+      if (!media || media.kind !== 'image') {
+        res.status(400).json({
+          error: "Bad Request",
+          message: error || "Invalid image format. Must be a Base64 data URL.",
+        });
+        return;
       }
+      const imageUrl = media.url;
 
       // 2. Update user profile with new image URL
       const user = await User.findByIdAndUpdate(
         userId,
-        { photoUrl: imageUrl },
+        { photoUrl: imageUrl, photo: MediaService.toRef(media) },
         { new: true }
       ).exec();
 
@@ -371,7 +450,8 @@ router.post(
       res.status(200).json({
         success: true,
         message: "Profile image uploaded successfully",
-        imageUrl: imageUrl, // Return the S3 URL (or Base64 fallback)
+        imageUrl: imageUrl,
+        media: user.photo,
         user: {
           id: user._id.toString(),
           email: user.email,
@@ -0,0 +1,141 @@
+import { Router, Response } from "express";
+import { authMiddleware } from "../middleware/authMiddleware";
+import { requirePermission } from "../middleware/permissionMiddleware";
+import { AuthRequest } from "../types";
+import { EventVersionService } from "../services/eventVersionService";
+
+// Mounted at /events/:id - the event id comes from the parent path
+const router = Router({ mergeParams: true });
+
+/**
+ * GET /versions
+ * Edit history: version number, author, time and the fields that changed
+ */
+router.get(
+    "/versions",
+    authMiddleware,
+    requirePermission('events:edit_content'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const versions = await EventVersionService.list(req.params.id);
+
+            res.status(200).json({
+                message: "Versions retrieved successfully",
+                data: versions,
+            });
+        } catch (error: any) {
+            console.error("Error fetching event versions:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to fetch versions",
+            });
+        }
+    }
+);
+
+/**
+ * GET /versions/compare?from=2&to=5
+ * Field-level differences between two versions (`to` defaults to the latest)
+ */
+router.get(
+    "/versions/compare",
+    authMiddleware,
+    requirePermission('events:edit_content'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const { id } = req.params;
+            const from = Number(req.query.from);
+            if (req.query.from === undefined || !Number.isInteger(from)) {
+                res.status(400).json({ error: "Bad Request", message: "from must be a version number" });
+                return;
+            }
+            let to = req.query.to !== undefined ? Number(req.query.to) : undefined;
+            if (to === undefined) {
+                const [latest] = await EventVersionService.list(id);
+                to = latest?.version || 0;
+            }
+
+            const changes = await EventVersionService.compare(id, from, to);
+            if (!changes) {
+                res.status(404).json({ error: "Not Found", message: "Version not found" });
+                return;
+            }
+
+            res.status(200).json({
+                message: "Versions compared successfully",
+                data: { from, to, changes },
+            });
+        } catch (error: any) {
+            console.error("Error comparing event versions:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to compare versions",
+            });
+        }
+    }
+);
+
+/**
+ * GET /versions/:version
+ * A version's change record and the event's content at that version
+ */
+router.get(
+    "/versions/:version",
+    authMiddleware,
+    requirePermission('events:edit_content'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const version = await EventVersionService.getVersion(req.params.id, Number(req.params.version));
+            if (!version) {
+                res.status(404).json({ error: "Not Found", message: "Version not found" });
+                return;
+            }
+
+            res.status(200).json({
+                message: "Version retrieved successfully",
+                data: version,
+            });
+        } catch (error: any) {
+            console.error("Error fetching event version:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to fetch version",
+            });
+        }
+    }
+);
+
+/**
+ * POST /versions/:version/restore
+ * Restore an earlier version and regenerate chunks and embeddings
+ * Responds immediately; track the pipeline with GET /jobs/:jobId
+ */
+router.post(
+    "/versions/:version/restore",
+    authMiddleware,
+    requirePermission('events:update'),
+    async (req: AuthRequest, res: Response): Promise<void> => {
+        try {
+            const result = await EventVersionService.restore(req.params.id, Number(req.params.version), req.user!.userId);
+            if (!result.success) {
+                const status = result.message === "Version not found" || result.message === "Event not found" ? 404 : 400;
+                res.status(status).json({ error: status === 404 ? "Not Found" : "Bad Request", message: result.message });
+                return;
+            }
+
+            res.status(202).json({
+                message: result.message,
+                data: result.data,
+                jobId: result.job?._id,
+            });
+        } catch (error: any) {
+            console.error("Error restoring event version:", error);
+            res.status(500).json({
+                error: "Internal Server Error",
+                message: "Failed to restore version",
+            });
+        }
+    }
+);
+
+export default router;
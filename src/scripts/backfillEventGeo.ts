@@ -0,0 +1,38 @@
+import mongoose from "mongoose";
+import config from "../config";
+import { Event } from "../models/Event";
+import { GeoService } from "../services/geoService";
+
+/**
+ * Geocode events created before coordinates were stored (or after the gazetteer grew)
+ *   npx ts-node --transpile-only src/scripts/backfillEventGeo.ts
+ * Coordinates set by organizers are never touched.
+ */
+
+const run = async (): Promise<void> => {
+    await mongoose.connect(config.mongodbUri);
+    console.log("✅ MongoDB connected successfully");
+
+    const cursor = Event.find({ geoSource: { $ne: "explicit" }, geo: null })
+        .select("location")
+        .cursor();
+
+    let scanned = 0;
+    let geocoded = 0;
+    for await (const event of cursor) {
+        scanned++;
+        const fields = GeoService.resolve(event.location);
+        if (!fields.geo) continue;
+
+        await Event.updateOne({ _id: event._id }, { $set: fields });
+        geocoded++;
+    }
+
+    console.log(`🗺️  [GEO] Backfill done: ${geocoded}/${scanned} events geocoded`);
+    await mongoose.connection.close();
+};
+
+run().catch(error => {
+    console.error("❌ [GEO] Backfill failed:", error);
+    process.exit(1);
+});
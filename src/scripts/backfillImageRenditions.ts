@@ -0,0 +1,39 @@
+import mongoose from "mongoose";
+import config from "../config";
+import { Media } from "../models/Media";
+import { MediaService } from "../services/mediaService";
+
+/**
+ * Generate renditions and placeholders for images stored before uploads were processed
+ *   npx ts-node --transpile-only src/scripts/backfillImageRenditions.ts
+ * Resumable: images that already have renditions are skipped. References held by events and
+ * users are updated with the new rendition URLs.
+ */
+
+const run = async (): Promise<void> => {
+    await mongoose.connect(config.mongodbUri);
+    console.log("✅ MongoDB connected successfully");
+
+    const cursor = Media.find({ kind: "image", "renditions.0": { $exists: false } }).cursor();
+
+    let scanned = 0;
+    let processed = 0;
+    let failed = 0;
+    for await (const media of cursor) {
+        scanned++;
+        try {
+            if (await MediaService.addRenditions(media)) processed++;
+        } catch (error) {
+            console.error(`❌ [IMAGES] ${media._id} (${media.url}):`, error);
+            failed++;
+        }
+    }
+
+    console.log(`🖼️  [IMAGES] Backfill done: ${processed}/${scanned} images processed, ${failed} failed`);
+    await mongoose.connection.close();
+};
+
+run().catch(error => {
+    console.error("❌ [IMAGES] Backfill failed:", error);
+    process.exit(1);
+});
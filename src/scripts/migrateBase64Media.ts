@@ -0,0 +1,202 @@
+import mongoose from "mongoose";
+import config from "../config";
+import { Event } from "../models/Event";
+import { EventVersion } from "../models/EventVersion";
+import { User } from "../models/User";
+import { EVENT_MEDIA_FIELDS, EventMediaField, MediaService } from "../services/mediaService";
+
+/**
+ * Move Base64 blobs stored inline on events, event history and user profiles to object storage
+ *   npx ts-node --transpile-only src/scripts/migrateBase64Media.ts [--dry-run] [--only=events|users]
+ * Resumable: only documents that still hold inline data are selected, and a file that was
+ * already uploaded for the same owner is found by its content hash instead of uploaded again.
+ * A document edited while it is being migrated is left for the next run.
+ */
+
+const FIELDS = Object.keys(EVENT_MEDIA_FIELDS) as EventMediaField[];
+const NOT_A_URL = { $elemMatch: { $not: /^https?:\/\//i } };
+
+const args = process.argv.slice(2);
+const dryRun = args.includes("--dry-run");
+const only = args.find(arg => arg.startsWith("--only="))?.split("=")[1];
+
+const stats = { events: 0, versions: 0, users: 0, files: 0, bytes: 0, skipped: 0, conflicts: 0 };
+
+/**
+ * Stored URL for an inline value; null when the value is not usable content
+ * (e.g. a Base64 prefix the old upload fallback truncated)
+ */
+const migrateValue = async (value: string, field: EventMediaField, eventId: string): Promise<string | null> => {
+    const target = EVENT_MEDIA_FIELDS[field];
+    const decoded = MediaService.decode(value, target.defaultMime);
+    if (!decoded) return null;
+    if (decoded.mime === "application/pdf" && decoded.buffer.toString("ascii", 0, 4) !== "%PDF") return null;
+    if (decoded.mime.startsWith("image/") && !MediaService.imageDimensions(decoded.buffer).width) return null;
+
+    stats.bytes += decoded.buffer.length;
+    if (dryRun) return value;
+
+    const media = await MediaService.store(decoded.buffer, decoded.mime, {
+        ownerType: "event",
+        ownerId: eventId,
+        folder: target.folder,
+        eventId,
+        mediaType: target.mediaType,
+        source: "migration",
+    });
+    stats.files++;
+    return media.url;
+};
+
+/**
+ * Inline values of a media list replaced by their URLs (unusable values are kept and reported)
+ */
+const migrateList = async (values: unknown, field: EventMediaField, eventId: string): Promise<{ list: unknown; changed: boolean }> => {
+    if (!Array.isArray(values)) return { list: values, changed: false };
+
+    let changed = false;
+    const list: unknown[] = [];
+    for (const value of values) {
+        if (!MediaService.isInlineBlob(value)) {
+            list.push(value);
+            continue;
+        }
+        const url = await migrateValue(value, field, eventId);
+        if (url === null) {
+            console.warn(`⚠️  [MEDIA] Event ${eventId}: unreadable ${field} entry (${String(value).length} chars) left in place`);
+            stats.skipped++;
+            list.push(value);
+            continue;
+        }
+        list.push(url);
+        changed = true;
+    }
+    return { list, changed };
+};
+
+const migrateEvents = async (): Promise<void> => {
+    const cursor = Event.find({ $or: FIELDS.map(field => ({ [field]: NOT_A_URL })) })
+        .select(FIELDS.join(" "))
+        .lean()
+        .cursor();
+
+    for await (const event of cursor) {
+        const eventId = String(event._id);
+        const original = event as unknown as Record<string, unknown>;
+        const updates: Record<string, unknown> = {};
+        for (const field of FIELDS) {
+            const { list, changed } = await migrateList(original[field], field, eventId);
+            if (changed) updates[field] = list;
+        }
+        if (Object.keys(updates).length === 0) continue;
+        if (dryRun) {
+            stats.events++;
+            continue;
+        }
+
+        const merged = Object.fromEntries(FIELDS.map(field => [field, (updates[field] ?? original[field]) as string[]]));
+        updates.media = await MediaService.eventRefs(merged);
+
+        // Only if the lists were not edited in the meantime
+        const unchanged = Object.fromEntries(
+            FIELDS.filter(field => original[field] !== undefined).map(field => [field, original[field]])
+        );
+        const result = await Event.updateOne({ _id: event._id, ...unchanged }, { $set: updates });
+        if (result.modifiedCount === 0) {
+            console.warn(`⚠️  [MEDIA] Event ${eventId} changed during migration; run again to pick it up`);
+            stats.conflicts++;
+            continue;
+        }
+        stats.events++;
+    }
+};
+
+const migrateVersions = async (): Promise<void> => {
+    const cursor = EventVersion.find({ "changes.field": { $in: FIELDS } }).lean().cursor();
+
+    for await (const version of cursor) {
+        const eventId = String(version.eventId);
+        let changed = false;
+        const changes = [];
+        for (const change of version.changes) {
+            if (!(FIELDS as string[]).includes(change.field)) {
+                changes.push(change);
+                continue;
+            }
+            const field = change.field as EventMediaField;
+            const from = await migrateList(change.from, field, eventId);
+            const to = await migrateList(change.to, field, eventId);
+            changed = changed || from.changed || to.changed;
+            changes.push({ ...change, from: from.list, to: to.list });
+        }
+        if (!changed) continue;
+
+        stats.versions++;
+        if (!dryRun) {
+            await EventVersion.updateOne({ _id: version._id }, { $set: { changes } });
+        }
+    }
+};
+
+const migrateUsers = async (): Promise<void> => {
+    const cursor = User.find({ photoUrl: /^data:/ }).select("photoUrl").lean().cursor();
+
+    for await (const user of cursor) {
+        const userId = String(user._id);
+        const decoded = MediaService.decode(user.photoUrl!, "image/png");
+        if (!decoded || !MediaService.imageDimensions(decoded.buffer).width) {
+            console.warn(`⚠️  [MEDIA] User ${userId}: unreadable profile image left in place`);
+            stats.skipped++;
+            continue;
+        }
+
+        stats.bytes += decoded.buffer.length;
+        stats.users++;
+        if (dryRun) continue;
+
+        const media = await MediaService.store(decoded.buffer, decoded.mime, {
+            ownerType: "user",
+            ownerId: userId,
+            createdBy: userId,
+            folder: "profiles",
+            source: "migration",
+        });
+        stats.files++;
+
+        const result = await User.updateOne(
+            { _id: user._id, photoUrl: user.photoUrl },
+            { $set: { photoUrl: media.url, photo: MediaService.toRef(media) } }
+        );
+        if (result.modifiedCount === 0) {
+            console.warn(`⚠️  [MEDIA] User ${userId} changed during migration; run again to pick it up`);
+            stats.users--;
+            stats.conflicts++;
+        }
+    }
+};
+
+const run = async (): Promise<void> => {
+    await mongoose.connect(config.mongodbUri);
+    console.log(`✅ MongoDB connected successfully${dryRun ? " (dry run, nothing is uploaded or written)" : ""}`);
+
+    if (!only || only === "events") {
+        await migrateEvents();
+        await migrateVersions();
+    }
+    if (!only || only === "users") {
+        await migrateUsers();
+    }
+
+    const mb = (stats.bytes / (1024 * 1024)).toFixed(1);
+    console.log(
+        `🖼️  [MEDIA] Migration ${dryRun ? "dry run " : ""}done: ${stats.events} events, ${stats.versions} versions, ` +
+        `${stats.users} users, ${stats.files} files stored (${mb} MB inline), ` +
+        `${stats.skipped} unreadable entries, ${stats.conflicts} conflicts`
+    );
+    await mongoose.connection.close();
+};
+
+run().catch(error => {
+    console.error("❌ [MEDIA] Migration failed:", error);
+    process.exit(1);
+});
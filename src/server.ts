@@ -16,7 +16,19 @@ import qrProfileRoutes from "./routes/qrProfileRoutes";
 import eventRoutes from "./routes/eventRoutes";
 import eventConnectionRoutes from "./routes/eventConnectionRoutes";
 import notificationRoutes from "./routes/notificationRoutes";
+import adminRoutes from "./routes/adminRoutes";
+import jobRoutes from "./routes/jobRoutes";
+import assistantConversationRoutes from "./routes/assistantConversationRoutes";
+import calendarRoutes from "./routes/calendarRoutes";
+import agendaRoutes from "./routes/agendaRoutes";
+import teamRoutes from "./routes/teamRoutes";
+import moderationRoutes from "./routes/moderationRoutes";
+import versionRoutes from "./routes/versionRoutes";
+import analyticsRoutes from "./routes/analyticsRoutes";
+import storageRoutes from "./routes/storageRoutes";
 import { debugLogger, logAppMode } from "./middleware/debugMiddleware";
+import { JobWorker } from "./services/jobQueue";
+import { getStorageProvider } from "./services/storage";
 
 const app = express();
 
@@ -43,12 +55,15 @@ app.use(
 );
 
 // Body parsing
-app.use(express.json({ limit: '50mb' })); // Increased limit for Base64 images
-app.use(express.urlencoded({ extended: true, limit: '50mb' }));
+app.use(express.json({ limit: config.media.jsonBodyLimit })); // Files go through POST /api/upload
+app.use(express.urlencoded({ extended: true, limit: config.media.jsonBodyLimit }));
 
-// Serve static files for QR codes
+// Serve static files for QR codes (generated before object storage was used)
 app.use("/qr-codes", express.static("public/qr-codes"));
 
+// Files of the local storage driver
+app.use("/files", storageRoutes);
+
 // Debug logging middleware (only in debug mode)
 app.use(debugLogger);
 
@@ -102,6 +117,21 @@ apiRouter.use("/qr-profiles", qrProfileRoutes);
 // User routes (protected)
 apiRouter.use("/users", userRoutes);
 
+// Event agenda: sessions and speakers (protected)
+apiRouter.use("/events/:id", agendaRoutes);
+
+// Event team: co-organizers, staff and invitations (protected)
+apiRouter.use("/events/:id", teamRoutes);
+
+// Event review lifecycle: submit, approve, request changes, reject, archive (protected)
+apiRouter.use("/events/:id", moderationRoutes);
+
+// Event edit history: versions, compare and restore (protected)
+apiRouter.use("/events/:id", versionRoutes);
+
+// Organizer analytics: activity over time, CSV export, community retention (protected)
+apiRouter.use("/events/:id", analyticsRoutes);
+
 // Event routes (protected)
 apiRouter.use("/events", eventRoutes);
 
@@ -111,6 +141,18 @@ apiRouter.use("/event-connections", eventConnectionRoutes);
 // Notification routes (protected)
 apiRouter.use("/notifications", notificationRoutes);
 
+// Admin routes (protected, roles:manage)
+apiRouter.use("/admin", adminRoutes);
+
+// Background job status routes (protected)
+apiRouter.use("/jobs", jobRoutes);
+
+// Event assistant conversation history (protected)
+apiRouter.use("/assistant/conversations", assistantConversationRoutes);
+
+// Calendar feeds (public, authenticated by the secret token in the URL)
+apiRouter.use("/calendar", calendarRoutes);
+
 // Mount API Router (Strictly at /api)
 app.use("/api", apiRouter);
 
@@ -157,6 +199,8 @@ const connectDB = async (): Promise<void> => {
 // SERVER START
 // ========================================
 
+let jobWorker: JobWorker | null = null;
+
 const startServer = async (): Promise<void> => {
   // Force reload
   console.log("🔥🔥🔥 THIS IS THE UPDATED BACKEND - VERSION 2024-12-30 🔥🔥🔥");
@@ -164,12 +208,25 @@ const startServer = async (): Promise<void> => {
     // Log app mode and configuration
     logAppMode();
 
+    // Fail at startup, not on the first upload, when object storage is misconfigured
+    getStorageProvider();
+
     // Connect to database
     await connectDB();
 
-    // Initialize AI Intent Classifier
-    const { initializeIntentClassifier } = await import("./services/eventAssistantService");
-    await initializeIntentClassifier();
+    // Promote configured platform admins
+    const { RbacService } = await import("./services/rbacService");
+    await RbacService.ensureBootstrapAdmins(config.adminEmails);
+
+    // Initialize the event assistant's intent classifier
+    const { AssistantPipeline } = await import("./pipelines/assistant_pipeline");
+    await AssistantPipeline.initialize();
+
+    // Background jobs (embeddings / RAG); otherwise run `npm run worker` separately
+    if (config.jobs.runWorkerInProcess) {
+      jobWorker = new JobWorker();
+      jobWorker.start();
+    }
 
     // Start listening
     app.listen(config.port, () => {
@@ -194,12 +251,14 @@ const startServer = async (): Promise<void> => {
 // Handle graceful shutdown
 process.on("SIGTERM", async () => {
   console.log("SIGTERM signal received: closing HTTP server");
+  if (jobWorker) await jobWorker.stop();
   await mongoose.connection.close();
   process.exit(0);
 });
 
 process.on("SIGINT", async () => {
   console.log("SIGINT signal received: closing HTTP server");
+  if (jobWorker) await jobWorker.stop();
   await mongoose.connection.close();
   process.exit(0);
 });
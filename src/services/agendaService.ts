@@ -0,0 +1,344 @@
+import mongoose from 'mongoose';
+import { IEvent } from '../models/Event';
+import { EventSession, IEventSession } from '../models/EventSession';
+import { EventSpeaker, IEventSpeaker } from '../models/EventSpeaker';
+import { Job } from '../models/Job';
+import { User } from '../models/User';
+import { EmbeddingService } from './embeddingService';
+import { JobQueueService } from './jobQueue/jobQueueService';
+import { getVectorStore } from './vectorStore';
+
+/**
+ * Structured agenda: sessions and speakers
+ *
+ * Each session is embedded on its own (category 'session') with its time, room, track and
+ * speakers, so the assistant can answer "when is the keynote?" without digging through PDFs.
+ * Indexing runs as a `sessions.index` job that rebuilds the event's session embeddings.
+ */
+
+// Batch bursts of agenda edits into one re-index
+const INDEX_DELAY_MS = 5000;
+
+const SESSION_FIELDS = ['title', 'description', 'startTime', 'endTime', 'room', 'track', 'speakerIds'] as const;
+const SPEAKER_FIELDS = ['name', 'title', 'company', 'bio', 'photoUrl', 'links'] as const;
+
+type SessionInput = Partial<Pick<IEventSession, typeof SESSION_FIELDS[number]>>;
+type SpeakerInput = Partial<Pick<IEventSpeaker, typeof SPEAKER_FIELDS[number]>> & { userId?: string; email?: string };
+
+export interface AgendaResult<T> {
+    success: boolean;
+    message: string;
+    data?: T;
+}
+
+export class AgendaService {
+    /**
+     * Sessions belong to a dated event; a series gets its agenda per occurrence
+     */
+    static checkAgendaEvent(event: IEvent): string | null {
+        if (event.isSeries) return 'Add sessions to a specific occurrence of this series';
+        return null;
+    }
+
+    private static pick<T extends readonly string[]>(body: Record<string, any>, fields: T): Record<string, any> {
+        const picked: Record<string, any> = {};
+        for (const field of fields) {
+            if (body[field] !== undefined) picked[field] = body[field];
+        }
+        return picked;
+    }
+
+    /**
+     * Validate session fields (merged over the existing session on update)
+     */
+    private static async validateSession(
+        eventId: string,
+        input: Record<string, any>,
+        existing?: IEventSession
+    ): Promise<{ data?: SessionInput; error?: string }> {
+        const data: Record<string, any> = this.pick(input, SESSION_FIELDS);
+
+        const title = data.title ?? existing?.title;
+        if (!title || typeof title !== 'string' || !title.trim()) {
+            return { error: 'title is required' };
+        }
+
+        for (const field of ['startTime', 'endTime'] as const) {
+            if (data[field] !== undefined) {
+                const date = new Date(data[field]);
+                if (isNaN(date.getTime())) return { error: `${field} must be a valid date` };
+                data[field] = date;
+            }
+        }
+        const startTime: Date | undefined = data.startTime ?? existing?.startTime;
+        const endTime: Date | undefined = data.endTime ?? existing?.endTime;
+        if (!startTime || !endTime) {
+            return { error: 'startTime and endTime are required' };
+        }
+        if (endTime <= startTime) {
+            return { error: 'endTime must be after startTime' };
+        }
+
+        if (data.speakerIds !== undefined) {
+            if (!Array.isArray(data.speakerIds) || !data.speakerIds.every((id: any) => mongoose.Types.ObjectId.isValid(id))) {
+                return { error: 'speakerIds must be an array of speaker ids' };
+            }
+            const found = await EventSpeaker.countDocuments({ _id: { $in: data.speakerIds }, eventId });
+            if (found !== new Set(data.speakerIds.map(String)).size) {
+                return { error: 'Every speaker must belong to this event' };
+            }
+        }
+
+        return { data };
+    }
+
+    /**
+     * Agenda in time order, with speakers. Optional track / room filters.
+     */
+    static async listSessions(eventId: string, filters: { track?: string; room?: string } = {}) {
+        return EventSession.find({
+            eventId,
+            ...(filters.track && { track: filters.track }),
+            ...(filters.room && { room: filters.room }),
+        })
+            .sort({ startTime: 1, title: 1 })
+            .populate('speakerIds', 'name title company photoUrl userId');
+    }
+
+    static async getSession(eventId: string, sessionId: string) {
+        if (!mongoose.Types.ObjectId.isValid(sessionId)) return null;
+        return EventSession.findOne({ _id: sessionId, eventId })
+            .populate('speakerIds', 'name title company bio photoUrl links userId');
+    }
+
+    static async createSession(eventId: string, input: Record<string, any>, createdBy: string): Promise<AgendaResult<IEventSession>> {
+        const { data, error } = await this.validateSession(eventId, input);
+        if (error) return { success: false, message: error };
+
+        const session = await EventSession.create({ ...data, eventId, createdBy });
+        await this.scheduleIndexing(eventId, createdBy);
+        return { success: true, message: 'Session created', data: session };
+    }
+
+    static async updateSession(
+        eventId: string,
+        sessionId: string,
+        input: Record<string, any>,
+        updatedBy: string
+    ): Promise<AgendaResult<IEventSession>> {
+        const existing = mongoose.Types.ObjectId.isValid(sessionId)
+            ? await EventSession.findOne({ _id: sessionId, eventId })
+            : null;
+        if (!existing) return { success: false, message: 'Session not found' };
+
+        const { data, error } = await this.validateSession(eventId, input, existing);
+        if (error) return { success: false, message: error };
+
+        existing.set(data!);
+        await existing.save();
+        await this.scheduleIndexing(eventId, updatedBy);
+        return { success: true, message: 'Session updated', data: existing };
+    }
+
+    static async deleteSession(eventId: string, sessionId: string, deletedBy: string): Promise<boolean> {
+        if (!mongoose.Types.ObjectId.isValid(sessionId)) return false;
+        const result = await EventSession.deleteOne({ _id: sessionId, eventId });
+        if (result.deletedCount === 0) return false;
+
+        await this.scheduleIndexing(eventId, deletedBy);
+        return true;
+    }
+
+    static async listSpeakers(eventId: string) {
+        return EventSpeaker.find({ eventId }).sort({ name: 1 });
+    }
+
+    static async getSpeaker(eventId: string, speakerId: string) {
+        if (!mongoose.Types.ObjectId.isValid(speakerId)) return null;
+        return EventSpeaker.findOne({ _id: speakerId, eventId });
+    }
+
+    /**
+     * Sessions a speaker appears in, in time order
+     */
+    static async getSpeakerSessions(eventId: string, speakerId: string) {
+        return EventSession.find({ eventId, speakerIds: speakerId })
+            .sort({ startTime: 1 })
+            .select('title startTime endTime room track');
+    }
+
+    /**
+     * Add a speaker. With `userId` (or an `email` matching an account) the speaker is linked
+     * to that user and missing fields are filled from their profile.
+     */
+    static async createSpeaker(eventId: string, input: SpeakerInput, createdBy: string): Promise<AgendaResult<IEventSpeaker>> {
+        const data: Record<string, any> = this.pick(input, SPEAKER_FIELDS);
+
+        let user = null;
+        if (input.userId) {
+            user = mongoose.Types.ObjectId.isValid(input.userId) ? await User.findById(input.userId) : null;
+            if (!user) return { success: false, message: 'User not found' };
+        } else if (input.email) {
+            user = await User.findOne({ email: String(input.email).toLowerCase().trim() });
+        }
+
+        if (user) {
+            if (await EventSpeaker.exists({ eventId, userId: user._id })) {
+                return { success: false, message: 'This user is already a speaker at this event' };
+            }
+            data.userId = user._id;
+            data.name = data.name || user.name;
+            data.title = data.title || user.role;
+            data.company = data.company || user.company;
+            data.bio = data.bio || user.oneLiner;
+            data.photoUrl = data.photoUrl || user.photoUrl;
+        }
+
+        if (!data.name || !String(data.name).trim()) {
+            return { success: false, message: 'name is required' };
+        }
+
+        const speaker = await EventSpeaker.create({ ...data, eventId, createdBy });
+        return { success: true, message: user ? 'Speaker linked to user profile' : 'Speaker created', data: speaker };
+    }
+
+    static async updateSpeaker(
+        eventId: string,
+        speakerId: string,
+        input: Record<string, any>,
+        updatedBy: string
+    ): Promise<AgendaResult<IEventSpeaker>> {
+        const speaker = mongoose.Types.ObjectId.isValid(speakerId)
+            ? await EventSpeaker.findOne({ _id: speakerId, eventId })
+            : null;
+        if (!speaker) return { success: false, message: 'Speaker not found' };
+
+        const data = this.pick(input, SPEAKER_FIELDS);
+        if (data.name !== undefined && !String(data.name).trim()) {
+            return { success: false, message: 'name cannot be empty' };
+        }
+
+        speaker.set(data);
+        await speaker.save();
+
+        // Speaker details are part of the session embeddings
+        if (await EventSession.exists({ eventId, speakerIds: speaker._id })) {
+            await this.scheduleIndexing(eventId, updatedBy);
+        }
+        return { success: true, message: 'Speaker updated', data: speaker };
+    }
+
+    /**
+     * Delete a speaker and remove them from the sessions they were on
+     */
+    static async deleteSpeaker(eventId: string, speakerId: string, deletedBy: string): Promise<boolean> {
+        if (!mongoose.Types.ObjectId.isValid(speakerId)) return false;
+        const result = await EventSpeaker.deleteOne({ _id: speakerId, eventId });
+        if (result.deletedCount === 0) return false;
+
+        const pulled = await EventSession.updateMany(
+            { eventId, speakerIds: speakerId },
+            { $pull: { speakerIds: new mongoose.Types.ObjectId(speakerId) } }
+        );
+        if (pulled.modifiedCount > 0) {
+            await this.scheduleIndexing(eventId, deletedBy);
+        }
+        return true;
+    }
+
+    /**
+     * Text embedded for a session (also the span the assistant cites)
+     */
+    static buildSessionText(session: IEventSession, speakers: IEventSpeaker[]): string {
+        const formatTime = (date: Date) => date.toISOString().replace('T', ' ').substring(0, 16);
+        const speakerText = speakers
+            .map(s => [s.name, [s.title, s.company].filter(Boolean).join(', ')].filter(Boolean).join(' - '))
+            .join('; ');
+
+        return [
+            `Session: ${session.title}`,
+            `Time: ${formatTime(session.startTime)} to ${formatTime(session.endTime)} UTC`,
+            session.room && `Room: ${session.room}`,
+            session.track && `Track: ${session.track}`,
+            speakerText && `Speakers: ${speakerText}`,
+            session.description && `About: ${session.description}`,
+        ].filter(Boolean).join('\n');
+    }
+
+    /**
+     * Rebuild the event's session embeddings (safe to re-run)
+     */
+    static async indexSessions(eventId: string): Promise<{ indexed: number; skipped?: boolean }> {
+        const vectorStore = getVectorStore();
+        if (!vectorStore.isAvailable()) {
+            console.warn(`⚠️ [AGENDA] Vector store '${vectorStore.name}' unavailable, skipping session index`);
+            return { indexed: 0, skipped: true };
+        }
+
+        const [sessions, speakers] = await Promise.all([
+            EventSession.find({ eventId }).sort({ startTime: 1 }),
+            EventSpeaker.find({ eventId }),
+        ]);
+        const speakersById = new Map<string, IEventSpeaker>(speakers.map(s => [s._id.toString(), s]));
+
+        await vectorStore.deleteEventEmbeddings(eventId, 'session');
+
+        let indexed = 0;
+        for (const session of sessions) {
+            const sessionSpeakers = session.speakerIds
+                .map(id => speakersById.get(id.toString()))
+                .filter((s): s is IEventSpeaker => !!s);
+            const text = this.buildSessionText(session, sessionSpeakers);
+
+            const embedding = await EmbeddingService.generateEmbedding(text);
+            if (!embedding || embedding.length === 0) {
+                throw new Error(`Embedding generation failed for session ${session._id}`);
+            }
+
+            await vectorStore.storeEventSession(eventId, text, embedding, {
+                session_id: session._id.toString(),
+                title: session.title,
+                start_time: session.startTime.toISOString(),
+                end_time: session.endTime.toISOString(),
+                room: session.room,
+                track: session.track,
+                speakers: sessionSpeakers.map(s => s.name),
+            });
+            indexed++;
+        }
+
+        console.log(`🗓️ [AGENDA] Indexed ${indexed} sessions for ${eventId}`);
+        return { indexed };
+    }
+
+    /**
+     * Queue a re-index unless one is already waiting
+     */
+    static async scheduleIndexing(eventId: string, createdBy?: string): Promise<void> {
+        const pending = await Job.exists({
+            type: 'sessions.index',
+            'payload.eventId': eventId,
+            status: 'pending',
+        });
+        if (pending) return;
+
+        await JobQueueService.enqueue('sessions.index', { eventId }, { delayMs: INDEX_DELAY_MS, createdBy, eventId });
+    }
+
+    /**
+     * Remove the agenda of deleted events
+     */
+    static async deleteEventAgenda(eventIds: string[]): Promise<void> {
+        await Promise.all([
+            EventSession.deleteMany({ eventId: { $in: eventIds } }),
+            EventSpeaker.deleteMany({ eventId: { $in: eventIds } }),
+        ]);
+
+        const vectorStore = getVectorStore();
+        if (vectorStore.isAvailable()) {
+            for (const eventId of eventIds) {
+                await vectorStore.deleteEventEmbeddings(eventId, 'session');
+            }
+        }
+    }
+}
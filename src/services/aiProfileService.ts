@@ -3,13 +3,7 @@ import { User } from "../models/User";
 import { Goal } from "../models/Goal";
 import { UserDocument } from "../models/Document";
 import mongoose from "mongoose";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import dotenv from "dotenv";
-
-dotenv.config();
-
-const apiKey = process.env.GEMINI_API_KEY;
-const genAI = apiKey ? new GoogleGenerativeAI(apiKey) : null;
+import { getLlmProvider } from "./llm";
 
 
 /**
@@ -45,9 +39,10 @@ export const generateAiProfile = async (
     userId: new mongoose.Types.ObjectId(userId),
   });
 
-  // 3. Generate AI content using Gemini
-  if (!genAI) {
-    console.error("❌ GEMINI_API_KEY is missing for AI Profile generation.");
+  // 3. Generate AI content using the configured LLM provider
+  const llm = getLlmProvider();
+  if (!llm.isAvailable()) {
+    console.error(`❌ LLM provider '${llm.name}' is not configured for AI Profile generation.`);
     // Fallback to rule-based generation if AI is not configured
     const summary = generateRuleBasedSummary(user, activeGoals.length, documentCount);
     const currentFocus = generateRuleBasedCurrentFocus(user, activeGoals);
@@ -58,8 +53,6 @@ export const generateAiProfile = async (
   }
 
   try {
-    const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
-
     const userProfileText = `
       Name: ${user.name}
       Role: ${user.role}
@@ -89,9 +82,7 @@ export const generateAiProfile = async (
       Strictly JSON only. No other text.
     `;
 
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
+    const text = await llm.generate(prompt, { json: true });
 
     // Clean JSON response (handle potential markdown blocks)
     const jsonStr = text.replace(/```json/g, "").replace(/```/g, "").trim();
@@ -105,7 +96,7 @@ export const generateAiProfile = async (
     };
 
   } catch (error) {
-    console.error("❌ Gemini Error in generateAiProfile:", error);
+    console.error("❌ LLM Error in generateAiProfile:", error);
     // Fallback to rule-based
     return {
       summary: generateRuleBasedSummary(user, activeGoals.length, documentCount),
@@ -0,0 +1,392 @@
+import mongoose from 'mongoose';
+import { AnalyticsEvent, AnalyticsEventType } from '../models/AnalyticsEvent';
+import { Event } from '../models/Event';
+import EventMember from '../models/EventMember';
+
+/**
+ * Organizer analytics
+ *
+ * Interactions are recorded as AnalyticsEvent documents (fire-and-forget, a failure never
+ * breaks the request that caused it) and aggregated on demand into UTC time buckets.
+ * A series reports on itself and all of its occurrences.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_BUCKETS = 400;
+const VIEW_DEDUP_MS = 30 * 60 * 1000; // Repeated opens by the same user count as one view
+const TOP_QUERIES = 20;
+const MAX_SHARED_EVENTS = 50;
+const DEFAULT_COHORT_WEEKS = 12;
+const MAX_COHORT_WEEKS = 52;
+
+export type AnalyticsBucket = 'day' | 'week' | 'month';
+
+export interface AnalyticsParams {
+    from: Date;
+    to: Date;
+    bucket: AnalyticsBucket;
+}
+
+export interface AnalyticsCounts {
+    views: number;
+    uniqueViewers: number;
+    joins: number;
+    leaves: number;
+    netJoins: number;
+    notInterested: number;
+    assistantQuestions: number;
+    memberSearches: number;
+    connectionRequests: number;
+}
+
+export interface EventAnalytics {
+    eventId: string;
+    from: Date;
+    to: Date;
+    bucket: AnalyticsBucket;
+    members: number;
+    totals: AnalyticsCounts;
+    timeline: ({ bucket: Date } & AnalyticsCounts)[];
+    assistantIntents: { intent: string; count: number }[];
+    topSearchQueries: { query: string; count: number }[];
+}
+
+export interface RetentionCohort {
+    cohort: Date;       // Monday (UTC) of the week members first joined
+    size: number;
+    retention: { week: number; retained: number; rate: number }[];
+}
+
+const METRIC_BY_TYPE: Record<AnalyticsEventType, keyof AnalyticsCounts> = {
+    view: 'views',
+    join: 'joins',
+    leave: 'leaves',
+    not_interested: 'notInterested',
+    assistant_question: 'assistantQuestions',
+    member_search: 'memberSearches',
+    connection_request: 'connectionRequests',
+};
+
+const CSV_COLUMNS: (keyof AnalyticsCounts)[] = [
+    'views',
+    'uniqueViewers',
+    'joins',
+    'leaves',
+    'netJoins',
+    'notInterested',
+    'assistantQuestions',
+    'memberSearches',
+    'connectionRequests',
+];
+
+const emptyCounts = (): AnalyticsCounts => ({
+    views: 0,
+    uniqueViewers: 0,
+    joins: 0,
+    leaves: 0,
+    netJoins: 0,
+    notInterested: 0,
+    assistantQuestions: 0,
+    memberSearches: 0,
+    connectionRequests: 0,
+});
+
+// Same boundaries as $dateTrunc with timezone UTC and weeks starting on Monday
+const truncate = (date: Date, bucket: AnalyticsBucket): Date => {
+    const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), bucket === 'month' ? 1 : date.getUTCDate()));
+    if (bucket === 'week') start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+    return start;
+};
+
+const nextBucket = (start: Date, bucket: AnalyticsBucket): Date => {
+    if (bucket === 'month') return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+    return new Date(start.getTime() + (bucket === 'week' ? 7 : 1) * DAY_MS);
+};
+
+const normalizeQuery = (query: string): string => query.trim().toLowerCase().replace(/\s+/g, ' ').slice(0, 200);
+
+export class AnalyticsService {
+    /**
+     * Record an interaction without waiting for it
+     */
+    static track(
+        type: AnalyticsEventType,
+        eventId: string | mongoose.Types.ObjectId,
+        userId?: string | mongoose.Types.ObjectId,
+        details: { intent?: string; query?: string; targetUserId?: string } = {}
+    ): void {
+        this.record(type, eventId, userId, details).catch(error => {
+            console.error(`❌ [ANALYTICS] Failed to record ${type} for ${eventId}:`, error);
+        });
+    }
+
+    private static async record(
+        type: AnalyticsEventType,
+        eventId: string | mongoose.Types.ObjectId,
+        userId?: string | mongoose.Types.ObjectId,
+        details: { intent?: string; query?: string; targetUserId?: string } = {}
+    ): Promise<void> {
+        if (!mongoose.Types.ObjectId.isValid(String(eventId))) return;
+
+        if (type === 'view' && userId) {
+            const recent = await AnalyticsEvent.exists({
+                eventId,
+                userId,
+                type: 'view',
+                createdAt: { $gte: new Date(Date.now() - VIEW_DEDUP_MS) },
+            });
+            if (recent) return;
+        }
+
+        const query = details.query !== undefined ? normalizeQuery(details.query) : undefined;
+        if (type === 'member_search' && !query) return;
+
+        await AnalyticsEvent.create({
+            eventId,
+            type,
+            userId,
+            targetUserId: details.targetUserId,
+            intent: details.intent,
+            query,
+        });
+    }
+
+    /**
+     * Record a connection request against every event both users are members of
+     */
+    static trackConnectionRequest(requestorId: string, targetUserId: string): void {
+        (async () => {
+            const shared = await EventMember.aggregate([
+                {
+                    $match: {
+                        userId: {
+                            $in: [new mongoose.Types.ObjectId(requestorId), new mongoose.Types.ObjectId(targetUserId)],
+                        },
+                    },
+                },
+                { $group: { _id: '$eventId', users: { $addToSet: '$userId' } } },
+                { $match: { 'users.1': { $exists: true } } },
+                { $limit: MAX_SHARED_EVENTS },
+            ]);
+            if (shared.length === 0) return;
+
+            await AnalyticsEvent.insertMany(shared.map(({ _id }) => ({
+                eventId: _id,
+                type: 'connection_request',
+                userId: requestorId,
+                targetUserId,
+            })));
+        })().catch(error => {
+            console.error('❌ [ANALYTICS] Failed to record connection request:', error);
+        });
+    }
+
+    /**
+     * Validate `from`, `to` (ISO dates, default: the last 30 days) and `bucket`
+     */
+    static parseParams(query: Record<string, any>): { params?: AnalyticsParams; error?: string } {
+        const bucket = (query.bucket || 'day') as AnalyticsBucket;
+        if (!['day', 'week', 'month'].includes(bucket)) {
+            return { error: 'bucket must be one of: day, week, month' };
+        }
+
+        const to = query.to ? new Date(String(query.to)) : new Date();
+        const from = query.from ? new Date(String(query.from)) : new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+        if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+            return { error: 'from and to must be ISO dates' };
+        }
+        if (from >= to) {
+            return { error: 'from must be before to' };
+        }
+
+        let buckets = 0;
+        for (let start = truncate(from, bucket); start < to && buckets <= MAX_BUCKETS; start = nextBucket(start, bucket)) {
+            buckets++;
+        }
+        if (buckets > MAX_BUCKETS) {
+            return { error: `Too many ${bucket} buckets in this range (max ${MAX_BUCKETS}); use a larger bucket` };
+        }
+
+        return { params: { from, to, bucket } };
+    }
+
+    private static async getEventIds(eventId: string): Promise<mongoose.Types.ObjectId[] | null> {
+        const event = await Event.findById(eventId).select('isSeries');
+        if (!event) return null;
+
+        const ids = [event._id as mongoose.Types.ObjectId];
+        if (event.isSeries) {
+            const occurrences = await Event.find({ seriesId: event._id }).select('_id');
+            ids.push(...occurrences.map(o => o._id as mongoose.Types.ObjectId));
+        }
+        return ids;
+    }
+
+    /**
+     * Time-bucketed interaction counts (null when the event does not exist)
+     */
+    static async getEventAnalytics(eventId: string, params: AnalyticsParams): Promise<EventAnalytics | null> {
+        if (!mongoose.Types.ObjectId.isValid(eventId)) return null;
+        const eventIds = await this.getEventIds(eventId);
+        if (!eventIds) return null;
+
+        const { from, to, bucket } = params;
+        const match = { eventId: { $in: eventIds }, createdAt: { $gte: from, $lt: to } };
+
+        const [rows, [viewers], intents, queries, members] = await Promise.all([
+            AnalyticsEvent.aggregate([
+                { $match: match },
+                {
+                    $group: {
+                        _id: {
+                            bucket: { $dateTrunc: { date: '$createdAt', unit: bucket, timezone: 'UTC', startOfWeek: 'monday' } },
+                            type: '$type',
+                        },
+                        count: { $sum: 1 },
+                        users: { $addToSet: '$userId' },
+                    },
+                },
+                { $project: { count: 1, users: { $size: '$users' } } },
+            ]),
+            AnalyticsEvent.aggregate([
+                { $match: { ...match, type: 'view' } },
+                { $group: { _id: null, users: { $addToSet: '$userId' } } },
+                { $project: { count: { $size: '$users' } } },
+            ]),
+            AnalyticsEvent.aggregate([
+                { $match: { ...match, type: 'assistant_question' } },
+                { $group: { _id: { $ifNull: ['$intent', 'UNKNOWN'] }, count: { $sum: 1 } } },
+                { $sort: { count: -1, _id: 1 } },
+            ]),
+            AnalyticsEvent.aggregate([
+                { $match: { ...match, type: 'member_search' } },
+                { $group: { _id: '$query', count: { $sum: 1 } } },
+                { $sort: { count: -1, _id: 1 } },
+                { $limit: TOP_QUERIES },
+            ]),
+            EventMember.countDocuments({ eventId: { $in: eventIds } }),
+        ]);
+
+        // Every bucket in the range, including empty ones
+        const timeline = new Map<number, { bucket: Date } & AnalyticsCounts>();
+        for (let start = truncate(from, bucket); start < to; start = nextBucket(start, bucket)) {
+            timeline.set(start.getTime(), { bucket: start, ...emptyCounts() });
+        }
+
+        const totals = emptyCounts();
+        for (const row of rows) {
+            const entry = timeline.get(new Date(row._id.bucket).getTime());
+            const metric = METRIC_BY_TYPE[row._id.type as AnalyticsEventType];
+            if (!entry || !metric) continue;
+            entry[metric] += row.count;
+            totals[metric] += row.count;
+            if (row._id.type === 'view') entry.uniqueViewers = row.users;
+        }
+        for (const entry of timeline.values()) {
+            entry.netJoins = entry.joins - entry.leaves;
+        }
+        totals.netJoins = totals.joins - totals.leaves;
+        totals.uniqueViewers = viewers?.count || 0;
+
+        return {
+            eventId,
+            from,
+            to,
+            bucket,
+            members,
+            totals,
+            timeline: Array.from(timeline.values()),
+            assistantIntents: intents.map(row => ({ intent: row._id, count: row.count })),
+            topSearchQueries: queries.map(row => ({ query: row._id, count: row.count })),
+        };
+    }
+
+    static toCsv(analytics: EventAnalytics): string {
+        const rows = analytics.timeline.map(entry =>
+            [entry.bucket.toISOString(), ...CSV_COLUMNS.map(column => entry[column])].join(',')
+        );
+        return [['bucket', ...CSV_COLUMNS].join(','), ...rows].join('\n');
+    }
+
+    /**
+     * Weekly retention cohorts for a community: members are grouped by the week they first
+     * joined, and a member counts as retained in week N if they were still a member at the
+     * end of it. Based on recorded joins and leaves, so members from before analytics was
+     * recorded are not included.
+     */
+    static async getRetentionCohorts(
+        eventId: string,
+        weeks: number = DEFAULT_COHORT_WEEKS
+    ): Promise<{ success: boolean; message: string; data?: { weeks: number; cohorts: RetentionCohort[] } }> {
+        const event = mongoose.Types.ObjectId.isValid(eventId)
+            ? await Event.findById(eventId).select('isCommunity')
+            : null;
+        if (!event) return { success: false, message: 'Event not found' };
+        if (!event.isCommunity) {
+            return { success: false, message: 'Retention cohorts are only available for communities' };
+        }
+        if (!Number.isInteger(weeks) || weeks < 1 || weeks > MAX_COHORT_WEEKS) {
+            return { success: false, message: `weeks must be between 1 and ${MAX_COHORT_WEEKS}` };
+        }
+
+        const now = new Date();
+        const firstCohort = new Date(truncate(now, 'week').getTime() - (weeks - 1) * 7 * DAY_MS);
+
+        const history = await AnalyticsEvent.find({
+            eventId,
+            type: { $in: ['join', 'leave'] },
+            userId: { $exists: true },
+        })
+            .sort({ createdAt: 1 })
+            .select('userId type createdAt')
+            .lean();
+
+        const byUser = new Map<string, { type: string; at: Date }[]>();
+        for (const entry of history) {
+            const key = entry.userId!.toString();
+            byUser.set(key, [...(byUser.get(key) || []), { type: entry.type, at: entry.createdAt }]);
+        }
+
+        const cohorts = new Map<number, RetentionCohort>();
+        for (let week = 0; week < weeks; week++) {
+            const cohort = new Date(firstCohort.getTime() + week * 7 * DAY_MS);
+            const elapsed = Math.floor((now.getTime() - cohort.getTime()) / (7 * DAY_MS));
+            cohorts.set(cohort.getTime(), {
+                cohort,
+                size: 0,
+                retention: Array.from({ length: elapsed + 1 }, (_, n) => ({ week: n, retained: 0, rate: 0 })),
+            });
+        }
+
+        for (const entries of byUser.values()) {
+            const firstJoin = entries.find(e => e.type === 'join');
+            if (!firstJoin) continue;
+            const cohort = cohorts.get(truncate(firstJoin.at, 'week').getTime());
+            if (!cohort) continue;
+
+            cohort.size++;
+            for (const point of cohort.retention) {
+                const end = Math.min(cohort.cohort.getTime() + (point.week + 1) * 7 * DAY_MS, now.getTime());
+                const last = entries.filter(e => e.at.getTime() < end).pop();
+                if (last?.type === 'join') point.retained++;
+            }
+        }
+
+        for (const cohort of cohorts.values()) {
+            cohort.retention.forEach(point => {
+                point.rate = cohort.size > 0 ? Math.round((point.retained / cohort.size) * 1000) / 1000 : 0;
+            });
+        }
+
+        return {
+            success: true,
+            message: 'Retention cohorts computed',
+            data: { weeks, cohorts: Array.from(cohorts.values()) },
+        };
+    }
+
+    static async deleteEventAnalytics(eventIds: string[]): Promise<void> {
+        await AnalyticsEvent.deleteMany({ eventId: { $in: eventIds } });
+    }
+}
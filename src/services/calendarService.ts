@@ -0,0 +1,203 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import config from '../config';
+import { Event, IEvent } from '../models/Event';
+import EventConnection from '../models/EventConnection';
+import EventMember from '../models/EventMember';
+import { User } from '../models/User';
+
+/**
+ * iCalendar (RFC 5545) export
+ *
+ * Each event keeps a stable UID (its id) and a SEQUENCE (Event.calendarSequence) so calendar
+ * apps update or cancel the entry they already have instead of adding a new one.
+ */
+
+// Events only store a start time
+const DEFAULT_DURATION_MS = 2 * 60 * 60 * 1000;
+
+// How far back the personal feed goes
+const FEED_HISTORY_DAYS = 180;
+
+// Fields that change what a calendar entry shows
+const CALENDAR_FIELDS = ['name', 'headline', 'description', 'location', 'dateTime', 'isCancelled', 'attachments'] as const;
+
+export class CalendarService {
+    /**
+     * Whether an update changes a calendar entry (and so needs a new SEQUENCE)
+     */
+    static hasCalendarChanges(before: Partial<IEvent>, after: Partial<IEvent>): boolean {
+        const normalize = (value: any) => {
+            if (value instanceof Date) return value.getTime();
+            if (Array.isArray(value)) {
+                // attachments: compare content, not subdocument ids
+                return JSON.stringify(value.map(({ url, name, type }: any) => ({ url, name, type })));
+            }
+            return value ?? null;
+        };
+        return CALENDAR_FIELDS.some(field => normalize(before[field]) !== normalize(after[field]));
+    }
+
+    static async bumpSequence(eventId: mongoose.Types.ObjectId | string): Promise<void> {
+        await Event.updateOne({ _id: eventId }, { $inc: { calendarSequence: 1 } });
+    }
+
+    private static escapeText(value: string): string {
+        return value
+            .replace(/\\/g, '\\\\')
+            .replace(/;/g, '\\;')
+            .replace(/,/g, '\\,')
+            .replace(/\r?\n/g, '\\n');
+    }
+
+    private static formatDate(date: Date): string {
+        return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    }
+
+    /**
+     * Fold content lines longer than 75 octets (continuation lines start with a space)
+     */
+    private static foldLine(line: string): string {
+        if (Buffer.byteLength(line) <= 75) return line;
+
+        const parts: string[] = [];
+        let current = '';
+        let limit = 75;
+        for (const char of line) {
+            if (Buffer.byteLength(current + char) > limit) {
+                parts.push(current);
+                current = '';
+                limit = 74; // Leading space counts towards the limit
+            }
+            current += char;
+        }
+        parts.push(current);
+        return parts.join('\r\n ');
+    }
+
+    private static uidFor(event: IEvent): string {
+        let host = 'waytree';
+        try {
+            host = new URL(config.apiBaseUrl).hostname;
+        } catch {
+            // Keep the default
+        }
+        return `${event._id}@${host}`;
+    }
+
+    private static buildEvent(event: IEvent, now: Date): string[] {
+        const start = event.dateTime!;
+        const end = new Date(start.getTime() + DEFAULT_DURATION_MS);
+
+        // Data URLs are far too large for calendar clients; link hosted files only
+        const attachments = (event.attachments || []).filter(a => /^https?:\/\//.test(a.url));
+
+        const description = [
+            event.headline,
+            event.description,
+            attachments.length > 0
+                ? `Attachments:\n${attachments.map(a => `${a.name}: ${a.url}`).join('\n')}`
+                : undefined,
+        ].filter(Boolean).join('\n\n');
+
+        const lines = [
+            'BEGIN:VEVENT',
+            `UID:${this.uidFor(event)}`,
+            `DTSTAMP:${this.formatDate(now)}`,
+            `DTSTART:${this.formatDate(start)}`,
+            `DTEND:${this.formatDate(end)}`,
+            `SEQUENCE:${event.calendarSequence || 0}`,
+            `SUMMARY:${this.escapeText(event.name)}`,
+            `DESCRIPTION:${this.escapeText(description)}`,
+            `LOCATION:${this.escapeText(event.location || '')}`,
+            `STATUS:${event.isCancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+            `CREATED:${this.formatDate(event.createdAt)}`,
+            `LAST-MODIFIED:${this.formatDate(event.updatedAt)}`,
+            ...attachments.map(a => `ATTACH${a.type ? `;FMTTYPE=${a.type}` : ''}:${a.url}`),
+            'END:VEVENT',
+        ];
+        return lines;
+    }
+
+    /**
+     * Render a VCALENDAR. Events without a date (communities) are skipped.
+     */
+    static buildCalendar(events: IEvent[], name: string): string {
+        const now = new Date();
+        const lines = [
+            'BEGIN:VCALENDAR',
+            'VERSION:2.0',
+            'PRODID:-//WayTree//Events//EN',
+            'CALSCALE:GREGORIAN',
+            'METHOD:PUBLISH',
+            `X-WR-CALNAME:${this.escapeText(name)}`,
+            ...events.filter(e => e.dateTime).flatMap(e => this.buildEvent(e, now)),
+            'END:VCALENDAR',
+        ];
+        return lines.map(line => this.foldLine(line)).join('\r\n') + '\r\n';
+    }
+
+    /**
+     * Calendar for one event. A series exports its upcoming occurrences.
+     */
+    static async getEventCalendar(event: IEvent): Promise<string> {
+        if (!event.isSeries) {
+            return this.buildCalendar([event], event.name);
+        }
+        const occurrences = await Event.find({ seriesId: event._id, dateTime: { $gte: new Date() } })
+            .sort({ dateTime: 1 })
+            .select('-pdfFiles -pdfExtractedTexts -pdfChunks -eventEmbedding -metadataEmbedding -photos -videos');
+        return this.buildCalendar(occurrences, event.name);
+    }
+
+    /**
+     * Events a user joined: as an attendee, through an event connection or as a member
+     */
+    static async getJoinedEvents(userId: string): Promise<IEvent[]> {
+        const [connectionEventIds, memberEventIds] = await Promise.all([
+            EventConnection.distinct('eventId', { participantId: userId }),
+            EventMember.distinct('eventId', { userId }),
+        ]);
+
+        const since = new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+        return Event.find({
+            $or: [
+                { attendees: new mongoose.Types.ObjectId(userId) },
+                { _id: { $in: [...connectionEventIds, ...memberEventIds] } },
+            ],
+            isSeries: { $ne: true },
+            dateTime: { $gte: since },
+        })
+            .sort({ dateTime: 1 })
+            .select('-pdfFiles -pdfExtractedTexts -pdfChunks -eventEmbedding -metadataEmbedding -photos -videos');
+    }
+
+    /**
+     * Get (or create) the secret token behind a user's feed URL. `rotate` revokes the old URL.
+     */
+    static async getFeedToken(userId: string, rotate = false): Promise<string | null> {
+        const user = await User.findById(userId).select('+calendarFeedToken');
+        if (!user) return null;
+        if (user.calendarFeedToken && !rotate) return user.calendarFeedToken;
+
+        const token = crypto.randomBytes(24).toString('hex');
+        await User.updateOne({ _id: userId }, { $set: { calendarFeedToken: token } });
+        if (rotate) console.log(`📅 [CALENDAR] Rotated feed token for ${userId}`);
+        return token;
+    }
+
+    static getFeedUrl(token: string): string {
+        return `${config.apiBaseUrl}/api/calendar/${token}.ics`;
+    }
+
+    /**
+     * Render the feed behind a token (null when the token is unknown)
+     */
+    static async getFeed(token: string): Promise<string | null> {
+        const user = await User.findOne({ calendarFeedToken: token }).select('_id name');
+        if (!user) return null;
+
+        const events = await this.getJoinedEvents(user._id.toString());
+        return this.buildCalendar(events, 'WayTree Events');
+    }
+}
@@ -0,0 +1,326 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import config from '../config';
+import EventMember, { IEventMember } from '../models/EventMember';
+import { QRCodeService } from './qrCodeService';
+
+/**
+ * On-site check-in
+ *
+ * Every confirmed attendee (EventMember) gets a pass: a signed token rendered as a QR code,
+ * plus a short code for manual entry. A pass checks in once; later scans report the original
+ * check-in. Scanners may queue scans while offline and upload them later (see sync) - each scan
+ * carries its own id and timestamp, so re-sending a batch is harmless.
+ */
+
+// No 0/O/1/I/L so codes can be read out loud and typed
+const CODE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+const CODE_LENGTH = 8;
+
+export type CheckInStatus = 'checked_in' | 'already_checked_in' | 'invalid';
+
+export interface CheckInPass {
+    memberId: string;
+    token: string;
+    code: string;
+    qrCode: string;
+    checkedInAt?: Date;
+}
+
+export interface CheckInScan {
+    token?: string;
+    code?: string;
+    gate?: string;
+    scannedAt?: string | Date;
+    scanId?: string;
+}
+
+export interface CheckInResult {
+    status: CheckInStatus;
+    message: string;
+    scanId?: string;
+    member?: {
+        id: string;
+        name: string;
+        checkedInAt?: Date;
+        checkInGate?: string;
+    };
+}
+
+export interface CheckInStats {
+    total: number;
+    checkedIn: number;
+    remaining: number;
+    byGate: { gate: string; count: number }[];
+    lastCheckInAt: Date | null;
+}
+
+interface CheckInTokenPayload {
+    type: 'checkin';
+    eventId: string;
+    memberId: string;
+    nonce: string;
+}
+
+export class CheckInService {
+    private static generateCode(): string {
+        const bytes = crypto.randomBytes(CODE_LENGTH);
+        return Array.from(bytes, b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+    }
+
+    private static normalizeCode(code: string): string {
+        return code.replace(/[\s-]/g, '').toUpperCase();
+    }
+
+    /**
+     * Ensure a member has a nonce and a code (unique per event), creating them on first use
+     */
+    private static async ensureCredentials(member: IEventMember, rotate = false): Promise<IEventMember> {
+        if (member.passNonce && member.passCode && !rotate) return member;
+
+        for (let attempt = 0; attempt < 5; attempt++) {
+            try {
+                const updated = await EventMember.findByIdAndUpdate(
+                    member._id,
+                    { $set: { passNonce: crypto.randomBytes(12).toString('hex'), passCode: this.generateCode() } },
+                    { new: true }
+                );
+                return updated!;
+            } catch (error: any) {
+                // Code collision within the event - try another one
+                if (error?.code !== 11000) throw error;
+            }
+        }
+        throw new Error('Failed to allocate a check-in code');
+    }
+
+    /**
+     * Signed token for a member's pass. It never expires on its own; rotating the pass revokes it.
+     */
+    private static signToken(member: IEventMember): string {
+        const payload: CheckInTokenPayload = {
+            type: 'checkin',
+            eventId: member.eventId.toString(),
+            memberId: member._id.toString(),
+            nonce: member.passNonce!,
+        };
+        return jwt.sign(payload, config.checkIn.tokenSecret);
+    }
+
+    private static verifyToken(token: string): CheckInTokenPayload | null {
+        try {
+            const payload = jwt.verify(token, config.checkIn.tokenSecret) as CheckInTokenPayload;
+            return payload?.type === 'checkin' ? payload : null;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Get (or create) the pass for an attendee. `rotate` invalidates the previous token and code.
+     */
+    static async issuePass(member: IEventMember, rotate = false): Promise<CheckInPass> {
+        const withCredentials = await this.ensureCredentials(member, rotate);
+        const token = this.signToken(withCredentials);
+
+        if (rotate) {
+            console.log(`🎫 [CHECK-IN] Rotated pass for member ${member._id}`);
+        }
+
+        return {
+            memberId: withCredentials._id.toString(),
+            token,
+            code: withCredentials.passCode!,
+            qrCode: await QRCodeService.generateCheckInPass(token),
+            checkedInAt: withCredentials.checkedInAt || undefined,
+        };
+    }
+
+    static async getPassForUser(eventId: string, userId: string): Promise<CheckInPass | null> {
+        const member = await EventMember.findOne({ eventId, userId });
+        return member ? this.issuePass(member) : null;
+    }
+
+    static async getPassForMember(eventId: string, memberId: string, rotate = false): Promise<CheckInPass | null> {
+        if (!mongoose.Types.ObjectId.isValid(memberId)) return null;
+        const member = await EventMember.findOne({ _id: memberId, eventId });
+        return member ? this.issuePass(member, rotate) : null;
+    }
+
+    /**
+     * Resolve the member a token or code belongs to (null when unknown, revoked or for another event)
+     */
+    private static async findMember(eventId: string, scan: CheckInScan): Promise<IEventMember | null> {
+        if (scan.token) {
+            const payload = this.verifyToken(scan.token);
+            if (!payload || payload.eventId !== eventId) return null;
+            return EventMember.findOne({ _id: payload.memberId, eventId, passNonce: payload.nonce });
+        }
+        if (scan.code) {
+            return EventMember.findOne({ eventId, passCode: this.normalizeCode(scan.code) });
+        }
+        return null;
+    }
+
+    /**
+     * Scanner clocks are trusted unless they are in the future (beyond the allowed skew)
+     */
+    private static resolveScanTime(scannedAt: CheckInScan['scannedAt'], now: Date): Date {
+        if (!scannedAt) return now;
+        const time = new Date(scannedAt);
+        if (isNaN(time.getTime()) || time.getTime() > now.getTime() + config.checkIn.maxClockSkewMs) {
+            return now;
+        }
+        return time;
+    }
+
+    private static toResult(status: CheckInStatus, message: string, member: IEventMember, scanId?: string): CheckInResult {
+        return {
+            status,
+            message,
+            scanId,
+            member: {
+                id: member._id.toString(),
+                name: member.name,
+                checkedInAt: member.checkedInAt,
+                checkInGate: member.checkInGate,
+            },
+        };
+    }
+
+    /**
+     * Record a scan. The first scan of a pass wins; re-sending the same scanId is idempotent.
+     */
+    static async checkIn(eventId: string, scan: CheckInScan, scannedBy: string): Promise<CheckInResult> {
+        const member = await this.findMember(eventId, scan);
+        if (!member) {
+            return { status: 'invalid', message: 'Pass not recognised for this event', scanId: scan.scanId };
+        }
+
+        const now = new Date();
+        const gate = scan.gate?.trim() || undefined;
+        const updated = await EventMember.findOneAndUpdate(
+            { _id: member._id, checkedInAt: null },
+            {
+                $set: {
+                    checkedInAt: this.resolveScanTime(scan.scannedAt, now),
+                    checkInGate: gate,
+                    checkedInBy: new mongoose.Types.ObjectId(scannedBy),
+                    checkInScanId: scan.scanId,
+                    checkInSyncedAt: now,
+                },
+            },
+            { new: true }
+        );
+
+        if (updated) {
+            console.log(`✅ [CHECK-IN] ${updated.name} checked in to ${eventId}${gate ? ` at ${gate}` : ''}`);
+            return this.toResult('checked_in', 'Checked in', updated, scan.scanId);
+        }
+
+        const current = await EventMember.findById(member._id);
+        if (!current) {
+            return { status: 'invalid', message: 'Pass not recognised for this event', scanId: scan.scanId };
+        }
+        if (scan.scanId && current.checkInScanId === scan.scanId) {
+            // Same scan uploaded again (e.g. a retried sync)
+            return this.toResult('checked_in', 'Checked in', current, scan.scanId);
+        }
+        return this.toResult('already_checked_in', 'This pass has already been used', current, scan.scanId);
+    }
+
+    /**
+     * Apply scans queued by an offline scanner, oldest first so the earliest scan wins
+     */
+    static async sync(eventId: string, scans: CheckInScan[], scannedBy: string): Promise<CheckInResult[]> {
+        const ordered = scans
+            .map((scan, index) => ({ scan, index }))
+            .sort((a, b) => {
+                const timeA = a.scan.scannedAt ? new Date(a.scan.scannedAt).getTime() || 0 : 0;
+                const timeB = b.scan.scannedAt ? new Date(b.scan.scannedAt).getTime() || 0 : 0;
+                return timeA - timeB;
+            });
+
+        const results: CheckInResult[] = new Array(scans.length);
+        for (const { scan, index } of ordered) {
+            results[index] = await this.checkIn(eventId, scan, scannedBy);
+        }
+
+        const checkedIn = results.filter(r => r.status === 'checked_in').length;
+        console.log(`🔄 [CHECK-IN] Synced ${scans.length} scans for ${eventId} (${checkedIn} checked in)`);
+        return results;
+    }
+
+    /**
+     * Organizer: undo a check-in (e.g. scanned by mistake). The pass becomes usable again.
+     */
+    static async undoCheckIn(eventId: string, memberId: string): Promise<boolean> {
+        if (!mongoose.Types.ObjectId.isValid(memberId)) return false;
+        const result = await EventMember.updateOne(
+            { _id: memberId, eventId, checkedInAt: { $ne: null } },
+            {
+                $set: { checkedInAt: null },
+                $unset: { checkInGate: 1, checkedInBy: 1, checkInScanId: 1, checkInSyncedAt: 1 },
+            }
+        );
+        return result.modifiedCount === 1;
+    }
+
+    static async getStats(eventId: string): Promise<CheckInStats> {
+        const eventObjectId = new mongoose.Types.ObjectId(eventId);
+        const [total, gates, last] = await Promise.all([
+            EventMember.countDocuments({ eventId }),
+            EventMember.aggregate([
+                { $match: { eventId: eventObjectId, checkedInAt: { $ne: null } } },
+                { $group: { _id: { $ifNull: ['$checkInGate', 'unassigned'] }, count: { $sum: 1 } } },
+                { $sort: { count: -1 } },
+            ]),
+            EventMember.findOne({ eventId, checkedInAt: { $ne: null } })
+                .sort({ checkedInAt: -1 })
+                .select('checkedInAt'),
+        ]);
+
+        const checkedIn = gates.reduce((sum, g) => sum + g.count, 0);
+        return {
+            total,
+            checkedIn,
+            remaining: total - checkedIn,
+            byGate: gates.map(g => ({ gate: g._id, count: g.count })),
+            lastCheckInAt: last?.checkedInAt || null,
+        };
+    }
+
+    /**
+     * Attendees who never checked in (app users populated with their email/company)
+     */
+    static async getNoShows(eventId: string): Promise<IEventMember[]> {
+        return EventMember.find({ eventId, checkedInAt: null })
+            .sort({ name: 1 })
+            .select('name phoneNumber source joinedAt userId')
+            .populate('userId', 'email company');
+    }
+
+    static toNoShowCsv(members: IEventMember[]): string {
+        const escape = (value: unknown) => {
+            let text = value === undefined || value === null ? '' : String(value);
+            // Spreadsheets run cells starting with these as formulas
+            if (/^[=+\-@]/.test(text)) text = `'${text}`;
+            return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        };
+
+        const rows = members.map(m => {
+            const user = m.userId as any;
+            return [
+                m.name,
+                user?.email,
+                m.phoneNumber,
+                user?.company,
+                m.source,
+                m.joinedAt?.toISOString(),
+                user?._id?.toString(),
+            ].map(escape).join(',');
+        });
+        return ['name,email,phone,company,source,joinedAt,userId', ...rows].join('\n');
+    }
+}
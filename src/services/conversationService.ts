@@ -0,0 +1,152 @@
+import mongoose from 'mongoose';
+import { AssistantConversation, IAssistantConversation } from '../models/AssistantConversation';
+import { getLlmProvider } from './llm';
+
+export interface ConversationTurn {
+    role: 'user' | 'assistant';
+    content: string;
+}
+
+// Turns (user + assistant messages) fed back into query rewriting and answering
+const HISTORY_MESSAGES = 6;
+// Messages kept per conversation; older ones are dropped
+const MAX_STORED_MESSAGES = 200;
+const TITLE_LENGTH = 80;
+
+export class ConversationService {
+    /**
+     * Resume a conversation the user owns for this event, or start a new one.
+     * New conversations are only written on the first `appendTurn`.
+     * Returns null when `conversationId` is given but does not match.
+     */
+    static async getOrCreate(
+        userId: string,
+        eventId: string,
+        conversationId?: string
+    ): Promise<IAssistantConversation | null> {
+        if (conversationId) {
+            if (!mongoose.Types.ObjectId.isValid(conversationId)) return null;
+            return AssistantConversation.findOne({ _id: conversationId, userId, eventId });
+        }
+
+        return new AssistantConversation({ userId, eventId, messages: [] });
+    }
+
+    /**
+     * Most recent turns, oldest first
+     */
+    static getHistory(conversation: IAssistantConversation, limit: number = HISTORY_MESSAGES): ConversationTurn[] {
+        return conversation.messages
+            .slice(-limit)
+            .map(message => ({ role: message.role, content: message.content }));
+    }
+
+    /**
+     * Persist a question/answer pair (creates the conversation on the first turn)
+     */
+    static async appendTurn(
+        conversation: IAssistantConversation,
+        question: string,
+        answer: string,
+        rewrittenQuery?: string
+    ): Promise<void> {
+        const now = new Date();
+        await AssistantConversation.updateOne(
+            { _id: conversation._id },
+            {
+                $push: {
+                    messages: {
+                        $each: [
+                            {
+                                role: 'user',
+                                content: question,
+                                ...(rewrittenQuery && rewrittenQuery !== question && { rewrittenQuery }),
+                                createdAt: now,
+                            },
+                            { role: 'assistant', content: answer, createdAt: now },
+                        ],
+                        $slice: -MAX_STORED_MESSAGES,
+                    },
+                },
+                $set: { lastMessageAt: now },
+                $setOnInsert: {
+                    userId: conversation.userId,
+                    eventId: conversation.eventId,
+                    title: question.substring(0, TITLE_LENGTH),
+                },
+            },
+            { upsert: true }
+        );
+    }
+
+    /**
+     * Rewrite a follow-up ("what about their CTO?") into a standalone question
+     * so retrieval and intent classification see the full context.
+     * Falls back to the original question when there is no history or no LLM.
+     */
+    static async rewriteQuery(question: string, history: ConversationTurn[]): Promise<string> {
+        if (history.length === 0) return question;
+
+        const llm = getLlmProvider();
+        if (!llm.isAvailable()) return question;
+
+        try {
+            const prompt = `Rewrite the user's latest question so it can be understood without the conversation.
+Resolve pronouns and references ("they", "that session", "their CTO") using the conversation.
+If the question is already standalone, return it unchanged. Do not answer it.
+
+CONVERSATION:
+${this.formatHistory(history)}
+
+LATEST QUESTION: ${question}
+
+Respond with JSON: {"question": "<standalone question>"}`;
+
+            const raw = await llm.generate(prompt, { json: true });
+            const rewritten = JSON.parse(raw)?.question;
+            if (typeof rewritten === 'string' && rewritten.trim()) {
+                return rewritten.trim();
+            }
+        } catch (error) {
+            console.error('⚠️ Query rewrite failed, using original question:', error);
+        }
+        return question;
+    }
+
+    /**
+     * Plain-text transcript for prompts
+     */
+    static formatHistory(history: ConversationTurn[]): string {
+        return history
+            .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`)
+            .join('\n');
+    }
+
+    /**
+     * Conversations for a user (optionally one event), newest first, without messages
+     */
+    static async listConversations(userId: string, eventId?: string): Promise<IAssistantConversation[]> {
+        return AssistantConversation.find({ userId, ...(eventId && { eventId }) })
+            .select('-messages')
+            .sort({ lastMessageAt: -1 })
+            .limit(50);
+    }
+
+    static async getConversation(userId: string, conversationId: string): Promise<IAssistantConversation | null> {
+        if (!mongoose.Types.ObjectId.isValid(conversationId)) return null;
+        return AssistantConversation.findOne({ _id: conversationId, userId });
+    }
+
+    static async deleteConversation(userId: string, conversationId: string): Promise<boolean> {
+        if (!mongoose.Types.ObjectId.isValid(conversationId)) return false;
+        const result = await AssistantConversation.deleteOne({ _id: conversationId, userId });
+        return result.deletedCount > 0;
+    }
+
+    /**
+     * Remove every conversation about an event (used when the event is deleted)
+     */
+    static async deleteEventConversations(eventId: string): Promise<void> {
+        await AssistantConversation.deleteMany({ eventId });
+    }
+}
@@ -453,6 +453,54 @@ Need help? Contact us at support@tracksense.ai
     }
   }
 
+  async sendTeamInvitation(
+    email: string,
+    invitation: { eventName: string; role: string; inviterName: string }
+  ): Promise<void> {
+    const roleName = invitation.role.replace(/_/g, " ");
+    const text = `${invitation.inviterName} invited you to join the team of "${invitation.eventName}" as ${roleName}.\n\nOpen the app to accept or decline the invitation: ${config.frontendUrl}`;
+
+    try {
+      await this.sendEmail({
+        to: email,
+        subject: `You're invited to help run ${invitation.eventName}`,
+        text,
+        html: `<p>${invitation.inviterName} invited you to join the team of <strong>${invitation.eventName}</strong> as <strong>${roleName}</strong>.</p><p><a href="${config.frontendUrl}">Open the app</a> to accept or decline the invitation.</p>`,
+      });
+      console.log(`✅ Team invitation email sent to ${email}`);
+    } catch (error) {
+      console.error(`❌ Failed to send team invitation email to ${email}:`, error);
+      // Don't throw - the invitation is still visible in the app
+    }
+  }
+
+  async sendModerationUpdate(
+    email: string,
+    update: { eventName: string; status: string; reason?: string; note?: string }
+  ): Promise<void> {
+    const headlines: Record<string, string> = {
+      approved: "is approved and now visible",
+      changes_requested: "needs changes before it can be published",
+      rejected: "was not approved",
+    };
+    const headline = headlines[update.status] || `moved to ${update.status.replace(/_/g, " ")}`;
+    const details = [update.reason, update.note].filter(Boolean);
+    const text = `Your event "${update.eventName}" ${headline}.${details.length > 0 ? `\n\n${details.join("\n\n")}` : ""}\n\nOpen the app to review it: ${config.frontendUrl}`;
+
+    try {
+      await this.sendEmail({
+        to: email,
+        subject: `"${update.eventName}" ${headline}`,
+        text,
+        html: `<p>Your event <strong>${update.eventName}</strong> ${headline}.</p>${details.map(d => `<p>${d}</p>`).join("")}<p><a href="${config.frontendUrl}">Open the app</a> to review it.</p>`,
+      });
+      console.log(`✅ Moderation update email sent to ${email}`);
+    } catch (error) {
+      console.error(`❌ Failed to send moderation update email to ${email}:`, error);
+      // Don't throw - the status change is already saved
+    }
+  }
+
   private async sendEmail(options: EmailOptions): Promise<void> {
     const mailOptions = {
       from: `"${config.smtp.fromName}" <${config.smtp.fromEmail}>`,
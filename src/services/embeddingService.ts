@@ -1,16 +1,9 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import dotenv from "dotenv";
-
-dotenv.config();
-
-// Initialize Gemini Client
-const apiKey = process.env.GEMINI_API_KEY;
-const genAI = apiKey ? new GoogleGenerativeAI(apiKey) : null;
+import { getLlmProvider } from "./llm";
 
 export const EmbeddingService = {
     /**
-     * Generates a text embedding using Gemini 'text-embedding-004'.
-     * Dimensions: 768
+     * Generates a text embedding through the configured LLM provider.
+     * Model and dimensions come from config (defaults depend on LLM_PROVIDER).
      */
     generateEmbedding: async (text: string): Promise<number[]> => {
         try {
@@ -19,22 +12,15 @@ export const EmbeddingService = {
                 return [];
             }
 
-            if (!genAI || !apiKey) {
-                console.error("❌ GEMINI_API_KEY is missing. Cannot generate embedding.");
+            const provider = getLlmProvider();
+            if (!provider.isAvailable()) {
+                console.error(`❌ LLM provider '${provider.name}' is not configured. Cannot generate embedding.`);
                 return [];
             }
 
-            console.log(`🔑 [DEBUG] Embedding using Key: ${apiKey.substring(0, 5)}...`);
-
-            const model = genAI.getGenerativeModel({ model: "text-embedding-004" });
-
-            // Generate embedding
-            const result = await model.embedContent(text);
-            const embedding = result.embedding.values;
-
-            return embedding;
+            return await provider.embed(text);
         } catch (error) {
-            console.error("Error generating Gemini embedding:", error);
+            console.error("Error generating embedding:", error);
             // Fallback to empty array or throw
             return [];
         }
@@ -0,0 +1,113 @@
+import { Event } from '../models/Event';
+import cacheService from './cacheService';
+import { EmbeddingService } from './embeddingService';
+import { RagPipelineService } from './ragPipelineService';
+import { RecurrenceService } from './recurrenceService';
+import { getVectorStore } from './vectorStore';
+
+export interface EventProcessingResult {
+    skipped?: boolean;
+    pdfCount: number;
+    chunkCount: number;
+    vectorStore: string;
+}
+
+/**
+ * Semantic pipeline run after an event is approved:
+ * PDF text + chunks, event/metadata embeddings and vector store indexing.
+ *
+ * Runs as the `event.process` background job. Errors are thrown (not swallowed)
+ * so the job queue can retry and record the failure.
+ */
+export class EventProcessingService {
+    static async processEvent(eventId: string): Promise<EventProcessingResult> {
+        const vectorStore = getVectorStore();
+
+        const baseEvent = await Event.findById(eventId);
+        if (!baseEvent) {
+            // Deleted/rejected before the job ran - nothing to do
+            console.warn(`⚠️ [EVENT-PIPELINE] Event ${eventId} no longer exists, skipping`);
+            return { skipped: true, pdfCount: 0, chunkCount: 0, vectorStore: vectorStore.name };
+        }
+
+        console.log(`🎯 [EVENT-PIPELINE] Processing event: ${eventId}`);
+
+        // 1. PDF & RAG PIPELINE
+        let pdfChunks = baseEvent.pdfChunks || [];
+        let pdfExtractedTexts = baseEvent.pdfExtractedTexts || [];
+
+        if (baseEvent.pdfFiles && baseEvent.pdfFiles.length > 0) {
+            console.log('📄 [EVENT-PIPELINE] Processing PDFs for chunks/text...');
+            const ingestion = await RagPipelineService.ingestPdfs(baseEvent.pdfFiles);
+            pdfExtractedTexts = ingestion.extractedTexts;
+            pdfChunks = ingestion.chunks;
+        }
+
+        // 2. REFRESH EMBEDDINGS
+        const tempObj = { ...baseEvent.toObject(), pdfExtractedTexts };
+        const metadataText = EmbeddingService.createEventMetadataText(tempObj);
+        const eventText = EmbeddingService.createEventText(tempObj);
+
+        let eventEmbedding: number[];
+        let metadataEmbedding: number[];
+        if (metadataText === eventText) {
+            const shared = await EmbeddingService.generateEmbedding(metadataText);
+            eventEmbedding = shared;
+            metadataEmbedding = shared;
+        } else {
+            eventEmbedding = await EmbeddingService.generateEmbedding(eventText);
+            metadataEmbedding = await EmbeddingService.generateEmbedding(metadataText);
+        }
+
+        if (eventEmbedding.length === 0 || metadataEmbedding.length === 0) {
+            throw new Error('Embedding generation returned no vector');
+        }
+
+        // 3. INDEX INTO VECTOR STORE (meta + doc chunks used by the assistant)
+        await vectorStore.deleteEventEmbeddings(eventId, 'meta');
+        await vectorStore.deleteEventEmbeddings(eventId, 'doc');
+
+        await vectorStore.storeEventMetadata(eventId, metadataText, metadataEmbedding, {
+            name: baseEvent.name,
+            location: baseEvent.location,
+            dateTime: baseEvent.dateTime,
+            tags: baseEvent.tags,
+        });
+
+        for (let i = 0; i < pdfChunks.length; i++) {
+            const chunk = pdfChunks[i];
+            if (chunk.embedding && chunk.embedding.length > 0) {
+                await vectorStore.storeEventDocChunk(eventId, chunk.text, chunk.embedding, i, {
+                    chunk_id: chunk.chunkId,
+                    pdf_index: chunk.pdfIndex,
+                    source_url: chunk.sourceUrl,
+                    page_start: chunk.pageStart,
+                    page_end: chunk.pageEnd,
+                    section: chunk.section,
+                });
+            }
+        }
+        console.log(`✅ [EVENT-PIPELINE] Indexed ${pdfChunks.length} doc chunks in ${vectorStore.name} vector store`);
+
+        await Event.findByIdAndUpdate(eventId, {
+            eventEmbedding,
+            metadataEmbedding,
+            pdfChunks,
+            pdfExtractedTexts,
+        });
+
+        // Occurrences copy the series' embeddings (their doc/meta vectors stay under the series id)
+        if (baseEvent.isSeries) {
+            await RecurrenceService.generateOccurrences(eventId);
+        }
+
+        // Personalised lists depend on the embeddings we just wrote
+        await cacheService.invalidateEventLists();
+
+        return {
+            pdfCount: baseEvent.pdfFiles?.length || 0,
+            chunkCount: pdfChunks.length,
+            vectorStore: vectorStore.name,
+        };
+    }
+}
@@ -0,0 +1,300 @@
+import mongoose from 'mongoose';
+import { Event } from '../models/Event';
+import { GeoQuery, GeoService } from './geoService';
+
+/**
+ * Faceted event search
+ *
+ * Filters are grouped by facet. Each facet's counts are computed with every other filter
+ * applied but not its own, so the app can show the alternatives next to the selected chip.
+ * A series counts once (its matching occurrences are collapsed to the first in sort order).
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_LIMIT = 100;
+const TAG_FACET_SIZE = 30;
+const ORGANIZER_FACET_SIZE = 10;
+
+export type SearchWhen = 'upcoming' | 'this_week' | 'past';
+export type SearchSort = 'date' | 'popularity' | 'relevance';
+export type SearchType = 'event' | 'community';
+
+type Facet = 'tags' | 'when' | 'type' | 'verified' | 'organizer';
+
+export interface EventSearchParams {
+    q?: string;
+    tags?: string[];
+    when?: SearchWhen;
+    from?: Date;
+    to?: Date;
+    type?: SearchType;
+    verified?: boolean;      // Only for users who may see unverified events
+    organizer?: string;
+    geo?: GeoQuery;
+    sort: SearchSort;
+    limit: number;
+}
+
+export interface FacetCount {
+    value: string;
+    count: number;
+    name?: string;
+    photoUrl?: string;
+}
+
+export interface EventSearchResult {
+    results: any[];
+    total: number;
+    facets: {
+        tags: FacetCount[];
+        when: FacetCount[];
+        type: FacetCount[];
+        organizer: FacetCount[];
+        verified?: FacetCount[];
+    };
+}
+
+// Heavy fields never needed in result lists
+const RESULT_PROJECTION = {
+    pdfFiles: 0,
+    pdfExtractedTexts: 0,
+    pdfChunks: 0,
+    eventEmbedding: 0,
+    metadataEmbedding: 0,
+    moderationHistory: 0,
+};
+
+const seriesKey = { $ifNull: ['$seriesId', '$_id'] };
+
+export class EventSearchService {
+    /**
+     * Validate query-string parameters
+     */
+    static parseParams(query: Record<string, any>, canViewAll: boolean): { params?: EventSearchParams; error?: string } {
+        const q = typeof query.q === 'string' && query.q.trim() ? query.q.trim().slice(0, 200) : undefined;
+
+        const tags = query.tags
+            ? String(query.tags).split(',').map(t => t.trim()).filter(Boolean)
+            : undefined;
+
+        if (query.when !== undefined && !['upcoming', 'this_week', 'past'].includes(query.when)) {
+            return { error: 'when must be one of: upcoming, this_week, past' };
+        }
+        if (query.type !== undefined && !['event', 'community'].includes(query.type)) {
+            return { error: 'type must be event or community' };
+        }
+
+        const from = query.from ? new Date(String(query.from)) : undefined;
+        const to = query.to ? new Date(String(query.to)) : undefined;
+        if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+            return { error: 'from and to must be ISO dates' };
+        }
+
+        let verified: boolean | undefined;
+        if (query.verified !== undefined) {
+            if (!canViewAll) return { error: 'Only moderators can filter by verification state' };
+            verified = query.verified === 'true';
+        }
+
+        if (query.organizer !== undefined && !mongoose.Types.ObjectId.isValid(String(query.organizer))) {
+            return { error: 'organizer must be a user id' };
+        }
+
+        const sort = (query.sort || (q ? 'relevance' : 'date')) as SearchSort;
+        if (!['date', 'popularity', 'relevance'].includes(sort)) {
+            return { error: 'sort must be one of: date, popularity, relevance' };
+        }
+        if (sort === 'relevance' && !q) {
+            return { error: 'sort=relevance needs a search query (q)' };
+        }
+
+        const limit = Math.min(Math.max(parseInt(query.limit, 10) || 20, 1), MAX_LIMIT);
+
+        const { geo, error: geoError } = GeoService.parseQuery(query);
+        if (geoError) return { error: geoError };
+
+        return {
+            params: {
+                q,
+                tags,
+                when: query.when,
+                from,
+                to,
+                type: query.type,
+                verified,
+                organizer: query.organizer ? String(query.organizer) : undefined,
+                geo,
+                sort,
+                limit,
+            },
+        };
+    }
+
+    private static whenFilter(when: SearchWhen, now: Date): Record<string, any> {
+        switch (when) {
+            case 'upcoming':
+                return { dateTime: { $gte: now } };
+            case 'this_week':
+                return { dateTime: { $gte: now, $lt: new Date(now.getTime() + 7 * DAY_MS) } };
+            case 'past':
+                return { dateTime: { $lt: now } };
+        }
+    }
+
+    /**
+     * Filter conditions by facet (null = not filtered); `base` always applies
+     */
+    private static buildConditions(params: EventSearchParams, canViewAll: boolean, now: Date) {
+        const base: Record<string, any>[] = [
+            { isSeries: { $ne: true } }, // Series are matched through their occurrences
+            { isCancelled: { $ne: true } },
+        ];
+        if (params.q) base.unshift({ $text: { $search: params.q } });
+        if (!canViewAll) base.push({ isVerified: true });
+        if (params.geo) base.push(GeoService.buildFilter(params.geo));
+
+        const dateConditions: Record<string, any>[] = [];
+        if (params.when) dateConditions.push(this.whenFilter(params.when, now));
+        if (params.from) dateConditions.push({ dateTime: { $gte: params.from } });
+        if (params.to) dateConditions.push({ dateTime: { $lte: params.to } });
+
+        const facets: Record<Facet, Record<string, any> | null> = {
+            tags: params.tags?.length ? { tags: { $in: params.tags } } : null,
+            when: dateConditions.length > 0 ? { $and: dateConditions } : null,
+            type: params.type === 'community'
+                ? { isCommunity: true }
+                : params.type === 'event' ? { isCommunity: { $ne: true } } : null,
+            verified: params.verified !== undefined ? { isVerified: params.verified } : null,
+            organizer: params.organizer ? { createdBy: new mongoose.Types.ObjectId(params.organizer) } : null,
+        };
+
+        // $text must come first in the pipeline's first $match
+        const match = (except?: Facet) => ({
+            $and: [
+                ...base,
+                ...(Object.entries(facets) as [Facet, Record<string, any> | null][])
+                    .filter(([facet, condition]) => facet !== except && condition)
+                    .map(([, condition]) => condition!),
+            ],
+        });
+
+        return { match };
+    }
+
+    private static sortSpec(params: EventSearchParams): Record<string, 1 | -1> {
+        switch (params.sort) {
+            case 'relevance':
+                return { score: -1, dateTime: 1, _id: 1 };
+            case 'popularity':
+                return { goingCount: -1, dateTime: 1, _id: 1 };
+            case 'date':
+                return params.when === 'past' ? { dateTime: -1, _id: -1 } : { dateTime: 1, _id: 1 };
+        }
+    }
+
+    /**
+     * Count distinct events/series per value of `valueExpr` (array fields are unwound first)
+     */
+    private static countBy(match: Record<string, any>, valueExpr: any, unwind?: string, size?: number) {
+        return Event.aggregate([
+            { $match: match },
+            ...(unwind ? [{ $unwind: unwind }] : []),
+            { $group: { _id: { value: valueExpr, key: seriesKey } } },
+            { $group: { _id: '$_id.value', count: { $sum: 1 } } },
+            { $sort: { count: -1, _id: 1 } },
+            ...(size ? [{ $limit: size }] : []),
+        ]).then(rows => rows
+            .filter(row => row._id !== null && row._id !== undefined && row._id !== '')
+            .map(row => ({ value: String(row._id), count: row.count })));
+    }
+
+    private static async countWhen(match: Record<string, any>, now: Date): Promise<FacetCount[]> {
+        const weekEnd = new Date(now.getTime() + 7 * DAY_MS);
+        const [row] = await Event.aggregate([
+            { $match: match },
+            {
+                $group: {
+                    _id: seriesKey,
+                    upcoming: { $max: { $cond: [{ $gte: ['$dateTime', now] }, 1, 0] } },
+                    this_week: {
+                        $max: { $cond: [{ $and: [{ $gte: ['$dateTime', now] }, { $lt: ['$dateTime', weekEnd] }] }, 1, 0] },
+                    },
+                    // Communities have no date; missing/null dateTime compares lower than any date
+                    past: {
+                        $max: { $cond: [{ $and: [{ $gt: ['$dateTime', null] }, { $lt: ['$dateTime', now] }] }, 1, 0] },
+                    },
+                },
+            },
+            {
+                $group: {
+                    _id: null,
+                    upcoming: { $sum: '$upcoming' },
+                    this_week: { $sum: '$this_week' },
+                    past: { $sum: '$past' },
+                },
+            },
+        ]);
+        return (['upcoming', 'this_week', 'past'] as SearchWhen[]).map(value => ({ value, count: row?.[value] || 0 }));
+    }
+
+    private static async countOrganizers(match: Record<string, any>): Promise<FacetCount[]> {
+        const counts = await this.countBy(match, '$createdBy', undefined, ORGANIZER_FACET_SIZE);
+        const { User } = await import('../models/User');
+        const users = await User.find({ _id: { $in: counts.map(c => c.value) } }).select('name photoUrl');
+        const byId = new Map(users.map(u => [u._id.toString(), u]));
+        return counts.map(c => ({ ...c, name: byId.get(c.value)?.name, photoUrl: byId.get(c.value)?.photoUrl }));
+    }
+
+    static async search(params: EventSearchParams, userId: string, canViewAll: boolean): Promise<EventSearchResult> {
+        const now = new Date();
+        const { match } = this.buildConditions(params, canViewAll, now);
+        const sort = this.sortSpec(params);
+
+        // Ranks ids only (sort keys + series); the page of full documents is fetched afterwards
+        const sortKeys = Object.keys(sort).filter(key => key !== '_id');
+        const resultsPipeline = Event.aggregate([
+            { $match: match() },
+            ...(params.q ? [{ $addFields: { score: { $meta: 'textScore' } } }] : []),
+            { $project: { seriesId: 1, ...Object.fromEntries(sortKeys.map(key => [key, 1])) } },
+            { $sort: sort },
+            // One entry per series: its first occurrence in sort order
+            { $group: { _id: seriesKey, doc: { $first: '$$ROOT' } } },
+            { $replaceRoot: { newRoot: '$doc' } },
+            {
+                $facet: {
+                    results: [{ $sort: sort }, { $limit: params.limit }],
+                    total: [{ $count: 'count' }],
+                },
+            },
+        ]).allowDiskUse(true);
+
+        const [[page], tags, when, type, organizer, verified] = await Promise.all([
+            resultsPipeline,
+            this.countBy(match('tags'), '$tags', '$tags', TAG_FACET_SIZE),
+            this.countWhen(match('when'), now),
+            this.countBy(match('type'), { $cond: [{ $eq: ['$isCommunity', true] }, 'community', 'event'] }),
+            this.countOrganizers(match('organizer')),
+            canViewAll ? this.countBy(match('verified'), { $cond: [{ $eq: ['$isVerified', true] }, 'true', 'false'] }) : undefined,
+        ]);
+
+        const ranked: { _id: mongoose.Types.ObjectId; score?: number }[] = page?.results || [];
+        const docs = await Event.find({ _id: { $in: ranked.map(row => row._id) } })
+            .select(RESULT_PROJECTION)
+            .populate('createdBy', 'name photoUrl role company')
+            .lean();
+        const byId = new Map(docs.map(doc => [doc._id.toString(), doc]));
+        // Back in ranked order; an event deleted in between is dropped
+        const results = ranked
+            .filter(row => byId.has(row._id.toString()))
+            .map(row => ({ ...byId.get(row._id.toString())!, ...(row.score !== undefined && { score: row.score }) }));
+
+        return {
+            results: GeoService.withDistance(results.map((event: any) => ({
+                ...event,
+                isJoined: (event.attendees || []).some((a: any) => a.toString() === userId),
+            })), params.geo),
+            total: page?.total[0]?.count || 0,
+            facets: { tags, when, type, organizer, ...(verified ? { verified } : {}) },
+        };
+    }
+}
@@ -0,0 +1,281 @@
+import mongoose from 'mongoose';
+import { Event, IEvent } from '../models/Event';
+import { EventVersion, EventVersionAction, IEventFieldChange, IEventVersion } from '../models/EventVersion';
+import { IJob } from '../models/Job';
+import cacheService from './cacheService';
+import { CalendarService } from './calendarService';
+import { JobQueueService } from './jobQueue/jobQueueService';
+import { MediaService } from './mediaService';
+import { ModerationService } from './moderationService';
+import { RbacService } from './rbacService';
+import { RecurrenceService } from './recurrenceService';
+
+/**
+ * Event edit history
+ *
+ * Every change made through the API is stored as a numbered diff of the fields below.
+ * The state at version N is rebuilt by reverting the diffs of later versions from the
+ * current event, so events created before history was kept still have a "version 0":
+ * the state before their first recorded change.
+ */
+
+// Fields an organizer edits (derived data like chunks and embeddings is regenerated instead)
+export const VERSIONED_FIELDS = [
+    'name',
+    'headline',
+    'description',
+    'dateTime',
+    'location',
+    'geo',
+    'geoSource',
+    'photos',
+    'videos',
+    'tags',
+    'pdfFiles',
+    'attachments',
+    'isEvent',
+    'isCommunity',
+] as const;
+
+const REQUIRED_FIELDS = ['name', 'description', 'location'];
+const MEDIA_FIELDS = ['photos', 'videos', 'pdfFiles'] as const;
+
+export type EventSnapshot = Record<string, unknown>;
+
+export interface VersionResult<T = undefined> {
+    success: boolean;
+    message: string;
+    data?: T;
+    job?: IJob;
+}
+
+export class EventVersionService {
+    private static normalize(field: string, value: any): unknown {
+        if (value === undefined || value === null) return null;
+        if (field === 'attachments') {
+            // Compare content, not subdocument ids
+            return (value as any[]).map(({ url, name, type }) => ({ url, name, ...(type ? { type } : {}) }));
+        }
+        return JSON.parse(JSON.stringify(value));
+    }
+
+    static snapshot(event: IEvent): EventSnapshot {
+        const snapshot: EventSnapshot = {};
+        for (const field of VERSIONED_FIELDS) {
+            snapshot[field] = this.normalize(field, event.get(field));
+        }
+        return snapshot;
+    }
+
+    static diff(before: EventSnapshot, after: EventSnapshot): IEventFieldChange[] {
+        return VERSIONED_FIELDS
+            .filter(field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+            .map(field => ({ field, from: before[field] ?? null, to: after[field] ?? null }));
+    }
+
+    /**
+     * Store a version. Updates that change none of the versioned fields are not recorded.
+     */
+    static async record(
+        eventId: mongoose.Types.ObjectId | string,
+        changes: IEventFieldChange[],
+        authorId: string,
+        action: EventVersionAction,
+        restoredFrom?: number
+    ): Promise<IEventVersion | null> {
+        if (changes.length === 0) return null;
+
+        for (let attempt = 0; attempt < 3; attempt++) {
+            const last = await EventVersion.findOne({ eventId }).sort({ version: -1 }).select('version');
+            try {
+                return await EventVersion.create({
+                    eventId,
+                    version: (last?.version || 0) + 1,
+                    action,
+                    changes,
+                    restoredFrom,
+                    createdBy: authorId,
+                });
+            } catch (error: any) {
+                // Another edit took this number - try the next one
+                if (error?.code !== 11000) throw error;
+            }
+        }
+        throw new Error('Failed to allocate an event version');
+    }
+
+    static async recordCreate(event: IEvent, authorId: string): Promise<void> {
+        const empty = Object.fromEntries(VERSIONED_FIELDS.map(field => [field, null]));
+        await this.record(event._id as mongoose.Types.ObjectId, this.diff(empty, this.snapshot(event)), authorId, 'create');
+    }
+
+    static async recordUpdate(before: IEvent, after: IEvent, authorId: string): Promise<void> {
+        await this.record(before._id as mongoose.Types.ObjectId, this.diff(this.snapshot(before), this.snapshot(after)), authorId, 'update');
+    }
+
+    /**
+     * Versions, newest first (without the full diff values)
+     */
+    static async list(eventId: string) {
+        const versions = await EventVersion.find({ eventId })
+            .sort({ version: -1 })
+            .populate('createdBy', 'name photoUrl')
+            .lean();
+
+        return versions.map(({ changes, ...version }) => ({
+            ...version,
+            fields: changes.map(c => c.field),
+        }));
+    }
+
+    /**
+     * Oldest version that can be rebuilt: 0 unless the event's creation was recorded
+     */
+    private static minVersion(versions: IEventVersion[]): number {
+        const first = versions[versions.length - 1];
+        return first?.action === 'create' ? 1 : 0;
+    }
+
+    /**
+     * State of the versioned fields at a version (null when the version does not exist)
+     */
+    static async getStateAt(eventId: string, version: number): Promise<EventSnapshot | null> {
+        if (!Number.isInteger(version) || !mongoose.Types.ObjectId.isValid(eventId)) return null;
+
+        const [event, versions] = await Promise.all([
+            Event.findById(eventId).select(VERSIONED_FIELDS.join(' ')),
+            EventVersion.find({ eventId }).sort({ version: -1 }),
+        ]);
+        if (!event) return null;
+
+        const latest = versions[0]?.version || 0;
+        if (version < this.minVersion(versions) || version > latest) return null;
+
+        const state = this.snapshot(event);
+        for (const entry of versions) {
+            if (entry.version <= version) break;
+            for (const change of entry.changes) {
+                state[change.field] = change.from ?? null;
+            }
+        }
+        return state;
+    }
+
+    static async getVersion(eventId: string, version: number) {
+        const [entry, state] = await Promise.all([
+            EventVersion.findOne({ eventId, version }).populate('createdBy', 'name photoUrl'),
+            this.getStateAt(eventId, version),
+        ]);
+        if (!state) return null;
+        return { version, entry, state };
+    }
+
+    /**
+     * Field-level differences between two versions
+     */
+    static async compare(eventId: string, from: number, to: number): Promise<IEventFieldChange[] | null> {
+        const [before, after] = await Promise.all([
+            this.getStateAt(eventId, from),
+            this.getStateAt(eventId, to),
+        ]);
+        if (!before || !after) return null;
+        return this.diff(before, after);
+    }
+
+    /**
+     * Bring an event back to an earlier version (recorded as a new version) and regenerate
+     * its chunks and embeddings. Restores by non-moderators send approved events back for review.
+     */
+    static async restore(eventId: string, version: number, actorId: string): Promise<VersionResult<IEvent>> {
+        const event = mongoose.Types.ObjectId.isValid(eventId) ? await Event.findById(eventId) : null;
+        if (!event) return { success: false, message: 'Event not found' };
+        if (event.seriesId) {
+            return { success: false, message: 'Occurrences follow their series; restore the series instead' };
+        }
+
+        const state = await this.getStateAt(eventId, version);
+        if (!state) return { success: false, message: 'Version not found' };
+
+        const changes = this.diff(this.snapshot(event), state);
+        if (changes.length === 0) {
+            return { success: false, message: `The event already matches version ${version}` };
+        }
+
+        if (changes.some(c => REQUIRED_FIELDS.includes(c.field) && !c.to)) {
+            return { success: false, message: `Version ${version} is missing required fields` };
+        }
+        const updates: Record<string, unknown> = Object.fromEntries(changes.map(c => [c.field, c.to]));
+
+        // Derived data is rebuilt by the pipeline below
+        if (changes.some(c => c.field === 'pdfFiles')) {
+            updates.pdfExtractedTexts = [];
+            updates.pdfChunks = [];
+        }
+        if (changes.some(c => (MEDIA_FIELDS as readonly string[]).includes(c.field))) {
+            const value = (field: typeof MEDIA_FIELDS[number]) =>
+                (field in updates ? updates[field] : event.get(field)) as string[] | undefined;
+            updates.media = await MediaService.eventRefs({
+                photos: value('photos'),
+                videos: value('videos'),
+                pdfFiles: value('pdfFiles'),
+            });
+        }
+
+        const restored = await Event.findByIdAndUpdate(eventId, { $set: updates }, { new: true, runValidators: true });
+        if (!restored) return { success: false, message: 'Event not found' };
+
+        await this.record(restored._id as mongoose.Types.ObjectId, changes, actorId, 'restore', version);
+
+        let result: IEvent = restored;
+        if (
+            ModerationService.getStatus(event) === 'approved' &&
+            !(await RbacService.hasPermission(actorId, 'events:moderate'))
+        ) {
+            const review = await ModerationService.transition(eventId, 'edit', actorId, {
+                note: `Restored version ${version}`,
+            });
+            if (review.success) result = review.data!;
+        }
+
+        if (CalendarService.hasCalendarChanges(event, restored)) {
+            await CalendarService.bumpSequence(eventId);
+        }
+        if (restored.isSeries) {
+            await RecurrenceService.scheduleGeneration(eventId, 0, actorId);
+        }
+
+        const job = await JobQueueService.enqueue('event.process', { eventId }, {
+            createdBy: actorId,
+            eventId,
+        });
+        await cacheService.invalidateEventLists();
+
+        console.log(`⏪ [VERSIONS] Restored ${eventId} to version ${version} (${changes.map(c => c.field).join(', ')})`);
+        return { success: true, message: `Restored version ${version}`, data: result, job };
+    }
+
+    /**
+     * Media referenced anywhere in the history of these events
+     */
+    static async getMediaUrls(eventIds: string[]): Promise<string[]> {
+        const versions = await EventVersion.find({
+            eventId: { $in: eventIds },
+            'changes.field': { $in: MEDIA_FIELDS },
+        }).select('changes');
+
+        const urls = new Set<string>();
+        for (const entry of versions) {
+            for (const change of entry.changes) {
+                if (!(MEDIA_FIELDS as readonly string[]).includes(change.field)) continue;
+                for (const value of [change.from, change.to]) {
+                    if (Array.isArray(value)) value.forEach(url => typeof url === 'string' && urls.add(url));
+                }
+            }
+        }
+        return Array.from(urls);
+    }
+
+    static async deleteEventVersions(eventIds: string[]): Promise<void> {
+        await EventVersion.deleteMany({ eventId: { $in: eventIds } });
+    }
+}
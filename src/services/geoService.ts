@@ -0,0 +1,307 @@
+import fs from 'fs';
+import { PipelineStage } from 'mongoose';
+import config from '../config';
+import { Cursor, PaginationService } from './paginationService';
+import defaultGazetteer from '../data/gazetteer.json';
+import { IGeoPoint } from '../models/Event';
+
+/**
+ * Event coordinates and distance filters
+ *
+ * Coordinates come from the organizer (explicit lat/lng) or from an offline gazetteer:
+ * the free-text location is split into parts ("Hall 3, BKC, Mumbai") and the most specific
+ * part naming a known place wins, preferring places in a country the text also mentions.
+ */
+
+const EARTH_RADIUS_KM = 6378.1;
+
+interface GazetteerPlace {
+    name: string;
+    country: string;
+    lat: number;
+    lng: number;
+    population?: number;
+    aliases?: string[];
+}
+
+interface Gazetteer {
+    countries: Record<string, string[]>;
+    places: GazetteerPlace[];
+}
+
+export interface GeocodeResult {
+    name: string;
+    country: string;
+    lat: number;
+    lng: number;
+}
+
+export interface GeoFields {
+    geo: IGeoPoint | null;
+    geoSource: 'explicit' | 'gazetteer' | null;
+}
+
+/**
+ * Distance filter parsed from a request (`near` + `radiusKm`, or `bbox`)
+ */
+export interface GeoQuery {
+    center?: { lat: number; lng: number };
+    radiusKm?: number;
+    bbox?: [number, number, number, number]; // minLng, minLat, maxLng, maxLat
+}
+
+let placeIndex: Map<string, GazetteerPlace[]> | null = null;
+let countryIndex: Map<string, string> | null = null;
+
+const normalize = (text: string): string =>
+    text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+
+export class GeoService {
+    private static loadIndex(): Map<string, GazetteerPlace[]> {
+        if (placeIndex) return placeIndex;
+
+        let gazetteer = defaultGazetteer as Gazetteer;
+        if (config.geo.gazetteerPath) {
+            try {
+                gazetteer = JSON.parse(fs.readFileSync(config.geo.gazetteerPath, 'utf8'));
+            } catch (error) {
+                console.error(`❌ [GEO] Failed to load gazetteer ${config.geo.gazetteerPath}, using the bundled one:`, error);
+            }
+        }
+
+        placeIndex = new Map();
+        for (const place of gazetteer.places) {
+            for (const name of [place.name, ...(place.aliases || [])]) {
+                const key = normalize(name);
+                placeIndex.set(key, [...(placeIndex.get(key) || []), place]);
+            }
+        }
+
+        countryIndex = new Map();
+        for (const [code, names] of Object.entries(gazetteer.countries || {})) {
+            for (const name of [code, ...names]) countryIndex.set(normalize(name), code);
+        }
+
+        console.log(`🗺️  [GEO] Gazetteer loaded: ${gazetteer.places.length} places`);
+        return placeIndex;
+    }
+
+    /**
+     * Places named in one part of a location, longest match first
+     */
+    private static matchPart(part: string, index: Map<string, GazetteerPlace[]>): GazetteerPlace[] {
+        const exact = index.get(part);
+        if (exact) return exact;
+
+        const words = part.split(' ');
+        for (let size = Math.min(4, words.length); size >= 1; size--) {
+            for (let start = 0; start + size <= words.length; start++) {
+                const phrase = words.slice(start, start + size).join(' ');
+                if (phrase.length < 3) continue;
+                const matches = index.get(phrase);
+                if (matches) return matches;
+            }
+        }
+        return [];
+    }
+
+    /**
+     * Look up a free-text location (null when no known place is mentioned)
+     */
+    static geocode(location?: string | null): GeocodeResult | null {
+        if (!location) return null;
+        const index = this.loadIndex();
+
+        const parts = location.split(/[,;\n|/]/).map(normalize).filter(Boolean);
+        const countries = new Set(parts.map(p => countryIndex!.get(p)).filter(Boolean));
+
+        for (const part of parts) {
+            if (countryIndex!.has(part)) continue;
+            const matches = this.matchPart(part, index);
+            if (matches.length === 0) continue;
+
+            const [best] = [...matches].sort((a, b) =>
+                Number(countries.has(b.country)) - Number(countries.has(a.country)) ||
+                (b.population || 0) - (a.population || 0)
+            );
+            return { name: best.name, country: best.country, lat: best.lat, lng: best.lng };
+        }
+        return null;
+    }
+
+    static isValidCoordinate(lat: unknown, lng: unknown): boolean {
+        const latNum = Number(lat);
+        const lngNum = Number(lng);
+        return lat !== null && lat !== '' && lng !== null && lng !== '' &&
+            Number.isFinite(latNum) && Number.isFinite(lngNum) &&
+            latNum >= -90 && latNum <= 90 && lngNum >= -180 && lngNum <= 180;
+    }
+
+    static toPoint(lat: number, lng: number): IGeoPoint {
+        return { type: 'Point', coordinates: [Number(lng), Number(lat)] };
+    }
+
+    /**
+     * Coordinates for an event: explicit lat/lng when given, otherwise geocoded from the location
+     */
+    static resolve(location: string | undefined, lat?: unknown, lng?: unknown): GeoFields {
+        if (lat !== undefined && lng !== undefined && this.isValidCoordinate(lat, lng)) {
+            return { geo: this.toPoint(Number(lat), Number(lng)), geoSource: 'explicit' };
+        }
+        const place = this.geocode(location);
+        return place
+            ? { geo: this.toPoint(place.lat, place.lng), geoSource: 'gazetteer' }
+            : { geo: null, geoSource: null };
+    }
+
+    /**
+     * Parse `near=lat,lng`, `radiusKm` and `bbox=minLng,minLat,maxLng,maxLat` query parameters
+     */
+    static parseQuery(query: Record<string, any>): { geo?: GeoQuery; error?: string } {
+        const { near, radiusKm, bbox } = query;
+        if (!near && !bbox) return {};
+
+        const geo: GeoQuery = {};
+        if (near) {
+            const [lat, lng] = String(near).split(',').map(v => v.trim());
+            if (!this.isValidCoordinate(lat, lng)) {
+                return { error: 'near must be "lat,lng"' };
+            }
+            geo.center = { lat: Number(lat), lng: Number(lng) };
+            geo.radiusKm = radiusKm !== undefined ? Number(radiusKm) : config.geo.defaultRadiusKm;
+            if (!Number.isFinite(geo.radiusKm) || geo.radiusKm <= 0 || geo.radiusKm > config.geo.maxRadiusKm) {
+                return { error: `radiusKm must be a positive number of kilometres, at most ${config.geo.maxRadiusKm}` };
+            }
+        }
+        if (bbox) {
+            const values = String(bbox).split(',').map(v => Number(v.trim()));
+            const [minLng, minLat, maxLng, maxLat] = values;
+            if (
+                values.length !== 4 ||
+                !this.isValidCoordinate(minLat, minLng) ||
+                !this.isValidCoordinate(maxLat, maxLng) ||
+                minLat >= maxLat || minLng >= maxLng
+            ) {
+                return { error: 'bbox must be "minLng,minLat,maxLng,maxLat"' };
+            }
+            geo.bbox = [minLng, minLat, maxLng, maxLat];
+        }
+        return { geo };
+    }
+
+    /**
+     * MongoDB filter on Event.geo (works in find and in aggregation $match stages)
+     */
+    static buildFilter(geo: GeoQuery): Record<string, any> {
+        const conditions: Record<string, any>[] = [];
+        if (geo.center) {
+            conditions.push({
+                geo: {
+                    $geoWithin: {
+                        $centerSphere: [[geo.center.lng, geo.center.lat], geo.radiusKm! / EARTH_RADIUS_KM],
+                    },
+                },
+            });
+        }
+        if (geo.bbox) {
+            const [minLng, minLat, maxLng, maxLat] = geo.bbox;
+            conditions.push({
+                geo: {
+                    $geoWithin: {
+                        $geometry: {
+                            type: 'Polygon',
+                            coordinates: [[
+                                [minLng, minLat], [maxLng, minLat], [maxLng, maxLat], [minLng, maxLat], [minLng, minLat],
+                            ]],
+                        },
+                    },
+                },
+            });
+        }
+        return conditions.length === 1 ? conditions[0] : { $and: conditions };
+    }
+
+    /**
+     * Aggregation stages for one page of the events matching `query` within the radius,
+     * closest first (adds `distanceMeters`). Pages are keyset on (distanceMeters, _id): the
+     * cursor's distance becomes $geoNear's minDistance, and events at that same distance
+     * continue after the cursor's _id. `query` must not filter on `geo`; the bbox is added here.
+     */
+    static nearPipeline(
+        geo: GeoQuery,
+        query: Record<string, any>,
+        limit: number,
+        cursor: Cursor | null = null
+    ): PipelineStage[] {
+        const minDistance = typeof cursor?.value === 'number' ? cursor.value : undefined;
+        return [
+            {
+                $geoNear: {
+                    near: { type: 'Point', coordinates: [geo.center!.lng, geo.center!.lat] },
+                    distanceField: 'distanceMeters',
+                    maxDistance: geo.radiusKm! * 1000,
+                    ...(minDistance !== undefined && { minDistance }),
+                    spherical: true,
+                    query: geo.bbox ? { $and: [query, this.buildFilter({ bbox: geo.bbox })] } : query,
+                },
+            },
+            ...(minDistance !== undefined ? [{ $match: PaginationService.after('distanceMeters', 1, cursor) }] : []),
+            { $sort: PaginationService.sort('distanceMeters', 1) },
+            { $limit: limit },
+        ];
+    }
+
+    /**
+     * Great-circle distance in km (haversine)
+     */
+    static distanceKm(from: { lat: number; lng: number }, point?: IGeoPoint | null): number | null {
+        if (!point?.coordinates) return null;
+        const [lng, lat] = point.coordinates;
+        const toRad = (deg: number) => (deg * Math.PI) / 180;
+        const dLat = toRad(lat - from.lat);
+        const dLng = toRad(lng - from.lng);
+        const a = Math.sin(dLat / 2) ** 2 +
+            Math.cos(toRad(from.lat)) * Math.cos(toRad(lat)) * Math.sin(dLng / 2) ** 2;
+        return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+    }
+
+    /**
+     * Blend embedding relevance (0-1) with proximity: 1 at the centre, 0 at the edge of the radius
+     */
+    static rankScore(relevance: number, distanceKm: number | null, radiusKm: number): number {
+        if (distanceKm === null) return relevance;
+        const proximity = Math.max(0, 1 - distanceKm / radiusKm);
+        const weight = config.geo.distanceWeight;
+        return relevance * (1 - weight) + proximity * weight;
+    }
+
+    /**
+     * Add `distanceKm` to events (when searching around a point)
+     */
+    static withDistance<T extends { geo?: IGeoPoint | null }>(events: T[], geo?: GeoQuery): (T & { distanceKm?: number })[] {
+        if (!geo?.center) return events;
+        return events.map(event => {
+            const distance = this.distanceKm(geo.center!, event.geo);
+            return distance === null ? event : { ...event, distanceKm: Math.round(distance * 10) / 10 };
+        });
+    }
+
+    /**
+     * Order vector-search results by relevance blended with proximity (adds `distanceKm`/`rankScore`).
+     * Without a centre point the relevance order is kept.
+     */
+    static rank<T extends { geo?: IGeoPoint | null; score?: number }>(events: T[], geo?: GeoQuery): T[] {
+        if (!geo?.center) return events;
+        return this.withDistance(events, geo)
+            .map(event => ({
+                ...event,
+                rankScore: this.rankScore(event.score || 0, event.distanceKm ?? null, geo.radiusKm!),
+            }))
+            .sort((a, b) => b.rankScore - a.rankScore);
+    }
+}
@@ -0,0 +1,109 @@
+import sharp from 'sharp';
+import { encode } from 'blurhash';
+import { MediaRenditionName } from '../models/Media';
+
+/**
+ * Image renditions
+ *
+ * Uploaded images are re-encoded without their metadata (EXIF GPS location, camera data)
+ * after applying the EXIF orientation (every format sharp decodes, see SANITIZED_FORMATS), and resized to a few sizes in WebP and JPEG so list
+ * screens never download the original. A BlurHash string gives clients a placeholder.
+ */
+
+// Longest side of each rendition; smaller images are not enlarged
+export const RENDITION_SIZES: Record<MediaRenditionName, number> = {
+    thumb: 320,
+    medium: 960,
+    full: 2048,
+};
+
+const RENDITION_FORMATS = ['webp', 'jpeg'] as const;
+const QUALITY = 80;
+
+// Formats re-encoded as themselves; anything else sharp decodes (HEIF/AVIF, SVG, ...) becomes
+// JPEG, or PNG when it has transparency, so no original keeps its metadata
+const SANITIZED_FORMATS = ['jpeg', 'png', 'webp', 'tiff', 'avif', 'gif'] as const;
+type SanitizedFormat = typeof SANITIZED_FORMATS[number];
+
+export interface ProcessedRendition {
+    name: MediaRenditionName;
+    format: 'webp' | 'jpeg';
+    buffer: Buffer;
+    width: number;
+    height: number;
+}
+
+export interface ProcessedImage {
+    buffer: Buffer;     // Original, without metadata
+    mime: string;       // Of `buffer`; differs from the upload when its format was converted
+    width: number;
+    height: number;
+    renditions: ProcessedRendition[];
+    blurhash?: string;
+}
+
+export class ImageProcessingService {
+    /**
+     * Sanitized original, renditions and placeholder; null when the buffer is not an image
+     * sharp can decode
+     */
+    static async process(buffer: Buffer): Promise<ProcessedImage | null> {
+        let metadata: sharp.Metadata;
+        try {
+            metadata = await sharp(buffer).metadata();
+        } catch {
+            return null;
+        }
+        if (!metadata.format || !metadata.width || !metadata.height) return null;
+
+        // First frame only for animations; rotate() applies the EXIF orientation
+        const base = sharp(buffer, { animated: false }).rotate();
+
+        const format: SanitizedFormat = SANITIZED_FORMATS.includes(metadata.format as SanitizedFormat)
+            ? metadata.format as SanitizedFormat
+            : metadata.hasAlpha ? 'png' : 'jpeg';
+        // GIFs keep their animation
+        const source = format === 'gif' ? sharp(buffer, { animated: true }).rotate() : base.clone();
+        const original = await source
+            .toFormat(format, ['png', 'gif'].includes(format) ? {} : { quality: 90 })
+            .toBuffer({ resolveWithObject: true });
+        const width = original.info.width;
+        // Animated output stacks the frames; report one frame
+        const height = format === 'gif' ? metadata.pageHeight ?? metadata.height : original.info.height;
+
+        const renditions: ProcessedRendition[] = [];
+        for (const [name, maxSize] of Object.entries(RENDITION_SIZES) as [MediaRenditionName, number][]) {
+            for (const renditionFormat of RENDITION_FORMATS) {
+                const { data, info } = await base.clone()
+                    .resize({ width: maxSize, height: maxSize, fit: 'inside', withoutEnlargement: true })
+                    .flatten(renditionFormat === 'jpeg' ? { background: '#ffffff' } : false)
+                    .toFormat(renditionFormat, { quality: QUALITY })
+                    .toBuffer({ resolveWithObject: true });
+                renditions.push({ name, format: renditionFormat, buffer: data, width: info.width, height: info.height });
+            }
+        }
+
+        return {
+            buffer: original.data,
+            mime: `image/${format}`,
+            width,
+            height,
+            renditions,
+            blurhash: await this.blurhash(base),
+        };
+    }
+
+    private static async blurhash(image: sharp.Sharp): Promise<string | undefined> {
+        try {
+            const { data, info } = await image.clone()
+                .resize(32, 32, { fit: 'inside' })
+                .ensureAlpha()
+                .raw()
+                .toBuffer({ resolveWithObject: true });
+            return encode(new Uint8ClampedArray(data), info.width, info.height, 4, 3);
+        } catch (error) {
+            console.warn('⚠️ [IMAGES] BlurHash failed:', error);
+            return undefined;
+        }
+    }
+}
@@ -0,0 +1,66 @@
+import { User } from '../../models/User';
+import { AgendaService } from '../agendaService';
+import { EmbeddingService } from '../embeddingService';
+import { EventProcessingService } from '../eventProcessingService';
+import { MemberManagementService } from '../memberManagementService';
+import { RecurrenceService } from '../recurrenceService';
+import { JobHandler, JobType } from './types';
+
+/**
+ * Job type -> handler. Handlers must be safe to re-run: a job can be retried
+ * after a partial failure or re-claimed from a worker that died.
+ */
+export const jobHandlers: { [T in JobType]: JobHandler<T> } = {
+    'event.process': async ({ eventId }) => {
+        const result = await EventProcessingService.processEvent(eventId);
+        return { ...result };
+    },
+
+    // Re-running is harmless: existing memberships are skipped
+    'members.import': async ({ eventId, organizerId, members, source }) => {
+        const result = await MemberManagementService.addMembersFromJSON(eventId, organizerId, members, source);
+        return {
+            totalProcessed: result.totalProcessed,
+            added: result.added,
+            skipped: result.skipped,
+            failed: result.failed,
+            newUsersCreated: result.results.filter(r => r.isNewUser).length,
+            embeddingsCreated: result.results.filter(r => r.embeddingCreated).length,
+        };
+    },
+
+    'user.reembed': async ({ userId }) => {
+        const user = await User.findById(userId).lean();
+        if (!user) {
+            return { skipped: true };
+        }
+
+        const profileText = EmbeddingService.createUserProfileText(user);
+        if (!profileText) {
+            return { skipped: true };
+        }
+
+        const embedding = await EmbeddingService.generateEmbedding(profileText);
+        if (!embedding || embedding.length === 0) {
+            throw new Error('Embedding generation returned no vector');
+        }
+
+        await User.findByIdAndUpdate(userId, { $set: { profileEmbedding: embedding } });
+        return { dimensions: embedding.length };
+    },
+
+    // Idempotent: occurrences are upserted by (seriesId, occurrenceDate)
+    'series.generate': async ({ seriesId }) => {
+        const result = await RecurrenceService.generateOccurrences(seriesId);
+        if (!result.ended) {
+            await RecurrenceService.scheduleGeneration(seriesId, RecurrenceService.ROLL_FORWARD_DELAY_MS);
+        }
+        return { ...result };
+    },
+
+    // Idempotent: the event's session embeddings are replaced as a whole
+    'sessions.index': async ({ eventId }) => {
+        const result = await AgendaService.indexSessions(eventId);
+        return { ...result };
+    },
+};
@@ -0,0 +1,3 @@
+export * from './types';
+export { JobQueueService } from './jobQueueService';
+export { JobWorker } from './jobWorker';
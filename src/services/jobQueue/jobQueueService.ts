@@ -0,0 +1,162 @@
+import mongoose from 'mongoose';
+import config from '../../config';
+import { IJob, Job, JobStatus } from '../../models/Job';
+import { EnqueueOptions, JobPayloads, JobType } from './types';
+
+// Longest delay between two attempts, whatever the attempt count
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+export class JobQueueService {
+    /**
+     * Add a job to the queue. Returns immediately; a worker picks it up.
+     */
+    static async enqueue<T extends JobType>(
+        type: T,
+        payload: JobPayloads[T],
+        options: EnqueueOptions = {}
+    ): Promise<IJob> {
+        const job = await Job.create({
+            type,
+            payload,
+            maxAttempts: options.maxAttempts ?? config.jobs.maxAttempts,
+            runAt: new Date(Date.now() + (options.delayMs || 0)),
+            ...(options.createdBy && { createdBy: options.createdBy }),
+            ...(options.eventId && { eventId: options.eventId }),
+        });
+
+        console.log(`📥 [JOBS] Enqueued ${type} (${job._id})`);
+        return job;
+    }
+
+    /**
+     * Atomically claim the next due job for a worker.
+     * Jobs left `running` by a worker that died are re-claimed after the lock timeout,
+     * unless they have used all their attempts; those are marked `failed` instead.
+     */
+    static async claimNext(workerId: string): Promise<IJob | null> {
+        const now = new Date();
+        const staleBefore = new Date(now.getTime() - config.jobs.lockTimeoutMs);
+
+        await Job.updateMany(
+            { status: 'running', lockedAt: { $lt: staleBefore }, $expr: { $gte: ['$attempts', '$maxAttempts'] } },
+            {
+                $set: { status: 'failed', lastError: 'Worker stopped responding on the last attempt' },
+                $unset: { lockedAt: 1, lockedBy: 1 },
+            }
+        );
+
+        return Job.findOneAndUpdate(
+            {
+                $or: [
+                    { status: 'pending', runAt: { $lte: now } },
+                    {
+                        status: 'running',
+                        lockedAt: { $lt: staleBefore },
+                        $expr: { $lt: ['$attempts', '$maxAttempts'] },
+                    },
+                ],
+            },
+            {
+                $set: { status: 'running', lockedAt: now, lockedBy: workerId },
+                $inc: { attempts: 1 },
+            },
+            { sort: { runAt: 1 }, new: true }
+        );
+    }
+
+    /**
+     * Refresh the lock of a running job so it is not re-claimed as stale.
+     * Returns false when the worker no longer holds the lock.
+     */
+    static async heartbeat(jobId: string, workerId: string): Promise<boolean> {
+        const result = await Job.updateOne(
+            { _id: jobId, status: 'running', lockedBy: workerId },
+            { $set: { lockedAt: new Date() } }
+        );
+        return result.matchedCount > 0;
+    }
+
+    /**
+     * Mark a running job completed.
+     * Returns false when the worker no longer holds the lock (the job was re-claimed); nothing is written then.
+     */
+    static async markCompleted(jobId: string, workerId: string, result?: Record<string, any>): Promise<boolean> {
+        const update = await Job.updateOne(
+            { _id: jobId, status: 'running', lockedBy: workerId },
+            {
+                $set: { status: 'completed', completedAt: new Date(), result: result || {} },
+                $unset: { lockedAt: 1, lockedBy: 1, lastError: 1 },
+            }
+        );
+        return update.matchedCount > 0;
+    }
+
+    /**
+     * Record a failed attempt: schedule a retry with exponential backoff,
+     * or mark the job `failed` once it has used all its attempts.
+     * Returns null when the worker no longer holds the lock; nothing is written then.
+     */
+    static async markFailed(job: IJob, workerId: string, error: Error): Promise<JobStatus | null> {
+        const exhausted = job.attempts >= job.maxAttempts;
+        const status: JobStatus = exhausted ? 'failed' : 'pending';
+
+        const update = await Job.updateOne(
+            { _id: job._id, status: 'running', lockedBy: workerId },
+            {
+                $set: {
+                    status,
+                    lastError: error.message,
+                    ...(!exhausted && { runAt: new Date(Date.now() + this.getBackoffMs(job.attempts)) }),
+                },
+                $unset: { lockedAt: 1, lockedBy: 1 },
+            }
+        );
+
+        return update.matchedCount > 0 ? status : null;
+    }
+
+    /**
+     * Delay before the next attempt: base * 2^(attempts - 1), capped at one hour
+     */
+    static getBackoffMs(attempts: number): number {
+        return Math.min(config.jobs.backoffBaseMs * Math.pow(2, Math.max(attempts - 1, 0)), MAX_BACKOFF_MS);
+    }
+
+    /**
+     * Re-queue a failed job with a fresh set of attempts
+     */
+    static async retry(jobId: string): Promise<IJob | null> {
+        return Job.findOneAndUpdate(
+            { _id: jobId, status: 'failed' },
+            {
+                $set: { status: 'pending', attempts: 0, runAt: new Date() },
+                $unset: { lastError: 1, completedAt: 1 },
+            },
+            { new: true }
+        );
+    }
+
+    static async getJob(jobId: string): Promise<IJob | null> {
+        if (!mongoose.Types.ObjectId.isValid(jobId)) return null;
+        return Job.findById(jobId);
+    }
+
+    /**
+     * List jobs newest first. Payloads are omitted (bulk imports can be large).
+     */
+    static async listJobs(
+        filter: { createdBy?: string; eventId?: string; status?: JobStatus; type?: string },
+        limit: number = 50
+    ): Promise<IJob[]> {
+        const query: any = {};
+        if (filter.createdBy) query.createdBy = filter.createdBy;
+        if (filter.eventId) query.eventId = filter.eventId;
+        if (filter.status) query.status = filter.status;
+        if (filter.type) query.type = filter.type;
+
+        return Job.find(query)
+            .select('-payload')
+            .sort({ createdAt: -1 })
+            .limit(limit);
+    }
+}
@@ -0,0 +1,115 @@
+import os from 'os';
+import config from '../../config';
+import { IJob } from '../../models/Job';
+import { jobHandlers } from './handlers';
+import { JobQueueService } from './jobQueueService';
+import { JobHandler, JobType } from './types';
+
+/**
+ * Polls the `jobs` collection and runs one job at a time.
+ * Used in-process by the API server (JOB_WORKER_IN_PROCESS) or by `src/worker.ts`.
+ */
+export class JobWorker {
+    readonly workerId = `${os.hostname()}:${process.pid}`;
+    private running = false;
+    private timer: NodeJS.Timeout | null = null;
+    private current: Promise<void> | null = null;
+
+    constructor(private pollIntervalMs: number = config.jobs.pollIntervalMs) { }
+
+    start(): void {
+        if (this.running) return;
+        this.running = true;
+        console.log(`👷 [JOBS] Worker ${this.workerId} started (poll every ${this.pollIntervalMs}ms)`);
+        this.schedule(0);
+    }
+
+    /**
+     * Stop polling and wait for the job in progress (if any) to finish
+     */
+    async stop(): Promise<void> {
+        this.running = false;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        if (this.current) {
+            await this.current;
+        }
+        console.log(`👷 [JOBS] Worker ${this.workerId} stopped`);
+    }
+
+    private schedule(delayMs: number): void {
+        if (!this.running) return;
+        this.timer = setTimeout(() => {
+            this.current = this.tick().finally(() => {
+                this.current = null;
+            });
+        }, delayMs);
+    }
+
+    private async tick(): Promise<void> {
+        let job: IJob | null = null;
+        try {
+            job = await JobQueueService.claimNext(this.workerId);
+            if (job) {
+                await this.run(job);
+            }
+        } catch (error) {
+            console.error('❌ [JOBS] Worker loop error:', error);
+        }
+        // Drain the queue without waiting while there is work
+        this.schedule(job ? 0 : this.pollIntervalMs);
+    }
+
+    private async run(job: IJob): Promise<void> {
+        const jobId = job._id.toString();
+        const handler = jobHandlers[job.type as JobType] as JobHandler | undefined;
+
+        console.log(`▶️ [JOBS] Running ${job.type} (${jobId}), attempt ${job.attempts}/${job.maxAttempts}`);
+
+        if (!handler) {
+            job.attempts = job.maxAttempts; // Retrying cannot help
+            const status = await JobQueueService.markFailed(job, this.workerId, new Error(`No handler registered for job type '${job.type}'`));
+            if (!status) this.warnLostLock(job);
+            return;
+        }
+
+        // Keep the lock fresh while the handler runs; long jobs would otherwise look stale
+        const heartbeat = setInterval(() => {
+            JobQueueService.heartbeat(jobId, this.workerId)
+                .then(held => {
+                    if (!held) this.warnLostLock(job);
+                })
+                .catch(error => console.error(`❌ [JOBS] Heartbeat failed for ${jobId}:`, error));
+        }, Math.max(Math.floor(config.jobs.lockTimeoutMs / 3), 1000));
+
+        try {
+            const result = await handler(job.payload as any);
+            if (await JobQueueService.markCompleted(jobId, this.workerId, result || undefined)) {
+                console.log(`✅ [JOBS] Completed ${job.type} (${jobId})`);
+            } else {
+                this.warnLostLock(job);
+            }
+        } catch (error) {
+            const status = await JobQueueService.markFailed(job, this.workerId, error as Error);
+            if (!status) {
+                this.warnLostLock(job);
+                return;
+            }
+            console.error(
+                `❌ [JOBS] ${job.type} (${jobId}) failed: ${(error as Error).message}` +
+                (status === 'failed' ? ' - giving up' : ' - will retry')
+            );
+        } finally {
+            clearInterval(heartbeat);
+        }
+    }
+
+    /**
+     * The job was re-claimed by another worker (lock expired); its outcome is theirs to record
+     */
+    private warnLostLock(job: IJob): void {
+        console.warn(`⚠️ [JOBS] Lost the lock on ${job.type} (${job._id}); not recording this attempt`);
+    }
+}
@@ -0,0 +1,39 @@
+/**
+ * Payloads accepted by each job type
+ */
+export interface JobPayloads {
+    /** Semantic pipeline for an approved event (PDF chunks, embeddings, vector index) */
+    'event.process': { eventId: string };
+    /** Bulk member import (JSON body or parsed Excel rows) */
+    'members.import': {
+        eventId: string;
+        organizerId: string;
+        members: Record<string, any>[];
+        source: 'manual' | 'excel';
+    };
+    /** Regenerate a user's profile embedding after a profile edit */
+    'user.reembed': { userId: string };
+    /** Generate/refresh upcoming occurrences of an event series (re-schedules itself daily) */
+    'series.generate': { seriesId: string };
+    /** Rebuild the 'session' embeddings of an event's agenda */
+    'sessions.index': { eventId: string };
+}
+
+export type JobType = keyof JobPayloads;
+
+export const JOB_TYPES: JobType[] = ['event.process', 'members.import', 'user.reembed', 'series.generate', 'sessions.index'];
+
+/**
+ * Processes one job. Throw to fail the attempt (it will be retried with backoff);
+ * the resolved value is stored on the job as `result`.
+ */
+export type JobHandler<T extends JobType = JobType> = (
+    payload: JobPayloads[T]
+) => Promise<Record<string, any> | void>;
+
+export interface EnqueueOptions {
+    createdBy?: string;
+    eventId?: string;
+    maxAttempts?: number;
+    delayMs?: number;
+}
@@ -0,0 +1,27 @@
+import { LlmProvider } from "./types";
+
+/**
+ * Prompt-based classification shared by the remote providers.
+ * Asks for the label name only and maps the reply back onto `labels`.
+ */
+export const classifyWithPrompt = async <T extends string>(
+    provider: LlmProvider,
+    text: string,
+    labels: T[],
+    instructions?: string
+): Promise<T | null> => {
+    const prompt = `
+    Classify the input into ONE category.
+    Allowed categories: ${labels.join(", ")}
+    ${instructions || ""}
+    Rules: Respond with ONLY the category name. No explanation.
+    Input: "${text}"
+    Category:`;
+
+    const reply = (await provider.generate(prompt)).trim().toUpperCase();
+
+    // Exact match first, then the first label the reply mentions
+    const exact = labels.find(label => label.toUpperCase() === reply);
+    if (exact) return exact;
+    return labels.find(label => reply.includes(label.toUpperCase())) || null;
+};
@@ -0,0 +1,59 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import config from "../../config";
+import { GenerateOptions, LlmProvider } from "./types";
+import { classifyWithPrompt } from "./classifyWithPrompt";
+
+/**
+ * Google Gemini backend (default)
+ */
+export class GeminiProvider implements LlmProvider {
+    readonly name = "gemini";
+    private client: GoogleGenerativeAI | null;
+
+    constructor(apiKey: string = config.geminiApiKey) {
+        this.client = apiKey ? new GoogleGenerativeAI(apiKey) : null;
+    }
+
+    isAvailable(): boolean {
+        return !!this.client;
+    }
+
+    async embed(text: string): Promise<number[]> {
+        if (!this.client) {
+            throw new Error("GEMINI_API_KEY is missing. Cannot generate embedding.");
+        }
+
+        const model = this.client.getGenerativeModel({ model: config.llm.embeddingModel });
+        const result = await model.embedContent(text);
+        return result.embedding.values;
+    }
+
+    private getModel(options: GenerateOptions) {
+        if (!this.client) {
+            throw new Error("GEMINI_API_KEY is missing. Cannot generate content.");
+        }
+
+        return this.client.getGenerativeModel({
+            model: config.llm.generationModel,
+            ...(options.systemInstruction && { systemInstruction: options.systemInstruction }),
+            ...(options.json && { generationConfig: { responseMimeType: "application/json" } }),
+        });
+    }
+
+    async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+        const result = await this.getModel(options).generateContent(prompt);
+        return result.response.text();
+    }
+
+    async *generateStream(prompt: string, options: GenerateOptions = {}): AsyncIterable<string> {
+        const result = await this.getModel(options).generateContentStream(prompt);
+        for await (const chunk of result.stream) {
+            const text = chunk.text();
+            if (text) yield text;
+        }
+    }
+
+    classify<T extends string>(text: string, labels: T[], instructions?: string): Promise<T | null> {
+        return classifyWithPrompt(this, text, labels, instructions);
+    }
+}
@@ -0,0 +1,44 @@
+import config from "../../config";
+import { LlmProvider } from "./types";
+import { GeminiProvider } from "./geminiProvider";
+import { OpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+import { StubProvider } from "./stubProvider";
+
+export * from "./types";
+
+let provider: LlmProvider | null = null;
+
+/**
+ * Build a provider for a backend name
+ */
+export const createLlmProvider = (name: string = config.llm.provider): LlmProvider => {
+    switch (name) {
+        case "openai":
+            return new OpenAiCompatibleProvider();
+        case "stub":
+            return new StubProvider();
+        case "gemini":
+            return new GeminiProvider();
+        default:
+            console.warn(`⚠️ Unknown LLM_PROVIDER '${name}', falling back to gemini`);
+            return new GeminiProvider();
+    }
+};
+
+/**
+ * Shared provider selected through config (LLM_PROVIDER)
+ */
+export const getLlmProvider = (): LlmProvider => {
+    if (!provider) {
+        provider = createLlmProvider();
+        console.log(`🧠 LLM provider: ${provider.name} (available: ${provider.isAvailable()})`);
+    }
+    return provider;
+};
+
+/**
+ * Override the shared provider (e.g. to force the stub in scripts and tests)
+ */
+export const setLlmProvider = (next: LlmProvider): void => {
+    provider = next;
+};
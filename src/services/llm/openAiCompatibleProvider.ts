@@ -0,0 +1,106 @@
+import config from "../../config";
+import { GenerateOptions, LlmProvider } from "./types";
+import { classifyWithPrompt } from "./classifyWithPrompt";
+
+/**
+ * Any OpenAI-compatible HTTP endpoint (OpenAI, Azure proxies, vLLM, Ollama, LM Studio...)
+ * Uses the /embeddings and /chat/completions routes.
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+    readonly name = "openai";
+
+    constructor(
+        private baseUrl: string = config.llm.openaiBaseUrl,
+        private apiKey: string = config.llm.openaiApiKey
+    ) { }
+
+    isAvailable(): boolean {
+        return !!this.baseUrl && !!this.apiKey;
+    }
+
+    private async request(path: string, body: any): Promise<Response> {
+        const response = await fetch(`${this.baseUrl.replace(/\/$/, "")}${path}`, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+            },
+            body: JSON.stringify(body),
+        });
+
+        if (!response.ok) {
+            const detail = await response.text();
+            throw new Error(`LLM request to ${path} failed (${response.status}): ${detail.substring(0, 200)}`);
+        }
+        return response;
+    }
+
+    private async post(path: string, body: any): Promise<any> {
+        return (await this.request(path, body)).json();
+    }
+
+    private buildMessages(prompt: string, options: GenerateOptions) {
+        return [
+            ...(options.systemInstruction ? [{ role: "system", content: options.systemInstruction }] : []),
+            { role: "user", content: prompt },
+        ];
+    }
+
+    async embed(text: string): Promise<number[]> {
+        const data = await this.post("/embeddings", {
+            model: config.llm.embeddingModel,
+            input: text,
+        });
+        return data?.data?.[0]?.embedding || [];
+    }
+
+    async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+        const data = await this.post("/chat/completions", {
+            model: config.llm.generationModel,
+            messages: this.buildMessages(prompt, options),
+            ...(options.json && { response_format: { type: "json_object" } }),
+        });
+        return data?.choices?.[0]?.message?.content || "";
+    }
+
+    /**
+     * Reads the `stream: true` SSE response ("data: {...}" lines, ended by "data: [DONE]")
+     */
+    async *generateStream(prompt: string, options: GenerateOptions = {}): AsyncIterable<string> {
+        const response = await this.request("/chat/completions", {
+            model: config.llm.generationModel,
+            messages: this.buildMessages(prompt, options),
+            stream: true,
+            ...(options.json && { response_format: { type: "json_object" } }),
+        });
+        if (!response.body) return;
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = "";
+
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split("\n");
+            buffer = lines.pop() || "";
+
+            for (const line of lines) {
+                const data = line.trim();
+                if (!data.startsWith("data:")) continue;
+
+                const payload = data.substring(5).trim();
+                if (payload === "[DONE]") return;
+
+                const delta = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+                if (delta) yield delta;
+            }
+        }
+    }
+
+    classify<T extends string>(text: string, labels: T[], instructions?: string): Promise<T | null> {
+        return classifyWithPrompt(this, text, labels, instructions);
+    }
+}
@@ -0,0 +1,57 @@
+import crypto from "crypto";
+import config from "../../config";
+import { GenerateOptions, LlmProvider } from "./types";
+
+const tokenize = (text: string): string[] =>
+    text.toLowerCase().match(/[a-z0-9]+/g) || [];
+
+/**
+ * Deterministic offline backend for development and CI
+ *
+ * - embed: hashed bag-of-words, L2-normalised, so texts sharing words score higher
+ * - generate: echoes a trimmed view of the prompt (JSON mode returns "{}"); streamed word by word
+ * - classify: picks the label whose name appears in the text
+ */
+export class StubProvider implements LlmProvider {
+    readonly name = "stub";
+
+    constructor(private dimensions: number = config.llm.embeddingDimensions) { }
+
+    isAvailable(): boolean {
+        return true;
+    }
+
+    async embed(text: string): Promise<number[]> {
+        const vector = new Array<number>(this.dimensions).fill(0);
+        for (const token of tokenize(text)) {
+            const hash = crypto.createHash("md5").update(token).digest();
+            const index = hash.readUInt32BE(0) % this.dimensions;
+            const sign = hash[4] % 2 === 0 ? 1 : -1;
+            vector[index] += sign;
+        }
+
+        const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+        return norm === 0 ? vector : vector.map(v => v / norm);
+    }
+
+    async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+        if (options.json) return "{}";
+
+        const condensed = prompt.replace(/\s+/g, " ").trim();
+        return `[stub] ${condensed.substring(condensed.length - 200)}`;
+    }
+
+    async *generateStream(prompt: string, options: GenerateOptions = {}): AsyncIterable<string> {
+        const text = await this.generate(prompt, options);
+        for (const piece of text.match(/\S+\s*/g) || []) {
+            yield piece;
+        }
+    }
+
+    async classify<T extends string>(text: string, labels: T[]): Promise<T | null> {
+        const tokens = tokenize(text);
+        return labels.find(label =>
+            tokenize(label.replace(/_/g, " ")).some(part => tokens.some(token => token.startsWith(part)))
+        ) || null;
+    }
+}
@@ -0,0 +1,26 @@
+export interface GenerateOptions {
+    systemInstruction?: string;
+    json?: boolean; // Ask the model for a JSON-only response
+}
+
+/**
+ * Common contract for every LLM / embedding backend
+ */
+export interface LlmProvider {
+    readonly name: string;
+
+    /** Whether the backend is configured (API key / endpoint present) */
+    isAvailable(): boolean;
+
+    /** Embed a text into a fixed-size vector */
+    embed(text: string): Promise<number[]>;
+
+    /** Generate a completion for a prompt */
+    generate(prompt: string, options?: GenerateOptions): Promise<string>;
+
+    /** Generate a completion as it is produced, yielding text deltas in order */
+    generateStream(prompt: string, options?: GenerateOptions): AsyncIterable<string>;
+
+    /** Pick exactly one of `labels` for a text, or null when undecided */
+    classify<T extends string>(text: string, labels: T[], instructions?: string): Promise<T | null>;
+}
@@ -0,0 +1,427 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import config from '../config';
+import { IMedia, IMediaRef, IMediaRendition, Media, MediaKind, MediaOwnerType } from '../models/Media';
+import { Event } from '../models/Event';
+import { User } from '../models/User';
+import { ImageProcessingService, ProcessedImage } from './imageProcessingService';
+import { RbacService } from './rbacService';
+import { buildStorageKey, findStoredObject, getStorageProvider, getStorageProviderByName, StorageProvider } from './storage';
+
+/**
+ * Media storage
+ *
+ * Binaries always go to object storage (see ./storage) and get a Media record (URL, mime, size, image
+ * dimensions and renditions, content hash). Documents keep URLs plus IMediaRef entries, never the bytes.
+ * Inline Base64 from older clients is uploaded on the way in; when storage fails the
+ * request fails instead of falling back to storing Base64.
+ */
+
+const DATA_URI = /^data:([\w.+-]+\/[\w.+-]+);base64,([\s\S]+)$/;
+const BASE64_BODY = /^[A-Za-z0-9+/\s]+={0,2}$/;
+const REMOTE_URL = /^https?:\/\//i;
+
+// Event fields holding media URLs and where their files go in the bucket
+export const EVENT_MEDIA_FIELDS = {
+    photos: { mediaType: 'images', folder: 'events', defaultMime: 'image/png' },
+    videos: { mediaType: 'videos', folder: 'events', defaultMime: 'video/mp4' },
+    pdfFiles: { mediaType: 'pdfs', folder: 'documents', defaultMime: 'application/pdf' },
+} as const;
+
+export type EventMediaField = keyof typeof EVENT_MEDIA_FIELDS;
+
+export interface StoreOptions {
+    ownerType: MediaOwnerType;
+    ownerId?: string | mongoose.Types.ObjectId;
+    createdBy?: string;
+    fileName?: string;
+    folder?: string;
+    eventId?: string;
+    mediaType?: 'images' | 'pdfs' | 'videos';
+    source?: 'upload' | 'migration';
+}
+
+const kindOf = (mime: string): MediaKind => {
+    if (mime.startsWith('image/')) return 'image';
+    if (mime.startsWith('video/')) return 'video';
+    if (mime === 'application/pdf') return 'pdf';
+    return 'file';
+};
+
+const extensionOf = (mime: string): string => {
+    const subtype = mime.split('/')[1] || 'bin';
+    return subtype === 'jpeg' ? 'jpg' : subtype.replace(/[^a-z0-9]/gi, '').slice(0, 10) || 'bin';
+};
+
+export class MediaService {
+    static isRemoteUrl(value: unknown): boolean {
+        return typeof value === 'string' && REMOTE_URL.test(value.trim());
+    }
+
+    /**
+     * Base64 content stored inline: a data URI, or (legacy PDFs) a bare Base64 string
+     */
+    static isInlineBlob(value: unknown): value is string {
+        if (typeof value !== 'string' || this.isRemoteUrl(value)) return false;
+        if (value.startsWith('data:')) return true;
+        return value.length > 100 && BASE64_BODY.test(value.slice(0, 1000));
+    }
+
+    static decode(value: string, defaultMime: string): { mime: string; buffer: Buffer } | null {
+        const match = value.match(DATA_URI);
+        const mime = match ? match[1].toLowerCase() : defaultMime;
+        const body = (match ? match[2] : value).replace(/\s/g, '');
+        if (!BASE64_BODY.test(body)) return null;
+
+        const buffer = Buffer.from(body, 'base64');
+        return buffer.length > 0 ? { mime, buffer } : null;
+    }
+
+    /**
+     * Width/height from the image header (PNG, JPEG, GIF, WebP); empty when unknown
+     */
+    static imageDimensions(buffer: Buffer): { width?: number; height?: number } {
+        try {
+            // PNG: IHDR follows the 8-byte signature
+            if (buffer.length >= 24 && buffer.readUInt32BE(0) === 0x89504e47) {
+                return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+            }
+            // GIF: logical screen size
+            if (buffer.length >= 10 && buffer.toString('ascii', 0, 3) === 'GIF') {
+                return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+            }
+            // WebP: lossy (VP8), lossless (VP8L) and extended (VP8X) headers
+            if (buffer.length >= 30 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+                const chunk = buffer.toString('ascii', 12, 16);
+                if (chunk === 'VP8 ') {
+                    return { width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff };
+                }
+                if (chunk === 'VP8L') {
+                    const bits = buffer.readUInt32LE(21);
+                    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+                }
+                if (chunk === 'VP8X') {
+                    return { width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1 };
+                }
+            }
+            // JPEG: walk the segments up to the first start-of-frame marker
+            if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+                let offset = 2;
+                while (offset + 9 < buffer.length) {
+                    if (buffer[offset] !== 0xff) return {};
+                    const marker = buffer[offset + 1];
+                    const length = buffer.readUInt16BE(offset + 2);
+                    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+                        return { height: buffer.readUInt16BE(offset + 5), width: buffer.readUInt16BE(offset + 7) };
+                    }
+                    offset += 2 + length;
+                }
+            }
+        } catch {
+            // Truncated header
+        }
+        return {};
+    }
+
+    /**
+     * Upload a file and record it. Identical content for the same owner is stored once;
+     * ownerless uploads always get their own object.
+     */
+    static async store(buffer: Buffer, mime: string, options: StoreOptions): Promise<IMedia> {
+        const sha256 = crypto.createHash('sha256').update(buffer).digest('hex');
+        if (options.ownerId) {
+            const existing = await Media.findOne({ sha256, ownerType: options.ownerType, ownerId: options.ownerId });
+            if (existing) return existing;
+        }
+
+        const kind = kindOf(mime);
+        const storage = getStorageProvider();
+
+        // Images are stored without metadata, with renditions (ImageProcessingService)
+        const image = kind === 'image' ? await ImageProcessingService.process(buffer) : null;
+        if (kind === 'image' && !image) {
+            // iPhone photos carry their GPS location; HEVC-coded HEIC needs a libvips built with libde265
+            if (/^image\/hei[cf]/.test(mime)) {
+                throw new Error(`Cannot remove the metadata of this ${mime} image; convert it to JPEG before uploading`);
+            }
+            console.warn(`⚠️ [MEDIA] Could not process ${mime} image; storing it as uploaded`);
+        }
+
+        let fileName = options.fileName || `${kind}-${sha256.slice(0, 16)}.${extensionOf(mime)}`;
+        // Converted originals (e.g. HEIF to JPEG) are stored under their new type
+        if (image && image.mime !== mime) {
+            mime = image.mime;
+            fileName = `${fileName.replace(/\.[^./]*$/, '')}.${extensionOf(mime)}`;
+        }
+
+        const baseKey = buildStorageKey(fileName, options.folder, options.eventId, options.mediaType);
+
+        const original = image?.buffer ?? buffer;
+        const { key, url } = await storage.upload(original, baseKey, mime);
+
+        const renditions = image ? await this.uploadRenditions(storage, baseKey, image) : [];
+
+        const media = await Media.create({
+            kind,
+            url,
+            provider: storage.name,
+            key,
+            mime,
+            size: original.length,
+            ...(image
+                ? { width: image.width, height: image.height, renditions, blurhash: image.blurhash }
+                : kind === 'image' ? this.imageDimensions(buffer) : {}),
+            sha256,
+            ownerType: options.ownerType,
+            ownerId: options.ownerId,
+            createdBy: options.createdBy,
+            source: options.source || 'upload',
+        });
+        console.log(
+            `🖼️  [MEDIA] Stored ${kind} ${media._id} (${original.length} bytes${renditions.length ? `, ${renditions.length} renditions` : ''}) ` +
+            `for ${options.ownerType} ${options.ownerId || '-'}`
+        );
+        return media;
+    }
+
+    /**
+     * Renditions are stored next to the original: {key}-{name}.{webp|jpg}
+     */
+    private static async uploadRenditions(
+        storage: StorageProvider,
+        baseKey: string,
+        image: ProcessedImage
+    ): Promise<IMediaRendition[]> {
+        const renditions: IMediaRendition[] = [];
+        for (const rendition of image.renditions) {
+            const key = `${baseKey.replace(/\.[^./]+$/, '')}-${rendition.name}.${rendition.format === 'jpeg' ? 'jpg' : 'webp'}`;
+            const stored = await storage.upload(rendition.buffer, key, `image/${rendition.format}`);
+            renditions.push({
+                name: rendition.name,
+                format: rendition.format,
+                url: stored.url,
+                key: stored.key,
+                width: rendition.width,
+                height: rendition.height,
+                size: rendition.buffer.length,
+            });
+        }
+        return renditions;
+    }
+
+    /**
+     * Generate renditions for an image stored without them (uploaded before images were
+     * processed) and copy them into the references held by events and users
+     */
+    static async addRenditions(media: IMedia): Promise<boolean> {
+        if (media.kind !== 'image' || media.renditions?.length) return false;
+
+        const storage = getStorageProviderByName(media.provider || 's3');
+        const response = await fetch(await storage.getSignedUrl(media.key, 300));
+        if (!response.ok) throw new Error(`Failed to read ${media.url}: ${response.statusText}`);
+
+        const image = await ImageProcessingService.process(Buffer.from(await response.arrayBuffer()));
+        if (!image) return false;
+
+        media.renditions = await this.uploadRenditions(storage, media.key, image);
+        media.blurhash = image.blurhash;
+        media.width = image.width;
+        media.height = image.height;
+        await media.save();
+
+        const ref = this.toRef(media);
+        const refFields = Object.entries({ renditions: ref.renditions, blurhash: ref.blurhash, width: ref.width, height: ref.height })
+            .filter(([, value]) => value !== undefined);
+        await Event.updateMany(
+            { 'media.mediaId': media._id },
+            { $set: Object.fromEntries(refFields.map(([field, value]) => [`media.$[ref].${field}`, value])) },
+            { arrayFilters: [{ 'ref.mediaId': media._id }] }
+        );
+        await User.updateMany(
+            { 'photo.mediaId': media._id },
+            { $set: Object.fromEntries(refFields.map(([field, value]) => [`photo.${field}`, value])) }
+        );
+        return true;
+    }
+
+    /**
+     * Store an inline Base64 value (data URI or bare Base64). Invalid or oversized content
+     * is reported as `error`; storage failures throw.
+     */
+    static async storeInline(
+        value: string,
+        defaultMime: string,
+        options: StoreOptions,
+        maxBytes?: number
+    ): Promise<{ media?: IMedia; error?: string }> {
+        const decoded = this.decode(value, defaultMime);
+        if (!decoded) {
+            return { error: 'Media must be a URL or a Base64 data URI' };
+        }
+        if (maxBytes !== undefined && decoded.buffer.length > maxBytes) {
+            return {
+                error: `Inline files are limited to ${Math.floor(maxBytes / (1024 * 1024))} MB; upload larger files with POST /api/upload`,
+            };
+        }
+        return { media: await this.store(decoded.buffer, decoded.mime, options) };
+    }
+
+    /**
+     * URLs for an event media field: URLs are kept, inline Base64 is uploaded
+     */
+    static async resolveEventField(
+        field: EventMediaField,
+        values: unknown,
+        eventId: string,
+        createdBy: string
+    ): Promise<{ urls?: string[]; error?: string }> {
+        if (values === undefined || values === null) return { urls: [] };
+        if (!Array.isArray(values)) return { error: `${field} must be an array` };
+
+        const target = EVENT_MEDIA_FIELDS[field];
+        const urls: string[] = [];
+        for (const value of values) {
+            if (this.isRemoteUrl(value)) {
+                urls.push((value as string).trim());
+                continue;
+            }
+            if (!this.isInlineBlob(value)) {
+                return { error: `${field} entries must be URLs or Base64 data URIs` };
+            }
+            const { media, error } = await this.storeInline(value, target.defaultMime, {
+                ownerType: 'event',
+                ownerId: eventId,
+                createdBy,
+                folder: target.folder,
+                eventId,
+                mediaType: target.mediaType,
+            }, config.media.maxInlineBytes);
+            if (!media) return { error: `${field}: ${error}` };
+            urls.push(media.url);
+        }
+        return { urls };
+    }
+
+    static toRef(media: IMedia, field?: string): IMediaRef {
+        return {
+            mediaId: media._id as mongoose.Types.ObjectId,
+            url: media.url,
+            mime: media.mime,
+            size: media.size,
+            ...(media.width ? { width: media.width, height: media.height } : {}),
+            ...(media.renditions?.length
+                ? { renditions: media.renditions.map(({ name, format, url, width, height, size }) => ({ name, format, url, width, height, size })) }
+                : {}),
+            ...(media.blurhash ? { blurhash: media.blurhash } : {}),
+            ...(field ? { field } : {}),
+        };
+    }
+
+    /**
+     * References for the stored files among an event's media URLs (external links have none)
+     */
+    static async eventRefs(fields: Partial<Record<EventMediaField, string[] | undefined>>): Promise<IMediaRef[]> {
+        const entries = (Object.keys(EVENT_MEDIA_FIELDS) as EventMediaField[])
+            .flatMap(field => (fields[field] || []).map(url => ({ field, url })));
+        if (entries.length === 0) return [];
+
+        const media = await Media.find({ url: { $in: entries.map(e => e.url) } });
+        const byUrl = new Map(media.map(m => [m.url, m]));
+        return entries
+            .filter(entry => byUrl.has(entry.url))
+            .map(entry => this.toRef(byUrl.get(entry.url)!, entry.field));
+    }
+
+    static async refFor(url?: string | null): Promise<IMediaRef | undefined> {
+        if (!url) return undefined;
+        const media = await Media.findOne({ url });
+        return media ? this.toRef(media) : undefined;
+    }
+
+    /**
+     * Time-limited read URL for a stored file. Available to the uploader, the user a profile
+     * image belongs to, and the organizer team of an event's media.
+     */
+    static async getSignedUrl(
+        mediaId: string,
+        userId: string
+    ): Promise<{ success: boolean; message: string; data?: { url: string; expiresAt: Date } }> {
+        const media = mongoose.Types.ObjectId.isValid(mediaId) ? await Media.findById(mediaId) : null;
+        if (!media) return { success: false, message: 'Media not found' };
+
+        const allowed =
+            media.createdBy?.toString() === userId ||
+            (media.ownerType === 'user' && media.ownerId?.toString() === userId) ||
+            (media.ownerType === 'event' && !!media.ownerId &&
+                await RbacService.hasPermission(userId, 'events:update', media.ownerId.toString()));
+        if (!allowed) return { success: false, message: 'Not allowed to access this file' };
+
+        const ttl = config.storage.signedUrlTtlSeconds;
+        const url = await getStorageProviderByName(media.provider || 's3').getSignedUrl(media.key, ttl);
+        return {
+            success: true,
+            message: 'Signed URL created',
+            data: { url, expiresAt: new Date(Date.now() + ttl * 1000) },
+        };
+    }
+
+    /**
+     * Delete the stored files of a deleted event and their records. Files uploaded for the
+     * event are deleted; generic uploads (POST /api/upload) only when no other event or
+     * profile still uses them. Anyone else's files (e.g. a profile photo listed in the
+     * event's photos) and URLs of other hosts are skipped.
+     */
+    static async remove(urls: string[], eventId: string): Promise<void> {
+        const unique = Array.from(new Set(urls.filter(url => typeof url === 'string' && url.length > 0)));
+        if (unique.length === 0) return;
+
+        const keys = new Map<StorageProvider, string[]>();
+        const add = (provider: StorageProvider, key: string) => keys.set(provider, [...(keys.get(provider) || []), key]);
+
+        const media = await Media.find({ url: { $in: unique } });
+        const known = new Set(media.map(m => m.url));
+        const uploads = media.filter(m => m.ownerType === 'upload').map(m => m.url);
+        const stillUsed = new Set<string>();
+        if (uploads.length > 0) {
+            const [events, users] = await Promise.all([
+                Event.find({
+                    _id: { $ne: eventId },
+                    $or: [{ photos: { $in: uploads } }, { videos: { $in: uploads } }, { pdfFiles: { $in: uploads } }],
+                }).select('photos videos pdfFiles'),
+                User.find({ photoUrl: { $in: uploads } }).select('photoUrl'),
+            ]);
+            events.forEach(e => [...e.photos, ...e.videos, ...(e.pdfFiles || [])].forEach(url => stillUsed.add(url)));
+            users.forEach(u => u.photoUrl && stillUsed.add(u.photoUrl));
+        }
+
+        const owned = media.filter(m =>
+            (m.ownerType === 'event' && m.ownerId?.toString() === eventId) ||
+            (m.ownerType === 'upload' && !stillUsed.has(m.url))
+        );
+        owned.forEach(m => {
+            const provider = getStorageProviderByName(m.provider || 's3');
+            add(provider, m.key);
+            (m.renditions || []).forEach(r => r.key && add(provider, r.key));
+        });
+        // Files uploaded before media records were kept: only those in the event's folder
+        const eventFolder = new RegExp(`(^|/)events/${eventId}/`);
+        let removed = owned.length;
+        for (const url of unique.filter(url => !known.has(url))) {
+            const stored = findStoredObject(url);
+            if (stored && eventFolder.test(stored.key)) {
+                add(stored.provider, stored.key);
+                removed++;
+            }
+        }
+
+        const skipped = unique.length - removed;
+        if (skipped > 0) {
+            console.log(`⏭️ [MEDIA] Kept ${skipped} file(s) of event ${eventId} it does not own or others still use`);
+        }
+
+        for (const [provider, providerKeys] of keys) {
+            await provider.deleteMany(providerKeys);
+        }
+        await Media.deleteMany({ _id: { $in: owned.map(m => m._id) } });
+    }
+}
@@ -1,8 +1,9 @@
 import mongoose from 'mongoose';
 import { User } from '../models/User';
-import EventMember from '../models/EventMember';
+import EventMember, { IEventMemberProfile } from '../models/EventMember';
+import { Event } from '../models/Event';
 import { EmbeddingService } from './embeddingService';
-import { SupabaseService } from './supabaseService';
+import { getVectorStore } from './vectorStore';
 
 /**
  * Service for adding members to events/communities with:
@@ -40,6 +41,11 @@ interface ExtractedMember {
     email?: string;
 }
 
+interface AddMemberOptions {
+    // The caller already counted this attendee in Event.goingCount (RSVP seat reservation)
+    seatReserved?: boolean;
+}
+
 interface AddMemberResult {
     success: boolean;
     userId: string;
@@ -224,7 +230,8 @@ export class MemberManagementService {
         eventId: string,
         organizerId: string,
         memberInput: MemberInput,
-        source: 'join' | 'manual' | 'excel' = 'manual'
+        source: 'join' | 'manual' | 'excel' = 'manual',
+        options: AddMemberOptions = {}
     ): Promise<AddMemberResult> {
         try {
             // Step 1: Extract and validate member data
@@ -278,6 +285,11 @@ export class MemberManagementService {
                 joinedAt: new Date(),
             });
 
+            // Confirmed attendee count shown in listings and checked against capacity
+            if (!options.seatReserved) {
+                await Event.updateOne({ _id: eventId }, { $inc: { goingCount: 1 } });
+            }
+
             console.log(`✅ Added member to event: ${memberData.name}`);
 
             // Step 5: Create and store embedding
@@ -287,7 +299,7 @@ export class MemberManagementService {
                 const embedding = await EmbeddingService.generateEmbedding(profileText);
 
                 if (embedding && embedding.length > 0) {
-                    await SupabaseService.storeMemberProfile(
+                    await getVectorStore().storeMemberProfile(
                         eventId,
                         userId,
                         profileText,
@@ -373,36 +385,42 @@ export class MemberManagementService {
     }
 
     /**
-     * Update member profile and regenerate embedding
+     * Update a member's profile for one event (see IEventMemberProfile) and regenerate the embedding
      */
     static async updateMemberProfile(
         eventId: string,
         userId: string,
-        updates: Partial<ExtractedMember>
+        updates: IEventMemberProfile
     ): Promise<{ success: boolean; message: string }> {
         try {
-            // Update user in database
-            const user = await User.findByIdAndUpdate(userId, updates, { new: true });
+            // Stored on the membership: the edit applies to this event, not to the user's account
+            const set = Object.fromEntries(Object.entries(updates).map(([field, value]) => [`profile.${field}`, value]));
+            const membership = await EventMember.findOneAndUpdate({ eventId, userId }, { $set: set }, { new: true });
+            if (!membership) {
+                return { success: false, message: 'User is not a member of this event' };
+            }
+            const user = await User.findById(userId).select('name company oneLiner phoneNumber');
             if (!user) {
                 return { success: false, message: 'User not found' };
             }
 
             // Delete old embedding
-            await SupabaseService.deleteMemberEmbedding(eventId, userId);
+            await getVectorStore().deleteMemberEmbedding(eventId, userId);
 
             // Create new embedding
+            const profile = membership.profile || {};
             const memberData: ExtractedMember = {
-                name: user.name,
-                company: user.company || '',
-                bio: user.oneLiner || '',
-                phoneNumber: user.phoneNumber,
+                name: profile.name || user.name,
+                company: profile.company ?? user.company ?? '',
+                bio: profile.oneLiner ?? user.oneLiner ?? '',
+                phoneNumber: profile.phoneNumber || user.phoneNumber,
             };
 
             const profileText = this.createMemberProfileText(memberData);
             const embedding = await EmbeddingService.generateEmbedding(profileText);
 
             if (embedding && embedding.length > 0) {
-                await SupabaseService.storeMemberProfile(eventId, userId, profileText, embedding, {
+                await getVectorStore().storeMemberProfile(eventId, userId, profileText, embedding, {
                     name: memberData.name,
                     company: memberData.company,
                     bio: memberData.bio,
@@ -426,10 +444,13 @@ export class MemberManagementService {
     ): Promise<{ success: boolean; message: string }> {
         try {
             // Remove from event_members
-            await EventMember.deleteOne({ eventId, userId });
+            const removed = await EventMember.deleteOne({ eventId, userId });
+            if (removed.deletedCount > 0) {
+                await Event.updateOne({ _id: eventId }, { $inc: { goingCount: -1 } });
+            }
 
             // Delete embedding
-            await SupabaseService.deleteMemberEmbedding(eventId, userId);
+            await getVectorStore().deleteMemberEmbedding(eventId, userId);
 
             return { success: true, message: 'Member removed successfully' };
         } catch (error) {
@@ -0,0 +1,256 @@
+import mongoose from 'mongoose';
+import { Permission } from '../config/roles';
+import { Event, IEvent, IModerationEntry, ModerationStatus } from '../models/Event';
+import { IJob } from '../models/Job';
+import { User } from '../models/User';
+import cacheService from './cacheService';
+import emailService from './emailService';
+import { JobQueueService } from './jobQueue/jobQueueService';
+import { RbacService } from './rbacService';
+import { TeamService } from './teamService';
+
+/**
+ * Event review lifecycle
+ *
+ * Organizers create events as drafts or submit them for review. Moderators approve them,
+ * request changes or reject them (with a reason); the organizer can resubmit after either.
+ * Editing an approved event sends it back for review. Any event can be archived and later
+ * restored as a draft. Every transition is recorded in `Event.moderationHistory` and the
+ * event team is notified. Series are moderated as a whole; their occurrences follow.
+ */
+
+export type ModerationAction =
+    | 'submit'
+    | 'withdraw'
+    | 'approve'
+    | 'request_changes'
+    | 'reject'
+    | 'archive'
+    | 'restore'
+    | 'edit';
+
+interface TransitionRule {
+    from: ModerationStatus[];
+    to: ModerationStatus;
+    permissions: Permission[];  // Any one of them allows the action
+    requiresReason?: boolean;
+}
+
+const ALL_STATUSES: ModerationStatus[] = ['draft', 'pending_review', 'approved', 'changes_requested', 'rejected'];
+
+const TRANSITIONS: Record<ModerationAction, TransitionRule> = {
+    submit: {
+        from: ['draft', 'changes_requested', 'rejected'],
+        to: 'pending_review',
+        permissions: ['events:update', 'events:edit_content'],
+    },
+    withdraw: { from: ['pending_review'], to: 'draft', permissions: ['events:update'] },
+    approve: { from: ['pending_review'], to: 'approved', permissions: ['events:moderate'] },
+    request_changes: {
+        from: ['pending_review', 'approved'],
+        to: 'changes_requested',
+        permissions: ['events:moderate'],
+        requiresReason: true,
+    },
+    reject: {
+        from: ['pending_review', 'changes_requested', 'approved'],
+        to: 'rejected',
+        permissions: ['events:moderate'],
+        requiresReason: true,
+    },
+    archive: { from: ALL_STATUSES, to: 'archived', permissions: ['events:update', 'events:moderate'] },
+    restore: { from: ['archived'], to: 'draft', permissions: ['events:update', 'events:moderate'] },
+    // Content edits put approved events back in the queue (applied by PUT /events/:id)
+    edit: { from: ['approved'], to: 'pending_review', permissions: ['events:edit_content'] },
+};
+
+// Decisions the organizer hears about by email as well
+const EMAILED_STATUSES: ModerationStatus[] = ['approved', 'changes_requested', 'rejected'];
+
+export const MODERATION_ACTIONS = Object.keys(TRANSITIONS).filter(a => a !== 'edit') as ModerationAction[];
+
+export interface ModerationResult {
+    success: boolean;
+    message: string;
+    forbidden?: boolean;
+    data?: IEvent;
+    job?: IJob;
+}
+
+export class ModerationService {
+    /**
+     * Current status; events from before the lifecycle only have `isVerified`
+     */
+    static getStatus(event: Pick<IEvent, 'moderationStatus' | 'isVerified'>): ModerationStatus {
+        return event.moderationStatus || (event.isVerified ? 'approved' : 'pending_review');
+    }
+
+    /**
+     * Filter matching events in any of the given statuses (legacy events included)
+     */
+    static statusFilter(statuses: ModerationStatus[]): Record<string, any> {
+        const legacy = [
+            ...(statuses.includes('approved') ? [true] : []),
+            ...(statuses.includes('pending_review') ? [false] : []),
+        ];
+        return {
+            $or: [
+                { moderationStatus: { $in: statuses } },
+                ...(legacy.length > 0
+                    ? [{ moderationStatus: { $exists: false }, isVerified: { $in: legacy } }]
+                    : []),
+            ],
+        };
+    }
+
+    static isAction(value: string): value is ModerationAction {
+        return (MODERATION_ACTIONS as string[]).includes(value);
+    }
+
+    static async canPerform(userId: string, action: ModerationAction, eventId: string): Promise<boolean> {
+        for (const permission of TRANSITIONS[action].permissions) {
+            if (await RbacService.hasPermission(userId, permission, eventId)) return true;
+        }
+        return false;
+    }
+
+    /**
+     * Initial status and history entry for a new event
+     */
+    static initialState(createdBy: string, draft: boolean): Pick<IEvent, 'moderationStatus' | 'moderationHistory'> {
+        const to: ModerationStatus = draft ? 'draft' : 'pending_review';
+        return {
+            moderationStatus: to,
+            moderationHistory: [{
+                from: null,
+                to,
+                action: draft ? 'create' : 'submit',
+                by: new mongoose.Types.ObjectId(createdBy),
+                at: new Date(),
+            }],
+        };
+    }
+
+    /**
+     * Move an event to the next state. Permissions are checked here, so callers only need
+     * authentication. Approving queues the semantic pipeline.
+     */
+    static async transition(
+        eventId: string,
+        action: ModerationAction,
+        actorId: string,
+        input: { reason?: string; note?: string } = {}
+    ): Promise<ModerationResult> {
+        const rule = TRANSITIONS[action];
+        const event = mongoose.Types.ObjectId.isValid(eventId) ? await Event.findById(eventId) : null;
+        if (!event) return { success: false, message: 'Event not found' };
+
+        if (event.seriesId) {
+            return { success: false, message: 'Occurrences are moderated through their series' };
+        }
+        if (!(await this.canPerform(actorId, action, eventId))) {
+            return {
+                success: false,
+                forbidden: true,
+                message: `Missing permission: ${rule.permissions.join(' or ')}`,
+            };
+        }
+
+        const from = this.getStatus(event);
+        if (!rule.from.includes(from)) {
+            return { success: false, message: `Cannot ${action.replace(/_/g, ' ')} an event that is ${from.replace(/_/g, ' ')}` };
+        }
+
+        const reason = input.reason?.trim() || undefined;
+        const note = input.note?.trim() || undefined;
+        if (rule.requiresReason && !reason) {
+            return { success: false, message: 'A reason is required' };
+        }
+
+        const entry: IModerationEntry = {
+            from,
+            to: rule.to,
+            action,
+            by: new mongoose.Types.ObjectId(actorId),
+            reason,
+            note,
+            at: new Date(),
+        };
+
+        // Guard against a concurrent transition from the same state
+        const updated = await Event.findOneAndUpdate(
+            { _id: event._id, ...this.statusFilter([from]) },
+            {
+                $set: { moderationStatus: rule.to, isVerified: rule.to === 'approved' },
+                $push: { moderationHistory: entry },
+            },
+            { new: true }
+        );
+        if (!updated) {
+            return { success: false, message: 'The event status changed in the meantime; reload and try again' };
+        }
+
+        // Occurrences become visible (or hidden) with their series
+        if (updated.isSeries) {
+            await Event.updateMany(
+                { seriesId: updated._id },
+                { $set: { moderationStatus: rule.to, isVerified: rule.to === 'approved' } }
+            );
+        }
+
+        let job: IJob | undefined;
+        if (rule.to === 'approved') {
+            job = await JobQueueService.enqueue('event.process', { eventId }, {
+                createdBy: actorId,
+                eventId,
+            });
+        }
+
+        if (from === 'approved' || rule.to === 'approved') {
+            await cacheService.invalidateEventLists();
+        }
+
+        console.log(`🛡️ [MODERATION] ${eventId}: ${from} → ${rule.to} (${action} by ${actorId})`);
+        await this.notify(updated, entry);
+
+        return { success: true, message: `Event is now ${rule.to.replace(/_/g, ' ')}`, data: updated, job };
+    }
+
+    /**
+     * Tell the team about a transition (and email the creator about review decisions)
+     */
+    private static async notify(event: IEvent, entry: IModerationEntry): Promise<void> {
+        const actorId = entry.by.toString();
+        await TeamService.notifyTeam(event, 'EVENT_STATUS_CHANGED', actorId, {
+            status: entry.to,
+            reason: entry.reason,
+        });
+
+        if (!EMAILED_STATUSES.includes(entry.to) || event.createdBy.toString() === actorId) return;
+
+        const creator = await User.findById(event.createdBy).select('email');
+        if (creator?.email) {
+            await emailService.sendModerationUpdate(creator.email, {
+                eventName: event.name,
+                status: entry.to,
+                reason: entry.reason,
+                note: entry.note,
+            });
+        }
+    }
+
+    /**
+     * Review history, newest first
+     */
+    static async getHistory(eventId: string) {
+        const event = await Event.findById(eventId)
+            .select('moderationStatus isVerified moderationHistory')
+            .populate('moderationHistory.by', 'name photoUrl');
+        if (!event) return null;
+
+        return {
+            status: this.getStatus(event),
+            history: [...event.moderationHistory].reverse(),
+        };
+    }
+}
@@ -0,0 +1,205 @@
+import mongoose from 'mongoose';
+
+/**
+ * Cursor pagination for list endpoints
+ *
+ * Contract: `?limit=N&cursor=<nextCursor from the previous page>`. Responses carry
+ * `nextCursor` (null on the last page). A cursor is opaque to clients: it encodes the sort
+ * key of the last item returned plus its _id as a tie-breaker, so pages stay stable while
+ * items are added or removed, unlike skip/limit.
+ *
+ * Database lists use a keyset filter on one sort field + _id (see `after`). Lists ranked in
+ * memory (vector search, merged participant lists) page through the ranked array with
+ * `pageInMemory`; their cursors carry a mode so a page is never continued with a
+ * different ranking.
+ */
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 100;
+
+export type SortDirection = 1 | -1;
+export type CursorValue = string | number | boolean | Date | mongoose.Types.ObjectId | null;
+
+export interface Cursor {
+    mode: string;
+    value: CursorValue;
+    id: string;
+}
+
+export interface PageParams {
+    limit: number;
+    cursor: Cursor | null;
+}
+
+export interface Page<T> {
+    items: T[];
+    nextCursor: string | null;
+}
+
+// JSON has no Date/ObjectId, so typed values are tagged
+const encodeValue = (value: CursorValue): unknown => {
+    if (value instanceof Date) return { d: value.toISOString() };
+    if (value instanceof mongoose.Types.ObjectId) return { o: value.toString() };
+    return value ?? null;
+};
+
+const decodeValue = (value: any): CursorValue => {
+    if (value && typeof value === 'object') {
+        if (typeof value.d === 'string') return new Date(value.d);
+        if (typeof value.o === 'string') return new mongoose.Types.ObjectId(value.o);
+        throw new Error('Unknown cursor value');
+    }
+    return value;
+};
+
+// Order used by MongoDB for the values we sort on: null/missing first, then numbers, strings, ids, booleans, dates
+const typeRank = (value: CursorValue): number => {
+    if (value === null || value === undefined) return 0;
+    if (typeof value === 'number') return 1;
+    if (typeof value === 'string') return 2;
+    if (value instanceof mongoose.Types.ObjectId) return 3;
+    if (typeof value === 'boolean') return 4;
+    return 5;
+};
+
+const compareValues = (a: CursorValue, b: CursorValue): number => {
+    const rank = typeRank(a) - typeRank(b);
+    if (rank !== 0 || a === null || a === undefined) return rank;
+    if (typeof a === 'string') return a.localeCompare(b as string);
+    if (typeof a === 'number') return a - (b as number);
+    if (a instanceof Date) return a.getTime() - (b as Date).getTime();
+    const [x, y] = [String(a), String(b)];
+    return x < y ? -1 : x > y ? 1 : 0;
+};
+
+export class PaginationService {
+    static encode(cursor: Cursor): string {
+        const payload = { m: cursor.mode, v: encodeValue(cursor.value), i: cursor.id };
+        return Buffer.from(JSON.stringify(payload)).toString('base64url');
+    }
+
+    static decode(token: string): Cursor | null {
+        try {
+            const payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+            if (typeof payload?.m !== 'string' || !('v' in payload)) return null;
+            if (typeof payload.i !== 'string' || !mongoose.Types.ObjectId.isValid(payload.i)) return null;
+            return { mode: payload.m, value: decodeValue(payload.v), id: payload.i };
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Read `limit` and `cursor` from the query string. `modes` lists the cursor modes the
+     * endpoint accepts; anything else (including a cursor from another endpoint) is rejected.
+     */
+    static parse(
+        query: Record<string, any>,
+        modes: string[],
+        options: { defaultLimit?: number; maxLimit?: number } = {}
+    ): { page?: PageParams; error?: string } {
+        const maxLimit = options.maxLimit || MAX_LIMIT;
+        let limit = options.defaultLimit || DEFAULT_LIMIT;
+        if (query.limit !== undefined) {
+            limit = Number(query.limit);
+            if (!Number.isInteger(limit) || limit < 1) {
+                return { error: 'limit must be a positive integer' };
+            }
+            limit = Math.min(limit, maxLimit);
+        }
+
+        if (query.cursor === undefined || query.cursor === '') {
+            return { page: { limit, cursor: null } };
+        }
+        const cursor = this.decode(String(query.cursor));
+        if (!cursor || !modes.includes(cursor.mode)) {
+            return { error: 'Invalid cursor' };
+        }
+        return { page: { limit, cursor } };
+    }
+
+    /**
+     * Sort for a keyset page: the field, then _id in the same direction
+     */
+    static sort(field: string, direction: SortDirection): Record<string, SortDirection> {
+        return { [field]: direction, _id: direction };
+    }
+
+    /**
+     * Filter for the items after the cursor in `sort(field, direction)` order.
+     * Missing values sort first ascending and last descending, as in MongoDB.
+     */
+    static after(field: string, direction: SortDirection, cursor: Cursor | null): Record<string, any> {
+        if (!cursor) return {};
+        const id = new mongoose.Types.ObjectId(cursor.id);
+        const op = direction === 1 ? '$gt' : '$lt';
+
+        if (cursor.value === null) {
+            return direction === 1
+                ? { $or: [{ [field]: null, _id: { $gt: id } }, { [field]: { $ne: null } }] }
+                : { [field]: null, _id: { $lt: id } };
+        }
+        return {
+            $or: [
+                { [field]: { [op]: cursor.value } },
+                { [field]: cursor.value, _id: { [op]: id } },
+                ...(direction === -1 ? [{ [field]: null }] : []),
+            ],
+        };
+    }
+
+    /**
+     * Combine an endpoint's filter with the keyset filter
+     */
+    static withCursor(filter: Record<string, any>, field: string, direction: SortDirection, cursor: Cursor | null): Record<string, any> {
+        return cursor ? { $and: [filter, this.after(field, direction, cursor)] } : filter;
+    }
+
+    /**
+     * Build a page from `limit + 1` fetched items; the extra one only signals that more exist
+     */
+    static toPage<T>(
+        items: T[],
+        limit: number,
+        mode: string,
+        key: (item: T) => { value: CursorValue; id: unknown }
+    ): Page<T> {
+        const pageItems = items.slice(0, limit);
+        const last = pageItems[pageItems.length - 1];
+        if (items.length <= limit || !last) return { items: pageItems, nextCursor: null };
+
+        const { value, id } = key(last);
+        return {
+            items: pageItems,
+            nextCursor: this.encode({ mode, value: value ?? null, id: String(id) }),
+        };
+    }
+
+    /**
+     * Page through a list ranked in memory. Items are ordered by `key` (then id) in
+     * `direction`, and the page starts after the cursor's position in that order.
+     */
+    static pageInMemory<T>(
+        items: T[],
+        page: PageParams,
+        mode: string,
+        direction: SortDirection,
+        key: (item: T) => { value: CursorValue; id: unknown }
+    ): Page<T> {
+        const keyed = items.map(item => {
+            const { value, id } = key(item);
+            return { item, value: value ?? null, id: String(id) };
+        });
+        const compare = (a: { value: CursorValue; id: string }, b: { value: CursorValue; id: string }) =>
+            direction * (compareValues(a.value, b.value) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+        keyed.sort(compare);
+        const cursor = page.cursor;
+        const remaining = cursor
+            ? keyed.filter(entry => compare(entry, { value: cursor.value, id: cursor.id }) > 0)
+            : keyed;
+
+        const result = this.toPage(remaining, page.limit, mode, entry => entry);
+        return { items: result.items.map(entry => entry.item), nextCursor: result.nextCursor };
+    }
+}
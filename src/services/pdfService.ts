@@ -1,4 +1,10 @@
 import pdfParse from "pdf-parse";
+import { findStoredObject } from "./storage";
+
+export interface PdfPageText {
+    pageNumber: number;
+    text: string;
+}
 
 // Simple wrapper for pdf text extraction
 export class PdfService {
@@ -26,7 +32,10 @@ export class PdfService {
     private static async getPdfBuffer(input: string): Promise<Buffer> {
         if (input.startsWith('http')) {
             console.log('   - Fetching PDF from URL...');
-            const response = await fetch(input);
+            // Our own files are read through a signed URL, so private buckets work too
+            const stored = findStoredObject(input);
+            const url = stored ? await stored.provider.getSignedUrl(stored.key, 300) : input;
+            const response = await fetch(url);
             if (!response.ok) throw new Error(`Failed to fetch PDF from URL: ${response.statusText}`);
             const arrayBuffer = await response.arrayBuffer();
             return Buffer.from(arrayBuffer);
@@ -113,6 +122,51 @@ export class PdfService {
         }
     }
 
+    /**
+     * Extract text page by page (used for chunking with page metadata)
+     * @param pdfInput - PDF URL
+     * @returns Cleaned text per page, empty pages omitted
+     */
+    static async extractPagesFromPdf(pdfInput: string): Promise<PdfPageText[]> {
+        const pdfBuffer = await this.getPdfBuffer(pdfInput);
+
+        const header = pdfBuffer.toString('utf8', 0, 5);
+        if (!header.startsWith('%PDF')) {
+            throw new Error('Invalid PDF format - header does not start with %PDF');
+        }
+
+        const parserLib: any = pdfParse;
+        const parse = typeof parserLib === 'function' ? parserLib : parserLib.default;
+
+        // No per-page render hook (v2 class API) - treat the document as a single page
+        if (typeof parse !== 'function') {
+            return [{ pageNumber: 1, text: await this.extractTextFromPdf(pdfInput) }];
+        }
+
+        const pages: PdfPageText[] = [];
+        await parse(pdfBuffer, {
+            // Same line-joining as pdf-parse's default renderer, but keeps each page separate
+            pagerender: async (pageData: any) => {
+                const content = await pageData.getTextContent({
+                    normalizeWhitespace: false,
+                    disableCombineTextItems: false,
+                });
+
+                let lastY: number | undefined;
+                let text = '';
+                for (const item of content.items) {
+                    text += lastY === undefined || lastY === item.transform[5] ? item.str : `\n${item.str}`;
+                    lastY = item.transform[5];
+                }
+
+                pages.push({ pageNumber: pageData.pageNumber, text: PdfService.cleanText(text) });
+                return text;
+            },
+        });
+
+        return pages.filter(page => page.text.length > 0);
+    }
+
     /**
      * Cleans extracted PDF text by removing page numbers, headers, and excessive whitespace.
      */
@@ -1,9 +1,9 @@
 import QRCode from "qrcode";
-import { uploadToS3, deleteFromS3 } from "./s3Service";
+import { buildStorageKey, findStoredObject, getStorageProvider } from "./storage";
 
 /**
  * QR Code Service for generating and managing QR codes for network codes
- * QR codes are generated as Base64 data URLs and stored in MongoDB
+ * QR codes are generated as PNGs and kept in object storage (see ./storage)
  */
 export class QRCodeService {
   /**
@@ -42,15 +42,15 @@ export class QRCodeService {
         width: 512,
       });
 
-      // Upload to S3
-      console.log(`📡 [QR-SERVICE] Uploading QR code for ${codeId} to S3...`);
+      // Upload to object storage
+      console.log(`📡 [QR-SERVICE] Uploading QR code for ${codeId}...`);
       const matches = qrCodeDataURL.match(/^data:image\/png;base64,(.+)$/);
       if (matches && matches[1]) {
         const buffer = Buffer.from(matches[1], 'base64');
         const fileName = `qrcode_${codeId}_${Date.now()}.png`;
-        const s3Url = await uploadToS3(buffer, fileName, 'image/png', 'network-codes');
-        console.log(`✅ [QR-SERVICE] QR code S3 URL: ${s3Url}`);
-        return s3Url;
+        const { url } = await getStorageProvider().upload(buffer, buildStorageKey(fileName, 'network-codes'), 'image/png');
+        console.log(`✅ [QR-SERVICE] QR code URL: ${url}`);
+        return url;
       }
 
       return qrCodeDataURL; // Fallback to Base64 if regex fails
@@ -61,14 +61,16 @@ export class QRCodeService {
   }
 
   /**
-   * Delete QR code from S3
+   * Delete QR code from object storage
    */
   static async deleteQRCode(qrCodeUrl: string): Promise<void> {
     if (!qrCodeUrl || qrCodeUrl.startsWith('data:')) return; // Ignore base64
 
     try {
-      await deleteFromS3(qrCodeUrl);
-      console.log(`🗑️ [QR-SERVICE] Deleted QR code from S3: ${qrCodeUrl}`);
+      const stored = findStoredObject(qrCodeUrl);
+      if (!stored) return;
+      await stored.provider.delete(stored.key);
+      console.log(`🗑️ [QR-SERVICE] Deleted QR code: ${qrCodeUrl}`);
     } catch (error) {
       console.error("Error deleting QR code:", error);
     }
@@ -90,6 +92,23 @@ export class QRCodeService {
     return await this.generateQRCode(codeId, networkCodeData);
   }
 
+  /**
+   * Generate a check-in pass QR code
+   * Returned as a data URL and never uploaded: passes are personal and can be revoked.
+   */
+  static async generateCheckInPass(token: string): Promise<string> {
+    try {
+      return await QRCode.toDataURL(token, {
+        errorCorrectionLevel: "Q",
+        margin: 2,
+        width: 512,
+      });
+    } catch (error) {
+      console.error("Error generating check-in pass QR code:", error);
+      throw new Error("Failed to generate QR code");
+    }
+  }
+
   /**
    * Generate QR code for simple text/URL (utility method)
    */
@@ -104,12 +123,13 @@ export class QRCodeService {
         width: 512,
       });
 
-      // Upload to S3
+      // Upload to object storage
       const matches = qrCodeDataURL.match(/^data:image\/png;base64,(.+)$/);
       if (matches && matches[1]) {
         const buffer = Buffer.from(matches[1], 'base64');
         const fileName = `qrcode_simple_${Date.now()}.png`;
-        return await uploadToS3(buffer, fileName, 'image/png', 'network-codes');
+        const { url } = await getStorageProvider().upload(buffer, buildStorageKey(fileName, 'network-codes'), 'image/png');
+        return url;
       }
 
       return qrCodeDataURL;
@@ -0,0 +1,180 @@
+import mongoose from "mongoose";
+import { User } from "../models/User";
+import { Event } from "../models/Event";
+import {
+    EVENT_SCOPED_PERMISSIONS,
+    EventRole,
+    Permission,
+    PlatformRole,
+    Role,
+    ROLE_PERMISSIONS,
+    isEventRole,
+    isPlatformRole,
+} from "../config/roles";
+
+/**
+ * Role-based access control
+ * Resolves platform and event roles for a user and checks permissions against them.
+ */
+export class RbacService {
+    /**
+     * Collect the permissions granted by a set of roles
+     */
+    static getPermissionsForRoles(roles: Role[]): Permission[] {
+        const permissions = new Set<Permission>();
+        roles.forEach(role => {
+            (ROLE_PERMISSIONS[role] || []).forEach(p => permissions.add(p));
+        });
+        return Array.from(permissions);
+    }
+
+    /**
+     * Get a user's platform roles
+     */
+    static async getPlatformRoles(userId: string): Promise<PlatformRole[]> {
+        const user = await User.findById(userId).select("accessRoles");
+        return user?.accessRoles?.length ? user.accessRoles : ["member"];
+    }
+
+    /**
+     * Get a user's roles on an event.
+     * The event creator is always treated as its organizer, even without a persisted grant.
+     * Returns null when the event does not exist.
+     */
+    static async getEventRoles(userId: string, eventId: string): Promise<EventRole[] | null> {
+        if (!mongoose.Types.ObjectId.isValid(eventId)) return null;
+
+        const [event, user] = await Promise.all([
+            Event.findById(eventId).select("createdBy seriesId"),
+            User.findById(userId).select("eventRoles"),
+        ]);
+        if (!event) return null;
+
+        // Roles on a series apply to each of its occurrences
+        const scopeIds = [eventId, event.seriesId?.toString()].filter(Boolean);
+
+        const roles = new Set<EventRole>();
+        if (event.createdBy.toString() === userId) {
+            roles.add("organizer");
+        }
+        (user?.eventRoles || [])
+            .filter(grant => scopeIds.includes(grant.eventId.toString()))
+            .forEach(grant => roles.add(grant.role));
+
+        return Array.from(roles);
+    }
+
+    /**
+     * Check whether a user holds a permission, optionally on a specific event.
+     * Platform roles apply to every event; event roles only to their own event
+     * (or, for a series, to its occurrences).
+     */
+    static async hasPermission(userId: string, permission: Permission, eventId?: string): Promise<boolean> {
+        const platformRoles = await this.getPlatformRoles(userId);
+        if (this.getPermissionsForRoles(platformRoles).includes(permission)) {
+            return true;
+        }
+
+        if (!eventId || !EVENT_SCOPED_PERMISSIONS.includes(permission)) {
+            return false;
+        }
+
+        const eventRoles = await this.getEventRoles(userId, eventId);
+        return !!eventRoles && this.getPermissionsForRoles(eventRoles).includes(permission);
+    }
+
+    /**
+     * Grant a role to a user. Event roles require an eventId.
+     */
+    static async grantRole(
+        userId: string,
+        role: Role,
+        grantedBy?: string,
+        eventId?: string
+    ): Promise<{ success: boolean; message: string }> {
+        if (isPlatformRole(role)) {
+            const result = await User.updateOne({ _id: userId }, { $addToSet: { accessRoles: role } });
+            if (result.matchedCount === 0) return { success: false, message: "User not found" };
+            console.log(`🛡️ [RBAC] Granted '${role}' to ${userId}`);
+            return { success: true, message: `Role '${role}' granted` };
+        }
+
+        if (!isEventRole(role) || !eventId) {
+            return { success: false, message: "Event roles require an eventId" };
+        }
+
+        const user = await User.findById(userId).select("eventRoles");
+        if (!user) return { success: false, message: "User not found" };
+
+        const alreadyGranted = user.eventRoles.some(
+            grant => grant.eventId.toString() === eventId && grant.role === role
+        );
+        if (!alreadyGranted) {
+            user.eventRoles.push({
+                eventId: new mongoose.Types.ObjectId(eventId),
+                role,
+                grantedBy: grantedBy ? new mongoose.Types.ObjectId(grantedBy) : undefined,
+                grantedAt: new Date(),
+            });
+            await user.save();
+        }
+
+        console.log(`🛡️ [RBAC] Granted '${role}' on event ${eventId} to ${userId}`);
+        return { success: true, message: `Role '${role}' granted` };
+    }
+
+    /**
+     * Revoke a role from a user. Event roles require an eventId.
+     */
+    static async revokeRole(
+        userId: string,
+        role: Role,
+        eventId?: string
+    ): Promise<{ success: boolean; message: string }> {
+        if (isPlatformRole(role)) {
+            if (role === "member") {
+                return { success: false, message: "The 'member' role cannot be revoked" };
+            }
+            const result = await User.updateOne({ _id: userId }, { $pull: { accessRoles: role } });
+            if (result.matchedCount === 0) return { success: false, message: "User not found" };
+            console.log(`🛡️ [RBAC] Revoked '${role}' from ${userId}`);
+            return { success: true, message: `Role '${role}' revoked` };
+        }
+
+        if (!isEventRole(role) || !eventId) {
+            return { success: false, message: "Event roles require an eventId" };
+        }
+
+        const result = await User.updateOne(
+            { _id: userId },
+            { $pull: { eventRoles: { eventId: new mongoose.Types.ObjectId(eventId), role } } }
+        );
+        if (result.matchedCount === 0) return { success: false, message: "User not found" };
+
+        console.log(`🛡️ [RBAC] Revoked '${role}' on event ${eventId} from ${userId}`);
+        return { success: true, message: `Role '${role}' revoked` };
+    }
+
+    /**
+     * Remove every event-scoped grant for an event (used when the event is deleted)
+     */
+    static async revokeAllEventRoles(eventId: string): Promise<void> {
+        await User.updateMany(
+            { "eventRoles.eventId": eventId },
+            { $pull: { eventRoles: { eventId: new mongoose.Types.ObjectId(eventId) } } }
+        );
+    }
+
+    /**
+     * Promote the configured bootstrap admins (ADMIN_EMAILS) at startup
+     */
+    static async ensureBootstrapAdmins(emails: string[]): Promise<void> {
+        if (emails.length === 0) return;
+
+        const result = await User.updateMany(
+            { email: { $in: emails.map(e => e.toLowerCase()) } },
+            { $addToSet: { accessRoles: "admin" } }
+        );
+        console.log(`🛡️ [RBAC] Bootstrap admins ensured (${result.modifiedCount} promoted)`);
+    }
+}
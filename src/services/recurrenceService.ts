@@ -0,0 +1,515 @@
+import mongoose from 'mongoose';
+import config from '../config';
+import { Event, IEvent, IRecurrenceRule, RecurrenceFrequency } from '../models/Event';
+import EventMember from '../models/EventMember';
+import { Job } from '../models/Job';
+import { JobQueueService } from './jobQueue/jobQueueService';
+import cacheService from './cacheService';
+import { CalendarService } from './calendarService';
+import { GeoService } from './geoService';
+
+/**
+ * Recurring events
+ *
+ * A series is a parent Event (`isSeries: true`) holding the recurrence rule and the
+ * shared content (description, tags, PDFs, embeddings). Occurrences are Events with
+ * `seriesId` + `occurrenceDate`: they copy the shared fields but keep their own
+ * date, attendees and EventMember records. Occurrences are materialized up to
+ * `config.series.horizonDays` ahead by the `series.generate` job, which re-runs daily.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Safety cap on rule iterations (weeks or months)
+const MAX_PERIODS = 1000;
+
+// Fields every occurrence inherits from its series
+const SHARED_FIELDS = [
+    'name',
+    'headline',
+    'description',
+    'location',
+    'geo',
+    'geoSource',
+    'photos',
+    'videos',
+    'tags',
+    'pdfFiles',
+    'media',
+    'attachments',
+    'isEvent',
+    'isCommunity',
+    'isVerified',
+    'moderationStatus',
+    'isMembersPublic',
+    'capacity',
+    'createdBy',
+    'metadataEmbedding',
+    'eventEmbedding',
+] as const;
+
+export type RecurrenceInput = Partial<IRecurrenceRule> | string;
+
+export interface GenerateResult {
+    created: number;
+    updated: number;
+    cancelled: number;
+    removed: number;
+    ended: boolean; // No occurrences left after the horizon
+}
+
+const dayKey = (date: Date): string => new Date(date).toISOString().slice(0, 10);
+
+const wallClockFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Wall-clock time of an instant in a time zone, as a UTC timestamp ("naive" local time)
+ */
+const toWallClock = (instant: number, timeZone: string): number => {
+    if (timeZone === 'UTC') return instant;
+
+    let formatter = wallClockFormatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric',
+        });
+        wallClockFormatters.set(timeZone, formatter);
+    }
+    const parts: Record<string, string> = {};
+    for (const part of formatter.formatToParts(instant)) parts[part.type] = part.value;
+
+    const ms = ((instant % 1000) + 1000) % 1000;
+    return Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second) + ms;
+};
+
+/**
+ * Instant at which the clock in a time zone shows `wallClock`.
+ * Times skipped by a DST change move forward by the change; repeated times resolve to the later one.
+ */
+const fromWallClock = (wallClock: number, timeZone: string): number => {
+    const offset = toWallClock(wallClock, timeZone) - wallClock;
+    const instant = wallClock - offset;
+    const offsetAtInstant = toWallClock(instant, timeZone) - instant;
+    return offsetAtInstant === offset ? instant : wallClock - offsetAtInstant;
+};
+
+// Local date of an occurrence in the series' time zone
+const localDayKey = (date: Date, timeZone: string): string => dayKey(new Date(toWallClock(date.getTime(), timeZone)));
+
+/**
+ * Whether an exception/override date refers to this occurrence: the exact start,
+ * or a date-only value (e.g. "2026-12-25") naming its local day
+ */
+const matchesOccurrence = (date: Date, slot: Date, timeZone: string): boolean =>
+    new Date(date).getTime() === slot.getTime() || dayKey(date) === localDayKey(slot, timeZone);
+
+const normalizeTimeZone = (timeZone: string): string | null => {
+    try {
+        return new Intl.DateTimeFormat('en-US', { timeZone }).resolvedOptions().timeZone;
+    } catch {
+        return null;
+    }
+};
+
+const parseRRuleDate = (value: string): Date | null => {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+    if (!match) return null;
+    const [, y, m, d, hh = '0', mm = '0', ss = '0'] = match;
+    return new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss));
+};
+
+export class RecurrenceService {
+    /** Delay between roll-forward runs of the series.generate job */
+    static readonly ROLL_FORWARD_DELAY_MS = DAY_MS;
+
+    /**
+     * Normalize a rule from the API. Accepts the object form or an RRULE string,
+     * e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20261231T000000Z" or "FREQ=MONTHLY;BYDAY=-1FR".
+     * The series' IANA time zone goes in `tzid` (or a TZID= part of the string); it defaults to UTC.
+     * Rules the expansion cannot honour exactly are rejected rather than approximated.
+     */
+    static parseRule(input: RecurrenceInput): { rule?: IRecurrenceRule; error?: string } {
+        let raw: Partial<IRecurrenceRule>;
+
+        if (typeof input === 'string') {
+            raw = {};
+            for (const part of input.replace(/^RRULE:/i, '').split(';')) {
+                const [key, value = ''] = part.split('=').map(s => s.trim());
+                switch (key.toUpperCase()) {
+                    case 'FREQ':
+                        raw.freq = value.toUpperCase() as RecurrenceFrequency;
+                        break;
+                    case 'INTERVAL':
+                        raw.interval = Number(value);
+                        break;
+                    case 'BYDAY': {
+                        const days: number[] = [];
+                        const positions: number[] = [];
+                        for (const code of value.toUpperCase().split(',')) {
+                            const match = /^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/.exec(code);
+                            if (!match) return { error: `Invalid BYDAY: ${code}` };
+                            if (match[1]) positions.push(parseInt(match[1], 10));
+                            days.push(WEEKDAY_CODES.indexOf(match[2]));
+                        }
+                        // Only a single positioned weekday is supported, e.g. BYDAY=-1FR (not 1MO,-1FR or MO,1FR)
+                        if (positions.length && days.length > 1) {
+                            return { error: 'BYDAY with a position supports a single weekday (e.g. BYDAY=-1FR)' };
+                        }
+                        if (positions.length) {
+                            if (raw.bySetPos !== undefined) return { error: 'Use either BYDAY=-1FR or BYSETPOS, not both' };
+                            raw.bySetPos = positions[0];
+                        }
+                        raw.byWeekday = days;
+                        break;
+                    }
+                    case 'BYMONTHDAY':
+                        raw.byMonthDay = Number(value);
+                        break;
+                    case 'BYSETPOS':
+                        if (raw.bySetPos !== undefined) return { error: 'Use either BYDAY=-1FR or BYSETPOS, not both' };
+                        raw.bySetPos = Number(value);
+                        break;
+                    case 'TZID':
+                        raw.tzid = value;
+                        break;
+                    case 'UNTIL':
+                        raw.until = parseRRuleDate(value) || undefined;
+                        if (!raw.until) return { error: `Invalid UNTIL: ${value}` };
+                        break;
+                    case 'COUNT':
+                        raw.count = Number(value);
+                        break;
+                    case '':
+                        break;
+                    default:
+                        return { error: `Unsupported RRULE part: ${key}` };
+                }
+            }
+        } else if (input && typeof input === 'object') {
+            raw = input;
+        } else {
+            return { error: 'recurrence must be an object or an RRULE string' };
+        }
+
+        if (raw.freq !== 'WEEKLY' && raw.freq !== 'MONTHLY') {
+            return { error: 'freq must be WEEKLY or MONTHLY' };
+        }
+
+        const interval = raw.interval === undefined ? 1 : Number(raw.interval);
+        if (!Number.isInteger(interval) || interval < 1) {
+            return { error: 'interval must be a positive integer' };
+        }
+
+        const byWeekday = raw.byWeekday?.map(Number);
+        if (byWeekday?.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+            return { error: 'byWeekday must contain days 0-6 (0 = Sunday)' };
+        }
+
+        if (raw.byMonthDay !== undefined) {
+            const byMonthDay = Number(raw.byMonthDay);
+            if (!Number.isInteger(byMonthDay) || byMonthDay < 1 || byMonthDay > 31) {
+                return { error: 'byMonthDay must be a single day between 1 and 31' };
+            }
+            if (raw.freq !== 'MONTHLY') {
+                return { error: 'byMonthDay requires a MONTHLY rule' };
+            }
+            if (byWeekday?.length) {
+                return { error: 'A MONTHLY rule takes either byMonthDay or byWeekday, not both' };
+            }
+        }
+
+        if (raw.bySetPos !== undefined) {
+            if (raw.freq !== 'MONTHLY' || !byWeekday?.length) {
+                return { error: 'bySetPos requires a MONTHLY rule with byWeekday' };
+            }
+            if (![-1, 1, 2, 3, 4, 5].includes(Number(raw.bySetPos))) {
+                return { error: 'bySetPos must be 1-5 or -1 (last)' };
+            }
+        }
+
+        // Monthly weekdays need a position ("the last Friday"); "every Monday" is a WEEKLY rule
+        if (raw.freq === 'MONTHLY' && byWeekday?.length) {
+            if (raw.bySetPos === undefined) {
+                return { error: 'A MONTHLY rule with byWeekday needs bySetPos (e.g. BYDAY=-1FR); use WEEKLY for every week' };
+            }
+            if (new Set(byWeekday).size > 1) {
+                return { error: 'bySetPos supports a single weekday' };
+            }
+        }
+
+        let tzid: string | undefined;
+        if (raw.tzid !== undefined && raw.tzid !== null && raw.tzid !== '') {
+            tzid = normalizeTimeZone(String(raw.tzid)) || undefined;
+            if (!tzid) {
+                return { error: `Unknown time zone: ${raw.tzid}` };
+            }
+        }
+
+        if (raw.count !== undefined && (!Number.isInteger(Number(raw.count)) || raw.count < 1)) {
+            return { error: 'count must be a positive integer' };
+        }
+
+        const until = raw.until ? new Date(raw.until) : undefined;
+        if (until && isNaN(until.getTime())) {
+            return { error: 'until must be a valid date' };
+        }
+
+        return {
+            rule: {
+                freq: raw.freq,
+                interval,
+                byWeekday: byWeekday?.length ? Array.from(new Set(byWeekday)).sort() : undefined,
+                byMonthDay: raw.byMonthDay !== undefined ? Number(raw.byMonthDay) : undefined,
+                bySetPos: raw.bySetPos !== undefined ? Number(raw.bySetPos) : undefined,
+                until,
+                count: raw.count !== undefined ? Number(raw.count) : undefined,
+                tzid,
+                exceptions: (raw.exceptions || []).map(d => new Date(d)).filter(d => !isNaN(d.getTime())),
+                overrides: (raw.overrides || [])
+                    .filter(o => o && o.date && !isNaN(new Date(o.date).getTime()))
+                    .map(o => ({
+                        date: new Date(o.date),
+                        dateTime: o.dateTime ? new Date(o.dateTime) : undefined,
+                        location: o.location,
+                        headline: o.headline,
+                    })),
+            },
+        };
+    }
+
+    /**
+     * Expand a rule into occurrence start times within [from, to].
+     * Days and the time of day follow the series' local time (`tzid`, UTC when unset),
+     * so a 7pm event stays at 7pm across DST changes.
+     * `count` is applied from the series start; exceptions still use up the count (as in RFC 5545).
+     */
+    static expand(rule: IRecurrenceRule, start: Date, from: Date, to: Date): Date[] {
+        const timeZone = rule.tzid || 'UTC';
+        const startMs = start.getTime();
+        const end = rule.until && rule.until < to ? rule.until : to;
+        // Series start as local wall-clock time; dates below are computed on it, then converted back
+        const localStart = new Date(toWallClock(startMs, timeZone));
+        const timeOfDay = localStart.getTime()
+            - Date.UTC(localStart.getUTCFullYear(), localStart.getUTCMonth(), localStart.getUTCDate());
+        const localSlot = (wallClock: number): Date => new Date(fromWallClock(wallClock, timeZone));
+        const exceptions = rule.exceptions || [];
+        const interval = rule.interval || 1;
+
+        const results: Date[] = [];
+        let generated = 0;
+
+        // Returns false once the rule is exhausted
+        const accept = (slot: Date): boolean => {
+            if (slot.getTime() < startMs) return true;
+            if (slot > end) return false;
+            if (rule.count && generated >= rule.count) return false;
+            generated++;
+            if (slot >= from && !exceptions.some(date => matchesOccurrence(date, slot, timeZone))) {
+                results.push(slot);
+            }
+            return true;
+        };
+
+        if (rule.freq === 'WEEKLY') {
+            const weekdays = rule.byWeekday?.length ? rule.byWeekday : [localStart.getUTCDay()];
+            const weekStart = Date.UTC(
+                localStart.getUTCFullYear(), localStart.getUTCMonth(), localStart.getUTCDate() - localStart.getUTCDay()
+            );
+
+            for (let period = 0; period < MAX_PERIODS; period++) {
+                const weekOffset = period * interval * 7;
+                for (const weekday of weekdays) {
+                    const slot = localSlot(weekStart + (weekOffset + weekday) * DAY_MS + timeOfDay);
+                    if (!accept(slot)) return results;
+                }
+            }
+            return results;
+        }
+
+        // MONTHLY
+        for (let period = 0; period < MAX_PERIODS; period++) {
+            const monthIndex = localStart.getUTCMonth() + period * interval;
+            const year = localStart.getUTCFullYear() + Math.floor(monthIndex / 12);
+            const month = monthIndex % 12;
+            const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+            let day: number | null;
+            if (rule.bySetPos !== undefined && rule.byWeekday?.length) {
+                day = this.nthWeekdayOfMonth(year, month, rule.byWeekday[0], rule.bySetPos, daysInMonth);
+            } else {
+                day = rule.byMonthDay ?? localStart.getUTCDate();
+                if (day > daysInMonth) day = null; // e.g. the 31st in a 30-day month is skipped
+            }
+            if (day === null) continue;
+
+            const slot = localSlot(Date.UTC(year, month, day) + timeOfDay);
+            if (!accept(slot)) return results;
+        }
+        return results;
+    }
+
+    private static nthWeekdayOfMonth(year: number, month: number, weekday: number, setPos: number, daysInMonth: number): number | null {
+        if (setPos === -1) {
+            const lastWeekday = new Date(Date.UTC(year, month, daysInMonth)).getUTCDay();
+            return daysInMonth - ((lastWeekday - weekday + 7) % 7);
+        }
+        const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+        const day = 1 + ((weekday - firstWeekday + 7) % 7) + (setPos - 1) * 7;
+        return day <= daysInMonth ? day : null;
+    }
+
+    /**
+     * Create/refresh upcoming occurrences of a series within the horizon.
+     * Future occurrences get the series' current shared content; ones no longer in the
+     * rule are deleted, or marked cancelled if people already joined. Past occurrences are left alone.
+     */
+    static async generateOccurrences(seriesId: string): Promise<GenerateResult> {
+        const result: GenerateResult = { created: 0, updated: 0, cancelled: 0, removed: 0, ended: true };
+
+        const series = await Event.findById(seriesId);
+        if (!series || !series.isSeries || !series.recurrence || !series.dateTime) {
+            return result;
+        }
+
+        const now = new Date();
+        const horizon = new Date(now.getTime() + config.series.horizonDays * DAY_MS);
+        const rule = series.recurrence;
+
+        const slots = this.expand(rule, series.dateTime, now, horizon).slice(0, config.series.maxOccurrences);
+        // Anything left after the horizon means the daily roll-forward must continue
+        result.ended = this.expand(rule, series.dateTime, horizon, new Date(horizon.getTime() + 400 * DAY_MS)).length === 0;
+
+        const shared: Record<string, any> = {};
+        for (const field of SHARED_FIELDS) {
+            shared[field] = series.get(field);
+        }
+
+        const slotKeys = new Set(slots.map(slot => slot.getTime()));
+        for (const slot of slots) {
+            const override = (rule.overrides || []).find(o => matchesOccurrence(o.date, slot, rule.tzid || 'UTC'));
+
+            const values = {
+                ...shared,
+                dateTime: override?.dateTime || slot,
+                location: override?.location || series.location,
+                ...(override?.location ? GeoService.resolve(override.location) : {}),
+                headline: override?.headline || series.headline,
+                isCancelled: false,
+            };
+            const existing = await Event.findOneAndUpdate(
+                { seriesId: series._id, occurrenceDate: slot },
+                {
+                    $set: values,
+                    $setOnInsert: { attendees: [], isSeries: false },
+                },
+                { upsert: true, new: false }
+            );
+            if (existing) {
+                result.updated++;
+                if (CalendarService.hasCalendarChanges(existing, values)) {
+                    await CalendarService.bumpSequence(existing._id as mongoose.Types.ObjectId);
+                }
+            } else {
+                result.created++;
+            }
+        }
+
+        // Occurrences dropped from the rule (exceptions, shorter count/until, changed days)
+        const upcoming = await Event.find({
+            seriesId: series._id,
+            occurrenceDate: { $gte: now },
+            isCancelled: { $ne: true },
+        }).select('occurrenceDate attendees');
+
+        for (const occurrence of upcoming) {
+            if (slotKeys.has(occurrence.occurrenceDate!.getTime())) continue;
+
+            const hasMembers = occurrence.attendees.length > 0
+                || await EventMember.exists({ eventId: occurrence._id });
+            if (hasMembers) {
+                await Event.updateOne({ _id: occurrence._id }, { $set: { isCancelled: true }, $inc: { calendarSequence: 1 } });
+                result.cancelled++;
+            } else {
+                await Event.deleteOne({ _id: occurrence._id });
+                result.removed++;
+            }
+        }
+
+        console.log(`🔁 [SERIES] ${series.name}: ${result.created} created, ${result.updated} updated, ${result.cancelled} cancelled, ${result.removed} removed`);
+
+        if (result.created || result.cancelled || result.removed || result.updated) {
+            await cacheService.invalidateEventLists();
+        }
+
+        return result;
+    }
+
+    /**
+     * Queue occurrence generation for a series unless a run is already pending
+     */
+    static async scheduleGeneration(seriesId: string, delayMs: number = 0, createdBy?: string): Promise<void> {
+        const pending = await Job.exists({
+            type: 'series.generate',
+            'payload.seriesId': seriesId,
+            status: 'pending',
+        });
+        if (pending) return;
+
+        await JobQueueService.enqueue('series.generate', { seriesId }, { delayMs, createdBy, eventId: seriesId });
+    }
+
+    /**
+     * Occurrences of a series between `from` (default: now) and `to`, soonest first
+     */
+    static async getOccurrences(seriesId: string, from: Date = new Date(), to?: Date): Promise<IEvent[]> {
+        const dateTime: Record<string, Date> = { $gte: from };
+        if (to) dateTime.$lte = to;
+
+        return Event.find({ seriesId: new mongoose.Types.ObjectId(seriesId), dateTime })
+            .select('-pdfChunks -metadataEmbedding -eventEmbedding -pdfExtractedTexts')
+            .sort({ dateTime: 1 });
+    }
+
+    /**
+     * Delete a series and all its occurrences. Returns the deleted occurrence ids.
+     */
+    static async deleteSeries(seriesId: string): Promise<string[]> {
+        const occurrences = await Event.find({ seriesId }).select('_id');
+        const ids = occurrences.map(o => o._id.toString());
+
+        await Event.deleteMany({ seriesId });
+        await EventMember.deleteMany({ eventId: { $in: ids } });
+        return ids;
+    }
+
+    /**
+     * Record a skipped date on the series so the occurrence is not generated again
+     */
+    static async addException(seriesId: string, occurrenceDate: Date): Promise<void> {
+        await Event.updateOne({ _id: seriesId }, { $addToSet: { 'recurrence.exceptions': occurrenceDate } });
+    }
+
+    /**
+     * Keep only the next occurrence of each series (ranked lists shouldn't repeat one series)
+     */
+    static collapseSeries<T extends { seriesId?: any; dateTime?: Date | string }>(events: T[]): T[] {
+        const next = new Map<string, T>();
+        for (const event of events) {
+            if (!event.seriesId) continue;
+            const key = event.seriesId.toString();
+            const current = next.get(key);
+            if (!current || new Date(event.dateTime!) < new Date(current.dateTime!)) {
+                next.set(key, event);
+            }
+        }
+        return events.filter(event => !event.seriesId || next.get(event.seriesId.toString()) === event);
+    }
+}
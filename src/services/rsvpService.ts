@@ -0,0 +1,414 @@
+import mongoose from 'mongoose';
+import { Event, IEvent } from '../models/Event';
+import EventMember from '../models/EventMember';
+import { Notification } from '../models/Notification';
+import { IRsvp, Rsvp, RsvpStatus } from '../models/Rsvp';
+import { User } from '../models/User';
+import { MemberManagementService } from './memberManagementService';
+import cacheService from './cacheService';
+import { AnalyticsService } from './analyticsService';
+import { PageParams, PaginationService } from './paginationService';
+
+/**
+ * RSVPs, capacity and waitlists
+ *
+ * `going` is the only confirmed state: it holds a seat (Event.goingCount), adds the user
+ * to Event.attendees and creates their EventMember record (member search, assistant).
+ * When an event is full, `going` requests are waitlisted and promoted first-come,
+ * first-served as seats free up.
+ */
+
+export interface RsvpResult {
+    success: boolean;
+    message: string;
+    status?: RsvpStatus;
+    waitlistPosition?: number;
+}
+
+export interface RsvpCounts {
+    going: number;
+    maybe: number;
+    declined: number;
+    waitlisted: number;
+}
+
+export class RsvpService {
+    /**
+     * Atomically take a seat if the event has capacity left
+     */
+    private static async reserveSeat(eventId: string): Promise<boolean> {
+        const result = await Event.updateOne(
+            {
+                _id: eventId,
+                $or: [
+                    { capacity: null },
+                    { $expr: { $lt: [{ $ifNull: ['$goingCount', 0] }, '$capacity'] } },
+                ],
+            },
+            { $inc: { goingCount: 1 } }
+        );
+        return result.modifiedCount === 1;
+    }
+
+    private static async releaseReservation(eventId: string): Promise<void> {
+        await Event.updateOne({ _id: eventId }, { $inc: { goingCount: -1 } });
+    }
+
+    /**
+     * Add a user with a reserved seat to attendees + EventMember
+     * The reservation is given back when this fails.
+     */
+    private static async confirm(event: IEvent, userId: string): Promise<void> {
+        const eventId = event._id.toString();
+        try {
+            const user = await User.findById(userId);
+            if (!user) {
+                throw new Error('User not found');
+            }
+
+            await Event.updateOne({ _id: eventId }, { $addToSet: { attendees: user._id } });
+
+            const result = await MemberManagementService.addMemberToEvent(
+                eventId,
+                event.createdBy.toString(),
+                {
+                    name: user.name,
+                    company: user.company || '',
+                    bio: user.oneLiner || '',
+                    website: user.website || '',
+                    phoneNumber: user.phoneNumber,
+                    email: user.email,
+                },
+                'join',
+                { seatReserved: true }
+            );
+
+            if (!result.success) {
+                throw new Error(result.message);
+            }
+            if (result.message === 'User already a member') {
+                // Already counted when the membership was created
+                await this.releaseReservation(eventId);
+                return;
+            }
+        } catch (error) {
+            await Event.updateOne(
+                { _id: eventId },
+                { $inc: { goingCount: -1 }, $pull: { attendees: new mongoose.Types.ObjectId(userId) } }
+            );
+            throw error;
+        }
+        AnalyticsService.track('join', eventId, userId);
+    }
+
+    /**
+     * Give up a confirmed seat
+     */
+    private static async release(eventId: string, userId: string): Promise<void> {
+        await Event.updateOne({ _id: eventId }, { $pull: { attendees: new mongoose.Types.ObjectId(userId) } });
+        await MemberManagementService.removeMemberFromEvent(eventId, userId);
+        AnalyticsService.track('leave', eventId, userId);
+    }
+
+    /**
+     * Whether a user currently holds a seat. Attendees from before RSVPs existed
+     * only have an EventMember record.
+     */
+    private static async isGoing(eventId: string, userId: string, rsvp: IRsvp | null): Promise<boolean> {
+        if (rsvp) return rsvp.status === 'going';
+        return !!(await EventMember.exists({ eventId, userId }));
+    }
+
+    private static checkRsvpable(event: IEvent): string | null {
+        if (event.isSeries) return 'RSVP to a specific occurrence of this series (GET /events/:id/occurrences)';
+        if (event.isCancelled) return 'This occurrence has been cancelled';
+        return null;
+    }
+
+    static async getRsvp(eventId: string, userId: string): Promise<IRsvp | null> {
+        return Rsvp.findOne({ eventId, userId });
+    }
+
+    /**
+     * 1-based position on the waitlist
+     */
+    static async getWaitlistPosition(rsvp: IRsvp): Promise<number | undefined> {
+        if (rsvp.status !== 'waitlisted' || !rsvp.waitlistedAt) return undefined;
+        return Rsvp.countDocuments({
+            eventId: rsvp.eventId,
+            status: 'waitlisted',
+            waitlistedAt: { $lte: rsvp.waitlistedAt },
+        });
+    }
+
+    /**
+     * Respond to an event. `going` takes a seat or joins the waitlist when full;
+     * leaving `going` frees the seat for the next person on the waitlist.
+     */
+    static async respond(event: IEvent, userId: string, status: 'going' | 'maybe' | 'declined'): Promise<RsvpResult> {
+        const invalid = this.checkRsvpable(event);
+        if (invalid) return { success: false, message: invalid };
+
+        const eventId = event._id.toString();
+        const existing = await this.getRsvp(eventId, userId);
+        const wasGoing = await this.isGoing(eventId, userId, existing);
+        const now = new Date();
+
+        if (status === 'going') {
+            if (wasGoing) {
+                await Rsvp.updateOne(
+                    { eventId, userId },
+                    { $set: { status: 'going' }, $setOnInsert: { respondedAt: now } },
+                    { upsert: true }
+                );
+                return { success: true, message: 'You are already going', status: 'going' };
+            }
+
+            if (existing?.status === 'waitlisted') {
+                return {
+                    success: true,
+                    message: 'You are on the waitlist',
+                    status: 'waitlisted',
+                    waitlistPosition: await this.getWaitlistPosition(existing),
+                };
+            }
+
+            if (await this.reserveSeat(eventId)) {
+                await Rsvp.updateOne(
+                    { eventId, userId },
+                    { $set: { status: 'going', respondedAt: now }, $unset: { waitlistedAt: 1 } },
+                    { upsert: true }
+                );
+                await this.confirm(event, userId);
+                await cacheService.invalidateEventLists();
+                console.log(`🎟️ [RSVP] ${userId} is going to ${eventId}`);
+                return { success: true, message: 'You are going', status: 'going' };
+            }
+
+            const waitlisted = await Rsvp.findOneAndUpdate(
+                { eventId, userId },
+                { $set: { status: 'waitlisted', respondedAt: now, waitlistedAt: now } },
+                { upsert: true, new: true }
+            );
+            console.log(`⏳ [RSVP] ${eventId} is full, waitlisted ${userId}`);
+            return {
+                success: true,
+                message: 'This event is full. You have been added to the waitlist',
+                status: 'waitlisted',
+                waitlistPosition: await this.getWaitlistPosition(waitlisted!),
+            };
+        }
+
+        await Rsvp.updateOne(
+            { eventId, userId },
+            { $set: { status, respondedAt: now }, $unset: { waitlistedAt: 1 } },
+            { upsert: true }
+        );
+
+        if (wasGoing) {
+            await this.release(eventId, userId);
+            await this.promoteFromWaitlist(eventId);
+            await cacheService.invalidateEventLists();
+        }
+
+        return { success: true, message: `RSVP updated to ${status}`, status };
+    }
+
+    /**
+     * Withdraw an RSVP entirely (leave the event or the waitlist)
+     */
+    static async cancel(event: IEvent, userId: string): Promise<RsvpResult> {
+        const eventId = event._id.toString();
+        const existing = await this.getRsvp(eventId, userId);
+        const wasGoing = await this.isGoing(eventId, userId, existing);
+
+        if (!existing && !wasGoing) {
+            return { success: false, message: 'You have not responded to this event' };
+        }
+
+        await Rsvp.deleteOne({ eventId, userId });
+        if (wasGoing) {
+            await this.release(eventId, userId);
+            await this.promoteFromWaitlist(eventId);
+            await cacheService.invalidateEventLists();
+        }
+
+        return { success: true, message: wasGoing ? 'Successfully left' : 'Removed from the waitlist' };
+    }
+
+    /**
+     * Fill free seats from the waitlist (oldest first) and notify each promoted user
+     * Returns the number of promotions.
+     */
+    static async promoteFromWaitlist(eventId: string): Promise<number> {
+        const event = await Event.findById(eventId);
+        if (!event) return 0;
+
+        let promoted = 0;
+        while (true) {
+            const next = await Rsvp.findOne({ eventId, status: 'waitlisted' }).sort({ waitlistedAt: 1 });
+            if (!next) break;
+            if (!(await this.reserveSeat(eventId))) break;
+
+            // Another request may have promoted or withdrawn this RSVP meanwhile
+            const claimed = await Rsvp.findOneAndUpdate(
+                { _id: next._id, status: 'waitlisted' },
+                { $set: { status: 'going', promotedAt: new Date() }, $unset: { waitlistedAt: 1 } }
+            );
+            if (!claimed) {
+                await this.releaseReservation(eventId);
+                continue;
+            }
+
+            try {
+                await this.confirm(event, next.userId.toString());
+            } catch (error) {
+                // e.g. the user was deleted: drop the RSVP and offer the seat to the next person
+                console.error(`❌ [RSVP] Could not promote ${next.userId} on ${eventId}:`, error);
+                await Rsvp.deleteOne({ _id: next._id });
+                continue;
+            }
+            await this.notifyPromoted(event, next.userId.toString());
+            promoted++;
+        }
+
+        if (promoted > 0) {
+            console.log(`🎟️ [RSVP] Promoted ${promoted} from the waitlist of ${eventId}`);
+            await cacheService.invalidateEventLists();
+        }
+        return promoted;
+    }
+
+    /**
+     * Organizer override: move someone off the waitlist even if it exceeds capacity
+     */
+    static async promote(event: IEvent, userId: string): Promise<RsvpResult> {
+        const eventId = event._id.toString();
+        const claimed = await Rsvp.findOneAndUpdate(
+            { eventId, userId, status: 'waitlisted' },
+            { $set: { status: 'going', promotedAt: new Date() }, $unset: { waitlistedAt: 1 } }
+        );
+        if (!claimed) {
+            return { success: false, message: 'User is not on the waitlist' };
+        }
+
+        await Event.updateOne({ _id: eventId }, { $inc: { goingCount: 1 } });
+        try {
+            await this.confirm(event, userId);
+        } catch (error) {
+            // confirm gave the seat back; return the user to their place on the waitlist
+            await Rsvp.updateOne(
+                { _id: claimed._id, status: 'going' },
+                { $set: { status: 'waitlisted', waitlistedAt: claimed.waitlistedAt ?? new Date() }, $unset: { promotedAt: 1 } }
+            );
+            throw error;
+        }
+        await this.notifyPromoted(event, userId);
+        await cacheService.invalidateEventLists();
+
+        return { success: true, message: 'User promoted from the waitlist', status: 'going' };
+    }
+
+    /**
+     * Organizer: remove a confirmed attendee and give their seat to the waitlist
+     */
+    static async removeAttendee(eventId: string, userId: string): Promise<{ success: boolean; message: string }> {
+        await Rsvp.deleteOne({ eventId, userId });
+        await Event.updateOne({ _id: eventId }, { $pull: { attendees: new mongoose.Types.ObjectId(userId) } });
+
+        const result = await MemberManagementService.removeMemberFromEvent(eventId, userId);
+        if (result.success) {
+            AnalyticsService.track('leave', eventId, userId);
+            await this.promoteFromWaitlist(eventId);
+        }
+        return result;
+    }
+
+    /**
+     * Organizer: drop someone from the waitlist
+     */
+    static async removeFromWaitlist(eventId: string, userId: string): Promise<RsvpResult> {
+        const result = await Rsvp.deleteOne({ eventId, userId, status: 'waitlisted' });
+        if (result.deletedCount === 0) {
+            return { success: false, message: 'User is not on the waitlist' };
+        }
+        return { success: true, message: 'User removed from the waitlist' };
+    }
+
+    /**
+     * One page of the waitlist in promotion order; `position` is 1-based across the whole list
+     */
+    static async getWaitlist(eventId: string, page: PageParams) {
+        const rsvps = await Rsvp.find(
+            PaginationService.withCursor({ eventId, status: 'waitlisted' }, 'waitlistedAt', 1, page.cursor)
+        )
+            .sort(PaginationService.sort('waitlistedAt', 1))
+            .limit(page.limit + 1)
+            .populate('userId', 'name photoUrl role company oneLiner');
+
+        const { items, nextCursor } = PaginationService.toPage(rsvps, page.limit, 'waitlist', rsvp => ({
+            value: rsvp.waitlistedAt ?? null,
+            id: rsvp._id,
+        }));
+
+        // Entries ahead of this page (same timestamp: lower id goes first)
+        const first = items[0];
+        const ahead = first
+            ? await Rsvp.countDocuments({
+                eventId,
+                status: 'waitlisted',
+                $or: [
+                    { waitlistedAt: { $lt: first.waitlistedAt } },
+                    { waitlistedAt: first.waitlistedAt, _id: { $lt: first._id } },
+                ],
+            })
+            : 0;
+
+        return {
+            items: items.map((rsvp, index) => ({ rsvp, position: ahead + index + 1 })),
+            nextCursor,
+        };
+    }
+
+    /**
+     * RSVP totals. `going` is the confirmed attendee count (includes members added by organizers).
+     */
+    static async getCounts(eventId: string): Promise<RsvpCounts> {
+        const [going, grouped] = await Promise.all([
+            EventMember.countDocuments({ eventId }),
+            Rsvp.aggregate([
+                { $match: { eventId: new mongoose.Types.ObjectId(eventId) } },
+                { $group: { _id: '$status', count: { $sum: 1 } } },
+            ]),
+        ]);
+
+        const counts: RsvpCounts = { going, maybe: 0, declined: 0, waitlisted: 0 };
+        grouped.forEach(({ _id, count }) => {
+            if (_id !== 'going') counts[_id as Exclude<RsvpStatus, 'going'>] = count;
+        });
+        return counts;
+    }
+
+    /**
+     * Change capacity (null = unlimited) and fill any new seats from the waitlist
+     */
+    static async setCapacity(eventId: string, capacity: number | null): Promise<number> {
+        // Resync the counter (events created before RSVPs never tracked it)
+        const going = await EventMember.countDocuments({ eventId });
+        await Event.updateOne({ _id: eventId }, { $set: { capacity, goingCount: going } });
+        return this.promoteFromWaitlist(eventId);
+    }
+
+    private static async notifyPromoted(event: IEvent, userId: string): Promise<void> {
+        try {
+            await Notification.create({
+                recipientId: userId,
+                eventId: event._id,
+                type: 'WAITLIST_PROMOTED',
+            });
+            console.log(`🔔 [RSVP] Notified ${userId} of waitlist promotion`);
+        } catch (notifyError) {
+            console.error('Failed to create notification:', notifyError);
+        }
+    }
+}
@@ -0,0 +1,123 @@
+import { v2 as cloudinary, UploadApiResponse } from 'cloudinary';
+import config from '../../config';
+import { StorageProvider, StoredObject } from './types';
+
+type ResourceType = 'image' | 'video' | 'raw';
+
+const CLOUDINARY_URL = /^https?:\/\/res\.cloudinary\.com\/[^/]+\/(image|video|raw)\/upload\/(?:v\d+\/)?(.+)$/;
+
+/**
+ * Cloudinary. Keys are `{resourceType}/{publicId}[.{format}]`: images and videos are
+ * addressed without their extension, raw files (PDFs, documents) keep it.
+ */
+export class CloudinaryStorageProvider implements StorageProvider {
+    readonly name = 'cloudinary';
+
+    private configured = false;
+
+    isAvailable(): boolean {
+        const { cloudName, apiKey, apiSecret } = config.storage.cloudinary;
+        return Boolean(cloudName && apiKey && apiSecret);
+    }
+
+    private configure(): void {
+        if (this.configured) return;
+        cloudinary.config({
+            cloud_name: config.storage.cloudinary.cloudName,
+            api_key: config.storage.cloudinary.apiKey,
+            api_secret: config.storage.cloudinary.apiSecret,
+            secure: true,
+        });
+        this.configured = true;
+    }
+
+    private static parseKey(key: string): { resourceType: ResourceType; publicId: string; format: string } {
+        const [resourceType, ...rest] = key.split('/');
+        const path = rest.join('/');
+        if (resourceType === 'raw') {
+            return { resourceType, publicId: path, format: '' };
+        }
+        const dot = path.lastIndexOf('.');
+        return {
+            resourceType: resourceType as ResourceType,
+            publicId: dot > 0 ? path.slice(0, dot) : path,
+            format: dot > 0 ? path.slice(dot + 1) : '',
+        };
+    }
+
+    async upload(buffer: Buffer, key: string, contentType: string): Promise<StoredObject> {
+        this.configure();
+        const resourceType: ResourceType = contentType.startsWith('image/')
+            ? 'image'
+            : contentType.startsWith('video/') ? 'video' : 'raw';
+        const publicId = resourceType === 'raw' ? key : key.replace(/\.[^./]+$/, '');
+
+        try {
+            const result = await new Promise<UploadApiResponse>((resolve, reject) => {
+                cloudinary.uploader.upload_stream(
+                    { public_id: publicId, resource_type: resourceType, overwrite: false },
+                    (error, response) => (error || !response ? reject(error) : resolve(response))
+                ).end(buffer);
+            });
+
+            const storedKey = resourceType === 'raw'
+                ? `raw/${result.public_id}`
+                : `${resourceType}/${result.public_id}.${result.format}`;
+            console.log(`📡 [CLOUDINARY UPLOAD] Success: ${result.secure_url}`);
+            return { key: storedKey, url: result.secure_url };
+        } catch (error) {
+            console.error('❌ [CLOUDINARY UPLOAD] Error:', error);
+            throw error;
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        this.configure();
+        const { resourceType, publicId } = CloudinaryStorageProvider.parseKey(key);
+        try {
+            await cloudinary.uploader.destroy(publicId, { resource_type: resourceType, invalidate: true });
+            console.log(`🗑️  [CLOUDINARY DELETE] Success: ${key}`);
+        } catch (error) {
+            console.error(`❌ [CLOUDINARY DELETE] Error deleting ${key}:`, error);
+            throw error;
+        }
+    }
+
+    async deleteMany(keys: string[]): Promise<void> {
+        if (keys.length === 0) return;
+        this.configure();
+
+        // The Admin API deletes up to 100 public ids of one resource type per call
+        const byType = new Map<ResourceType, string[]>();
+        for (const key of keys) {
+            const { resourceType, publicId } = CloudinaryStorageProvider.parseKey(key);
+            byType.set(resourceType, [...(byType.get(resourceType) || []), publicId]);
+        }
+        try {
+            for (const [resourceType, publicIds] of byType) {
+                for (let i = 0; i < publicIds.length; i += 100) {
+                    await cloudinary.api.delete_resources(publicIds.slice(i, i + 100), { resource_type: resourceType });
+                }
+            }
+            console.log(`🗑️  [CLOUDINARY DELETE BATCH] Deleted ${keys.length} objects`);
+        } catch (error) {
+            console.error('❌ [CLOUDINARY DELETE BATCH] Error:', error);
+            throw error;
+        }
+    }
+
+    keyFromUrl(url: string): string | null {
+        const match = url.match(CLOUDINARY_URL);
+        return match ? `${match[1]}/${match[2]}` : null;
+    }
+
+    async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+        this.configure();
+        const { resourceType, publicId, format } = CloudinaryStorageProvider.parseKey(key);
+        return cloudinary.utils.private_download_url(publicId, format, {
+            resource_type: resourceType,
+            type: 'upload',
+            expires_at: Math.floor(Date.now() / 1000) + expiresInSeconds,
+        });
+    }
+}
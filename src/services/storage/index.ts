@@ -0,0 +1,98 @@
+import config from '../../config';
+import { StorageProvider, StorageProviderName } from './types';
+import { S3StorageProvider } from './s3StorageProvider';
+import { CloudinaryStorageProvider } from './cloudinaryStorageProvider';
+import { LocalStorageProvider } from './localStorageProvider';
+
+export * from './types';
+export { LocalStorageProvider } from './localStorageProvider';
+
+const providers = new Map<StorageProviderName, StorageProvider>();
+let active: StorageProvider | null = null;
+
+/**
+ * Build a storage provider for a backend name
+ */
+export const createStorageProvider = (name: string = config.storage.provider): StorageProvider => {
+    switch (name) {
+        case 's3':
+            return new S3StorageProvider();
+        case 'cloudinary':
+            return new CloudinaryStorageProvider();
+        case 'local':
+            return new LocalStorageProvider();
+        default:
+            console.warn(`⚠️ Unknown STORAGE_PROVIDER '${name}', falling back to s3`);
+            return new S3StorageProvider();
+    }
+};
+
+/**
+ * Provider that stored an object (objects keep working after STORAGE_PROVIDER changes)
+ */
+export const getStorageProviderByName = (name: StorageProviderName): StorageProvider => {
+    if (active?.name === name) return active;
+    let provider = providers.get(name);
+    if (!provider) {
+        provider = createStorageProvider(name);
+        providers.set(name, provider);
+    }
+    return provider;
+};
+
+/**
+ * Shared provider for new uploads, selected through config (STORAGE_PROVIDER)
+ * Outside production, falls back to the local disk when the selected cloud provider has no
+ * credentials, so development and tests run without them. In production this throws instead:
+ * container disks do not survive a redeploy (set STORAGE_PROVIDER=local to keep files on disk).
+ */
+export const getStorageProvider = (): StorageProvider => {
+    if (!active) {
+        const selected = createStorageProvider();
+        if (!selected.isAvailable()) {
+            if (config.nodeEnv === 'production') {
+                throw new Error(`Storage provider '${selected.name}' is not configured (missing credentials)`);
+            }
+            console.warn(`⚠️ Storage provider '${selected.name}' is not configured. Falling back to local disk.`);
+        }
+        active = selected.isAvailable() ? selected : getStorageProviderByName('local');
+        console.log(`🗄️ Storage provider: ${active.name}`);
+    }
+    return active;
+};
+
+/**
+ * Override the shared provider (e.g. for scripts and tests)
+ */
+export const setStorageProvider = (next: StorageProvider): void => {
+    active = next;
+};
+
+/**
+ * The provider and key of a stored URL, for URLs without a Media record
+ */
+export const findStoredObject = (url: string): { provider: StorageProvider; key: string } | null => {
+    for (const name of ['s3', 'cloudinary', 'local'] as StorageProviderName[]) {
+        const provider = getStorageProviderByName(name);
+        const key = provider.keyFromUrl(url);
+        if (key) return { provider, key };
+    }
+    return null;
+};
+
+/**
+ * Object key for a new file: events/{eventId}/{mediaType}/{timestamp}-{name} for event
+ * media, {folder}/{timestamp}-{name} otherwise
+ */
+export const buildStorageKey = (
+    fileName: string,
+    folder: string = 'uploads',
+    eventId?: string,
+    mediaType?: 'images' | 'pdfs' | 'videos'
+): string => {
+    const safeFileName = fileName.replace(/[^a-z0-9.]/gi, '_').toLowerCase();
+    const prefix = eventId && mediaType
+        ? `events/${eventId}/${mediaType}`
+        : folder.replace(/[^a-z0-9/_-]/gi, '_').replace(/^\/+|\/+$/g, '') || 'uploads';
+    return `${prefix}/${Date.now()}-${safeFileName}`;
+};
@@ -0,0 +1,87 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import config from '../../config';
+import { StorageProvider, StoredObject } from './types';
+
+/**
+ * Files on the local disk (STORAGE_LOCAL_DIR), served by the API under /files (see
+ * storageRoutes). Signed URLs carry `expires` (unix seconds) and an HMAC `signature`.
+ */
+export class LocalStorageProvider implements StorageProvider {
+    readonly name = 'local';
+
+    isAvailable(): boolean {
+        return true;
+    }
+
+    private get baseUrl(): string {
+        return `${config.apiBaseUrl.replace(/\/+$/, '')}/files`;
+    }
+
+    /**
+     * Absolute path of a key; null when the key would leave the storage directory
+     */
+    resolvePath(key: string): string | null {
+        const root = path.resolve(config.storage.local.dir);
+        const file = path.resolve(root, key);
+        return file.startsWith(root + path.sep) ? file : null;
+    }
+
+    private sign(key: string, expires: number): string {
+        return crypto.createHmac('sha256', config.storage.local.signingSecret)
+            .update(`${key}:${expires}`)
+            .digest('base64url');
+    }
+
+    /**
+     * Whether a signed URL's parameters are authentic and not expired
+     */
+    verifySignature(key: string, expires: unknown, signature: unknown): boolean {
+        const expiresAt = Number(expires);
+        if (!Number.isInteger(expiresAt) || typeof signature !== 'string') return false;
+        if (expiresAt < Math.floor(Date.now() / 1000)) return false;
+
+        const expected = Buffer.from(this.sign(key, expiresAt));
+        const given = Buffer.from(signature);
+        return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+    }
+
+    async upload(buffer: Buffer, key: string, _contentType: string): Promise<StoredObject> {
+        const file = this.resolvePath(key);
+        if (!file) throw new Error(`Invalid storage key: ${key}`);
+
+        await fs.promises.mkdir(path.dirname(file), { recursive: true });
+        await fs.promises.writeFile(file, buffer);
+
+        const url = `${this.baseUrl}/${key.split('/').map(encodeURIComponent).join('/')}`;
+        console.log(`📡 [LOCAL STORAGE] Stored: ${file}`);
+        return { key, url };
+    }
+
+    async delete(key: string): Promise<void> {
+        const file = this.resolvePath(key);
+        if (!file) return;
+        await fs.promises.rm(file, { force: true });
+        console.log(`🗑️  [LOCAL STORAGE] Deleted: ${key}`);
+    }
+
+    async deleteMany(keys: string[]): Promise<void> {
+        for (const key of keys) {
+            await this.delete(key);
+        }
+    }
+
+    keyFromUrl(url: string): string | null {
+        const prefix = `${this.baseUrl}/`;
+        if (!url.startsWith(prefix)) return null;
+        const key = decodeURIComponent(url.slice(prefix.length).split('?')[0]);
+        return key || null;
+    }
+
+    async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+        const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+        const url = `${this.baseUrl}/${key.split('/').map(encodeURIComponent).join('/')}`;
+        return `${url}?expires=${expires}&signature=${this.sign(key, expires)}`;
+    }
+}
@@ -0,0 +1,98 @@
+import { S3Client, PutObjectCommand, DeleteObjectCommand, DeleteObjectsCommand, GetObjectCommand } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import config from '../../config';
+import { StorageProvider, StoredObject } from './types';
+
+/**
+ * AWS S3 bucket; objects are read through their public URL
+ * https://{bucket}.s3.{region}.amazonaws.com/{key}
+ */
+export class S3StorageProvider implements StorageProvider {
+    readonly name = 's3';
+
+    private client: S3Client | null = null;
+
+    isAvailable(): boolean {
+        const { bucket, accessKeyId, secretAccessKey } = config.storage.s3;
+        return Boolean(bucket && accessKeyId && secretAccessKey);
+    }
+
+    private getClient(): S3Client {
+        if (!this.client) {
+            this.client = new S3Client({
+                region: config.storage.s3.region,
+                credentials: {
+                    accessKeyId: config.storage.s3.accessKeyId,
+                    secretAccessKey: config.storage.s3.secretAccessKey,
+                },
+            });
+        }
+        return this.client;
+    }
+
+    async upload(buffer: Buffer, key: string, contentType: string): Promise<StoredObject> {
+        try {
+            await this.getClient().send(new PutObjectCommand({
+                Bucket: config.storage.s3.bucket,
+                Key: key,
+                Body: buffer,
+                ContentType: contentType,
+            }));
+
+            const url = `https://${config.storage.s3.bucket}.s3.${config.storage.s3.region}.amazonaws.com/${key}`;
+            console.log(`📡 [S3 UPLOAD] Success: ${url}`);
+            return { key, url };
+        } catch (error) {
+            console.error('❌ [S3 UPLOAD] Error:', error);
+            throw error;
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        try {
+            await this.getClient().send(new DeleteObjectCommand({ Bucket: config.storage.s3.bucket, Key: key }));
+            console.log(`🗑️  [S3 DELETE] Success: ${key}`);
+        } catch (error) {
+            console.error(`❌ [S3 DELETE] Error deleting ${key}:`, error);
+            throw error;
+        }
+    }
+
+    async deleteMany(keys: string[]): Promise<void> {
+        if (keys.length === 0) return;
+
+        try {
+            // DeleteObjects takes up to 1000 keys per request
+            for (let i = 0; i < keys.length; i += 1000) {
+                const result = await this.getClient().send(new DeleteObjectsCommand({
+                    Bucket: config.storage.s3.bucket,
+                    Delete: {
+                        Objects: keys.slice(i, i + 1000).map(key => ({ Key: key })),
+                        Quiet: false,
+                    },
+                }));
+                console.log(`🗑️  [S3 DELETE BATCH] Deleted ${result.Deleted?.length || 0} objects`);
+
+                if (result.Errors && result.Errors.length > 0) {
+                    console.error(`❌ [S3 DELETE BATCH] Errors:`, result.Errors);
+                }
+            }
+        } catch (error) {
+            console.error('❌ [S3 DELETE BATCH] Error:', error);
+            throw error;
+        }
+    }
+
+    keyFromUrl(url: string): string | null {
+        const parts = url.split('.amazonaws.com/');
+        return parts.length === 2 && parts[1] ? parts[1] : null;
+    }
+
+    getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+        return getSignedUrl(
+            this.getClient(),
+            new GetObjectCommand({ Bucket: config.storage.s3.bucket, Key: key }),
+            { expiresIn: expiresInSeconds }
+        );
+    }
+}
@@ -0,0 +1,28 @@
+export type StorageProviderName = 's3' | 'cloudinary' | 'local';
+
+/**
+ * A stored object: `key` identifies it within its provider, `url` is the public read URL
+ */
+export interface StoredObject {
+    key: string;
+    url: string;
+}
+
+export interface StorageProvider {
+    readonly name: StorageProviderName;
+
+    /** Whether the backend is configured and usable */
+    isAvailable(): boolean;
+
+    /** Store a file under `key` (see buildStorageKey); the provider may adjust the key */
+    upload(buffer: Buffer, key: string, contentType: string): Promise<StoredObject>;
+
+    delete(key: string): Promise<void>;
+    deleteMany(keys: string[]): Promise<void>;
+
+    /** Key of a URL returned by this provider; null when the URL is not one of its objects */
+    keyFromUrl(url: string): string | null;
+
+    /** Read URL that stops working after `expiresInSeconds` */
+    getSignedUrl(key: string, expiresInSeconds: number): Promise<string>;
+}
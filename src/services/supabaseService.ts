@@ -10,6 +10,13 @@ dotenv.config({ path: envPath });
 class SupabaseService {
     private static instance: any = null;
 
+    /**
+     * Whether Supabase credentials are configured
+     */
+    static isConfigured(): boolean {
+        return !!(process.env.SUPABASE_URL && process.env.SUPABASE_KEY);
+    }
+
     private static getClient() {
         if (!process.env.SUPABASE_URL || !process.env.SUPABASE_KEY) {
             console.warn("⚠️ Supabase credentials missing. RAG storage will fail.");
@@ -25,7 +32,13 @@ class SupabaseService {
     /**
      * Store Event Document Chunk Embeddings
      */
-    static async storeEventDocChunk(eventId: string, text: string, embedding: number[], chunkIndex: number) {
+    static async storeEventDocChunk(
+        eventId: string,
+        text: string,
+        embedding: number[],
+        chunkIndex: number,
+        metadata: Record<string, any> = {}
+    ) {
         const client = this.getClient();
         if (!client) return;
 
@@ -38,7 +51,7 @@ class SupabaseService {
                 chunks: text,  // Chunk text (same for docs)
                 embedding: embedding,
                 chunk_index: chunkIndex,
-                extra_metadata: { chunk_index: chunkIndex }
+                extra_metadata: { ...metadata, chunk_index: chunkIndex }
             });
 
         if (error) console.error("❌ [Supabase] Failed to store Doc Chunk:", error);
@@ -86,18 +99,39 @@ class SupabaseService {
         if (error) console.error("❌ [Supabase] Failed to store Member Profile:", error);
     }
 
+    /**
+     * Store Agenda Session Embedding
+     */
+    static async storeEventSession(eventId: string, text: string, embedding: number[], metadata: Record<string, any>) {
+        const client = this.getClient();
+        if (!client) return;
+
+        const { error } = await client
+            .from('event_embeddings')
+            .insert({
+                event_id: eventId,
+                category: 'session',
+                content: JSON.stringify(metadata),
+                chunks: text,
+                embedding: embedding,
+                extra_metadata: metadata
+            });
+
+        if (error) console.error("❌ [Supabase] Failed to store Session:", error);
+    }
+
     /**
      * Unified Semantic Search against 'event_embeddings'
      * @param {number[]} embedding - Query embedding vector
      * @param {string} eventId - Event to filter by
-     * @param {string} category - 'meta', 'doc', or 'member'
+     * @param {string} category - 'meta', 'doc', 'member' or 'session'
      * @param {number} matchCount - Number of matches to return (default: 5)
      * @param {number} threshold - Minimum similarity (default 0.5)
      */
     static async searchEventEmbeddings(
         embedding: number[],
         eventId: string,
-        category: 'meta' | 'doc' | 'member',
+        category: 'meta' | 'doc' | 'member' | 'session',
         matchCount: number = 5,
         threshold: number = 0.5
     ) {
@@ -142,16 +176,19 @@ class SupabaseService {
     }
 
     /**
-     * Delete all embeddings for an event (Clean up)
+     * Delete all embeddings for an event (Clean up), optionally only one category
      */
-    static async deleteEventEmbeddings(eventId: string) {
+    static async deleteEventEmbeddings(eventId: string, category?: 'meta' | 'doc' | 'member' | 'session') {
         const client = this.getClient();
         if (!client) return;
 
-        const { error } = await client
+        let query = client
             .from('event_embeddings')
             .delete()
             .eq('event_id', eventId);
+        if (category) query = query.eq('category', category);
+
+        const { error } = await query;
 
         if (error) console.error("❌ [Supabase] Failed to delete event embeddings:", error);
     }
@@ -0,0 +1,325 @@
+import mongoose from 'mongoose';
+import { EventRole, INVITABLE_EVENT_ROLES, isEventRole } from '../config/roles';
+import { Event, IEvent } from '../models/Event';
+import { EventInvitation, IEventInvitation } from '../models/EventInvitation';
+import { INotification, Notification } from '../models/Notification';
+import { User } from '../models/User';
+import emailService from './emailService';
+import { RbacService } from './rbacService';
+
+/**
+ * Event teams: the creator (organizer) plus users holding an event role on the event
+ * or its series. Roles are offered through invitations and granted on acceptance.
+ */
+
+const INVITATION_TTL_DAYS = 14;
+
+export interface TeamResult<T = undefined> {
+    success: boolean;
+    message: string;
+    data?: T;
+}
+
+export interface TeamMember {
+    userId: string;
+    name: string;
+    email: string;
+    photoUrl?: string;
+    roles: EventRole[];
+}
+
+export class TeamService {
+    /**
+     * Only organizers (and role admins) can add or remove co-organizers
+     */
+    private static async canManageCoOrganizers(actorId: string, eventId: string): Promise<boolean> {
+        const roles = await RbacService.getEventRoles(actorId, eventId);
+        return !!roles?.includes('organizer') || RbacService.hasPermission(actorId, 'roles:manage');
+    }
+
+    private static scopeIds(event: IEvent): mongoose.Types.ObjectId[] {
+        return [event._id as mongoose.Types.ObjectId, ...(event.seriesId ? [event.seriesId] : [])];
+    }
+
+    /**
+     * Team of an event (roles on its series included), creator first
+     */
+    static async listTeam(eventId: string): Promise<TeamMember[]> {
+        const event = await Event.findById(eventId).select('createdBy seriesId');
+        if (!event) return [];
+
+        const scopeIds = this.scopeIds(event).map(id => id.toString());
+        const users = await User.find({
+            $or: [{ _id: event.createdBy }, { 'eventRoles.eventId': { $in: scopeIds } }],
+        }).select('name email photoUrl eventRoles');
+
+        return users
+            .map(user => {
+                const roles = new Set<EventRole>(
+                    user.eventRoles.filter(g => scopeIds.includes(g.eventId.toString())).map(g => g.role)
+                );
+                if (user._id.toString() === event.createdBy.toString()) roles.add('organizer');
+                return {
+                    userId: user._id.toString(),
+                    name: user.name,
+                    email: user.email,
+                    photoUrl: user.photoUrl,
+                    roles: Array.from(roles),
+                };
+            })
+            .sort((a, b) => Number(b.roles.includes('organizer')) - Number(a.roles.includes('organizer')));
+    }
+
+    /**
+     * Events a user holds a team role on (for "my events")
+     */
+    static async getTeamEventIds(userId: string): Promise<mongoose.Types.ObjectId[]> {
+        const user = await User.findById(userId).select('eventRoles');
+        return (user?.eventRoles || []).map(grant => grant.eventId);
+    }
+
+    /**
+     * Everyone who should receive organizer notifications
+     */
+    static async getTeamUserIds(event: IEvent): Promise<string[]> {
+        const scopeIds = this.scopeIds(event);
+        const staff = await User.find({ 'eventRoles.eventId': { $in: scopeIds } }).select('_id');
+        return Array.from(new Set([event.createdBy.toString(), ...staff.map(u => u._id.toString())]));
+    }
+
+    /**
+     * Send an organizer notification to the whole team (except the user who caused it)
+     */
+    static async notifyTeam(
+        event: IEvent,
+        type: 'EVENT_JOIN' | 'EVENT_STATUS_CHANGED',
+        actorId: string,
+        details?: INotification['details']
+    ): Promise<void> {
+        try {
+            const recipients = (await this.getTeamUserIds(event)).filter(id => id !== actorId);
+            if (recipients.length === 0) return;
+
+            await Notification.insertMany(
+                recipients.map(recipientId => ({ recipientId, actorId, eventId: event._id, type, details }))
+            );
+            console.log(`🔔 [TEAM] ${type} sent to ${recipients.length} team member(s) of ${event._id}`);
+        } catch (notifyError) {
+            console.error('Failed to create notification:', notifyError);
+        }
+    }
+
+    /**
+     * Invite someone by user id or email. Invitations for emails without an account are
+     * claimed when a user with that email signs in.
+     */
+    static async invite(
+        eventId: string,
+        inviterId: string,
+        input: { role: string; userId?: string; email?: string }
+    ): Promise<TeamResult<IEventInvitation>> {
+        const { role } = input;
+        if (!isEventRole(role) || !INVITABLE_EVENT_ROLES.includes(role)) {
+            return { success: false, message: `role must be one of: ${INVITABLE_EVENT_ROLES.join(', ')}` };
+        }
+        if (role === 'co_organizer' && !(await this.canManageCoOrganizers(inviterId, eventId))) {
+            return { success: false, message: 'Only organizers can invite co-organizers' };
+        }
+        if (!input.userId && !input.email) {
+            return { success: false, message: 'userId or email is required' };
+        }
+
+        const event = await Event.findById(eventId).select('name createdBy');
+        if (!event) return { success: false, message: 'Event not found' };
+
+        let user = null;
+        if (input.userId) {
+            user = mongoose.Types.ObjectId.isValid(input.userId) ? await User.findById(input.userId) : null;
+            if (!user) return { success: false, message: 'User not found' };
+        } else {
+            user = await User.findOne({ email: String(input.email).toLowerCase().trim() });
+        }
+        const email = user?.email || String(input.email).toLowerCase().trim();
+
+        if (user) {
+            if (user._id.toString() === event.createdBy.toString()) {
+                return { success: false, message: 'The organizer is already on the team' };
+            }
+            const roles = await RbacService.getEventRoles(user._id.toString(), eventId);
+            if (roles?.includes(role)) {
+                return { success: false, message: `User is already a ${role}` };
+            }
+        }
+
+        const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+        const existing = await EventInvitation.findOne({
+            eventId,
+            role,
+            status: 'pending',
+            ...(user ? { $or: [{ userId: user._id }, { email }] } : { email }),
+        });
+        if (existing) {
+            existing.expiresAt = expiresAt;
+            await existing.save();
+            return { success: true, message: 'Invitation renewed', data: existing };
+        }
+
+        const invitation = await EventInvitation.create({
+            eventId,
+            role,
+            email,
+            userId: user?._id,
+            invitedBy: inviterId,
+            expiresAt,
+        });
+
+        if (user) {
+            try {
+                await Notification.create({
+                    recipientId: user._id,
+                    actorId: inviterId,
+                    eventId,
+                    type: 'TEAM_INVITE',
+                });
+            } catch (notifyError) {
+                console.error('Failed to create notification:', notifyError);
+            }
+        }
+
+        const inviter = await User.findById(inviterId).select('name');
+        await emailService.sendTeamInvitation(email, {
+            eventName: event.name,
+            role,
+            inviterName: inviter?.name || 'An organizer',
+        });
+
+        console.log(`👥 [TEAM] Invited ${email} as ${role} on ${eventId}`);
+        return { success: true, message: 'Invitation sent', data: invitation };
+    }
+
+    static async listInvitations(eventId: string) {
+        return EventInvitation.find({ eventId, status: 'pending', expiresAt: { $gt: new Date() } })
+            .sort({ createdAt: -1 })
+            .populate('invitedBy', 'name')
+            .populate('userId', 'name email photoUrl');
+    }
+
+    /**
+     * Pending invitations addressed to a user (by id or by their email)
+     */
+    static async getInvitationsForUser(userId: string) {
+        const user = await User.findById(userId).select('email');
+        if (!user) return [];
+
+        return EventInvitation.find({
+            status: 'pending',
+            expiresAt: { $gt: new Date() },
+            $or: [{ userId: user._id }, { email: user.email }],
+        })
+            .sort({ createdAt: -1 })
+            .populate('eventId', 'name dateTime location photos')
+            .populate('invitedBy', 'name photoUrl');
+    }
+
+    /**
+     * Accept or decline an invitation addressed to this user
+     */
+    static async respond(
+        eventId: string,
+        invitationId: string,
+        userId: string,
+        accept: boolean
+    ): Promise<TeamResult<{ role: EventRole }>> {
+        const [invitation, user] = await Promise.all([
+            mongoose.Types.ObjectId.isValid(invitationId)
+                ? EventInvitation.findOne({ _id: invitationId, eventId, status: 'pending' })
+                : null,
+            User.findById(userId).select('email'),
+        ]);
+        const isInvitee = !!invitation && !!user && (
+            invitation.userId?.toString() === userId || invitation.email === user.email
+        );
+        if (!invitation || !isInvitee) {
+            return { success: false, message: 'Invitation not found' };
+        }
+        if (invitation.expiresAt <= new Date()) {
+            return { success: false, message: 'This invitation has expired' };
+        }
+
+        if (accept) {
+            const granted = await RbacService.grantRole(userId, invitation.role, invitation.invitedBy.toString(), eventId);
+            if (!granted.success) return { success: false, message: granted.message };
+        }
+
+        invitation.status = accept ? 'accepted' : 'declined';
+        invitation.userId = new mongoose.Types.ObjectId(userId);
+        invitation.respondedAt = new Date();
+        await invitation.save();
+
+        if (accept) {
+            try {
+                await Notification.create({
+                    recipientId: invitation.invitedBy,
+                    actorId: userId,
+                    eventId,
+                    type: 'TEAM_INVITE_ACCEPTED',
+                });
+            } catch (notifyError) {
+                console.error('Failed to create notification:', notifyError);
+            }
+        }
+
+        console.log(`👥 [TEAM] ${userId} ${invitation.status} ${invitation.role} on ${eventId}`);
+        return {
+            success: true,
+            message: accept ? `You are now a ${invitation.role}` : 'Invitation declined',
+            data: { role: invitation.role },
+        };
+    }
+
+    static async revokeInvitation(eventId: string, invitationId: string, actorId: string): Promise<TeamResult> {
+        const invitation = mongoose.Types.ObjectId.isValid(invitationId)
+            ? await EventInvitation.findOne({ _id: invitationId, eventId, status: 'pending' })
+            : null;
+        if (!invitation) return { success: false, message: 'Invitation not found' };
+
+        if (invitation.role === 'co_organizer' && !(await this.canManageCoOrganizers(actorId, eventId))) {
+            return { success: false, message: 'Only organizers can manage co-organizers' };
+        }
+
+        invitation.status = 'revoked';
+        await invitation.save();
+        return { success: true, message: 'Invitation revoked' };
+    }
+
+    /**
+     * Remove a user's team role(s) on the event (all invitable roles when `role` is omitted)
+     */
+    static async removeMember(eventId: string, userId: string, actorId: string, role?: string): Promise<TeamResult> {
+        if (role !== undefined && (!isEventRole(role) || !INVITABLE_EVENT_ROLES.includes(role))) {
+            return { success: false, message: `role must be one of: ${INVITABLE_EVENT_ROLES.join(', ')}` };
+        }
+
+        // The creator's organizer role is implicit and cannot be removed
+        const current = await RbacService.getEventRoles(userId, eventId);
+        const roles = (role ? [role] : INVITABLE_EVENT_ROLES).filter(r => current?.includes(r as EventRole)) as EventRole[];
+        if (roles.length === 0) {
+            return { success: false, message: 'User is not on the team' };
+        }
+        if (roles.includes('co_organizer') && userId !== actorId && !(await this.canManageCoOrganizers(actorId, eventId))) {
+            return { success: false, message: 'Only organizers can manage co-organizers' };
+        }
+
+        for (const r of roles) {
+            await RbacService.revokeRole(userId, r, eventId);
+        }
+        return { success: true, message: 'Removed from the team' };
+    }
+
+    /**
+     * Drop invitations of deleted events
+     */
+    static async deleteEventInvitations(eventIds: string[]): Promise<void> {
+        await EventInvitation.deleteMany({ eventId: { $in: eventIds } });
+    }
+}
@@ -0,0 +1,177 @@
+import { PdfPageText } from './pdfService';
+
+export interface TextChunk {
+    index: number;
+    text: string;
+    pageStart: number;
+    pageEnd: number;
+    section?: string;       // Nearest heading above the chunk's first line
+}
+
+export interface ChunkOptions {
+    chunkSize: number;      // Max characters per chunk
+    chunkOverlap: number;   // Characters carried over from the previous chunk
+}
+
+interface TextUnit {
+    text: string;
+    page: number;
+    section?: string;
+}
+
+// Sentence boundary: terminal punctuation followed by whitespace and an uppercase/digit/quote
+const SENTENCE_BOUNDARY = /(?<=[.!?])\s+(?=["'(\[]?[A-Z0-9])/;
+
+/**
+ * Splits extracted document text into overlapping chunks for embedding.
+ *
+ * Paragraphs are kept whole when they fit; longer ones are split on sentences,
+ * then on words. Each chunk records the page range it spans and the section
+ * heading it falls under, so answers can point back to the source.
+ */
+export class TextChunker {
+    static chunkPages(pages: PdfPageText[], options: ChunkOptions): TextChunk[] {
+        const chunkOverlap = Math.min(options.chunkOverlap, Math.floor(options.chunkSize / 2));
+        // Leave room for the overlap so no chunk grows past chunkSize
+        const units = this.toUnits(pages, options.chunkSize - chunkOverlap);
+
+        const chunks: TextChunk[] = [];
+        let current: TextUnit[] = [];
+        let length = 0;
+        let overlapUnits = 0;   // Leading units in `current` carried over from the previous chunk
+        let hasNewText = false;
+
+        const emit = () => {
+            const text = current.map(unit => unit.text).join('\n');
+            const firstNew = current[overlapUnits] || current[0];
+            chunks.push({
+                index: chunks.length,
+                text,
+                pageStart: current[0].page,
+                pageEnd: current[current.length - 1].page,
+                section: firstNew.section,
+            });
+
+            const tail = this.overlapTail(text, chunkOverlap);
+            const last = current[current.length - 1];
+            current = tail ? [{ text: tail, page: last.page, section: last.section }] : [];
+            overlapUnits = current.length;
+            length = tail.length;
+            hasNewText = false;
+        };
+
+        for (const unit of units) {
+            if (hasNewText && length + unit.text.length + 1 > options.chunkSize) {
+                emit();
+            }
+            current.push(unit);
+            length += unit.text.length + 1;
+            hasNewText = true;
+        }
+
+        if (hasNewText) {
+            emit();
+        }
+
+        return chunks;
+    }
+
+    /**
+     * Heuristic heading detection for extracted PDF lines:
+     * numbered headings ("2.1 Agenda"), short lines ending in ":" or short ALL CAPS lines.
+     */
+    static isHeading(line: string): boolean {
+        const text = line.trim();
+        if (text.length < 3 || text.length > 80 || /[.,;]$/.test(text)) return false;
+
+        const words = text.split(/\s+/).length;
+        if (/^(\d+(\.\d+)*\.?|[IVX]+\.)\s+[A-Za-z]/.test(text) && words <= 10) return true;
+        if (text.endsWith(':') && words <= 8) return true;
+
+        const letters = text.replace(/[^A-Za-z]/g, '');
+        return letters.length >= 3 && letters === letters.toUpperCase() && words <= 10;
+    }
+
+    /**
+     * Flatten pages into paragraph-sized units tagged with page and section
+     */
+    private static toUnits(pages: PdfPageText[], chunkSize: number): TextUnit[] {
+        const units: TextUnit[] = [];
+        let section: string | undefined;
+
+        for (const page of pages) {
+            for (const paragraph of page.text.split(/\n\s*\n/)) {
+                let lines: string[] = [];
+
+                const flush = () => {
+                    if (lines.length === 0) return;
+                    for (const piece of this.splitToFit(lines.join(' '), chunkSize)) {
+                        units.push({ text: piece, page: page.pageNumber, section });
+                    }
+                    lines = [];
+                };
+
+                for (const rawLine of paragraph.split('\n')) {
+                    const line = rawLine.trim();
+                    if (!line) continue;
+
+                    if (this.isHeading(line)) {
+                        flush();
+                        section = line.replace(/:$/, '');
+                        units.push({ text: line, page: page.pageNumber, section });
+                        continue;
+                    }
+                    lines.push(line);
+                }
+                flush();
+            }
+        }
+
+        return units;
+    }
+
+    /**
+     * Split text that is longer than `maxLength` on sentences, then on words
+     */
+    private static splitToFit(text: string, maxLength: number): string[] {
+        if (text.length <= maxLength) return [text];
+
+        const pieces: string[] = [];
+        let buffer = '';
+
+        const push = (part: string) => {
+            if (buffer && buffer.length + part.length + 1 > maxLength) {
+                pieces.push(buffer);
+                buffer = '';
+            }
+            buffer = buffer ? `${buffer} ${part}` : part;
+        };
+
+        for (const sentence of text.split(SENTENCE_BOUNDARY)) {
+            if (sentence.length <= maxLength) {
+                push(sentence);
+                continue;
+            }
+            for (const word of sentence.split(/\s+/)) {
+                // A single "word" longer than a chunk (e.g. a URL dump) is cut hard
+                for (let i = 0; i < word.length; i += maxLength) {
+                    push(word.substring(i, i + maxLength));
+                }
+            }
+        }
+
+        if (buffer) pieces.push(buffer);
+        return pieces;
+    }
+
+    /**
+     * Last `overlap` characters of a chunk, starting on a word boundary
+     */
+    private static overlapTail(text: string, overlap: number): string {
+        if (overlap <= 0 || text.length <= overlap) return overlap > 0 ? text : '';
+
+        const tail = text.substring(text.length - overlap);
+        const firstSpace = tail.search(/\s/);
+        return (firstSpace === -1 ? tail : tail.substring(firstSpace)).trim();
+    }
+}
@@ -0,0 +1,48 @@
+import config from '../../config';
+import { VectorStore } from './types';
+import { SupabaseVectorStore } from './supabaseVectorStore';
+import { MongoVectorStore } from './mongoVectorStore';
+
+export * from './types';
+export { cosineSimilarity } from './similarity';
+
+let store: VectorStore | null = null;
+
+/**
+ * Build a vector store for a backend name
+ */
+export const createVectorStore = (name: string = config.vectorStore): VectorStore => {
+    switch (name) {
+        case 'mongo':
+            return new MongoVectorStore();
+        case 'supabase':
+            return new SupabaseVectorStore();
+        default:
+            console.warn(`⚠️ Unknown VECTOR_STORE '${name}', falling back to supabase`);
+            return new SupabaseVectorStore();
+    }
+};
+
+/**
+ * Shared vector store selected through config (VECTOR_STORE)
+ * Falls back to MongoDB when Supabase is selected but not configured,
+ * instead of silently storing nothing and returning no matches.
+ */
+export const getVectorStore = (): VectorStore => {
+    if (!store) {
+        store = createVectorStore();
+        if (!store.isAvailable()) {
+            console.warn(`⚠️ Vector store '${store.name}' is not configured. Falling back to MongoDB.`);
+            store = new MongoVectorStore();
+        }
+        console.log(`🗂️ Vector store: ${store.name}`);
+    }
+    return store;
+};
+
+/**
+ * Override the shared vector store (e.g. for scripts and tests)
+ */
+export const setVectorStore = (next: VectorStore): void => {
+    store = next;
+};
@@ -0,0 +1,117 @@
+import mongoose from 'mongoose';
+import { EventEmbedding } from '../../models/EventEmbedding';
+import { cosineSimilarity } from './similarity';
+import { VectorCategory, VectorMatch, VectorStore } from './types';
+
+/**
+ * MongoDB `event_embeddings` collection with in-process cosine similarity
+ * Candidates are loaded per event + category, so no Atlas vector index is required.
+ */
+export class MongoVectorStore implements VectorStore {
+    readonly name = 'mongo';
+
+    isAvailable(): boolean {
+        return true;
+    }
+
+    private static toObjectId(id: string): mongoose.Types.ObjectId | null {
+        return mongoose.Types.ObjectId.isValid(id) ? new mongoose.Types.ObjectId(id) : null;
+    }
+
+    async storeEventDocChunk(
+        eventId: string,
+        text: string,
+        embedding: number[],
+        chunkIndex: number,
+        metadata: Record<string, any> = {}
+    ): Promise<void> {
+        await EventEmbedding.create({
+            eventId,
+            category: 'doc',
+            content: text,
+            chunks: text,
+            embedding,
+            chunkIndex,
+            extraMetadata: { ...metadata, chunk_index: chunkIndex },
+        });
+    }
+
+    async storeEventMetadata(eventId: string, text: string, embedding: number[], metadata: any): Promise<void> {
+        await EventEmbedding.create({
+            eventId,
+            category: 'meta',
+            content: JSON.stringify(metadata),
+            chunks: text,
+            embedding,
+            extraMetadata: metadata,
+        });
+    }
+
+    async storeMemberProfile(eventId: string, userId: string, text: string, embedding: number[], profileData: any): Promise<void> {
+        await EventEmbedding.create({
+            eventId,
+            category: 'member',
+            content: JSON.stringify(profileData),
+            chunks: text,
+            embedding,
+            userId: MongoVectorStore.toObjectId(userId) || undefined,
+            extraMetadata: { user_id: userId, ...profileData },
+        });
+    }
+
+    async storeEventSession(eventId: string, text: string, embedding: number[], metadata: Record<string, any>): Promise<void> {
+        await EventEmbedding.create({
+            eventId,
+            category: 'session',
+            content: JSON.stringify(metadata),
+            chunks: text,
+            embedding,
+            extraMetadata: metadata,
+        });
+    }
+
+    async searchEventEmbeddings(
+        embedding: number[],
+        eventId: string,
+        category: VectorCategory,
+        matchCount: number = 5,
+        threshold: number = 0.5
+    ): Promise<VectorMatch[]> {
+        const eventObjectId = MongoVectorStore.toObjectId(eventId);
+        if (!eventObjectId || !embedding || embedding.length === 0) return [];
+
+        console.log(`   🔍 [Mongo] Searching '${category}' in Event: ${eventId}`);
+
+        const candidates = await EventEmbedding.find({ eventId: eventObjectId, category }).lean();
+
+        return candidates
+            .map(row => ({
+                id: row._id.toString(),
+                event_id: eventId,
+                category: row.category,
+                content: row.content,
+                chunks: row.chunks,
+                chunk_index: row.chunkIndex,
+                extra_metadata: row.extraMetadata || {},
+                similarity: cosineSimilarity(embedding, row.embedding),
+            }))
+            .filter(match => match.similarity >= threshold)
+            .sort((a, b) => b.similarity - a.similarity)
+            .slice(0, matchCount);
+    }
+
+    async deleteMemberEmbedding(eventId: string, userId: string): Promise<void> {
+        await EventEmbedding.deleteMany({
+            eventId: MongoVectorStore.toObjectId(eventId),
+            category: 'member',
+            'extraMetadata.user_id': userId,
+        });
+    }
+
+    async deleteEventEmbeddings(eventId: string, category?: VectorCategory): Promise<void> {
+        await EventEmbedding.deleteMany({
+            eventId: MongoVectorStore.toObjectId(eventId),
+            ...(category && { category }),
+        });
+    }
+}
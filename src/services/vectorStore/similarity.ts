@@ -0,0 +1,14 @@
+/**
+ * Cosine similarity between two vectors (0 when either is empty/zero or dimensions differ)
+ */
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+    if (!a || !b || a.length === 0 || a.length !== b.length) return 0;
+
+    let dot = 0, na = 0, nb = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        na += a[i] * a[i];
+        nb += b[i] * b[i];
+    }
+    return (na === 0 || nb === 0) ? 0 : dot / (Math.sqrt(na) * Math.sqrt(nb));
+};
@@ -0,0 +1,53 @@
+import { SupabaseService } from '../supabaseService';
+import { VectorCategory, VectorMatch, VectorStore } from './types';
+
+/**
+ * Supabase `event_embeddings` table + `match_event_embeddings` RPC
+ */
+export class SupabaseVectorStore implements VectorStore {
+    readonly name = 'supabase';
+
+    isAvailable(): boolean {
+        return SupabaseService.isConfigured();
+    }
+
+    storeEventDocChunk(
+        eventId: string,
+        text: string,
+        embedding: number[],
+        chunkIndex: number,
+        metadata: Record<string, any> = {}
+    ): Promise<void> {
+        return SupabaseService.storeEventDocChunk(eventId, text, embedding, chunkIndex, metadata);
+    }
+
+    storeEventMetadata(eventId: string, text: string, embedding: number[], metadata: any): Promise<void> {
+        return SupabaseService.storeEventMetadata(eventId, text, embedding, metadata);
+    }
+
+    storeMemberProfile(eventId: string, userId: string, text: string, embedding: number[], profileData: any): Promise<void> {
+        return SupabaseService.storeMemberProfile(eventId, userId, text, embedding, profileData);
+    }
+
+    storeEventSession(eventId: string, text: string, embedding: number[], metadata: Record<string, any>): Promise<void> {
+        return SupabaseService.storeEventSession(eventId, text, embedding, metadata);
+    }
+
+    async searchEventEmbeddings(
+        embedding: number[],
+        eventId: string,
+        category: VectorCategory,
+        matchCount: number = 5,
+        threshold: number = 0.5
+    ): Promise<VectorMatch[]> {
+        return SupabaseService.searchEventEmbeddings(embedding, eventId, category, matchCount, threshold);
+    }
+
+    deleteMemberEmbedding(eventId: string, userId: string): Promise<void> {
+        return SupabaseService.deleteMemberEmbedding(eventId, userId);
+    }
+
+    deleteEventEmbeddings(eventId: string, category?: VectorCategory): Promise<void> {
+        return SupabaseService.deleteEventEmbeddings(eventId, category);
+    }
+}
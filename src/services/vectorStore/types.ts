@@ -0,0 +1,60 @@
+/**
+ * Categories stored in `event_embeddings`
+ * - meta: event summary/metadata
+ * - doc: PDF/document chunks
+ * - member: member profiles
+ * - session: agenda sessions (see AgendaService)
+ */
+export type VectorCategory = 'meta' | 'doc' | 'member' | 'session';
+
+/**
+ * A search hit. Field names follow the Supabase `match_event_embeddings` RPC
+ * so every backend returns the same shape.
+ */
+export interface VectorMatch {
+    id: string;
+    event_id: string;
+    category: VectorCategory;
+    content: string;
+    chunks: string;
+    chunk_index?: number;
+    extra_metadata: Record<string, any>;
+    similarity: number;
+}
+
+export interface VectorStore {
+    readonly name: string;
+
+    /** Whether the backend is configured and usable */
+    isAvailable(): boolean;
+
+    /** `metadata` (page range, section, source file...) is kept in extra_metadata */
+    storeEventDocChunk(
+        eventId: string,
+        text: string,
+        embedding: number[],
+        chunkIndex: number,
+        metadata?: Record<string, any>
+    ): Promise<void>;
+    storeEventMetadata(eventId: string, text: string, embedding: number[], metadata: any): Promise<void>;
+    storeMemberProfile(eventId: string, userId: string, text: string, embedding: number[], profileData: any): Promise<void>;
+    /** `metadata` holds the session id, times, room, track and speaker names */
+    storeEventSession(eventId: string, text: string, embedding: number[], metadata: Record<string, any>): Promise<void>;
+
+    /**
+     * Cosine-similarity search within one event and category.
+     * Returns at most `matchCount` hits with similarity >= `threshold`, best first.
+     */
+    searchEventEmbeddings(
+        embedding: number[],
+        eventId: string,
+        category: VectorCategory,
+        matchCount?: number,
+        threshold?: number
+    ): Promise<VectorMatch[]>;
+
+    deleteMemberEmbedding(eventId: string, userId: string): Promise<void>;
+
+    /** Delete all embeddings for an event, optionally limited to one category */
+    deleteEventEmbeddings(eventId: string, category?: VectorCategory): Promise<void>;
+}
@@ -1,9 +1,10 @@
 import { Request } from "express";
+import { PlatformRole } from "../config/roles";
 
 export interface AuthRequest extends Request {
   user?: {
     userId: string;
     email: string;
-    role?: string;
+    roles?: PlatformRole[];
   };
 }
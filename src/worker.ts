@@ -0,0 +1,38 @@
+import mongoose from "mongoose";
+import config from "./config";
+import { JobWorker } from "./services/jobQueue";
+
+/**
+ * Standalone background job worker
+ * Run alongside the API with JOB_WORKER_IN_PROCESS=false:
+ *   npm run worker        (compiled)
+ *   npm run worker:dev    (ts-node)
+ */
+
+const worker = new JobWorker();
+
+const startWorker = async (): Promise<void> => {
+  try {
+    await mongoose.connect(config.mongodbUri);
+    console.log("✅ MongoDB connected successfully");
+    console.log("   🗄️  Database Name:", mongoose.connection.name);
+
+    worker.start();
+  } catch (error) {
+    console.error("Failed to start worker:", error);
+    process.exit(1);
+  }
+};
+
+// Let the current job finish before exiting
+const shutdown = async (signal: string): Promise<void> => {
+  console.log(`${signal} signal received: stopping job worker`);
+  await worker.stop();
+  await mongoose.connection.close();
+  process.exit(0);
+};
+
+process.on("SIGTERM", () => shutdown("SIGTERM"));
+process.on("SIGINT", () => shutdown("SIGINT"));
+
+startWorker();
@@ -0,0 +1,264 @@
+import express from "express";
+import jwt from "jsonwebtoken";
+import mongoose from "mongoose";
+import request from "supertest";
+import config from "../../src/config";
+import eventRoutes from "../../src/routes/eventRoutes";
+import eventConnectionRoutes from "../../src/routes/eventConnectionRoutes";
+import { Event } from "../../src/models/Event";
+import { User } from "../../src/models/User";
+import {
+    AssistantIntent,
+    AssistantPipeline,
+    AssistantResponse,
+    RuleIntentClassifier,
+    setIntentClassifier,
+} from "../../src/pipelines/assistant_pipeline";
+import { setLlmProvider } from "../../src/services/llm";
+import { StubProvider } from "../../src/services/llm/stubProvider";
+import { cosineSimilarity, setVectorStore, VectorCategory, VectorMatch, VectorStore } from "../../src/services/vectorStore";
+import { ConversationService } from "../../src/services/conversationService";
+import { AnalyticsService } from "../../src/services/analyticsService";
+import { RsvpService } from "../../src/services/rsvpService";
+
+/**
+ * Assistant regression suite: sample questions through the rule classifier and the whole
+ * pipeline (stub LLM, in-memory vector store), directly and through both assistant routes
+ * (POST /events/:id/assistant and POST /event-connections/ask). Database calls are stubbed.
+ */
+
+const eventId = new mongoose.Types.ObjectId().toString();
+const userId = new mongoose.Types.ObjectId().toString();
+const llm = new StubProvider(768);
+
+const event = {
+    _id: eventId,
+    name: "Climate Tech Summit",
+    headline: "Founders, investors and researchers working on climate",
+    description: "A one-day summit on energy storage and carbon removal.",
+    dateTime: new Date("2026-11-20T09:00:00Z"),
+    location: "Expo Centre, Mumbai",
+    capacity: 200,
+};
+
+const profile = {
+    name: "Ada",
+    role: "Founder",
+    primaryGoal: "Raise a seed round",
+    company: "GridCell",
+    oneLiner: "Building battery storage for rural grids",
+};
+
+// Indexed content of the event, per category
+const fixtures: Record<VectorCategory, { chunks: string; extra_metadata: Record<string, any> }[]> = {
+    session: [
+        { chunks: "Keynote: the future of battery storage, 10:00 in Hall A", extra_metadata: { session_id: "s1" } },
+        { chunks: "Workshop: carbon removal markets, 14:00 in Room 2", extra_metadata: { session_id: "s2" } },
+    ],
+    doc: [
+        { chunks: "Venue guide: parking is available at gate 3, the accessible entrance is at gate 1", extra_metadata: { chunk_id: "pdf0_chunk0", pdf_index: 0, page_start: 2, page_end: 2 } },
+        { chunks: "Sponsorship brochure: sponsors get a booth and a speaking slot", extra_metadata: { chunk_id: "pdf1_chunk0", pdf_index: 1, page_start: 1, page_end: 1 } },
+    ],
+    member: [
+        { chunks: "Priya Shah, partner at Seed Capital, investor in climate startups", extra_metadata: { user_id: "m1" } },
+        { chunks: "Rahul Mehta, CTO at GreenGrid, works on grid software", extra_metadata: { user_id: "m2" } },
+    ],
+    meta: [
+        { chunks: "Climate Tech Summit: founders, investors and researchers on energy storage and carbon removal", extra_metadata: {} },
+    ],
+};
+
+/**
+ * Vector store over the fixtures, embedded with the stub provider
+ */
+class FixtureVectorStore implements VectorStore {
+    readonly name = "fixtures";
+
+    isAvailable(): boolean {
+        return true;
+    }
+
+    async searchEventEmbeddings(
+        embedding: number[],
+        searchEventId: string,
+        category: VectorCategory,
+        matchCount: number = 5,
+        threshold: number = 0
+    ): Promise<VectorMatch[]> {
+        if (searchEventId !== eventId) return [];
+        const matches = await Promise.all(fixtures[category].map(async (fixture, i) => ({
+            id: `${category}-${i}`,
+            event_id: eventId,
+            category,
+            content: fixture.chunks,
+            chunks: fixture.chunks,
+            extra_metadata: fixture.extra_metadata,
+            similarity: cosineSimilarity(embedding, await llm.embed(fixture.chunks)),
+        })));
+        return matches
+            .filter(match => match.similarity >= threshold)
+            .sort((a, b) => b.similarity - a.similarity)
+            .slice(0, matchCount);
+    }
+
+    async storeEventDocChunk(): Promise<void> { }
+    async storeEventMetadata(): Promise<void> { }
+    async storeMemberProfile(): Promise<void> { }
+    async storeEventSession(): Promise<void> { }
+    async deleteMemberEmbedding(): Promise<void> { }
+    async deleteEventEmbeddings(): Promise<void> { }
+}
+
+interface AssistantCase {
+    flow: string;
+    question: string;
+    intent: AssistantIntent;
+    sources: string[]; // Source categories the answer must draw on
+}
+
+const cases: AssistantCase[] = [
+    // PERSONAL
+    { flow: "personal", question: "Is this summit useful for me as a battery storage founder?", intent: "PERSONAL", sources: ["profile"] },
+    { flow: "personal", question: "Should I attend if I want to raise a seed round?", intent: "PERSONAL", sources: ["profile"] },
+    // Member search
+    { flow: "member search", question: "Are there any investors in climate startups?", intent: "MEMBER_DISCOVERY", sources: ["member"] },
+    { flow: "member search", question: "Who is the CTO at GreenGrid?", intent: "MEMBER_DISCOVERY", sources: ["member"] },
+    { flow: "member count", question: "How many people are coming?", intent: "MEMBER_DISCOVERY", sources: ["db_count"] },
+    // Sessions
+    { flow: "session", question: "Which session covers the future of battery storage?", intent: "CONTENT", sources: ["session"] },
+    { flow: "session", question: "When is the carbon removal markets workshop in Room 2?", intent: "CONTENT", sources: ["session"] },
+    { flow: "session time", question: "Where is the keynote on the future of battery storage?", intent: "METADATA", sources: ["db_meta", "session"] },
+    // Documents
+    { flow: "document", question: "What topics does the sponsorship brochure list: do sponsors get a booth and a speaking slot?", intent: "CONTENT", sources: ["doc"] },
+    { flow: "venue", question: "Is parking available at gate 3 of the venue?", intent: "METADATA", sources: ["db_meta"] },
+    { flow: "document", question: "Tell me about parking: is it available at gate 3, and is there an accessible entrance?", intent: "GENERAL", sources: ["doc"] },
+    // Event record and greetings
+    { flow: "metadata", question: "When does it start?", intent: "METADATA", sources: ["db_meta"] },
+    { flow: "greeting", question: "Hello there", intent: "GENERAL", sources: [] },
+];
+
+// Query stub: awaitable like a mongoose query, with the chained calls the code uses
+const query = <T>(result: T) => {
+    const chain: any = {
+        select: () => chain,
+        lean: () => chain,
+        then: (resolve: (value: T) => unknown, reject: (reason: unknown) => unknown) =>
+            Promise.resolve(result).then(resolve, reject),
+    };
+    return chain;
+};
+
+const expectAssistantResponse = (response: AssistantResponse, expected: AssistantCase) => {
+    expect(response).toEqual(expect.objectContaining({
+        answer: expect.any(String),
+        intent: expected.intent,
+        sources: expect.any(Array),
+        confidence: expect.any(Number),
+        citations: expect.any(Array),
+        grounded: expect.any(Boolean),
+        unsupportedClaims: expect.any(Array),
+    }));
+    expect(response.answer.length).toBeGreaterThan(0);
+    expect(response.confidence).toBeGreaterThan(0);
+    expect(response.confidence).toBeLessThanOrEqual(100);
+
+    response.sources.forEach(source => {
+        expect(source).toEqual({ category: expect.any(String), snippet: expect.any(String) });
+    });
+    expect(response.sources.map(source => source.category)).toEqual(expect.arrayContaining(expected.sources));
+
+    response.citations.forEach((citation, i) => {
+        expect(citation.ref).toBe(i + 1);
+        expect(typeof citation.text).toBe("string");
+    });
+};
+
+beforeAll(() => {
+    setLlmProvider(llm);
+    setVectorStore(new FixtureVectorStore());
+    setIntentClassifier(new RuleIntentClassifier());
+});
+
+beforeEach(() => {
+    jest.spyOn(Event, "findById").mockImplementation(((id: string) => query(id === eventId ? event : null)) as any);
+    jest.spyOn(User, "findById").mockImplementation(((id: string) =>
+        query(id === userId ? { _id: userId, isBlocked: false, accessRoles: ["member"], ...profile } : null)) as any);
+    jest.spyOn(RsvpService, "getCounts").mockResolvedValue({ going: 42, maybe: 3, waitlisted: 5 } as any);
+});
+
+describe("RuleIntentClassifier", () => {
+    const classifier = new RuleIntentClassifier();
+
+    it.each(cases)("$flow: \"$question\" -> $intent", async ({ question, intent }) => {
+        expect(await classifier.classify(question)).toBe(intent);
+    });
+});
+
+describe("AssistantPipeline.askQuestion", () => {
+    it.each(cases)("$flow: \"$question\"", async (expected) => {
+        const response = await AssistantPipeline.askQuestion(eventId, expected.question, userId);
+
+        expectAssistantResponse(response, expected);
+    });
+
+    it("answers counts from the RSVP totals", async () => {
+        const response = await AssistantPipeline.askQuestion(eventId, "How many people are coming?", userId);
+
+        expect(response.answer).toBe("There are currently 42 confirmed attendees (capacity 200). 5 more are on the waitlist.");
+    });
+
+    it("answers an unknown event without calling the model", async () => {
+        const generate = jest.spyOn(llm, "generate");
+        const response = await AssistantPipeline.askQuestion(new mongoose.Types.ObjectId().toString(), "Who is attending?", userId);
+
+        expect(response.answer).toBe("I couldn't find this event.");
+        expect(generate).not.toHaveBeenCalled();
+    });
+});
+
+describe("assistant routes", () => {
+    const app = express();
+    app.use(express.json());
+    app.use("/api/events", eventRoutes);
+    app.use("/api/event-connections", eventConnectionRoutes);
+
+    const token = jwt.sign({ userId, email: "ada@example.com", type: "access" }, config.jwtSecret);
+    const conversation = { _id: new mongoose.Types.ObjectId(), messages: [] };
+
+    // Both endpoints return the pipeline's response; they only wrap it differently
+    const routes = [
+        {
+            route: "POST /events/:id/assistant",
+            ask: (question: string) => request(app).post(`/api/events/${eventId}/assistant`)
+                .set("Authorization", `Bearer ${token}`).send({ question }),
+            unwrap: (body: any) => body.data,
+        },
+        {
+            route: "POST /event-connections/ask",
+            ask: (question: string) => request(app).post("/api/event-connections/ask")
+                .set("Authorization", `Bearer ${token}`).send({ eventId, question }),
+            unwrap: ({ success, conversationId, ...response }: any) => response,
+        },
+    ];
+
+    beforeEach(() => {
+        jest.spyOn(ConversationService, "getOrCreate").mockResolvedValue(conversation as any);
+        jest.spyOn(ConversationService, "appendTurn").mockResolvedValue();
+        jest.spyOn(AnalyticsService, "track").mockReturnValue();
+    });
+
+    describe.each(routes)("$route", ({ ask, unwrap }) => {
+        it.each(cases.filter(c => ["personal", "member search", "session", "document"].includes(c.flow)))(
+            "$flow: \"$question\"",
+            async (expected) => {
+                const res = await ask(expected.question);
+
+                expect(res.status).toBe(200);
+                expectAssistantResponse(unwrap(res.body), expected);
+                expect(ConversationService.appendTurn).toHaveBeenCalledWith(
+                    conversation, expected.question, unwrap(res.body).answer, undefined
+                );
+            }
+        );
+    });
+});
@@ -0,0 +1,168 @@
+import express from "express";
+import jwt from "jsonwebtoken";
+import mongoose from "mongoose";
+import request from "supertest";
+import config from "../../src/config";
+import eventConnectionRoutes from "../../src/routes/eventConnectionRoutes";
+import { User } from "../../src/models/User";
+import EventMember from "../../src/models/EventMember";
+import { RbacService } from "../../src/services/rbacService";
+import { MemberManagementService } from "../../src/services/memberManagementService";
+import { RsvpService } from "../../src/services/rsvpService";
+import { JobQueueService } from "../../src/services/jobQueue";
+
+/**
+ * Member management on /event-connections: authentication, event-scoped permissions
+ * and the fields an organizer may change. Database calls are stubbed.
+ */
+
+const organizerId = new mongoose.Types.ObjectId().toString();
+const memberId = new mongoose.Types.ObjectId().toString();
+const eventA = new mongoose.Types.ObjectId().toString(); // Run by the organizer
+const eventB = new mongoose.Types.ObjectId().toString(); // Someone else's event
+
+const app = express();
+app.use(express.json());
+app.use("/api/event-connections", eventConnectionRoutes);
+
+const token = jwt.sign({ userId: organizerId, email: "organizer@example.com", type: "access" }, config.jwtSecret);
+const auth = { Authorization: `Bearer ${token}` };
+
+beforeEach(() => {
+    // authMiddleware and RbacService.getPlatformRoles read the user
+    jest.spyOn(User, "findById").mockReturnValue({
+        select: jest.fn().mockResolvedValue({ _id: organizerId, isBlocked: false, accessRoles: ["member"] }),
+    } as any);
+    jest.spyOn(RbacService, "getEventRoles").mockImplementation(async (_userId, eventId) =>
+        eventId === eventA ? ["organizer"] : []
+    );
+});
+
+describe("member management permissions", () => {
+    const calls = [
+        {
+            name: "add a member",
+            send: (eventId: string) => request(app).post("/api/event-connections/add-member-enhanced").set(auth)
+                .send({ eventId, memberData: { name: "Ada", email: "ada@example.com" } }),
+        },
+        {
+            name: "add members in bulk",
+            send: (eventId: string) => request(app).post("/api/event-connections/add-members-json").set(auth)
+                .send({ eventId, members: [{ name: "Ada", email: "ada@example.com" }] }),
+        },
+        {
+            name: "update a member",
+            send: (eventId: string) => request(app).put("/api/event-connections/update-member").set(auth)
+                .send({ eventId, userId: memberId, updates: { name: "Ada" } }),
+        },
+        {
+            name: "remove a member",
+            send: (eventId: string) => request(app).delete("/api/event-connections/remove-member").set(auth)
+                .send({ eventId, userId: memberId }),
+        },
+    ];
+
+    it.each(calls)("an organizer of another event cannot $name (403)", async ({ send }) => {
+        const addMember = jest.spyOn(MemberManagementService, "addMemberToEvent");
+        const updateMember = jest.spyOn(MemberManagementService, "updateMemberProfile");
+        const removeAttendee = jest.spyOn(RsvpService, "removeAttendee");
+        const enqueue = jest.spyOn(JobQueueService, "enqueue");
+        const findMembership = jest.spyOn(EventMember, "findOne");
+
+        const res = await send(eventB);
+
+        expect(res.status).toBe(403);
+        expect(res.body).toEqual({ error: "Forbidden", message: "Missing permission: events:manage_members" });
+        expect(addMember).not.toHaveBeenCalled();
+        expect(updateMember).not.toHaveBeenCalled();
+        expect(removeAttendee).not.toHaveBeenCalled();
+        expect(enqueue).not.toHaveBeenCalled();
+        expect(findMembership).not.toHaveBeenCalled();
+    });
+});
+
+describe("authentication", () => {
+    it.each([
+        ["get", "/api/event-connections/participants/" + eventA],
+        ["post", "/api/event-connections/add-member-enhanced"],
+        ["put", "/api/event-connections/update-member"],
+        ["delete", "/api/event-connections/remove-member"],
+        ["post", "/api/event-connections/ask"],
+    ] as const)("%s %s without a token returns 401", async (method, path) => {
+        const res = await request(app)[method](path).send({ eventId: eventA });
+
+        expect(res.status).toBe(401);
+        expect(res.body.error).toBe("Unauthorized");
+    });
+
+    it("rejects a token signed with another secret", async () => {
+        const forged = jwt.sign({ userId: organizerId, type: "access" }, "not-the-secret");
+        const res = await request(app)
+            .get(`/api/event-connections/participants/${eventA}`)
+            .set("Authorization", `Bearer ${forged}`);
+
+        expect(res.status).toBe(401);
+    });
+});
+
+describe("PUT /update-member", () => {
+    it("only passes MEMBER_UPDATABLE_FIELDS to the service", async () => {
+        jest.spyOn(EventMember, "findOne").mockResolvedValue({ eventId: eventA, userId: memberId } as any);
+        const updateMember = jest.spyOn(MemberManagementService, "updateMemberProfile")
+            .mockResolvedValue({ success: true, message: "Member updated" } as any);
+
+        const res = await request(app).put("/api/event-connections/update-member").set(auth).send({
+            eventId: eventA,
+            userId: memberId,
+            updates: {
+                name: "Ada Lovelace",
+                company: "Analytical Engines",
+                website: "https://example.com",
+                phoneNumber: "+44 20 0000 0000",
+                oneLiner: "Poet of numbers",
+                email: "attacker@example.com",
+                password: "hunter2",
+                accessRoles: ["admin"],
+                eventRoles: [{ eventId: eventB, role: "organizer" }],
+                profileEmbedding: [1, 2, 3],
+            },
+        });
+
+        expect(res.status).toBe(200);
+        expect(updateMember).toHaveBeenCalledWith(eventA, memberId, {
+            name: "Ada Lovelace",
+            company: "Analytical Engines",
+            website: "https://example.com",
+            phoneNumber: "+44 20 0000 0000",
+            oneLiner: "Poet of numbers",
+        });
+    });
+
+    it("maps the legacy bio field to oneLiner", async () => {
+        jest.spyOn(EventMember, "findOne").mockResolvedValue({ eventId: eventA, userId: memberId } as any);
+        const updateMember = jest.spyOn(MemberManagementService, "updateMemberProfile")
+            .mockResolvedValue({ success: true, message: "Member updated" } as any);
+
+        await request(app).put("/api/event-connections/update-member").set(auth).send({
+            eventId: eventA,
+            userId: memberId,
+            updates: { bio: "Poet of numbers", role: "admin" },
+        });
+
+        expect(updateMember).toHaveBeenCalledWith(eventA, memberId, { oneLiner: "Poet of numbers" });
+    });
+
+    it("returns 404 for someone who is not a member of the event", async () => {
+        jest.spyOn(EventMember, "findOne").mockResolvedValue(null);
+        const updateMember = jest.spyOn(MemberManagementService, "updateMemberProfile");
+
+        const res = await request(app).put("/api/event-connections/update-member").set(auth).send({
+            eventId: eventA,
+            userId: memberId,
+            updates: { name: "Ada" },
+        });
+
+        expect(res.status).toBe(404);
+        expect(updateMember).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,61 @@
+import mongoose from "mongoose";
+import { Event } from "../../src/models/Event";
+import { User } from "../../src/models/User";
+import { EventSearchService } from "../../src/services/eventSearchService";
+
+/**
+ * The results pipeline ranks ids only; the page of documents is loaded afterwards
+ */
+
+const userId = new mongoose.Types.ObjectId().toString();
+const first = new mongoose.Types.ObjectId();
+const second = new mongoose.Types.ObjectId();
+const deleted = new mongoose.Types.ObjectId();
+
+// Query stub: awaitable like a mongoose query, with the chained calls the code uses
+const query = <T>(result: T) => {
+    const chain: any = {
+        select: () => chain,
+        populate: () => chain,
+        lean: () => chain,
+        then: (resolve: (value: T) => unknown, reject: (reason: unknown) => unknown) =>
+            Promise.resolve(result).then(resolve, reject),
+    };
+    return chain;
+};
+
+describe("EventSearchService.search", () => {
+    it("returns the ranked page in order, loading full documents by id", async () => {
+        const pipelines: any[][] = [];
+        jest.spyOn(Event, "aggregate").mockImplementation(((pipeline: any[]) => {
+            pipelines.push(pipeline);
+            if (!pipeline.some(stage => stage.$facet)) return Promise.resolve([]);
+            return {
+                allowDiskUse: () => Promise.resolve([{
+                    results: [{ _id: second, score: 2 }, { _id: deleted, score: 1.5 }, { _id: first, score: 1 }],
+                    total: [{ count: 3 }],
+                }]),
+            };
+        }) as any);
+        const find = jest.spyOn(Event, "find").mockReturnValue(query([
+            { _id: first, name: "First", attendees: [] },
+            { _id: second, name: "Second", attendees: [userId] },
+        ]) as any);
+        jest.spyOn(User, "find").mockReturnValue(query([]) as any);
+
+        const { results, total } = await EventSearchService.search(
+            { q: "climate", sort: "relevance", limit: 10 }, userId, false
+        );
+
+        expect(results.map(event => [event.name, event.score, event.isJoined])).toEqual([
+            ["Second", 2, true],
+            ["First", 1, false],
+        ]);
+        expect(total).toBe(3);
+        expect(find).toHaveBeenCalledWith({ _id: { $in: [second, deleted, first] } });
+
+        // Only the series and sort keys are carried through the sort and group
+        const ranking = pipelines.find(pipeline => pipeline.some(stage => stage.$facet))!;
+        expect(ranking).toContainEqual({ $project: { seriesId: 1, score: 1, dateTime: 1 } });
+    });
+});
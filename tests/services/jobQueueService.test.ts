@@ -0,0 +1,49 @@
+import mongoose from "mongoose";
+import { Job } from "../../src/models/Job";
+import { JobQueueService } from "../../src/services/jobQueue";
+
+/**
+ * A worker only records the outcome of a job it still holds the lock on
+ */
+
+const workerId = "host:1";
+const job = {
+    _id: new mongoose.Types.ObjectId(),
+    type: "user.reembed",
+    attempts: 1,
+    maxAttempts: 3,
+} as any;
+
+describe("JobQueueService outcome updates", () => {
+    it("markCompleted only updates the job while this worker holds it", async () => {
+        const updateOne = jest.spyOn(Job, "updateOne").mockResolvedValue({ matchedCount: 1 } as any);
+
+        await expect(JobQueueService.markCompleted(job._id.toString(), workerId, { ok: true })).resolves.toBe(true);
+        expect(updateOne).toHaveBeenCalledWith(
+            { _id: job._id.toString(), status: "running", lockedBy: workerId },
+            expect.objectContaining({ $set: expect.objectContaining({ status: "completed", result: { ok: true } }) })
+        );
+    });
+
+    it("markCompleted reports a job re-claimed by another worker", async () => {
+        jest.spyOn(Job, "updateOne").mockResolvedValue({ matchedCount: 0 } as any);
+
+        await expect(JobQueueService.markCompleted(job._id.toString(), workerId)).resolves.toBe(false);
+    });
+
+    it("markFailed schedules a retry only while this worker holds the job", async () => {
+        const updateOne = jest.spyOn(Job, "updateOne").mockResolvedValue({ matchedCount: 1 } as any);
+
+        await expect(JobQueueService.markFailed(job, workerId, new Error("boom"))).resolves.toBe("pending");
+        expect(updateOne).toHaveBeenCalledWith(
+            { _id: job._id, status: "running", lockedBy: workerId },
+            expect.objectContaining({ $set: expect.objectContaining({ status: "pending", lastError: "boom" }) })
+        );
+    });
+
+    it("markFailed returns null for a job re-claimed by another worker", async () => {
+        jest.spyOn(Job, "updateOne").mockResolvedValue({ matchedCount: 0 } as any);
+
+        await expect(JobQueueService.markFailed(job, workerId, new Error("boom"))).resolves.toBeNull();
+    });
+});
@@ -0,0 +1,67 @@
+import mongoose from "mongoose";
+import EventMember from "../../src/models/EventMember";
+import { User } from "../../src/models/User";
+import { MemberManagementService } from "../../src/services/memberManagementService";
+import { setLlmProvider } from "../../src/services/llm";
+import { StubProvider } from "../../src/services/llm/stubProvider";
+import { setVectorStore, VectorStore } from "../../src/services/vectorStore";
+
+/**
+ * Organizer edits to a member's profile stay on the event membership
+ */
+
+const eventId = new mongoose.Types.ObjectId().toString();
+const userId = new mongoose.Types.ObjectId().toString();
+
+const vectorStore = {
+    name: "memory",
+    isAvailable: () => true,
+    deleteMemberEmbedding: jest.fn(async () => undefined),
+    storeMemberProfile: jest.fn(async () => undefined),
+} as unknown as VectorStore;
+
+beforeAll(() => {
+    setLlmProvider(new StubProvider(64));
+    setVectorStore(vectorStore);
+});
+
+beforeEach(() => {
+    jest.spyOn(User, "findById").mockReturnValue({
+        select: jest.fn().mockResolvedValue({ _id: userId, name: "Ada", company: "GridCell", oneLiner: "Founder", phoneNumber: "+910000000000" }),
+    } as any);
+});
+
+describe("MemberManagementService.updateMemberProfile", () => {
+    it("stores the edit on the membership and leaves the user's account alone", async () => {
+        const updateMembership = jest.spyOn(EventMember, "findOneAndUpdate").mockResolvedValue({
+            profile: { company: "Analytical Engines" },
+        } as any);
+        const updateUser = jest.spyOn(User, "findByIdAndUpdate");
+        const updateUserOne = jest.spyOn(User, "updateOne");
+
+        const result = await MemberManagementService.updateMemberProfile(eventId, userId, { company: "Analytical Engines" });
+
+        expect(result.success).toBe(true);
+        expect(updateMembership).toHaveBeenCalledWith(
+            { eventId, userId },
+            { $set: { "profile.company": "Analytical Engines" } },
+            { new: true }
+        );
+        expect(updateUser).not.toHaveBeenCalled();
+        expect(updateUserOne).not.toHaveBeenCalled();
+        // The event's member embedding uses the edited profile
+        expect(vectorStore.storeMemberProfile).toHaveBeenCalledWith(
+            eventId, userId, expect.stringContaining("Analytical Engines"), expect.any(Array),
+            expect.objectContaining({ name: "Ada", company: "Analytical Engines", bio: "Founder" })
+        );
+    });
+
+    it("fails for someone who is not a member of the event", async () => {
+        jest.spyOn(EventMember, "findOneAndUpdate").mockResolvedValue(null);
+
+        const result = await MemberManagementService.updateMemberProfile(eventId, userId, { name: "Ada L." });
+
+        expect(result).toEqual({ success: false, message: "User is not a member of this event" });
+        expect(vectorStore.storeMemberProfile).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,94 @@
+import { IRecurrenceRule } from "../../src/models/Event";
+import { RecurrenceService } from "../../src/services/recurrenceService";
+
+/**
+ * Rule parsing and expansion in the series' local time
+ */
+
+const parse = (input: Parameters<typeof RecurrenceService.parseRule>[0]) => RecurrenceService.parseRule(input);
+
+describe("RecurrenceService.parseRule", () => {
+    it("accepts a positioned weekday", () => {
+        expect(parse("FREQ=MONTHLY;BYDAY=-1FR;TZID=Europe/Berlin").rule).toEqual(expect.objectContaining({
+            freq: "MONTHLY",
+            byWeekday: [5],
+            bySetPos: -1,
+            tzid: "Europe/Berlin",
+        }));
+    });
+
+    it.each([
+        ["a monthly weekday without a position", "FREQ=MONTHLY;BYDAY=MO"],
+        ["several positioned weekdays", "FREQ=MONTHLY;BYDAY=1MO,-1FR"],
+        ["a mix of plain and positioned weekdays", "FREQ=MONTHLY;BYDAY=MO,1FR"],
+        ["several weekdays with BYSETPOS", "FREQ=MONTHLY;BYDAY=MO,FR;BYSETPOS=1"],
+        ["a position in both BYDAY and BYSETPOS", "FREQ=MONTHLY;BYDAY=1MO;BYSETPOS=-1"],
+        ["several month days", "FREQ=MONTHLY;BYMONTHDAY=1,15"],
+        ["a month day on a weekly rule", "FREQ=WEEKLY;BYMONTHDAY=1"],
+        ["an unknown weekday", "FREQ=WEEKLY;BYDAY=XX"],
+        ["an unknown time zone", "FREQ=WEEKLY;TZID=Mars/Olympus"],
+    ])("rejects %s", (_shape, rrule) => {
+        const parsed = parse(rrule);
+
+        expect(parsed.rule).toBeUndefined();
+        expect(parsed.error).toEqual(expect.any(String));
+    });
+});
+
+describe("RecurrenceService.expand", () => {
+    const weekly = (tzid?: string): IRecurrenceRule => ({ freq: "WEEKLY", interval: 1, tzid, exceptions: [], overrides: [] });
+
+    it("keeps the local time of day across a DST change", () => {
+        // 19:00 in Berlin: CET (UTC+1) in March, CEST (UTC+2) from 29 March 2026
+        const start = new Date("2026-03-19T18:00:00Z");
+        const slots = RecurrenceService.expand(weekly("Europe/Berlin"), start, start, new Date("2026-04-03T00:00:00Z"));
+
+        expect(slots.map(slot => slot.toISOString())).toEqual([
+            "2026-03-19T18:00:00.000Z",
+            "2026-03-26T18:00:00.000Z",
+            "2026-04-02T17:00:00.000Z",
+        ]);
+    });
+
+    it("uses the local weekday when it differs from the UTC one", () => {
+        // Monday 20:00 in Los Angeles is Tuesday in UTC
+        const start = new Date("2026-11-03T04:00:00Z");
+        const rule = { ...weekly("America/Los_Angeles"), byWeekday: [1, 3] }; // Monday and Wednesday
+        const slots = RecurrenceService.expand(rule, start, start, new Date("2026-11-06T00:00:00Z"));
+
+        expect(slots.map(slot => slot.toISOString())).toEqual([
+            "2026-11-03T04:00:00.000Z",
+            "2026-11-05T04:00:00.000Z",
+        ]);
+    });
+
+    it("expands a UTC series as before when no time zone is set", () => {
+        const start = new Date("2026-03-19T18:00:00Z");
+        const slots = RecurrenceService.expand(weekly(), start, start, new Date("2026-04-03T00:00:00Z"));
+
+        expect(slots.map(slot => slot.getUTCHours())).toEqual([18, 18, 18]);
+    });
+
+    it("skips an exception given as the local date", () => {
+        const start = new Date("2026-11-03T04:00:00Z");
+        const rule = { ...weekly("America/Los_Angeles"), exceptions: [new Date("2026-11-09")] };
+        const slots = RecurrenceService.expand(rule, start, start, new Date("2026-11-18T00:00:00Z"));
+
+        expect(slots.map(slot => slot.toISOString())).toEqual([
+            "2026-11-03T04:00:00.000Z",
+            "2026-11-17T04:00:00.000Z",
+        ]);
+    });
+
+    it("places the last Friday of the month in local time", () => {
+        const start = new Date("2026-10-30T17:00:00Z"); // 18:00 CET
+        const rule: IRecurrenceRule = { ...weekly("Europe/Berlin"), freq: "MONTHLY", byWeekday: [5], bySetPos: -1 };
+        const slots = RecurrenceService.expand(rule, start, start, new Date("2027-01-01T00:00:00Z"));
+
+        expect(slots.map(slot => slot.toISOString())).toEqual([
+            "2026-10-30T17:00:00.000Z",
+            "2026-11-27T17:00:00.000Z",
+            "2026-12-25T17:00:00.000Z",
+        ]);
+    });
+});